@@ -1,71 +1,25 @@
 import * as vscode from 'vscode';
-import { FormElementsChecker } from './formElementsChecker';
-import { ImageChecker } from './imageChecker';
-import { OtherAccessibilityChecker } from './otherAccessibilityChecker';
-import { AriaLabelRoleChecker } from './ariaLabelRoleChecker';
-import { TabIndexChecker } from './tabIndexChecker';
-import { SemanticHtmlChecker } from './semanticHtmlChecker';
-import { ColorContrastChecker } from './colorContrastChecker';
-import { KeyboardNavigationChecker } from './keyboardNavigationChecker';
-import { FocusManagementChecker } from './focusManagementChecker';
-import { InputPurposeChecker } from './inputPurposeChecker';
-import { LabelNameConsistencyChecker } from './labelNameConsistencyChecker';
-
-export interface AccessibilityIssue {
-	line: number;
-	issue: string;
-	severity: string;
-	range: vscode.Range;
-}
+import { AccessibilityEngine, AccessibilityIssue } from './accessibilityEngine';
+import { Baseline } from './baseline';
+import { RuleConfigLoader, RuleConfiguration, RuleSettings } from './ruleConfig';
+import { SourceRange } from './sourceRange';
+import { Suppressions } from './suppressions';
 
 export class AccessibilityChecker {
+	static readonly DIAGNOSTIC_SOURCE = 'MARSA11Y Checker';
 
 	/**
 	 * Run all accessibility checks on a document
 	 */
 	static checkAccessibilityIssues(document: vscode.TextDocument, diagnosticCollection: vscode.DiagnosticCollection): void {
-		const text = document.getText();
-		const lines = text.split('\n');
 		const issues: AccessibilityIssue[] = [];
 		const diagnostics: vscode.Diagnostic[] = [];
 
-		lines.forEach((line, index) => {
-			const lineNumber = index;
-
-			// Run all checks using modular checkers
-			const imageIssues = ImageChecker.checkImages(line, lineNumber);
-			const formIssues = FormElementsChecker.checkFormElements(line, lineNumber);
-			const otherIssues = OtherAccessibilityChecker.checkOtherAccessibility(line, lineNumber, text);
-			const ariaRoleIssues = AriaLabelRoleChecker.checkAriaLabelAndRole(line, lineNumber, text);
-			const tabIndexIssues = TabIndexChecker.checkTabIndex(line, lineNumber);
-			const semanticHtmlIssues = SemanticHtmlChecker.checkSemanticHtml(line, lineNumber, text);
-			
-			// New WCAG 2.1 mandatory checkers
-			const colorContrastIssues = ColorContrastChecker.checkColorContrastIssues(line, lineNumber);
-			const keyboardNavigationIssues = KeyboardNavigationChecker.checkKeyboardNavigation(line, lineNumber, text);
-			const focusManagementIssues = FocusManagementChecker.checkFocusManagement(line, lineNumber);
-			const inputPurposeIssues = InputPurposeChecker.checkInputPurpose(line, lineNumber);
-			const labelNameConsistencyIssues = LabelNameConsistencyChecker.checkLabelNameConsistency(line, lineNumber);
+		const allIssues = AccessibilityEngine.check(document.fileName, document.getText(), this.getConfiguration(document.uri), this.getBaseline(document.uri)).issues;
 
-			// Combine all issues
-			const allIssues = [
-				...imageIssues, 
-				...formIssues, 
-				...otherIssues, 
-				...ariaRoleIssues, 
-				...tabIndexIssues, 
-				...semanticHtmlIssues, 
-				...colorContrastIssues, 
-				...keyboardNavigationIssues, 
-				...focusManagementIssues, 
-				...inputPurposeIssues, 
-				...labelNameConsistencyIssues
-			];
-			
-			allIssues.forEach(issue => {
-				issues.push(issue);
-				diagnostics.push(this.createDiagnostic(issue.range, issue.issue, this.getSeverity(issue.severity)));
-			});
+		allIssues.forEach(issue => {
+			issues.push(issue);
+			diagnostics.push(this.createDiagnostic(issue, document.uri));
 		});
 
 		// Update diagnostics in the editor
@@ -81,7 +35,8 @@ export class AccessibilityChecker {
 			issues.forEach(issue => {
 				const severityIcon = issue.severity === 'HIGH' ? '🔴' : 
 									issue.severity === 'MEDIUM' ? '🟡' : '🟢';
-				console.log(`${severityIcon} Line ${issue.line}: ${issue.issue} (${issue.severity})`);
+				const criteria = issue.wcag.length > 0 ? `, WCAG ${issue.wcag.join(', ')} ${issue.level}` : '';
+				console.log(`${severityIcon} Line ${issue.line}: ${issue.issue} (${issue.severity}) [${issue.ruleId}${criteria}]`);
 			});
 			
 			console.log('=' .repeat(50));
@@ -90,14 +45,67 @@ export class AccessibilityChecker {
 	}
 
 	/**
-	 * Helper function to create diagnostics
+	 * Check a file that is not necessarily open in an editor and return the number of issues found
+	 */
+	static checkFile(uri: vscode.Uri, text: string, diagnosticCollection: vscode.DiagnosticCollection): number {
+		const issues = AccessibilityEngine.check(uri.fsPath, text, this.getConfiguration(uri), this.getBaseline(uri)).issues;
+		diagnosticCollection.set(uri, issues.map(issue => this.createDiagnostic(issue, uri)));
+		return issues.length;
+	}
+
+	/**
+	 * Resolve rule settings for a file from the marsa11yfix.rules setting and .marsa11yrc.json files
+	 */
+	static getConfiguration(uri: vscode.Uri): RuleConfiguration {
+		const settings = vscode.workspace.getConfiguration('marsa11yfix', uri).get<RuleSettings>('rules', {});
+		if (uri.scheme !== 'file') {
+			// Unsaved documents have no folder to look for config files in
+			const configuration = new RuleConfiguration();
+			configuration.merge(settings);
+			return configuration;
+		}
+
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+		return RuleConfigLoader.load(uri.fsPath, settings, workspaceFolder?.uri.fsPath);
+	}
+
+	/**
+	 * Get the baseline of the workspace folder containing a file, if one was created
+	 */
+	static getBaseline(uri: vscode.Uri): Baseline | null {
+		const workspaceFolder = uri.scheme === 'file' ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+		return workspaceFolder ? Baseline.load(workspaceFolder.uri.fsPath) : null;
+	}
+
+	/**
+	 * Helper function to create diagnostics, linking the rule ID to its explanation and the issue
+	 * to the other places in the file it concerns
 	 */
-	private static createDiagnostic(range: vscode.Range, message: string, severity: vscode.DiagnosticSeverity): vscode.Diagnostic {
-		const diagnostic = new vscode.Diagnostic(range, message, severity);
-		diagnostic.source = 'MARSA11Y Checker';
+	private static createDiagnostic(issue: AccessibilityIssue, uri: vscode.Uri): vscode.Diagnostic {
+		const diagnostic = new vscode.Diagnostic(this.toRange(issue.range), issue.issue, this.getSeverity(issue.severity));
+		diagnostic.source = this.DIAGNOSTIC_SOURCE;
+		diagnostic.code = issue.helpUrl ? {
+			value: issue.ruleId,
+			target: vscode.Uri.parse(issue.helpUrl)
+		} : issue.ruleId;
+		if (issue.ruleId === Suppressions.UNUSED_SUPPRESSION.ruleId) {
+			diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+		}
+		if (issue.related) {
+			diagnostic.relatedInformation = issue.related.map(related =>
+				new vscode.DiagnosticRelatedInformation(new vscode.Location(uri, this.toRange(related.range)), related.message)
+			);
+		}
 		return diagnostic;
 	}
 
+	/**
+	 * Convert an engine range to an editor range
+	 */
+	private static toRange(range: SourceRange): vscode.Range {
+		return new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character);
+	}
+
 	/**
 	 * Convert severity string to VS Code diagnostic severity
 	 */
@@ -0,0 +1,67 @@
+import { Baseline } from './baseline';
+import { MarkupParser } from './markupParser';
+import { RuleMetadata } from './ruleCatalog';
+import { RuleRegistry } from './ruleRegistry';
+import { RuleConfiguration } from './ruleConfig';
+import { SourceRange } from './sourceRange';
+import { SuppressedIssue, Suppressions } from './suppressions';
+
+export interface AccessibilityIssue extends RuleMetadata {
+	line: number;
+	issue: string;
+	severity: string;
+	range: SourceRange;
+	// Other places in the file that explain the issue, e.g. the other uses of a duplicate id
+	related?: RelatedLocation[];
+}
+
+/**
+ * A place in the checked file that an issue refers to
+ */
+export interface RelatedLocation {
+	range: SourceRange;
+	message: string;
+}
+
+/**
+ * Result of checking one document
+ */
+export interface AccessibilityReport {
+	// Issues to report, including unused suppression comments
+	issues: AccessibilityIssue[];
+	// Issues silenced by marsa11y-disable comments
+	suppressed: SuppressedIssue[];
+	// Known issues recorded in the baseline file
+	baselined: AccessibilityIssue[];
+}
+
+/**
+ * Runs the rules on file contents without depending on the editor, so the same checks
+ * work in the extension and on the command line
+ */
+export class AccessibilityEngine {
+	/**
+	 * Run every registered rule that applies to the file, honour suppression comments and the
+	 * baseline, and return the remaining issues in document order
+	 */
+	static check(fileName: string, text: string, configuration: RuleConfiguration = new RuleConfiguration(), baseline: Baseline | null = null): AccessibilityReport {
+		const htmlDocument = MarkupParser.parse(text, fileName);
+		const result = Suppressions.apply(htmlDocument, RuleRegistry.runRules(htmlDocument, fileName, configuration));
+		const issues = result.active;
+
+		// Unused suppressions are configured like any other rule
+		const unusedRuleId = Suppressions.UNUSED_SUPPRESSION.ruleId;
+		if (configuration.isEnabled(unusedRuleId)) {
+			const severity = configuration.getSeverity(unusedRuleId);
+			issues.push(...result.unused.map(issue => ({ ...issue, severity: severity ?? issue.severity })));
+		}
+
+		issues.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+		if (!baseline) {
+			return { issues: issues, suppressed: result.suppressed, baselined: [] };
+		}
+
+		const baselineResult = baseline.apply(fileName, text, issues);
+		return { issues: baselineResult.active, suppressed: result.suppressed, baselined: baselineResult.baselined };
+	}
+}
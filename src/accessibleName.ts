@@ -0,0 +1,324 @@
+import { AriaSpec } from './ariaSpec';
+import { HtmlDocument, HtmlElement, HtmlNode } from './htmlParser';
+
+/**
+ * Where an accessible name comes from
+ */
+export type NameSource = 'aria-labelledby' | 'aria-label' | 'label' | 'alt' | 'value' | 'legend' | 'caption' | 'figcaption' |
+	'contents' | 'title' | 'placeholder' | 'default';
+
+/**
+ * Accessible name of an element
+ */
+export interface ComputedName {
+	// Whitespace collapsed and trimmed; '' when the element has no name
+	name: string;
+	source: NameSource | null;
+	// Set when an empty name may be filled at runtime, e.g. by spread props or a bound aria-labelledby
+	unknown: boolean;
+}
+
+/**
+ * State of one name computation as it walks the tree
+ */
+interface Traversal {
+	root: HtmlElement;
+	// Set while following aria-labelledby or aria-describedby, which are not followed again
+	inReference: boolean;
+	// Set when the element referenced directly is hidden, so hidden content counts
+	includeHidden: boolean;
+	// Set below the root, where every element contributes its content
+	inContent: boolean;
+}
+
+/**
+ * The W3C Accessible Name and Description Computation 1.2, with the HTML-AAM rules for native
+ * labels, for markup as written: styles from stylesheets and scripts are not known
+ */
+export class AccessibleName {
+	// Roles whose name is computed from their content (ARIA 1.2)
+	private static readonly NAME_FROM_CONTENT_ROLES = [
+		'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link', 'menuitem', 'menuitemcheckbox',
+		'menuitemradio', 'option', 'radio', 'row', 'rowheader', 'switch', 'tab', 'tooltip', 'treeitem'
+	];
+	// Elements rendered as blocks, whose text is separated from its neighbours by a space
+	private static readonly BLOCK_ELEMENTS = [
+		'address', 'article', 'aside', 'blockquote', 'br', 'caption', 'dd', 'details', 'dialog', 'div', 'dl', 'dt', 'fieldset',
+		'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'legend', 'li', 'main',
+		'nav', 'ol', 'option', 'p', 'pre', 'section', 'summary', 'table', 'td', 'th', 'tr', 'ul'
+	];
+	private static readonly UNRENDERED_ELEMENTS = ['head', 'script', 'style', 'template', 'noscript'];
+	private static readonly BUTTON_INPUT_TYPES = ['button', 'submit', 'reset', 'image'];
+	private static readonly TEXT_INPUT_TYPES = ['text', 'search', 'email', 'tel', 'url', 'password', 'number'];
+	private static readonly RANGE_ROLES = ['slider', 'spinbutton', 'progressbar', 'scrollbar', 'meter'];
+	// Elements a <label> can name
+	private static readonly LABELABLE_ELEMENTS = ['button', 'input', 'meter', 'output', 'progress', 'select', 'textarea'];
+	private static readonly names = new WeakMap<HtmlDocument, Map<HtmlElement, ComputedName>>();
+
+	/**
+	 * Accessible name of an element
+	 */
+	static compute(element: HtmlElement, document: HtmlDocument): ComputedName {
+		let names = this.names.get(document);
+		if (!names) {
+			names = new Map();
+			this.names.set(document, names);
+		}
+		let computed = names.get(element);
+		if (!computed) {
+			const result = this.computeNode(element, document, { root: element, inReference: false, includeHidden: false, inContent: false });
+			const name = this.normalize(result.text);
+			const unknown = name === '' && (element.hasSpreadAttributes || element.getAttributeNode('aria-labelledby')?.dynamic === true);
+			computed = { name: name, source: name === '' && result.source !== 'alt' ? null : result.source, unknown: unknown };
+			names.set(element, computed);
+		}
+		return computed;
+	}
+
+	/**
+	 * Check whether an element is known to have no accessible name; a name that spread props or a
+	 * bound aria-labelledby may fill in at runtime counts as present
+	 */
+	static isMissing(element: HtmlElement, document: HtmlDocument): boolean {
+		const { name, unknown } = this.compute(element, document);
+		return name === '' && !unknown;
+	}
+
+	/**
+	 * Accessible description: the elements aria-describedby refers to, aria-description, or a
+	 * title that is not already the name
+	 */
+	static computeDescription(element: HtmlElement, document: HtmlDocument): string {
+		const referenced = this.getReferencedElements(element, 'aria-describedby', document);
+		if (referenced.length > 0) {
+			const text = referenced.map(target =>
+				this.computeNode(target, document, { root: element, inReference: true, includeHidden: this.isHidden(target, true), inContent: true }).text
+			).join(' ');
+			if (text.trim()) {
+				return this.normalize(text);
+			}
+		}
+		const description = element.getAttribute('aria-description')?.trim();
+		if (description) {
+			return this.normalize(description);
+		}
+		return this.compute(element, document).source === 'title' ? '' : this.normalize(element.getAttribute('title') ?? '');
+	}
+
+	/**
+	 * Text a reader sees in an element: its rendered content with hidden parts left out and the
+	 * text alternatives of images and controls in it, whatever the element's role
+	 */
+	static getTextFromContent(element: HtmlElement, document: HtmlDocument): string {
+		return this.normalize(this.computeContent(element, document, { root: element, inReference: false, includeHidden: false, inContent: true }));
+	}
+
+	/**
+	 * Steps 2A to 2I for one node of the tree
+	 */
+	private static computeNode(node: HtmlNode, document: HtmlDocument, traversal: Traversal): { text: string; source: NameSource | null } {
+		if (node.type === 'text') {
+			return { text: node.text, source: 'contents' };
+		}
+		if (node.type !== 'element') {
+			return { text: '', source: null };
+		}
+		const element = node;
+		const isRoot = element === traversal.root && !traversal.inContent;
+
+		// 2A: hidden content does not count, unless it was referenced directly
+		if (!isRoot && !traversal.includeHidden && this.isHidden(element, false)) {
+			return { text: '', source: null };
+		}
+		// The control being named does not contribute to its own label
+		if (element === traversal.root && traversal.inContent && !traversal.inReference) {
+			return { text: '', source: null };
+		}
+
+		// 2B: aria-labelledby, followed once
+		if (!traversal.inReference) {
+			const referenced = this.getReferencedElements(element, 'aria-labelledby', document);
+			const text = referenced.map(target =>
+				this.computeNode(target, document, { root: traversal.root, inReference: true, includeHidden: this.isHidden(target, true), inContent: true }).text
+			).join(' ');
+			if (text.trim()) {
+				return { text: text, source: 'aria-labelledby' };
+			}
+		}
+
+		// 2C: controls embedded in a label contribute their value
+		const role = AriaSpec.getRole(element);
+		if (!isRoot && traversal.inContent) {
+			const value = this.getEmbeddedValue(element, role);
+			if (value !== null) {
+				return { text: value, source: 'value' };
+			}
+		}
+
+		// 2D: aria-label
+		const ariaLabel = element.getAttribute('aria-label');
+		if (ariaLabel?.trim()) {
+			return { text: ariaLabel, source: 'aria-label' };
+		}
+
+		// 2E: native text alternatives, unless the author made the element presentational
+		if (!['presentation', 'none'].includes(element.getAttribute('role')?.trim().toLowerCase() ?? '')) {
+			const native = this.getNativeName(element, document, traversal);
+			if (native && (native.text.trim() || native.source === 'alt')) {
+				return native;
+			}
+		}
+
+		// 2F to 2H: name from content, for roles that allow it and everything below the root
+		if (!isRoot || (role !== null && this.NAME_FROM_CONTENT_ROLES.includes(role))) {
+			const text = this.computeContent(element, document, traversal);
+			if (text.trim()) {
+				return { text: text, source: 'contents' };
+			}
+		}
+
+		// 2I: tooltip, and the placeholder of text fields
+		const title = element.getAttribute('title');
+		if (title?.trim()) {
+			return { text: title, source: 'title' };
+		}
+		const placeholder = this.isTextField(element) ? element.getAttribute('placeholder') ?? element.getAttribute('aria-placeholder') : null;
+		if (isRoot && placeholder?.trim()) {
+			return { text: placeholder, source: 'placeholder' };
+		}
+		return { text: '', source: null };
+	}
+
+	/**
+	 * Names HTML gives elements of its own: labels, alt text, button values, legends and captions
+	 */
+	private static getNativeName(element: HtmlElement, document: HtmlDocument, traversal: Traversal): { text: string; source: NameSource } | null {
+		const type = (element.getAttribute('type') ?? '').toLowerCase();
+		const content = (child: HtmlElement) => this.computeContent(child, document, { ...traversal, inContent: true });
+		const firstChild = (tagName: string) => element.childElements.find(child => child.tagName === tagName);
+
+		if (element.tagName === 'input' && this.BUTTON_INPUT_TYPES.includes(type)) {
+			const alt = type === 'image' ? element.getAttribute('alt') : null;
+			if (alt?.trim()) {
+				return { text: alt, source: 'alt' };
+			}
+			const value = element.getAttribute('value');
+			if (value !== null && (value.trim() || type !== 'image')) {
+				return { text: value, source: 'value' };
+			}
+			if (element.hasAttribute('title')) {
+				return null;
+			}
+			const defaults: Record<string, string> = { submit: 'Submit', reset: 'Reset', image: 'Submit Query' };
+			return defaults[type] ? { text: defaults[type], source: 'default' } : null;
+		}
+		if (this.LABELABLE_ELEMENTS.includes(element.tagName) && element === traversal.root) {
+			const labels = document.getLabelsFor(element);
+			const text = labels.map(label => content(label)).join(' ');
+			if (text.trim()) {
+				return { text: text, source: 'label' };
+			}
+		}
+		if (['img', 'area'].includes(element.tagName) && element.hasAttribute('alt')) {
+			return { text: element.getAttribute('alt')!, source: 'alt' };
+		}
+		const [tagName, source] = ({ fieldset: ['legend', 'legend'], table: ['caption', 'caption'], figure: ['figcaption', 'figcaption'] } as const)[
+			element.tagName as 'fieldset' | 'table' | 'figure'
+		] ?? [];
+		const child = tagName ? firstChild(tagName) : undefined;
+		if (child && source) {
+			return { text: content(child), source: source };
+		}
+		if (element.tagName === 'optgroup' && element.getAttribute('label')?.trim()) {
+			return { text: element.getAttribute('label')!, source: 'label' };
+		}
+		if (element.tagName === 'svg' && firstChild('title')) {
+			return { text: firstChild('title')!.textContent, source: 'title' };
+		}
+		return null;
+	}
+
+	/**
+	 * Text of an element's children, with block elements set apart by spaces
+	 */
+	private static computeContent(element: HtmlElement, document: HtmlDocument, traversal: Traversal): string {
+		const childTraversal = { ...traversal, inContent: true };
+		return element.children.map(child => {
+			const text = this.computeNode(child, document, childTraversal).text;
+			return child.type === 'element' && this.BLOCK_ELEMENTS.includes(child.tagName) ? ` ${text} ` : text;
+		}).join('');
+	}
+
+	/**
+	 * Value of a text field, select or range control inside a label; null for other elements
+	 */
+	private static getEmbeddedValue(element: HtmlElement, role: string | null): string | null {
+		if (role === 'textbox') {
+			return element.tagName === 'textarea' ? element.textContent : element.getAttribute('value') ?? '';
+		}
+		if (role === 'combobox' || role === 'listbox') {
+			if (element.tagName !== 'select') {
+				return this.findByRole(element, 'option')
+					.filter(option => option.getAttribute('aria-selected') === 'true')
+					.map(option => option.textContent).join(' ');
+			}
+			// Without a selected option, a single select shows its first one
+			const options = element.getElementsByTagName('option');
+			const selected = options.filter(option => option.hasAttribute('selected'));
+			const shown = selected.length > 0 ? selected : options.slice(0, element.hasAttribute('multiple') ? 0 : 1);
+			return shown.map(option => option.getAttribute('label') ?? option.textContent).join(' ');
+		}
+		if (role !== null && this.RANGE_ROLES.includes(role)) {
+			return element.getAttribute('aria-valuetext') ?? element.getAttribute('aria-valuenow') ?? element.getAttribute('value') ?? '';
+		}
+		return null;
+	}
+
+	/**
+	 * Descendants with a role, explicit or implicit
+	 */
+	private static findByRole(element: HtmlElement, role: string): HtmlElement[] {
+		return element.childElements.flatMap(child => [...(AriaSpec.getRole(child) === role ? [child] : []), ...this.findByRole(child, role)]);
+	}
+
+	/**
+	 * Elements an IDREF list attribute refers to that exist in the document
+	 */
+	private static getReferencedElements(element: HtmlElement, attributeName: string, document: HtmlDocument): HtmlElement[] {
+		const attribute = element.getAttributeNode(attributeName);
+		if (!attribute || attribute.dynamic || !attribute.value) {
+			return [];
+		}
+		return attribute.value.trim().split(/\s+/)
+			.map(id => document.getElementById(id))
+			.filter((target): target is HtmlElement => target !== null);
+	}
+
+	/**
+	 * Check whether an element is hidden from assistive technology by markup: hidden, aria-hidden,
+	 * an inline display: none or visibility: hidden, or an element that is never rendered
+	 */
+	static isHidden(element: HtmlElement, withAncestors: boolean): boolean {
+		for (let current: HtmlElement | null = element; current; current = withAncestors ? current.parent : null) {
+			const hidden = current.getAttribute('hidden');
+			if ((hidden !== null && hidden.toLowerCase() !== 'until-found') || current.getAttribute('aria-hidden') === 'true' ||
+				this.UNRENDERED_ELEMENTS.includes(current.tagName) ||
+				(current.tagName === 'input' && current.getAttribute('type')?.toLowerCase() === 'hidden') ||
+				current.getStyleDeclarations().some(declaration =>
+					(declaration.property === 'display' && declaration.value.trim() === 'none') ||
+					(declaration.property === 'visibility' && declaration.value.trim() === 'hidden'))) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	private static isTextField(element: HtmlElement): boolean {
+		return element.tagName === 'textarea' ||
+			(element.tagName === 'input' && this.TEXT_INPUT_TYPES.includes((element.getAttribute('type') ?? 'text').toLowerCase()));
+	}
+
+	private static normalize(text: string): string {
+		return text.replace(/\s+/g, ' ').trim();
+	}
+}
@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
 import OpenAI from 'openai';
+import { AngularParser } from './angularParser';
+import { HtmlDocument, HtmlElement } from './htmlParser';
+import { MarkupParser } from './markupParser';
 
 export interface AltFixResult {
 	success: boolean;
@@ -107,38 +110,62 @@ export class AltTagAutoFixer {
 		return prompt;
 	}
 
+	/**
+	 * Find img elements that have no alt attribute
+	 */
+	static findImagesMissingAlt(htmlDocument: HtmlDocument): HtmlElement[] {
+		return htmlDocument.getElementsByTagName('img').filter(element => !element.mayHaveAttribute('alt'));
+	}
+
+	/**
+	 * Get a few lines of text around an element to give the model some context
+	 */
+	private static getImageContext(htmlDocument: HtmlDocument, element: HtmlElement): string {
+		const lines = htmlDocument.text.split('\n');
+		const lineNumber = htmlDocument.positionAt(element.start).line;
+		const contextLines = lines.slice(Math.max(0, lineNumber - 2), lineNumber + 3);
+		return contextLines.join(' ').substring(0, 200);
+	}
+
+	/**
+	 * Build the edit that inserts an alt attribute after the last attribute of the start tag
+	 */
+	private static createAltInsertion(document: vscode.TextDocument, element: HtmlElement, altText: string, edit: vscode.WorkspaceEdit): void {
+		const lastAttribute = element.attributes[element.attributes.length - 1];
+		const insertOffset = lastAttribute ? lastAttribute.end : element.start + 1 + element.tagName.length;
+		// Character references also work in quoted JSX props
+		let escapedAltText = altText.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+		const templateQuote = AngularParser.getInlineTemplateQuote(document.getText(), document.fileName, insertOffset);
+		if (templateQuote) {
+			// Keep the TypeScript string the inline template is written in intact
+			escapedAltText = escapedAltText.replace(/'/g, '&#39;').replace(/\\/g, '&#92;').replace(/`/g, '&#96;').replace(/\$/g, '&#36;');
+		}
+		const quote = templateQuote === '"' ? "'" : '"';
+		edit.insert(document.uri, document.positionAt(insertOffset), ` alt=${quote}${escapedAltText}${quote}`);
+	}
+
 	/**
 	 * Get preview of alt text that would be generated for missing alt tags
 	 */
 	static async getMissingAltTagsPreview(document: vscode.TextDocument): Promise<Array<{lineNumber: number, imageSrc: string, altText: string}>> {
-		const text = document.getText();
-		const lines = text.split('\n');
+		const htmlDocument = MarkupParser.parse(document.getText(), document.fileName);
 		const previews: Array<{lineNumber: number, imageSrc: string, altText: string}> = [];
 
-		for (let i = 0; i < lines.length; i++) {
-			const line = lines[i];
-			const trimmedLine = line.trim();
+		for (const element of this.findImagesMissingAlt(htmlDocument)) {
+			const imageSrc = element.getAttribute('src');
+			
+			if (imageSrc) {
+				// Get some context around the image
+				const context = this.getImageContext(htmlDocument, element);
 
-			// Check for img tags without alt attributes
-			if (trimmedLine.includes('<img') && !trimmedLine.includes('alt=')) {
-				const imgTagMatch = trimmedLine.match(/<img[^>]*src=["']([^"']+)["'][^>]*>/i);
+				const result = await this.generateAltText(imageSrc, context);
 				
-				if (imgTagMatch) {
-					const imageSrc = imgTagMatch[1];
-					
-					// Get some context around the image
-					const contextLines = lines.slice(Math.max(0, i - 2), i + 3);
-					const context = contextLines.join(' ').substring(0, 200);
-
-					const result = await this.generateAltText(imageSrc, context);
-					
-					if (result.success && result.altText) {
-						previews.push({
-							lineNumber: i,
-							imageSrc: imageSrc,
-							altText: result.altText
-						});
-					}
+				if (result.success && result.altText) {
+					previews.push({
+						lineNumber: htmlDocument.positionAt(element.start).line,
+						imageSrc: imageSrc,
+						altText: result.altText
+					});
 				}
 			}
 		}
@@ -150,57 +177,35 @@ export class AltTagAutoFixer {
 	 * Auto-fix missing alt attributes in a document
 	 */
 	static async autoFixMissingAltTags(document: vscode.TextDocument): Promise<vscode.WorkspaceEdit | null> {
-		const text = document.getText();
-		const lines = text.split('\n');
+		const htmlDocument = MarkupParser.parse(document.getText(), document.fileName);
 		const edit = new vscode.WorkspaceEdit();
 		let hasChanges = false;
 
-		for (let i = 0; i < lines.length; i++) {
-			const line = lines[i];
-			const trimmedLine = line.trim();
-
-			// Check for img tags without alt attributes
-			if (trimmedLine.includes('<img') && !trimmedLine.includes('alt=')) {
-				const imgTagMatch = trimmedLine.match(/<img[^>]*src=["']([^"']+)["'][^>]*>/i);
-				
-				if (imgTagMatch) {
-					const imageSrc = imgTagMatch[1];
+		for (const element of this.findImagesMissingAlt(htmlDocument)) {
+			const imageSrc = element.getAttribute('src');
+			
+			if (imageSrc) {
+				// Get some context around the image
+				const context = this.getImageContext(htmlDocument, element);
+
+				// Show progress
+				await vscode.window.withProgress({
+					location: vscode.ProgressLocation.Notification,
+					title: "Generating alt text...",
+					cancellable: false
+				}, async (progress) => {
+					progress.report({ message: `Processing image: ${imageSrc}` });
 					
-					// Get some context around the image
-					const contextLines = lines.slice(Math.max(0, i - 2), i + 3);
-					const context = contextLines.join(' ').substring(0, 200);
-
-					// Show progress
-					await vscode.window.withProgress({
-						location: vscode.ProgressLocation.Notification,
-						title: "Generating alt text...",
-						cancellable: false
-					}, async (progress) => {
-						progress.report({ message: `Processing image: ${imageSrc}` });
-						
-						const result = await this.generateAltText(imageSrc, context);
-						
-						if (result.success && result.altText) {
-							// Find the position to insert the alt attribute
-							const imgTagStart = line.indexOf('<img');
-							const imgTagEnd = line.indexOf('>', imgTagStart);
-							
-							if (imgTagStart !== -1 && imgTagEnd !== -1) {
-								const beforeAlt = line.substring(0, imgTagEnd);
-								const afterAlt = line.substring(imgTagEnd);
-								
-								// Insert alt attribute before the closing >
-								const newLine = beforeAlt + ` alt="${result.altText}"` + afterAlt;
-								
-								const range = new vscode.Range(i, 0, i, line.length);
-								edit.replace(document.uri, range, newLine);
-								hasChanges = true;
-							}
-						} else {
-							console.warn(`Failed to generate alt text for ${imageSrc}: ${result.error}`);
-						}
-					});
-				}
+					const result = await this.generateAltText(imageSrc, context);
+					
+					if (result.success && result.altText) {
+						// Insert alt attribute into the start tag
+						this.createAltInsertion(document, element, result.altText, edit);
+						hasChanges = true;
+					} else {
+						console.warn(`Failed to generate alt text for ${imageSrc}: ${result.error}`);
+					}
+				});
 			}
 		}
 
@@ -210,24 +215,17 @@ export class AltTagAutoFixer {
 	/**
 	 * Get preview of alt text for a specific image tag
 	 */
-	static async getSpecificImagePreview(
-		document: vscode.TextDocument, 
-		lineNumber: number, 
-		lineText: string
-	): Promise<{imageSrc: string, altText: string} | null> {
-		const trimmedLine = lineText.trim();
-		
-		if (!trimmedLine.includes('<img') || trimmedLine.includes('alt=')) {
+	static async getSpecificImagePreview(element: HtmlElement): Promise<{imageSrc: string, altText: string} | null> {
+		if (element.tagName !== 'img' || element.mayHaveAttribute('alt')) {
 			return null;
 		}
 
-		const imgTagMatch = trimmedLine.match(/<img[^>]*src=["']([^"']+)["'][^>]*>/i);
+		const imageSrc = element.getAttribute('src');
 		
-		if (!imgTagMatch) {
+		if (!imageSrc) {
 			return null;
 		}
 
-		const imageSrc = imgTagMatch[1];
 		const result = await this.generateAltText(imageSrc);
 
 		if (!result.success || !result.altText) {
@@ -245,22 +243,18 @@ export class AltTagAutoFixer {
 	 */
 	static async fixSpecificImageTag(
 		document: vscode.TextDocument, 
-		lineNumber: number, 
-		lineText: string
+		element: HtmlElement
 	): Promise<vscode.WorkspaceEdit | null> {
-		const trimmedLine = lineText.trim();
-		
-		if (!trimmedLine.includes('<img') || trimmedLine.includes('alt=')) {
+		if (element.tagName !== 'img' || element.mayHaveAttribute('alt')) {
 			return null;
 		}
 
-		const imgTagMatch = trimmedLine.match(/<img[^>]*src=["']([^"']+)["'][^>]*>/i);
+		const imageSrc = element.getAttribute('src');
 		
-		if (!imgTagMatch) {
+		if (!imageSrc) {
 			return null;
 		}
 
-		const imageSrc = imgTagMatch[1];
 		const result = await this.generateAltText(imageSrc);
 
 		if (!result.success || !result.altText) {
@@ -268,23 +262,9 @@ export class AltTagAutoFixer {
 			return null;
 		}
 
-		// Find the position to insert the alt attribute
-		const imgTagStart = lineText.indexOf('<img');
-		const imgTagEnd = lineText.indexOf('>', imgTagStart);
-		
-		if (imgTagStart === -1 || imgTagEnd === -1) {
-			return null;
-		}
-
-		const beforeAlt = lineText.substring(0, imgTagEnd);
-		const afterAlt = lineText.substring(imgTagEnd);
-		
-		// Insert alt attribute before the closing >
-		const newLine = beforeAlt + ` alt="${result.altText}"` + afterAlt;
-		
+		// Insert alt attribute into the start tag
 		const edit = new vscode.WorkspaceEdit();
-		const range = new vscode.Range(lineNumber, 0, lineNumber, lineText.length);
-		edit.replace(document.uri, range, newLine);
+		this.createAltInsertion(document, element, result.altText, edit);
 
 		return edit;
 	}
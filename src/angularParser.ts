@@ -0,0 +1,296 @@
+import * as ts from 'typescript';
+import { BranchTracker } from './branchTracker';
+import { ConditionalBranch, HtmlAttribute, HtmlDocument, HtmlElement, HtmlNode, HtmlParser } from './htmlParser';
+
+/**
+ * Builds an element tree from Angular component templates, in .component.html files or inline
+ * in the @Component decorator of .component.ts files
+ */
+export class AngularParser {
+	static readonly FILE_TYPES = ['.component.html', '.component.ts'];
+
+	// [alt], [attr.aria-label] and bind-alt
+	private static readonly BIND_PATTERN = /^(?:\[([^\]]+)\]|bind-(.+))$/;
+	// (click), (keydown.enter) and on-click
+	private static readonly EVENT_PATTERN = /^(?:\(([^)]+)\)|on-(.+))$/;
+	// @if (...) {, } @else {, @for (...; track ...) { and the other control flow blocks
+	private static readonly BLOCK_START_PATTERN = /@(?:if|else\s+if|else|for|empty|switch|case|default|defer|placeholder|loading|error)\b[^{}]*\{/g;
+	private static readonly BLOCK_END_PATTERN = /(?<!\})\}(?!\})/g;
+	// Blocks that start a conditional, those that continue the one just closed, and switch cases
+	private static readonly BLOCK_TOKEN_PATTERN = /@(if|for|switch|defer|case|default)\b[^{}]*\{|(?<!\})\}(?!\})/g;
+	private static readonly BLOCK_CONTINUATION_PATTERN = /^\}\s*@(?:else\s+if|else|empty|placeholder|loading|error)\b[^{}]*\{/;
+
+	// DOM properties whose attribute name differs by more than case
+	private static readonly PROPERTY_NAMES: Record<string, string> = {
+		classname: 'class',
+		htmlfor: 'for'
+	};
+
+	// Properties that set the text of an element
+	private static readonly CONTENT_PROPERTIES = ['innerhtml', 'innertext', 'textcontent'];
+
+	/**
+	 * Check whether a file is an Angular component template or component class
+	 */
+	static isAngular(fileName: string): boolean {
+		return this.FILE_TYPES.some(fileType => fileName.toLowerCase().endsWith(fileType));
+	}
+
+	/**
+	 * Parse a component template; for component classes everything but inline templates is
+	 * blanked out first, so offsets still point into the file
+	 */
+	static parse(text: string, fileName: string): HtmlDocument {
+		const templateText = fileName.toLowerCase().endsWith('.ts') ? this.maskInlineTemplates(text, fileName) : text;
+		const parsed = HtmlParser.parse(templateText);
+		const document = new HtmlDocument(text);
+
+		parsed.elements.forEach(element => this.convertAttributes(element));
+		this.markNgIfTemplates(parsed.elements);
+		this.markControlFlowBlocks(parsed, templateText);
+		this.stripBlockSyntax(parsed.children);
+
+		// <ng-container> and <ng-template> only group nodes for structural directives
+		document.children.push(...this.unwrapContainers(parsed.children, null));
+		document.elements.push(...parsed.elements.filter(element => !this.isContainer(element)));
+		document.comments.push(...parsed.comments);
+
+		return document;
+	}
+
+	/**
+	 * Quote character of the inline template string an offset of a component class falls in, or
+	 * null outside inline templates
+	 */
+	static getInlineTemplateQuote(text: string, fileName: string, offset: number): string | null {
+		if (!fileName.toLowerCase().endsWith('.component.ts')) {
+			return null;
+		}
+		return this.findInlineTemplates(text, fileName).find(template => template.start <= offset && offset <= template.end)?.quote ?? null;
+	}
+
+	/**
+	 * Keep only the string and template literal templates of @Component decorators
+	 */
+	private static maskInlineTemplates(text: string, fileName: string): string {
+		let masked = text.replace(/[^\n]/g, ' ');
+		this.findInlineTemplates(text, fileName).forEach(({ start, end }) => {
+			masked = masked.substring(0, start) + text.substring(start, end) + masked.substring(end);
+		});
+		return masked;
+	}
+
+	/**
+	 * Offsets of the contents of string and template literal templates of @Component decorators,
+	 * with the quote they are enclosed in
+	 */
+	private static findInlineTemplates(text: string, fileName: string): { start: number; end: number; quote: string }[] {
+		const sourceFile = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+		const templates: { start: number; end: number; quote: string }[] = [];
+
+		const visit = (node: ts.Node) => {
+			if (ts.isDecorator(node) && ts.isCallExpression(node.expression) && node.expression.expression.getText() === 'Component') {
+				const options = node.expression.arguments[0];
+				if (options && ts.isObjectLiteralExpression(options)) {
+					options.properties.forEach(property => {
+						if (ts.isPropertyAssignment(property) && property.name.getText() === 'template' &&
+							(ts.isStringLiteral(property.initializer) || ts.isNoSubstitutionTemplateLiteral(property.initializer))) {
+							const start = property.initializer.getStart();
+							templates.push({ start: start + 1, end: property.initializer.end - 1, quote: text[start] });
+						}
+					});
+				}
+			}
+			ts.forEachChild(node, visit);
+		};
+		visit(sourceFile);
+
+		return templates;
+	}
+
+	/**
+	 * Check whether an element only groups other nodes
+	 */
+	private static isContainer(element: HtmlElement): boolean {
+		return element.tagName === 'ng-container' || element.tagName === 'ng-template';
+	}
+
+	/**
+	 * Replace <ng-container> and <ng-template> elements by their children, which take over the
+	 * container's conditional branch
+	 */
+	private static unwrapContainers(nodes: HtmlNode[], parent: HtmlElement | null): HtmlNode[] {
+		return nodes.flatMap(node => {
+			if (node.type === 'element' && this.isContainer(node)) {
+				const children = this.unwrapContainers(node.children, parent);
+				children.forEach(child => {
+					if (child.type === 'element') {
+						child.addOuterBranch(node.branch);
+					}
+				});
+				return children;
+			}
+			node.parent = parent;
+			if (node.type === 'element') {
+				node.children = this.unwrapContainers(node.children, node);
+			}
+			return [node];
+		});
+	}
+
+	/**
+	 * Put an element with *ngIf="condition; else other" and the <ng-template #other> it shows
+	 * otherwise into branches of one conditional, likewise for then templates
+	 */
+	private static markNgIfTemplates(elements: HtmlElement[]): void {
+		const findTemplate = (name: string) => elements.find(element => element.tagName === 'ng-template' &&
+			element.attributes.some(attribute => [`#${name}`, `ref-${name}`].includes(attribute.name)));
+
+		elements.forEach(element => {
+			const expression = element.getAttribute('*ngif');
+			const elseName = expression ? /;\s*else\s+([\w$]+)/.exec(expression)?.[1] : undefined;
+			const thenName = expression ? /;\s*then\s+([\w$]+)/.exec(expression)?.[1] : undefined;
+			if (!elseName && !thenName) {
+				return;
+			}
+
+			const group = {};
+			const branch = (index: number): ConditionalBranch => ({ group: group, index: index, parent: null });
+			const thenTemplate = thenName ? findTemplate(thenName.toLowerCase()) : element;
+			const elseTemplate = elseName ? findTemplate(elseName.toLowerCase()) : undefined;
+			if (thenTemplate && !thenTemplate.branch) {
+				thenTemplate.branch = branch(0);
+			}
+			if (elseTemplate && !elseTemplate.branch) {
+				elseTemplate.branch = branch(1);
+			}
+		});
+	}
+
+	/**
+	 * Put elements into the branches of @if/@else, @switch cases, @for/@empty and @defer blocks
+	 */
+	private static markControlFlowBlocks(parsed: HtmlDocument, templateText: string): void {
+		const tracker = new BranchTracker();
+		const visit = (nodes: HtmlNode[]) => nodes.forEach(node => {
+			if (node.type === 'element') {
+				// Braces in scripts and styles are not block syntax
+				if (!['script', 'style'].includes(node.tagName)) {
+					visit(node.children);
+				}
+				return;
+			}
+			if (node.type !== 'text') {
+				return;
+			}
+
+			const source = templateText.substring(node.start, node.end);
+			const pattern = new RegExp(this.BLOCK_TOKEN_PATTERN);
+			for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+				const offset = node.start + match.index;
+				const kind = match[1];
+				if (kind === 'case' || kind === 'default') {
+					tracker.openCase(offset + match[0].length, 'switch');
+				} else if (kind) {
+					tracker.open(offset + match[0].length, kind);
+				} else {
+					const continuation = this.BLOCK_CONTINUATION_PATTERN.exec(source.substring(match.index));
+					if (continuation) {
+						tracker.next(offset, offset + continuation[0].length);
+						pattern.lastIndex = match.index + continuation[0].length;
+					} else {
+						tracker.close(offset);
+					}
+				}
+			}
+		});
+		visit(parsed.children);
+		tracker.assign(parsed.elements, templateText.length);
+	}
+
+	/**
+	 * Remove control flow block syntax from text, so it does not count as content
+	 */
+	private static stripBlockSyntax(nodes: HtmlNode[]): void {
+		nodes.forEach(node => {
+			if (node.type === 'text') {
+				node.text = node.text.replace(this.BLOCK_START_PATTERN, '').replace(this.BLOCK_END_PATTERN, '');
+			} else if (node.type === 'element') {
+				this.stripBlockSyntax(node.children);
+			}
+		});
+	}
+
+	/**
+	 * Turn bindings into the attributes they render: bound attributes carry their expression and
+	 * are marked dynamic, event bindings become on* handlers, and interpolated values are dynamic
+	 */
+	private static convertAttributes(element: HtmlElement): void {
+		element.attributes = element.attributes.flatMap((attribute): HtmlAttribute[] => {
+			const bind = this.BIND_PATTERN.exec(attribute.rawName);
+			if (bind) {
+				return this.convertBinding(element, attribute, bind[1] ?? bind[2]);
+			}
+
+			const event = this.EVENT_PATTERN.exec(attribute.rawName);
+			if (event) {
+				const eventName = (event[1] ?? event[2]).split('.')[0];
+				// Global listeners such as (document:keydown) are not handlers of this element
+				if (eventName.includes(':')) {
+					return [];
+				}
+				return [{ ...attribute, name: `on${eventName.toLowerCase()}`, value: attribute.value ?? '', dynamic: true }];
+			}
+
+			if (attribute.value?.includes('{{')) {
+				return [{ ...attribute, dynamic: true }];
+			}
+			return [attribute];
+		});
+	}
+
+	/**
+	 * Convert a property, attribute, class or style binding
+	 */
+	private static convertBinding(element: HtmlElement, attribute: HtmlAttribute, target: string): HtmlAttribute[] {
+		// Two-way bindings such as [(ngModel)] and class or style bindings render no attribute
+		if (target.startsWith('(') || target.startsWith('class.') || target.startsWith('style.')) {
+			return [];
+		}
+
+		const expression = (attribute.value ?? '').trim();
+		let name: string;
+		if (target.startsWith('attr.')) {
+			name = target.substring('attr.'.length).toLowerCase();
+		} else if (/^aria[A-Z]/.test(target)) {
+			// [ariaLabel] sets the aria-label attribute through its reflecting property
+			name = `aria-${target.substring('aria'.length).toLowerCase()}`;
+		} else {
+			name = this.PROPERTY_NAMES[target.toLowerCase()] ?? target.toLowerCase();
+		}
+
+		if (this.CONTENT_PROPERTIES.includes(name)) {
+			// The content is only known at runtime
+			element.children.push({ type: 'text', text: expression, start: attribute.valueStart, end: attribute.valueEnd, parent: element });
+			return [];
+		}
+
+		// Attributes bound to false, null or undefined are left out
+		if (['false', 'null', 'undefined'].includes(expression)) {
+			return [];
+		}
+		const literal = this.getLiteralValue(expression);
+		return [{ ...attribute, name: name, value: literal ?? expression, dynamic: literal === null }];
+	}
+
+	/**
+	 * Value of a number, true or string literal expression such as "-1" or "'Logo'", or null for anything else
+	 */
+	private static getLiteralValue(expression: string): string | null {
+		if (/^(-?\d+(\.\d+)?|true)$/.test(expression)) {
+			return expression;
+		}
+		const quoted = /^(['"])([^'"]*)\1$/.exec(expression);
+		return quoted ? quoted[2] : null;
+	}
+}
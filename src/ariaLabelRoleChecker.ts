@@ -1,19 +1,11 @@
-import * as vscode from 'vscode';
-import { AccessibilityIssue } from './accessibilityChecker';
+import { AccessibilityIssue } from './accessibilityEngine';
+import { AccessibleName } from './accessibleName';
+import { AriaSpec } from './ariaSpec';
+import { HtmlDocument, HtmlElement, HtmlNode } from './htmlParser';
+import { IdReferences } from './idReferences';
+import { RuleCatalog } from './ruleCatalog';
 
 export class AriaLabelRoleChecker {
-	// Valid ARIA roles for WCAG 2.1 compliance
-	private static readonly VALID_ROLES = [
-		'alert', 'alertdialog', 'application', 'article', 'banner', 'button', 'cell', 'checkbox',
-		'columnheader', 'combobox', 'complementary', 'contentinfo', 'definition', 'dialog', 'directory',
-		'document', 'feed', 'figure', 'form', 'grid', 'gridcell', 'group', 'heading', 'img', 'link',
-		'list', 'listbox', 'listitem', 'log', 'main', 'marquee', 'math', 'menu', 'menubar', 'menuitem',
-		'menuitemcheckbox', 'menuitemradio', 'navigation', 'none', 'note', 'option', 'presentation',
-		'progressbar', 'radio', 'radiogroup', 'region', 'row', 'rowgroup', 'rowheader', 'scrollbar',
-		'search', 'separator', 'slider', 'spinbutton', 'status', 'switch', 'tab', 'table', 'tablist',
-		'tabpanel', 'textbox', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem'
-	];
-
 	// Interactive elements that should have accessible names
 	private static readonly INTERACTIVE_ELEMENTS = [
 		'button', 'input', 'select', 'textarea', 'a', 'area', 'summary'
@@ -24,49 +16,38 @@ export class AriaLabelRoleChecker {
 		'button', 'input', 'select', 'textarea', 'a', 'nav', 'main', 'header', 'footer', 'section', 'article', 'aside'
 	];
 
+	// Roles that neither own nor count as owned elements; their children stand in their place
+	private static readonly TRANSPARENT_ROLES = ['generic', 'none', 'presentation'];
+	// Elements that render content only known at runtime
+	private static readonly PLACEHOLDER_ELEMENTS = ['slot', 'ng-content', 'template'];
+
+	// Elements each element is moved to with aria-owns, per document
+	private static readonly ariaOwners = new WeakMap<HtmlDocument, Map<HtmlElement, HtmlElement>>();
+
+	// Implicit roles that make an explicit role attribute redundant
+	private static readonly IMPLICIT_ROLES: Record<string, string> = {
+		button: 'button', nav: 'navigation', main: 'main', header: 'banner', footer: 'contentinfo',
+		section: 'region', article: 'article', aside: 'complementary'
+	};
+
 	/**
 	 * Check for missing aria-label on interactive elements
 	 */
-	static checkMissingAriaLabel(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		// Check for interactive elements without accessible names
-		const hasInteractiveElement = this.INTERACTIVE_ELEMENTS.some(element => 
-			trimmedLine.includes(`<${element}`) || trimmedLine.includes(`<${element} `)
-		);
-		
-		if (hasInteractiveElement) {
-			// Check for ARIA attributes first
-			const hasAriaLabel = trimmedLine.includes('aria-label') || trimmedLine.includes('aria-labelledby');
-			const hasTitle = trimmedLine.includes('title=');
-			const hasAlt = trimmedLine.includes('alt=');
-			
-			// Check for visible text content in buttons and links
-			let hasVisibleText = false;
-			if (trimmedLine.includes('<button')) {
-				// Extract content between <button> and </button>
-				const buttonMatch = trimmedLine.match(/<button[^>]*>(.*?)<\/button>/);
-				if (buttonMatch && buttonMatch[1].trim().length > 0) {
-					hasVisibleText = true;
-				}
-			}
-			if (trimmedLine.includes('<a')) {
-				// Extract content between <a> and </a>
-				const linkMatch = trimmedLine.match(/<a[^>]*>(.*?)<\/a>/);
-				if (linkMatch && linkMatch[1].trim().length > 0) {
-					hasVisibleText = true;
-				}
-			}
-			
-			const hasAccessibleName = hasAriaLabel || hasTitle || hasAlt || hasVisibleText;
-			
-			if (!hasAccessibleName) {
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+	static checkMissingAriaLabel(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		// Check for interactive elements without accessible names; links are interactive with an href
+		const isInteractiveElement = this.INTERACTIVE_ELEMENTS.includes(element.tagName) &&
+			element.getAttribute('type') !== 'hidden' &&
+			(!['a', 'area'].includes(element.tagName) || element.mayHaveAttribute('href'));
+		
+		if (isInteractiveElement) {
+			if (AccessibleName.isMissing(element, document)) {
+				const range = document.getElementRange(element);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Interactive element missing accessible name (aria-label, aria-labelledby, or visible text)',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('aria-name-missing')
 				};
 			}
 		}
@@ -77,17 +58,17 @@ export class AriaLabelRoleChecker {
 	/**
 	 * Check for empty or whitespace-only aria-label
 	 */
-	static checkEmptyAriaLabel(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkEmptyAriaLabel(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const ariaLabel = element.getAttributeNode('aria-label');
 		
-		if (trimmedLine.includes('aria-label=""') || trimmedLine.includes("aria-label=''") ||
-			trimmedLine.includes('aria-label=" "') || trimmedLine.includes("aria-label=' '")) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (ariaLabel && (ariaLabel.value ?? '').trim().length === 0) {
+			const range = document.getAttributeRange(ariaLabel);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Empty or whitespace-only aria-label provides no accessible name',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('aria-label-empty')
 			};
 		}
 		
@@ -97,24 +78,42 @@ export class AriaLabelRoleChecker {
 	/**
 	 * Check for redundant aria-label when visible text exists
 	 */
-	static checkRedundantAriaLabel(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkRedundantAriaLabel(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const ariaLabel = element.getAttributeNode('aria-label');
 		
 		// Check for buttons and links with both aria-label and visible text
-		if ((trimmedLine.includes('<button') || trimmedLine.includes('<a')) && 
-			trimmedLine.includes('aria-label') && 
-			trimmedLine.includes('>') && 
-			trimmedLine.includes('</')) {
-			
-			// Extract text content between tags
-			const textMatch = trimmedLine.match(/>([^<]+)</);
-			if (textMatch && textMatch[1].trim().length > 0) {
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (['button', 'a'].includes(element.tagName) && ariaLabel && AccessibleName.getTextFromContent(element, document).length > 0) {
+			const range = document.getAttributeRange(ariaLabel);
+			return {
+				line: range.start.line + 1,
+				issue: 'Redundant aria-label when visible text already provides accessible name',
+				severity: 'MEDIUM',
+				range: range,
+				...RuleCatalog.getMetadata('aria-label-redundant')
+			};
+		}
+		
+		return null;
+	}
+
+	/**
+	 * Check for invalid ARIA roles
+	 */
+	static checkInvalidRole(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const roleAttribute = element.getAttributeNode('role');
+		
+		if (roleAttribute && roleAttribute.value) {
+			// Fallback roles are separated by whitespace, each must be valid
+			const role = roleAttribute.value.toLowerCase().split(/\s+/).filter(token => token.length > 0)
+				.find(token => !AriaSpec.isRole(token));
+			if (role) {
+				const range = document.getAttributeRange(roleAttribute);
 				return {
-					line: lineNumber + 1,
-					issue: 'Redundant aria-label when visible text already provides accessible name',
-					severity: 'MEDIUM',
-					range: range
+					line: range.start.line + 1,
+					issue: `Invalid ARIA role "${role}" - not a valid ARIA role`,
+					severity: 'HIGH',
+					range: range,
+					...RuleCatalog.getMetadata('aria-role-valid')
 				};
 			}
 		}
@@ -123,24 +122,22 @@ export class AriaLabelRoleChecker {
 	}
 
 	/**
-	 * Check for invalid ARIA roles
+	 * Check for abstract ARIA roles, which only structure the taxonomy and must not be used in content
 	 */
-	static checkInvalidRole(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkAbstractRole(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const roleAttribute = element.getAttributeNode('role');
 		
-		if (trimmedLine.includes('role=')) {
-			const roleMatch = trimmedLine.match(/role=["']([^"']+)["']/);
-			if (roleMatch) {
-				const role = roleMatch[1].toLowerCase();
-				if (!this.VALID_ROLES.includes(role)) {
-					const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-					return {
-						line: lineNumber + 1,
-						issue: `Invalid ARIA role "${role}" - not a valid ARIA role`,
-						severity: 'HIGH',
-						range: range
-					};
-				}
+		if (roleAttribute && roleAttribute.value && !roleAttribute.dynamic) {
+			const role = roleAttribute.value.toLowerCase().split(/\s+/).find(token => AriaSpec.isAbstractRole(token));
+			if (role) {
+				const range = document.getAttributeRange(roleAttribute);
+				return {
+					line: range.start.line + 1,
+					issue: `Abstract ARIA role "${role}" must not be used - choose a concrete role`,
+					severity: 'HIGH',
+					range: range,
+					...RuleCatalog.getMetadata('aria-role-abstract')
+				};
 			}
 		}
 		
@@ -148,107 +145,323 @@ export class AriaLabelRoleChecker {
 	}
 
 	/**
-	 * Check for redundant roles on semantic elements
+	 * Check aria-* attributes against WAI-ARIA 1.2: unknown names, attributes the element's role
+	 * does not support, deprecated attributes and values of the wrong type
+	 */
+	static checkAriaAttributes(element: HtmlElement, document: HtmlDocument): AccessibilityIssue[] {
+		const issues: AccessibilityIssue[] = [];
+		const role = AriaSpec.getRole(element);
+		// aria-label-non-interactive already reports names on div, span and p without a role
+		const namesReported = ['div', 'span', 'p'].includes(element.tagName) && !element.mayHaveAttribute('role');
+
+		element.attributes.filter(attribute => attribute.name.startsWith('aria-')).forEach(attribute => {
+			const range = document.getAttributeRange(attribute);
+			const report = (issue: string, severity: string, ruleId: string) => issues.push({
+				line: range.start.line + 1,
+				issue: issue,
+				severity: severity,
+				range: range,
+				...RuleCatalog.getMetadata(ruleId)
+			});
+
+			const definition = AriaSpec.getAttribute(attribute.name);
+			if (!definition) {
+				report(`Unknown ARIA attribute "${attribute.rawName}" - not defined in WAI-ARIA`, 'HIGH', 'aria-attribute-valid');
+				return;
+			}
+			if (AriaSpec.isAttributeDeprecated(attribute.name, role)) {
+				const scope = definition.deprecated || !role ? '' : ` on role "${role}"`;
+				report(`${attribute.name} is deprecated${scope} in WAI-ARIA 1.2`, 'LOW', 'aria-attribute-deprecated');
+			} else if (role && !AriaSpec.isAttributeSupported(attribute.name, role) &&
+				!(namesReported && ['aria-label', 'aria-labelledby'].includes(attribute.name))) {
+				const reason = AriaSpec.isAttributeProhibited(attribute.name, role) ? 'prohibited' : 'not supported';
+				report(`${attribute.name} is ${reason} on role "${role}"`, 'MEDIUM', 'aria-attribute-allowed');
+			}
+
+			// aria-expanded values have a rule of their own
+			if (attribute.value !== null && attribute.value.trim() !== '' && !attribute.dynamic && attribute.name !== 'aria-expanded' &&
+				!AriaSpec.isValidValue(attribute.name, attribute.value)) {
+				report(`Invalid ${attribute.name} value "${attribute.value}" - must be ${AriaSpec.describeValues(attribute.name)}`, 'HIGH', 'aria-attribute-value');
+			}
+		});
+
+		return issues;
+	}
+
+	/**
+	 * Check for roles set without the states and properties they require, e.g. role="checkbox"
+	 * without aria-checked; native elements supply their own state
 	 */
-	static checkRedundantRole(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkRequiredAriaAttributes(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const roleAttribute = element.getAttributeNode('role');
+		const role = AriaSpec.getRole(element);
+		
+		if (roleAttribute && role && role !== AriaSpec.getImplicitRole(element)) {
+			const type = (element.getAttribute('type') ?? '').toLowerCase();
+			const native: Record<string, boolean> = {
+				'aria-checked': element.tagName === 'input' && ['checkbox', 'radio'].includes(type),
+				'aria-valuenow': ['meter', 'progress'].includes(element.tagName) || (element.tagName === 'input' && type === 'range'),
+				'aria-level': /^h[1-6]$/.test(element.tagName)
+			};
+			const missing = AriaSpec.getRequiredAttributes(role).filter(name => !element.mayHaveAttribute(name) && !native[name]);
+			if (missing.length > 0) {
+				const range = document.getAttributeRange(roleAttribute);
+				return {
+					line: range.start.line + 1,
+					issue: `role="${role}" requires ${missing.join(' and ')}`,
+					severity: 'HIGH',
+					range: range,
+					...RuleCatalog.getMetadata('aria-attribute-required')
+				};
+			}
+		}
 		
-		if (trimmedLine.includes('role=')) {
-			const roleMatch = trimmedLine.match(/role=["']([^"']+)["']/);
-			if (roleMatch) {
-				const role = roleMatch[1].toLowerCase();
-				
-				// Check for redundant roles
-				if ((trimmedLine.includes('<button') && role === 'button') ||
-					(trimmedLine.includes('<nav') && role === 'navigation') ||
-					(trimmedLine.includes('<main') && role === 'main') ||
-					(trimmedLine.includes('<header') && role === 'banner') ||
-					(trimmedLine.includes('<footer') && role === 'contentinfo') ||
-					(trimmedLine.includes('<section') && role === 'region') ||
-					(trimmedLine.includes('<article') && role === 'article') ||
-					(trimmedLine.includes('<aside') && role === 'complementary')) {
-					
-					const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-					return {
-						line: lineNumber + 1,
-						issue: `Redundant role="${role}" on semantic element - element already has implicit role`,
-						severity: 'LOW',
-						range: range
-					};
+		return null;
+	}
+
+	/**
+	 * Check for roles that must own elements of certain roles but do not, e.g. a tablist without
+	 * tabs; aria-owns counts, and containers marked aria-busy are still loading
+	 */
+	static checkRequiredOwnedElements(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const role = AriaSpec.getExplicitRole(element);
+		const required = role ? AriaSpec.getRequiredOwnedElements(role) : [];
+		const owned = required.length > 0 && element.getAttribute('aria-busy') !== 'true' ? this.getOwnedElements(element, document) : null;
+
+		if (role && owned) {
+			const isRequired = ({ element: child, role: childRole }: { element: HtmlElement; role: string }) => required.some(requirement => {
+				const [outer, inner] = requirement.split(' > ');
+				if (childRole !== outer) {
+					return false;
 				}
+				const grandchildren = inner ? this.getOwnedElements(child, document) : [];
+				return !inner || grandchildren === null || grandchildren.some(grandchild => grandchild.role === inner);
+			});
+			if (!owned.some(isRequired)) {
+				const expected = this.formatRoles(required.map(requirement => requirement.split(' > ').pop()!));
+				const found = owned.length > 0 ? `, not ${this.formatRoles(owned.map(child => child.role))}` : '';
+				const range = document.getAttributeRange(element.getAttributeNode('role')!);
+				return {
+					line: range.start.line + 1,
+					issue: `role="${role}" must own elements with role ${expected}${found}`,
+					severity: 'HIGH',
+					range: range,
+					...RuleCatalog.getMetadata('aria-required-owned')
+				};
 			}
 		}
-		
+
 		return null;
 	}
 
 	/**
-	 * Check for missing aria-labelledby reference
+	 * Check for roles outside the role that must own them, e.g. a menuitem outside a menu; elements
+	 * at the top of a component or fragment may be rendered into the right context
 	 */
-	static checkMissingAriaLabelledbyReference(line: string, lineNumber: number, fullText: string): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if (trimmedLine.includes('aria-labelledby=')) {
-			const labelledbyMatch = trimmedLine.match(/aria-labelledby=["']([^"']+)["']/);
-			if (labelledbyMatch) {
-				const referencedId = labelledbyMatch[1];
-				// Check if the referenced element exists in the document
-				if (!fullText.includes(`id="${referencedId}"`) && !fullText.includes(`id='${referencedId}'`)) {
-					const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-					return {
-						line: lineNumber + 1,
-						issue: `aria-labelledby references non-existent element with id="${referencedId}"`,
-						severity: 'HIGH',
-						range: range
-					};
+	static checkRequiredContextRole(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const role = AriaSpec.getExplicitRole(element);
+		const required = role ? AriaSpec.getRequiredContextRoles(role) : [];
+		const context = required.length > 0 ? this.getContextElement(element, document) : null;
+
+		if (role && context && !required.includes(context.role)) {
+			const range = document.getAttributeRange(element.getAttributeNode('role')!);
+			return {
+				line: range.start.line + 1,
+				issue: `role="${role}" must be owned by an element with role ${this.formatRoles(required)}, not "${context.role}"`,
+				severity: 'HIGH',
+				range: range,
+				...RuleCatalog.getMetadata('aria-required-context')
+			};
+		}
+
+		return null;
+	}
+
+	/**
+	 * Elements an element owns in the accessibility tree: its descendants and the elements it
+	 * claims with aria-owns, looking through generic and presentational elements and leaving out
+	 * hidden ones; null when components or template expressions may render more
+	 */
+	private static getOwnedElements(element: HtmlElement, document: HtmlDocument): { element: HtmlElement; role: string }[] | null {
+		const owned: { element: HtmlElement; role: string }[] = [];
+		let complete = true;
+
+		const visit = (node: HtmlNode, claimed: boolean) => {
+			if (node.type === 'text') {
+				// {expressions} in JSX and template syntax may render elements
+				const before = document.text.substring(Math.max(0, node.start - 8), node.start);
+				if (node.text.includes('{') || /\{\s*$/.test(before)) {
+					complete = false;
 				}
+				return;
+			}
+			if (node.type !== 'element' || (!claimed && this.getAriaOwner(node, document)) ||
+				node.hasAttribute('hidden') || node.getAttribute('aria-hidden') === 'true') {
+				return;
+			}
+			if (this.rendersUnknownContent(node)) {
+				complete = false;
+				return;
 			}
+			const role = AriaSpec.getRole(node);
+			if (role === null || this.TRANSPARENT_ROLES.includes(role)) {
+				node.children.forEach(child => visit(child, false));
+			} else {
+				owned.push({ element: node, role: role });
+			}
+		};
+
+		element.children.forEach(child => visit(child, false));
+		const ariaOwns = element.getAttributeNode('aria-owns');
+		if (ariaOwns?.dynamic) {
+			complete = false;
+		}
+		(ariaOwns?.value ?? '').trim().split(/\s+/)
+			.map(id => id ? document.getElementById(id) : null)
+			.forEach(target => {
+				if (target && this.getAriaOwner(target, document) === element) {
+					visit(target, true);
+				}
+			});
+
+		return complete ? owned : null;
+	}
+
+	/**
+	 * Nearest owner of an element with a role that is not generic or presentational; null at the
+	 * top of a component or fragment and below elements that render unknown content
+	 */
+	private static getContextElement(element: HtmlElement, document: HtmlDocument): { element: HtmlElement; role: string } | null {
+		const visited = new Set<HtmlElement>([element]);
+		let current = this.getAriaOwner(element, document) ?? element.parent;
+		while (current && !visited.has(current)) {
+			visited.add(current);
+			if (this.rendersUnknownContent(current)) {
+				return null;
+			}
+			const role = AriaSpec.getRole(current);
+			if (role !== null && !this.TRANSPARENT_ROLES.includes(role)) {
+				return { element: current, role: role };
+			}
+			current = this.getAriaOwner(current, document) ?? current.parent;
 		}
-		
 		return null;
 	}
 
 	/**
-	 * Check for missing aria-describedby reference
+	 * Element that claims another with aria-owns; the first claim wins, as in browsers
 	 */
-	static checkMissingAriaDescribedbyReference(line: string, lineNumber: number, fullText: string): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if (trimmedLine.includes('aria-describedby=')) {
-			const describedbyMatch = trimmedLine.match(/aria-describedby=["']([^"']+)["']/);
-			if (describedbyMatch) {
-				const referencedId = describedbyMatch[1];
-				// Check if the referenced element exists in the document
-				if (!fullText.includes(`id="${referencedId}"`) && !fullText.includes(`id='${referencedId}'`)) {
-					const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-					return {
-						line: lineNumber + 1,
-						issue: `aria-describedby references non-existent element with id="${referencedId}"`,
-						severity: 'HIGH',
-						range: range
-					};
+	private static getAriaOwner(element: HtmlElement, document: HtmlDocument): HtmlElement | undefined {
+		let owners = this.ariaOwners.get(document);
+		if (!owners) {
+			const claims = new Map<HtmlElement, HtmlElement>();
+			document.elements.forEach(owner => {
+				const ariaOwns = owner.getAttributeNode('aria-owns');
+				if (ariaOwns?.value && !ariaOwns.dynamic) {
+					ariaOwns.value.trim().split(/\s+/).forEach(id => {
+						const owned = document.getElementById(id);
+						if (owned && owned !== owner && !claims.has(owned)) {
+							claims.set(owned, owner);
+						}
+					});
 				}
+			});
+			owners = claims;
+			this.ariaOwners.set(document, owners);
+		}
+		return owners.get(element);
+	}
+
+	/**
+	 * Check whether an element may render markup that is not in the document: components,
+	 * custom elements, slots, and elements whose role is bound or may come from spread props
+	 */
+	private static rendersUnknownContent(element: HtmlElement): boolean {
+		return /[A-Z.-]/.test(element.tagName) || this.PLACEHOLDER_ELEMENTS.includes(element.tagName) ||
+			element.getAttributeNode('role')?.dynamic === true || (element.hasSpreadAttributes && !element.hasAttribute('role'));
+	}
+
+	/**
+	 * List roles for a message: "tab", or "menu", "menubar" or "group"
+	 */
+	private static formatRoles(roles: string[]): string {
+		const quoted = [...new Set(roles)].map(role => `"${role}"`);
+		return quoted.length > 1 ? `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}` : quoted[0];
+	}
+
+	/**
+	 * Check for redundant roles on semantic elements
+	 */
+	static checkRedundantRole(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const roleAttribute = element.getAttributeNode('role');
+		
+		if (roleAttribute && roleAttribute.value) {
+			const role = roleAttribute.value.trim().toLowerCase();
+			
+			// Check for redundant roles
+			if (this.IMPLICIT_ROLES[element.tagName] === role) {
+				const range = document.getAttributeRange(roleAttribute);
+				return {
+					line: range.start.line + 1,
+					issue: `Redundant role="${role}" on semantic element - element already has implicit role`,
+					severity: 'LOW',
+					range: range,
+					...RuleCatalog.getMetadata('aria-role-redundant')
+				};
 			}
 		}
 		
 		return null;
 	}
 
+	/**
+	 * Check that every id in aria-labelledby exists
+	 */
+	static checkMissingAriaLabelledbyReference(element: HtmlElement, document: HtmlDocument): AccessibilityIssue[] {
+		return this.checkMissingReferences(element, document, 'aria-labelledby', 'aria-labelledby-reference');
+	}
+
+	/**
+	 * Check that every id in aria-describedby exists
+	 */
+	static checkMissingAriaDescribedbyReference(element: HtmlElement, document: HtmlDocument): AccessibilityIssue[] {
+		return this.checkMissingReferences(element, document, 'aria-describedby', 'aria-describedby-reference');
+	}
+
+	/**
+	 * Report each id in an IDREF attribute of an element that no element in the document has
+	 */
+	private static checkMissingReferences(element: HtmlElement, document: HtmlDocument, attributeName: string, ruleId: string): AccessibilityIssue[] {
+		return IdReferences.getReferences(document)
+			.filter(reference => reference.element === element && reference.attribute.name === attributeName && !IdReferences.resolve(reference, document))
+			.map(reference => {
+				const range = document.getRange(reference.start, reference.end);
+				return {
+					line: range.start.line + 1,
+					issue: `${attributeName} references non-existent element with id="${reference.id}"`,
+					severity: 'HIGH',
+					range: range,
+					...RuleCatalog.getMetadata(ruleId)
+				};
+			});
+	}
+
 	/**
 	 * Check for missing aria-expanded on collapsible elements
 	 */
-	static checkMissingAriaExpanded(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkMissingAriaExpanded(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const role = element.getAttribute('role');
 		
 		// Check for elements that should have aria-expanded
-		if ((trimmedLine.includes('role="button"') || trimmedLine.includes('role="menuitem"')) &&
-			trimmedLine.includes('onclick') && !trimmedLine.includes('aria-expanded')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if ((role === 'button' || role === 'menuitem') &&
+			element.hasAttribute('onclick') && !element.mayHaveAttribute('aria-expanded')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Collapsible element missing aria-expanded attribute',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('aria-expanded-missing')
 			};
 		}
 		
@@ -258,22 +471,20 @@ export class AriaLabelRoleChecker {
 	/**
 	 * Check for incorrect aria-expanded values
 	 */
-	static checkIncorrectAriaExpanded(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkIncorrectAriaExpanded(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const expanded = element.getAttributeNode('aria-expanded');
 		
-		if (trimmedLine.includes('aria-expanded=')) {
-			const expandedMatch = trimmedLine.match(/aria-expanded=["']([^"']+)["']/);
-			if (expandedMatch) {
-				const value = expandedMatch[1].toLowerCase();
-				if (value !== 'true' && value !== 'false') {
-					const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-					return {
-						line: lineNumber + 1,
-						issue: `Invalid aria-expanded value "${value}" - must be "true" or "false"`,
-						severity: 'HIGH',
-						range: range
-					};
-				}
+		if (expanded && expanded.value) {
+			const value = expanded.value.toLowerCase();
+			if (value !== 'true' && value !== 'false') {
+				const range = document.getAttributeRange(expanded);
+				return {
+					line: range.start.line + 1,
+					issue: `Invalid aria-expanded value "${value}" - must be "true" or "false"`,
+					severity: 'HIGH',
+					range: range,
+					...RuleCatalog.getMetadata('aria-expanded-value')
+				};
 			}
 		}
 		
@@ -283,20 +494,18 @@ export class AriaLabelRoleChecker {
 	/**
 	 * Check for missing aria-hidden on decorative elements
 	 */
-	static checkMissingAriaHiddenOnDecorative(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkMissingAriaHiddenOnDecorative(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for decorative images without aria-hidden
-		if (trimmedLine.includes('<img') && 
-			(trimmedLine.includes('decorative') || trimmedLine.includes('ornament') || 
-			 trimmedLine.includes('spacer') || trimmedLine.includes('divider')) &&
-			!trimmedLine.includes('aria-hidden="true"')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.tagName === 'img' && 
+			element.attributeValuesInclude(['decorative', 'ornament', 'spacer', 'divider']) &&
+			element.getAttribute('aria-hidden') !== 'true') {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Decorative image should have aria-hidden="true"',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('aria-hidden-decorative')
 			};
 		}
 		
@@ -306,16 +515,17 @@ export class AriaLabelRoleChecker {
 	/**
 	 * Check for conflicting aria-hidden and role
 	 */
-	static checkConflictingAriaHiddenAndRole(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkConflictingAriaHiddenAndRole(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const role = element.getAttributeNode('role');
 		
-		if (trimmedLine.includes('aria-hidden="true"') && trimmedLine.includes('role=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.getAttribute('aria-hidden') === 'true' && role) {
+			const range = document.getAttributeRange(role);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Element with aria-hidden="true" should not have a role attribute',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('aria-hidden-role')
 			};
 		}
 		
@@ -325,18 +535,17 @@ export class AriaLabelRoleChecker {
 	/**
 	 * Check for missing aria-disabled on disabled elements
 	 */
-	static checkMissingAriaDisabled(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if ((trimmedLine.includes('disabled') || trimmedLine.includes('readonly')) &&
-			!trimmedLine.includes('aria-disabled') && 
-			(trimmedLine.includes('<input') || trimmedLine.includes('<button') || trimmedLine.includes('<select'))) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+	static checkMissingAriaDisabled(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		if ((element.hasAttribute('disabled') || element.hasAttribute('readonly')) &&
+			!element.mayHaveAttribute('aria-disabled') && 
+			['input', 'button', 'select'].includes(element.tagName)) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Disabled element should have aria-disabled="true" for screen readers',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('aria-disabled-missing')
 			};
 		}
 		
@@ -346,18 +555,18 @@ export class AriaLabelRoleChecker {
 	/**
 	 * Check for missing aria-required on required form elements
 	 */
-	static checkMissingAriaRequired(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkMissingAriaRequired(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const required = element.getAttributeNode('required');
 		
-		if ((trimmedLine.includes('required') || trimmedLine.includes('aria-required="true"')) &&
-			!trimmedLine.includes('aria-required') &&
-			(trimmedLine.includes('<input') || trimmedLine.includes('<select') || trimmedLine.includes('<textarea'))) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (required && !element.mayHaveAttribute('aria-required') &&
+			['input', 'select', 'textarea'].includes(element.tagName)) {
+			const range = document.getAttributeRange(required);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Required form element should have aria-required="true"',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('aria-required-missing')
 			};
 		}
 		
@@ -367,18 +576,17 @@ export class AriaLabelRoleChecker {
 	/**
 	 * Check for missing aria-invalid on form validation
 	 */
-	static checkMissingAriaInvalid(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if ((trimmedLine.includes('error') || trimmedLine.includes('invalid') || trimmedLine.includes('class="error"')) &&
-			!trimmedLine.includes('aria-invalid') &&
-			(trimmedLine.includes('<input') || trimmedLine.includes('<select') || trimmedLine.includes('<textarea'))) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+	static checkMissingAriaInvalid(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		if (element.attributeValuesInclude(['error', 'invalid']) &&
+			!element.mayHaveAttribute('aria-invalid') &&
+			['input', 'select', 'textarea'].includes(element.tagName)) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Form element with validation error should have aria-invalid="true"',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('aria-invalid-missing')
 			};
 		}
 		
@@ -388,31 +596,19 @@ export class AriaLabelRoleChecker {
 	/**
 	 * Check for empty button elements without accessible names
 	 */
-	static checkEmptyButtonElements(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkEmptyButtonElements(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for empty button elements
-		if (trimmedLine.includes('<button') && trimmedLine.includes('</button>')) {
-			const buttonMatch = trimmedLine.match(/<button[^>]*>(.*?)<\/button>/);
-			if (buttonMatch) {
-				const content = buttonMatch[1].trim();
-				// Check if button is empty or has only whitespace
-				if (content.length === 0 || /^\s*$/.test(content)) {
-					// Check if it has any accessible name
-					const hasAccessibleName = trimmedLine.includes('aria-label') || 
-											trimmedLine.includes('aria-labelledby') ||
-											trimmedLine.includes('title=');
-					
-					if (!hasAccessibleName) {
-						const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-						return {
-							line: lineNumber + 1,
-							issue: 'Empty button element needs accessible name (aria-label, aria-labelledby, or visible text)',
-							severity: 'HIGH',
-							range: range
-						};
-					}
-				}
+		if (element.tagName === 'button' && AccessibleName.getTextFromContent(element, document) === '') {
+			// Check if it has any accessible name
+			if (AccessibleName.isMissing(element, document)) {
+				const range = document.getElementRange(element);
+				return {
+					line: range.start.line + 1,
+					issue: 'Empty button element needs accessible name (aria-label, aria-labelledby, or visible text)',
+					severity: 'HIGH',
+					range: range,
+					...RuleCatalog.getMetadata('button-empty')
+				};
 			}
 		}
 		
@@ -422,31 +618,38 @@ export class AriaLabelRoleChecker {
 	/**
 	 * Run all aria-label and role accessibility checks
 	 */
-	static checkAriaLabelAndRole(line: string, lineNumber: number, fullText: string): AccessibilityIssue[] {
+	static checkAriaLabelAndRole(document: HtmlDocument): AccessibilityIssue[] {
 		const issues: AccessibilityIssue[] = [];
 		
-		const checks = [
-			this.checkMissingAriaLabel(line, lineNumber),
-			this.checkEmptyAriaLabel(line, lineNumber),
-			this.checkRedundantAriaLabel(line, lineNumber),
-			this.checkInvalidRole(line, lineNumber),
-			this.checkRedundantRole(line, lineNumber),
-			this.checkMissingAriaLabelledbyReference(line, lineNumber, fullText),
-			this.checkMissingAriaDescribedbyReference(line, lineNumber, fullText),
-			this.checkMissingAriaExpanded(line, lineNumber),
-			this.checkIncorrectAriaExpanded(line, lineNumber),
-			this.checkMissingAriaHiddenOnDecorative(line, lineNumber),
-			this.checkConflictingAriaHiddenAndRole(line, lineNumber),
-			this.checkMissingAriaDisabled(line, lineNumber),
-			this.checkMissingAriaRequired(line, lineNumber),
-			this.checkMissingAriaInvalid(line, lineNumber),
-			this.checkEmptyButtonElements(line, lineNumber)
-		];
-
-		checks.forEach(check => {
-			if (check) {
-				issues.push(check);
-			}
+		document.elements.forEach(element => {
+			const checks = [
+				this.checkMissingAriaLabel(element, document),
+				this.checkEmptyAriaLabel(element, document),
+				this.checkRedundantAriaLabel(element, document),
+				this.checkInvalidRole(element, document),
+				this.checkAbstractRole(element, document),
+				...this.checkAriaAttributes(element, document),
+				this.checkRequiredAriaAttributes(element, document),
+				this.checkRequiredOwnedElements(element, document),
+				this.checkRequiredContextRole(element, document),
+				this.checkRedundantRole(element, document),
+				...this.checkMissingAriaLabelledbyReference(element, document),
+				...this.checkMissingAriaDescribedbyReference(element, document),
+				this.checkMissingAriaExpanded(element, document),
+				this.checkIncorrectAriaExpanded(element, document),
+				this.checkMissingAriaHiddenOnDecorative(element, document),
+				this.checkConflictingAriaHiddenAndRole(element, document),
+				this.checkMissingAriaDisabled(element, document),
+				this.checkMissingAriaRequired(element, document),
+				this.checkMissingAriaInvalid(element, document),
+				this.checkEmptyButtonElements(element, document)
+			];
+
+			checks.forEach(check => {
+				if (check) {
+					issues.push(check);
+				}
+			});
 		});
 
 		return issues;
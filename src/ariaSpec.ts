@@ -0,0 +1,546 @@
+import { HtmlElement } from './htmlParser';
+
+/**
+ * Value types of WAI-ARIA states and properties
+ */
+export type AriaValueType = 'true/false' | 'tristate' | 'true/false/undefined' | 'idref' | 'idrefs' | 'integer' | 'number' |
+	'string' | 'token' | 'tokens';
+
+/**
+ * A WAI-ARIA state or property
+ */
+export interface AriaAttribute {
+	type: AriaValueType;
+	// Allowed values of token and token list attributes
+	values?: string[];
+	// Deprecated on every role
+	deprecated?: boolean;
+}
+
+interface AriaRole {
+	superclass: string[];
+	abstract?: boolean;
+	// States and properties the role adds to those of its superclasses
+	supported?: string[];
+	required?: string[];
+	prohibited?: string[];
+}
+
+/**
+ * WAI-ARIA 1.2 roles, states and properties, with the graphics and DPub module roles, and the
+ * implicit roles HTML elements map to (HTML-AAM)
+ */
+export class AriaSpec {
+	private static readonly GLOBAL_ATTRIBUTES = [
+		'aria-atomic', 'aria-busy', 'aria-controls', 'aria-current', 'aria-describedby', 'aria-description', 'aria-details',
+		'aria-dropeffect', 'aria-flowto', 'aria-grabbed', 'aria-hidden', 'aria-keyshortcuts', 'aria-label', 'aria-labelledby',
+		'aria-live', 'aria-owns', 'aria-relevant', 'aria-roledescription'
+	];
+	// Global in ARIA 1.1; ARIA 1.2 deprecates them on roles that do not list them
+	private static readonly DEPRECATED_GLOBAL_ATTRIBUTES = ['aria-disabled', 'aria-errormessage', 'aria-haspopup', 'aria-invalid'];
+	private static readonly NAMING_PROHIBITED = ['aria-label', 'aria-labelledby'];
+
+	private static readonly ATTRIBUTES: Record<string, AriaAttribute> = {
+		'aria-activedescendant': { type: 'idref' },
+		'aria-atomic': { type: 'true/false' },
+		'aria-autocomplete': { type: 'token', values: ['inline', 'list', 'both', 'none'] },
+		'aria-busy': { type: 'true/false' },
+		'aria-checked': { type: 'tristate' },
+		'aria-colcount': { type: 'integer' },
+		'aria-colindex': { type: 'integer' },
+		'aria-colspan': { type: 'integer' },
+		'aria-controls': { type: 'idrefs' },
+		'aria-current': { type: 'token', values: ['page', 'step', 'location', 'date', 'time', 'true', 'false'] },
+		'aria-describedby': { type: 'idrefs' },
+		'aria-description': { type: 'string' },
+		'aria-details': { type: 'idref' },
+		'aria-disabled': { type: 'true/false' },
+		'aria-dropeffect': { type: 'tokens', values: ['copy', 'execute', 'link', 'move', 'none', 'popup'], deprecated: true },
+		'aria-errormessage': { type: 'idref' },
+		'aria-expanded': { type: 'true/false/undefined' },
+		'aria-flowto': { type: 'idrefs' },
+		'aria-grabbed': { type: 'true/false/undefined', deprecated: true },
+		'aria-haspopup': { type: 'token', values: ['false', 'true', 'menu', 'listbox', 'tree', 'grid', 'dialog'] },
+		'aria-hidden': { type: 'true/false/undefined' },
+		'aria-invalid': { type: 'token', values: ['grammar', 'false', 'spelling', 'true'] },
+		'aria-keyshortcuts': { type: 'string' },
+		'aria-label': { type: 'string' },
+		'aria-labelledby': { type: 'idrefs' },
+		'aria-level': { type: 'integer' },
+		'aria-live': { type: 'token', values: ['assertive', 'off', 'polite'] },
+		'aria-modal': { type: 'true/false' },
+		'aria-multiline': { type: 'true/false' },
+		'aria-multiselectable': { type: 'true/false' },
+		'aria-orientation': { type: 'token', values: ['horizontal', 'vertical', 'undefined'] },
+		'aria-owns': { type: 'idrefs' },
+		'aria-placeholder': { type: 'string' },
+		'aria-posinset': { type: 'integer' },
+		'aria-pressed': { type: 'tristate' },
+		'aria-readonly': { type: 'true/false' },
+		'aria-relevant': { type: 'tokens', values: ['additions', 'all', 'removals', 'text'] },
+		'aria-required': { type: 'true/false' },
+		'aria-roledescription': { type: 'string' },
+		'aria-rowcount': { type: 'integer' },
+		'aria-rowindex': { type: 'integer' },
+		'aria-rowspan': { type: 'integer' },
+		'aria-selected': { type: 'true/false/undefined' },
+		'aria-setsize': { type: 'integer' },
+		'aria-sort': { type: 'token', values: ['ascending', 'descending', 'none', 'other'] },
+		'aria-valuemax': { type: 'number' },
+		'aria-valuemin': { type: 'number' },
+		'aria-valuenow': { type: 'number' },
+		'aria-valuetext': { type: 'string' }
+	};
+
+	private static readonly ROLES: Record<string, AriaRole> = {
+		// Abstract roles
+		command: { superclass: ['widget'], abstract: true },
+		composite: { superclass: ['widget'], abstract: true, supported: ['aria-activedescendant', 'aria-disabled'] },
+		input: { superclass: ['widget'], abstract: true, supported: ['aria-disabled'] },
+		landmark: { superclass: ['section'], abstract: true },
+		range: { superclass: ['structure'], abstract: true, supported: ['aria-valuemax', 'aria-valuemin', 'aria-valuenow', 'aria-valuetext'] },
+		roletype: { superclass: [], abstract: true },
+		section: { superclass: ['structure'], abstract: true },
+		sectionhead: { superclass: ['structure'], abstract: true },
+		select: { superclass: ['composite', 'group'], abstract: true, supported: ['aria-orientation'] },
+		structure: { superclass: ['roletype'], abstract: true },
+		widget: { superclass: ['roletype'], abstract: true },
+		window: { superclass: ['roletype'], abstract: true, supported: ['aria-modal'] },
+
+		// Document structure and landmarks
+		alert: { superclass: ['section'] },
+		alertdialog: { superclass: ['alert', 'dialog'] },
+		application: {
+			superclass: ['structure'],
+			supported: ['aria-activedescendant', 'aria-disabled', 'aria-errormessage', 'aria-expanded', 'aria-haspopup', 'aria-invalid']
+		},
+		article: { superclass: ['document'] },
+		banner: { superclass: ['landmark'] },
+		blockquote: { superclass: ['section'] },
+		caption: { superclass: ['section'], prohibited: this.NAMING_PROHIBITED },
+		cell: { superclass: ['section'], supported: ['aria-colindex', 'aria-colspan', 'aria-rowindex', 'aria-rowspan'] },
+		code: { superclass: ['section'], prohibited: this.NAMING_PROHIBITED },
+		columnheader: { superclass: ['cell', 'gridcell', 'sectionhead'], supported: ['aria-sort'] },
+		complementary: { superclass: ['landmark'] },
+		contentinfo: { superclass: ['landmark'] },
+		definition: { superclass: ['section'] },
+		deletion: { superclass: ['section'], prohibited: this.NAMING_PROHIBITED },
+		dialog: { superclass: ['window'] },
+		directory: { superclass: ['list'] },
+		document: { superclass: ['structure'], supported: ['aria-expanded'] },
+		emphasis: { superclass: ['section'], prohibited: this.NAMING_PROHIBITED },
+		feed: { superclass: ['list'] },
+		figure: { superclass: ['section'] },
+		form: { superclass: ['landmark'] },
+		generic: { superclass: ['structure'], prohibited: this.NAMING_PROHIBITED },
+		group: { superclass: ['section'], supported: ['aria-activedescendant', 'aria-disabled'] },
+		heading: { superclass: ['sectionhead'], supported: ['aria-level'], required: ['aria-level'] },
+		img: { superclass: ['section'] },
+		insertion: { superclass: ['section'], prohibited: this.NAMING_PROHIBITED },
+		list: { superclass: ['section'] },
+		listitem: { superclass: ['section'], supported: ['aria-level', 'aria-posinset', 'aria-setsize'] },
+		log: { superclass: ['section'] },
+		main: { superclass: ['landmark'] },
+		marquee: { superclass: ['section'] },
+		math: { superclass: ['section'] },
+		meter: { superclass: ['range'], required: ['aria-valuenow'] },
+		navigation: { superclass: ['landmark'] },
+		none: { superclass: ['structure'], prohibited: this.NAMING_PROHIBITED },
+		note: { superclass: ['section'] },
+		paragraph: { superclass: ['section'], prohibited: this.NAMING_PROHIBITED },
+		presentation: { superclass: ['structure'], prohibited: this.NAMING_PROHIBITED },
+		region: { superclass: ['landmark'] },
+		row: {
+			superclass: ['group', 'widget'],
+			supported: ['aria-colindex', 'aria-expanded', 'aria-level', 'aria-posinset', 'aria-rowindex', 'aria-selected', 'aria-setsize']
+		},
+		rowgroup: { superclass: ['structure'] },
+		rowheader: { superclass: ['cell', 'gridcell', 'sectionhead'], supported: ['aria-sort'] },
+		search: { superclass: ['landmark'] },
+		separator: {
+			superclass: ['structure', 'widget'],
+			supported: ['aria-disabled', 'aria-orientation', 'aria-valuemax', 'aria-valuemin', 'aria-valuenow', 'aria-valuetext']
+		},
+		status: { superclass: ['section'] },
+		strong: { superclass: ['section'], prohibited: this.NAMING_PROHIBITED },
+		subscript: { superclass: ['section'], prohibited: this.NAMING_PROHIBITED },
+		superscript: { superclass: ['section'], prohibited: this.NAMING_PROHIBITED },
+		table: { superclass: ['section'], supported: ['aria-colcount', 'aria-rowcount'] },
+		tabpanel: { superclass: ['section'] },
+		term: { superclass: ['section'] },
+		time: { superclass: ['section'] },
+		timer: { superclass: ['status'] },
+		toolbar: { superclass: ['group'], supported: ['aria-orientation'] },
+		tooltip: { superclass: ['section'] },
+
+		// Widgets
+		button: { superclass: ['command'], supported: ['aria-disabled', 'aria-expanded', 'aria-haspopup', 'aria-pressed'] },
+		checkbox: {
+			superclass: ['input'],
+			supported: ['aria-checked', 'aria-errormessage', 'aria-expanded', 'aria-invalid', 'aria-readonly', 'aria-required'],
+			required: ['aria-checked']
+		},
+		combobox: {
+			superclass: ['input'],
+			supported: [
+				'aria-activedescendant', 'aria-autocomplete', 'aria-errormessage', 'aria-expanded', 'aria-haspopup', 'aria-invalid',
+				'aria-readonly', 'aria-required'
+			],
+			// ARIA 1.2 also requires aria-controls, which popups commonly set only while open
+			required: ['aria-expanded']
+		},
+		grid: { superclass: ['composite', 'table'], supported: ['aria-multiselectable', 'aria-readonly'] },
+		gridcell: {
+			superclass: ['cell', 'widget'],
+			supported: [
+				'aria-disabled', 'aria-errormessage', 'aria-expanded', 'aria-haspopup', 'aria-invalid', 'aria-readonly', 'aria-required',
+				'aria-selected'
+			]
+		},
+		link: { superclass: ['command'], supported: ['aria-disabled', 'aria-expanded', 'aria-haspopup'] },
+		listbox: {
+			superclass: ['select'],
+			supported: ['aria-errormessage', 'aria-expanded', 'aria-invalid', 'aria-multiselectable', 'aria-readonly', 'aria-required']
+		},
+		menu: { superclass: ['select'] },
+		menubar: { superclass: ['menu'] },
+		menuitem: {
+			superclass: ['command'],
+			supported: ['aria-disabled', 'aria-expanded', 'aria-haspopup', 'aria-posinset', 'aria-setsize']
+		},
+		menuitemcheckbox: { superclass: ['menuitem'], supported: ['aria-checked'], required: ['aria-checked'] },
+		menuitemradio: { superclass: ['menuitemcheckbox'] },
+		option: { superclass: ['input'], supported: ['aria-checked', 'aria-posinset', 'aria-selected', 'aria-setsize'] },
+		progressbar: { superclass: ['range', 'widget'] },
+		radio: { superclass: ['input'], supported: ['aria-checked', 'aria-posinset', 'aria-setsize'], required: ['aria-checked'] },
+		radiogroup: { superclass: ['group'], supported: ['aria-errormessage', 'aria-invalid', 'aria-readonly', 'aria-required'] },
+		scrollbar: {
+			superclass: ['range', 'widget'],
+			supported: ['aria-orientation', 'aria-valuemax', 'aria-valuemin', 'aria-valuenow'],
+			required: ['aria-controls', 'aria-valuenow']
+		},
+		searchbox: { superclass: ['textbox'] },
+		slider: {
+			superclass: ['input', 'range'],
+			supported: ['aria-errormessage', 'aria-haspopup', 'aria-invalid', 'aria-orientation', 'aria-readonly'],
+			required: ['aria-valuenow']
+		},
+		spinbutton: { superclass: ['composite', 'input', 'range'], supported: ['aria-errormessage', 'aria-invalid', 'aria-readonly', 'aria-required'] },
+		switch: { superclass: ['checkbox'] },
+		tab: {
+			superclass: ['sectionhead', 'widget'],
+			supported: ['aria-disabled', 'aria-expanded', 'aria-haspopup', 'aria-posinset', 'aria-selected', 'aria-setsize']
+		},
+		tablist: { superclass: ['composite'], supported: ['aria-multiselectable', 'aria-orientation'] },
+		textbox: {
+			superclass: ['input'],
+			supported: [
+				'aria-activedescendant', 'aria-autocomplete', 'aria-errormessage', 'aria-haspopup', 'aria-invalid', 'aria-multiline',
+				'aria-placeholder', 'aria-readonly', 'aria-required'
+			]
+		},
+		tree: { superclass: ['select'], supported: ['aria-errormessage', 'aria-invalid', 'aria-multiselectable', 'aria-required'] },
+		treegrid: { superclass: ['grid', 'tree'] },
+		treeitem: { superclass: ['listitem', 'option'], supported: ['aria-expanded', 'aria-haspopup'] },
+
+		// Graphics module
+		'graphics-document': { superclass: ['document'] },
+		'graphics-object': { superclass: ['group'] },
+		'graphics-symbol': { superclass: ['img'] },
+
+		// Digital publishing module
+		'doc-abstract': { superclass: ['section'] },
+		'doc-acknowledgments': { superclass: ['landmark'] },
+		'doc-afterword': { superclass: ['landmark'] },
+		'doc-appendix': { superclass: ['landmark'] },
+		'doc-backlink': { superclass: ['link'] },
+		'doc-biblioentry': { superclass: ['listitem'] },
+		'doc-bibliography': { superclass: ['landmark'] },
+		'doc-biblioref': { superclass: ['link'] },
+		'doc-chapter': { superclass: ['landmark'] },
+		'doc-colophon': { superclass: ['section'] },
+		'doc-conclusion': { superclass: ['landmark'] },
+		'doc-cover': { superclass: ['img'] },
+		'doc-credit': { superclass: ['section'] },
+		'doc-credits': { superclass: ['landmark'] },
+		'doc-dedication': { superclass: ['section'] },
+		'doc-endnote': { superclass: ['listitem'] },
+		'doc-endnotes': { superclass: ['landmark'] },
+		'doc-epigraph': { superclass: ['section'] },
+		'doc-epilogue': { superclass: ['landmark'] },
+		'doc-errata': { superclass: ['landmark'] },
+		'doc-example': { superclass: ['section'] },
+		'doc-footnote': { superclass: ['section'] },
+		'doc-foreword': { superclass: ['landmark'] },
+		'doc-glossary': { superclass: ['landmark'] },
+		'doc-glossref': { superclass: ['link'] },
+		'doc-index': { superclass: ['navigation'] },
+		'doc-introduction': { superclass: ['landmark'] },
+		'doc-noteref': { superclass: ['link'] },
+		'doc-notice': { superclass: ['note'] },
+		'doc-pagebreak': { superclass: ['separator'] },
+		'doc-pagefooter': { superclass: ['section'], prohibited: this.NAMING_PROHIBITED },
+		'doc-pageheader': { superclass: ['section'], prohibited: this.NAMING_PROHIBITED },
+		'doc-pagelist': { superclass: ['navigation'] },
+		'doc-part': { superclass: ['landmark'] },
+		'doc-preface': { superclass: ['landmark'] },
+		'doc-prologue': { superclass: ['landmark'] },
+		'doc-pullquote': { superclass: ['none'] },
+		'doc-qna': { superclass: ['section'] },
+		'doc-subtitle': { superclass: ['sectionhead'] },
+		'doc-tip': { superclass: ['note'] },
+		'doc-toc': { superclass: ['navigation'] }
+	};
+
+	// Roles an element must own at least one of; "group > option" is an option inside an owned group
+	private static readonly REQUIRED_OWNED: Record<string, string[]> = {
+		directory: ['listitem'],
+		feed: ['article'],
+		grid: ['row', 'rowgroup > row'],
+		list: ['listitem'],
+		listbox: ['option', 'group > option'],
+		menu: ['menuitem', 'menuitemcheckbox', 'menuitemradio', 'group > menuitem', 'group > menuitemcheckbox', 'group > menuitemradio'],
+		menubar: ['menuitem', 'menuitemcheckbox', 'menuitemradio', 'group > menuitem', 'group > menuitemcheckbox', 'group > menuitemradio'],
+		radiogroup: ['radio'],
+		row: ['cell', 'columnheader', 'gridcell', 'rowheader'],
+		rowgroup: ['row'],
+		table: ['row', 'rowgroup > row'],
+		tablist: ['tab'],
+		tree: ['treeitem', 'group > treeitem'],
+		treegrid: ['row', 'rowgroup > row']
+	};
+	// Roles one of which must own an element
+	private static readonly REQUIRED_CONTEXT: Record<string, string[]> = {
+		caption: ['figure', 'grid', 'table', 'treegrid'],
+		cell: ['row'],
+		columnheader: ['row'],
+		gridcell: ['row'],
+		listitem: ['directory', 'list'],
+		menuitem: ['group', 'menu', 'menubar'],
+		menuitemcheckbox: ['group', 'menu', 'menubar'],
+		menuitemradio: ['group', 'menu', 'menubar'],
+		option: ['group', 'listbox'],
+		row: ['grid', 'rowgroup', 'table', 'treegrid'],
+		rowgroup: ['grid', 'table', 'treegrid'],
+		rowheader: ['row'],
+		tab: ['tablist'],
+		treeitem: ['group', 'tree']
+	};
+
+	// Implicit roles of elements that map to one role whatever their attributes
+	private static readonly ELEMENT_ROLES: Record<string, string> = {
+		address: 'group', article: 'article', aside: 'complementary', b: 'generic', bdi: 'generic', bdo: 'generic',
+		blockquote: 'blockquote', body: 'generic', button: 'button', caption: 'caption', code: 'code', data: 'generic',
+		datalist: 'listbox', dd: 'definition', del: 'deletion', details: 'group', dfn: 'term', dialog: 'dialog', div: 'generic',
+		dt: 'term', em: 'emphasis', fieldset: 'group', figure: 'figure', footer: 'contentinfo', form: 'form', h1: 'heading',
+		h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading', header: 'banner', hgroup: 'group',
+		hr: 'separator', html: 'document', i: 'generic', ins: 'insertion', main: 'main', math: 'math',
+		menu: 'list', meter: 'meter', nav: 'navigation', ol: 'list', optgroup: 'group', option: 'option', output: 'status',
+		p: 'paragraph', pre: 'generic', progress: 'progressbar', q: 'generic', s: 'generic', samp: 'generic', search: 'search',
+		section: 'region', small: 'generic', span: 'generic', strong: 'strong', sub: 'subscript', summary: 'button',
+		sup: 'superscript', svg: 'graphics-document', table: 'table', tbody: 'rowgroup', textarea: 'textbox',
+		tfoot: 'rowgroup', thead: 'rowgroup', time: 'time', tr: 'row', u: 'generic', ul: 'list'
+	};
+	private static readonly INPUT_ROLES: Record<string, string> = {
+		button: 'button', checkbox: 'checkbox', email: 'textbox', image: 'button', number: 'spinbutton', password: 'textbox',
+		radio: 'radio', range: 'slider', reset: 'button', search: 'searchbox', submit: 'button', tel: 'textbox', text: 'textbox',
+		url: 'textbox'
+	};
+
+	/**
+	 * Check whether a name is a WAI-ARIA role, abstract roles included
+	 */
+	static isRole(name: string): boolean {
+		return Object.hasOwn(this.ROLES, name);
+	}
+
+	/**
+	 * Check whether a role is abstract, which content must not use
+	 */
+	static isAbstractRole(name: string): boolean {
+		return this.isRole(name) && this.ROLES[name].abstract === true;
+	}
+
+	/**
+	 * Definition of an aria-* attribute; undefined for names WAI-ARIA does not define
+	 */
+	static getAttribute(name: string): AriaAttribute | undefined {
+		return Object.hasOwn(this.ATTRIBUTES, name) ? this.ATTRIBUTES[name] : undefined;
+	}
+
+	/**
+	 * Role of an element: the first role token that is a concrete role, else its implicit role;
+	 * null for custom elements, components and elements without a role
+	 */
+	static getRole(element: HtmlElement): string | null {
+		return this.getExplicitRole(element) ?? this.getImplicitRole(element);
+	}
+
+	/**
+	 * First concrete role among the tokens of an element's role attribute
+	 */
+	static getExplicitRole(element: HtmlElement): string | null {
+		return (element.getAttribute('role') ?? '').toLowerCase().split(/\s+/)
+			.find(token => this.isRole(token) && !this.isAbstractRole(token)) ?? null;
+	}
+
+	/**
+	 * Role an HTML element has without a role attribute
+	 */
+	static getImplicitRole(element: HtmlElement): string | null {
+		switch (element.tagName) {
+			case 'a':
+			case 'area':
+				return element.hasAttribute('href') ? 'link' : 'generic';
+			case 'img':
+				return element.getAttribute('alt') === '' ? 'presentation' : 'img';
+			case 'input': {
+				const type = (element.getAttribute('type') ?? 'text').toLowerCase();
+				if (['text', 'search', 'email', 'tel', 'url'].includes(type) && element.hasAttribute('list')) {
+					return 'combobox';
+				}
+				return this.INPUT_ROLES[type] ?? null;
+			}
+			case 'select':
+				return element.hasAttribute('multiple') || Number(element.getAttribute('size') ?? 0) > 1 ? 'listbox' : 'combobox';
+			case 'li': {
+				// A list whose role is overridden no longer has list items
+				const listRole = element.parent && ['ul', 'ol', 'menu'].includes(element.parent.tagName) ? element.parent.getAttribute('role') : null;
+				return listRole && listRole.trim().toLowerCase() !== 'list' ? 'generic' : 'listitem';
+			}
+			case 'td': {
+				const table = element.closest('table');
+				return table && ['grid', 'treegrid'].includes(table.getAttribute('role') ?? '') ? 'gridcell' : 'cell';
+			}
+			case 'th':
+				return element.getAttribute('scope')?.toLowerCase() === 'row' ? 'rowheader' : 'columnheader';
+			default:
+				return Object.hasOwn(this.ELEMENT_ROLES, element.tagName) ? this.ELEMENT_ROLES[element.tagName] : null;
+		}
+	}
+
+	/**
+	 * Check whether a role supports an attribute, itself or through its superclasses
+	 */
+	static isAttributeSupported(name: string, role: string): boolean {
+		if (this.isAttributeProhibited(name, role)) {
+			return false;
+		}
+		return this.GLOBAL_ATTRIBUTES.includes(name) || this.DEPRECATED_GLOBAL_ATTRIBUTES.includes(name) ||
+			this.getRoleAttributes(role).includes(name);
+	}
+
+	/**
+	 * Check whether a role prohibits an attribute, e.g. aria-label on generic
+	 */
+	static isAttributeProhibited(name: string, role: string): boolean {
+		return this.getAncestorRoles(role).some(ancestor => this.ROLES[ancestor].prohibited?.includes(name));
+	}
+
+	/**
+	 * Check whether an attribute is deprecated on a role: deprecated everywhere, or one of the
+	 * former global attributes on a role that does not support it
+	 */
+	static isAttributeDeprecated(name: string, role: string | null): boolean {
+		if (this.getAttribute(name)?.deprecated) {
+			return true;
+		}
+		return role !== null && this.DEPRECATED_GLOBAL_ATTRIBUTES.includes(name) && !this.getRoleAttributes(role).includes(name);
+	}
+
+	/**
+	 * States and properties a role requires, its own and its superclasses'
+	 */
+	static getRequiredAttributes(role: string): string[] {
+		return [...new Set(this.getAncestorRoles(role).flatMap(ancestor => this.ROLES[ancestor].required ?? []))];
+	}
+
+	/**
+	 * Roles an element with a role must own at least one of, e.g. "tab" for tablist and
+	 * "group > option" for an option in a group of a listbox
+	 */
+	static getRequiredOwnedElements(role: string): string[] {
+		return Object.hasOwn(this.REQUIRED_OWNED, role) ? this.REQUIRED_OWNED[role] : [];
+	}
+
+	/**
+	 * Roles one of which must own an element with a role, e.g. "tablist" for tab
+	 */
+	static getRequiredContextRoles(role: string): string[] {
+		return Object.hasOwn(this.REQUIRED_CONTEXT, role) ? this.REQUIRED_CONTEXT[role] : [];
+	}
+
+	/**
+	 * Check whether a value is valid for an attribute's type; values of unknown attributes are valid
+	 */
+	static isValidValue(name: string, value: string): boolean {
+		const attribute = this.getAttribute(name);
+		const normalized = value.trim().toLowerCase();
+		switch (attribute?.type) {
+			case 'true/false':
+				return ['true', 'false'].includes(normalized);
+			case 'tristate':
+				return ['true', 'false', 'mixed'].includes(normalized);
+			case 'true/false/undefined':
+				return ['true', 'false', 'undefined'].includes(normalized);
+			case 'token':
+				return attribute.values!.includes(normalized);
+			case 'tokens':
+				return normalized.split(/\s+/).every(token => attribute.values!.includes(token));
+			case 'integer':
+				return /^-?\d+$/.test(normalized);
+			case 'number':
+				return /^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/.test(normalized);
+			case 'idref':
+				return !/\s/.test(value.trim());
+			default:
+				return true;
+		}
+	}
+
+	/**
+	 * Describe the values an attribute takes, for messages
+	 */
+	static describeValues(name: string): string {
+		const attribute = this.getAttribute(name);
+		switch (attribute?.type) {
+			case 'true/false':
+			case 'tristate':
+			case 'true/false/undefined':
+				return attribute.type.replace('tristate', 'true/false/mixed').split('/').map(value => `"${value}"`).join(', ');
+			case 'token':
+			case 'tokens':
+				return `${attribute.type === 'tokens' ? 'a list of ' : ''}${attribute.values!.map(value => `"${value}"`).join(', ')}`;
+			case 'integer':
+				return 'an integer';
+			case 'number':
+				return 'a number';
+			case 'idref':
+				return 'a single id';
+			default:
+				return 'a string';
+		}
+	}
+
+	/**
+	 * Attributes a role lists itself or inherits, without the global ones
+	 */
+	private static getRoleAttributes(role: string): string[] {
+		return this.getAncestorRoles(role).flatMap(ancestor => this.ROLES[ancestor].supported ?? []);
+	}
+
+	/**
+	 * A role and all its superclasses
+	 */
+	private static getAncestorRoles(role: string): string[] {
+		const roles: string[] = [];
+		const visit = (name: string) => {
+			if (Object.hasOwn(this.ROLES, name) && !roles.includes(name)) {
+				roles.push(name);
+				this.ROLES[name].superclass.forEach(visit);
+			}
+		};
+		visit(role);
+		return roles;
+	}
+}
@@ -0,0 +1,217 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AccessibilityIssue } from './accessibilityEngine';
+import { SourcePosition } from './sourceRange';
+
+/**
+ * A known issue recorded in the baseline file
+ */
+export interface BaselineEntry {
+	ruleId: string;
+	// Path relative to the folder containing the baseline file, with forward slashes
+	file: string;
+	// Hash of the rule ID and the flagged source text, so entries survive line shifts
+	fingerprint: string;
+	// Message and line when the baseline was created, for reading the file
+	issue: string;
+	line: number;
+}
+
+/**
+ * Contents of a .marsa11y-baseline.json file
+ */
+export interface BaselineFile {
+	version: 1;
+	entries: BaselineEntry[];
+}
+
+/**
+ * Issues of one file to record in a new baseline
+ */
+export interface BaselineSource {
+	fileName: string;
+	text: string;
+	issues: AccessibilityIssue[];
+}
+
+/**
+ * Issues of a file split by whether the baseline already records them
+ */
+export interface BaselineResult {
+	active: AccessibilityIssue[];
+	baselined: AccessibilityIssue[];
+}
+
+/**
+ * Known issues that are hidden so new ones stand out; each entry hides one matching issue
+ */
+export class Baseline {
+	static readonly FILE_NAME = '.marsa11y-baseline.json';
+
+	// Baselines by folder; null when the folder has none
+	private static readonly cache = new Map<string, Baseline | null>();
+
+	constructor(readonly directory: string, readonly entries: BaselineEntry[]) {}
+
+	/**
+	 * Read and cache the baseline file in a folder; a missing or invalid file means no baseline
+	 */
+	static load(directory: string): Baseline | null {
+		if (this.cache.has(directory)) {
+			return this.cache.get(directory)!;
+		}
+
+		let baseline: Baseline | null = null;
+		const baselinePath = path.join(directory, this.FILE_NAME);
+		if (fs.existsSync(baselinePath)) {
+			try {
+				const parsed = JSON.parse(fs.readFileSync(baselinePath, 'utf8')) as BaselineFile;
+				if (!Array.isArray(parsed?.entries)) {
+					throw new Error('expected an object with an "entries" array');
+				}
+				baseline = new Baseline(directory, parsed.entries);
+			} catch (error) {
+				console.error(`Invalid accessibility baseline ${baselinePath}: ${error instanceof Error ? error.message : error}`);
+			}
+		}
+
+		this.cache.set(directory, baseline);
+		return baseline;
+	}
+
+	/**
+	 * Forget cached baselines so changes on disk are picked up
+	 */
+	static clearCache(): void {
+		this.cache.clear();
+	}
+
+	/**
+	 * Record the current issues of the given files
+	 */
+	static create(directory: string, sources: BaselineSource[]): Baseline {
+		const baseline = new Baseline(directory, []);
+
+		sources.forEach(source => {
+			const file = baseline.getRelativePath(source.fileName);
+			if (file === null) {
+				return;
+			}
+
+			const lineStarts = this.getLineStarts(source.text);
+			source.issues.forEach(issue => baseline.entries.push({
+				ruleId: issue.ruleId,
+				file: file,
+				fingerprint: this.getFingerprint(issue, source.text, lineStarts),
+				issue: issue.issue,
+				line: issue.range.start.line + 1
+			}));
+		});
+
+		baseline.entries.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.ruleId.localeCompare(b.ruleId));
+		return baseline;
+	}
+
+	/**
+	 * Write the baseline file, one entry per line so diffs stay readable
+	 */
+	write(): void {
+		const entries = this.entries.map(entry => `    ${JSON.stringify(entry)}`).join(',\n');
+		const content = `{\n  "version": 1,\n  "entries": [\n${entries}${entries ? '\n' : ''}  ]\n}\n`;
+		fs.writeFileSync(path.join(this.directory, Baseline.FILE_NAME), content);
+		Baseline.cache.set(this.directory, this);
+	}
+
+	/**
+	 * Split a file's issues into new ones and ones the baseline records
+	 */
+	apply(fileName: string, text: string, issues: AccessibilityIssue[]): BaselineResult {
+		const result: BaselineResult = { active: [], baselined: [] };
+		const file = this.getRelativePath(fileName);
+		const remaining = new Map<string, number>();
+
+		this.entries.filter(entry => entry.file === file).forEach(entry => {
+			const key = `${entry.ruleId}\0${entry.fingerprint}`;
+			remaining.set(key, (remaining.get(key) ?? 0) + 1);
+		});
+		if (remaining.size === 0) {
+			result.active = issues;
+			return result;
+		}
+
+		const lineStarts = Baseline.getLineStarts(text);
+		issues.forEach(issue => {
+			const key = `${issue.ruleId}\0${Baseline.getFingerprint(issue, text, lineStarts)}`;
+			const count = remaining.get(key) ?? 0;
+			if (count > 0) {
+				remaining.set(key, count - 1);
+				result.baselined.push(issue);
+			} else {
+				result.active.push(issue);
+			}
+		});
+
+		return result;
+	}
+
+	/**
+	 * Get the files that have baseline entries, as absolute paths
+	 */
+	getFiles(): string[] {
+		return Array.from(new Set(this.entries.map(entry => entry.file)))
+			.map(file => path.join(this.directory, ...file.split('/')));
+	}
+
+	/**
+	 * Get the baseline entries of a file
+	 */
+	getEntries(fileName: string): BaselineEntry[] {
+		const file = this.getRelativePath(fileName);
+		return this.entries.filter(entry => entry.file === file);
+	}
+
+	/**
+	 * Path of a file relative to the baseline folder, or null when it lies outside
+	 */
+	private getRelativePath(fileName: string): string | null {
+		const relativePath = path.relative(this.directory, fileName);
+		if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+			return null;
+		}
+		return relativePath.split(path.sep).join('/');
+	}
+
+	/**
+	 * Hash the rule ID with the flagged source text; whitespace is collapsed so reindenting
+	 * does not invalidate the baseline
+	 */
+	private static getFingerprint(issue: AccessibilityIssue, text: string, lineStarts: number[]): string {
+		const snippet = text
+			.substring(this.offsetAt(issue.range.start, text, lineStarts), this.offsetAt(issue.range.end, text, lineStarts))
+			.replace(/\s+/g, ' ')
+			.trim();
+		return crypto.createHash('sha256').update(`${issue.ruleId}\0${snippet}`).digest('hex').substring(0, 16);
+	}
+
+	/**
+	 * Offsets at which each line of the text starts
+	 */
+	private static getLineStarts(text: string): number[] {
+		const lineStarts = [0];
+		for (let i = 0; i < text.length; i++) {
+			if (text[i] === '\n') {
+				lineStarts.push(i + 1);
+			}
+		}
+		return lineStarts;
+	}
+
+	/**
+	 * Convert a position to an offset in the text
+	 */
+	private static offsetAt(position: SourcePosition, text: string, lineStarts: number[]): number {
+		const lineStart = lineStarts[Math.min(position.line, lineStarts.length - 1)];
+		return Math.min(lineStart + position.character, text.length);
+	}
+}
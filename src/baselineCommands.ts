@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AccessibilityChecker } from './accessibilityChecker';
+import { AccessibilityEngine } from './accessibilityEngine';
+import { Baseline, BaselineSource } from './baseline';
+import { WorkspaceScanner } from './workspaceScanner';
+
+export class BaselineCommands {
+	/**
+	 * Record the current findings of every workspace folder in its baseline file, so only new
+	 * issues are reported from now on
+	 */
+	static async createBaseline(): Promise<void> {
+		const folders = vscode.workspace.workspaceFolders ?? [];
+		if (folders.length === 0) {
+			vscode.window.showErrorMessage('Open a folder to create an accessibility baseline');
+			return;
+		}
+
+		if (folders.some(folder => fs.existsSync(path.join(folder.uri.fsPath, Baseline.FILE_NAME)))) {
+			const choice = await vscode.window.showWarningMessage(
+				`Replace the existing ${Baseline.FILE_NAME}? Issues fixed since it was created will be dropped and new ones recorded.`,
+				{ modal: true },
+				'Replace'
+			);
+			if (choice !== 'Replace') {
+				return;
+			}
+		}
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Creating accessibility baseline',
+			cancellable: true
+		}, async (progress, token) => {
+			const files = await WorkspaceScanner.findFiles(token);
+			const sources = new Map<vscode.WorkspaceFolder, BaselineSource[]>(folders.map(folder => [folder, []]));
+
+			for (const uri of files) {
+				if (token.isCancellationRequested) {
+					vscode.window.showWarningMessage('Accessibility baseline was not created');
+					return;
+				}
+				progress.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / files.length });
+
+				const folder = vscode.workspace.getWorkspaceFolder(uri);
+				const text = await WorkspaceScanner.readFile(uri);
+				if (folder && text !== null) {
+					const issues = AccessibilityEngine.check(uri.fsPath, text, AccessibilityChecker.getConfiguration(uri)).issues;
+					sources.get(folder)?.push({ fileName: uri.fsPath, text: text, issues: issues });
+				}
+			}
+
+			let entryCount = 0;
+			sources.forEach((folderSources, folder) => {
+				const baseline = Baseline.create(folder.uri.fsPath, folderSources);
+				baseline.write();
+				entryCount += baseline.entries.length;
+			});
+			vscode.window.showInformationMessage(
+				`Recorded ${entryCount} known accessibility issue(s) in ${Baseline.FILE_NAME}. Only new issues will be reported.`
+			);
+		});
+	}
+}
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import { AccessibilityChecker } from './accessibilityChecker';
+import { AccessibilityEngine, AccessibilityIssue } from './accessibilityEngine';
+import { Baseline } from './baseline';
+import { WorkspaceScanner } from './workspaceScanner';
+
+type BaselineNode =
+	| { kind: 'file'; uri: vscode.Uri; entryCount: number }
+	| { kind: 'issue'; uri: vscode.Uri; issue: AccessibilityIssue };
+
+/**
+ * Lists the known issues recorded in the baseline, by file, so the debt can be burned down
+ */
+export class BaselineTreeProvider implements vscode.TreeDataProvider<BaselineNode> {
+	static readonly VIEW_ID = 'marsa11yfix.baselineView';
+
+	private readonly changeEmitter = new vscode.EventEmitter<BaselineNode | undefined>();
+	readonly onDidChangeTreeData = this.changeEmitter.event;
+
+	/**
+	 * Reload the view after the baseline or the files it covers changed
+	 */
+	refresh(): void {
+		this.changeEmitter.fire(undefined);
+	}
+
+	getTreeItem(node: BaselineNode): vscode.TreeItem {
+		if (node.kind === 'file') {
+			const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.Collapsed);
+			item.description = `${node.entryCount} known issue(s)`;
+			return item;
+		}
+
+		const range = node.issue.range;
+		const item = new vscode.TreeItem(node.issue.issue, vscode.TreeItemCollapsibleState.None);
+		item.description = `${node.issue.ruleId} · line ${range.start.line + 1}`;
+		item.tooltip = `${node.issue.issue}\n${node.issue.ruleId}${node.issue.wcag.length > 0 ? ` (WCAG ${node.issue.wcag.join(', ')})` : ''}`;
+		item.iconPath = new vscode.ThemeIcon(node.issue.severity === 'HIGH' ? 'error' : 'warning');
+		item.command = {
+			title: 'Open',
+			command: 'vscode.open',
+			arguments: [node.uri, {
+				selection: new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character)
+			}]
+		};
+		return item;
+	}
+
+	/**
+	 * Files with baseline entries at the top level, and the baselined issues still present in each file below
+	 */
+	async getChildren(node?: BaselineNode): Promise<BaselineNode[]> {
+		if (!node) {
+			return (vscode.workspace.workspaceFolders ?? []).flatMap(folder => {
+				const baseline = Baseline.load(folder.uri.fsPath);
+				return (baseline?.getFiles() ?? []).map(fileName => ({
+					kind: 'file' as const,
+					uri: vscode.Uri.file(fileName),
+					entryCount: baseline!.getEntries(fileName).length
+				}));
+			});
+		}
+
+		if (node.kind === 'issue') {
+			return [];
+		}
+
+		const text = await WorkspaceScanner.readFile(node.uri);
+		const baseline = AccessibilityChecker.getBaseline(node.uri);
+		if (text === null || !baseline) {
+			return [];
+		}
+
+		return AccessibilityEngine.check(node.uri.fsPath, text, AccessibilityChecker.getConfiguration(node.uri), baseline)
+			.baselined.map(issue => ({ kind: 'issue' as const, uri: node.uri, issue: issue }));
+	}
+}
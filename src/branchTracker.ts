@@ -0,0 +1,97 @@
+import { ConditionalBranch, HtmlElement } from './htmlParser';
+
+/**
+ * Source range covered by a conditional branch
+ */
+export interface BranchRegion {
+	start: number;
+	end: number;
+	branch: ConditionalBranch;
+}
+
+interface OpenBlock {
+	branch: ConditionalBranch;
+	start: number;
+	kind: string;
+	// Number of case branches started in a switch block
+	cases: number;
+}
+
+/**
+ * Follows the blocks of template syntax such as {{#if}}…{{else}}…{{/if}} or @if {…} @else {…}
+ * in source order and records where each branch starts and ends, so elements can be placed in
+ * the branches they render in
+ */
+export class BranchTracker {
+	readonly regions: BranchRegion[] = [];
+	private readonly openBlocks: OpenBlock[] = [];
+
+	/**
+	 * Start a block whose first branch begins at an offset; blocks without alternatives are
+	 * tracked too so their closing syntax matches up
+	 */
+	open(offset: number, kind: string): void {
+		this.openBlocks.push({ branch: { group: {}, index: 0, parent: this.getCurrentBranch() }, start: offset, kind: kind, cases: 0 });
+	}
+
+	/**
+	 * End the current branch of the innermost block and start its next one, e.g. at {{else}}
+	 */
+	next(end: number, start: number): void {
+		const block = this.openBlocks.pop();
+		if (!block) {
+			return;
+		}
+		this.regions.push({ start: block.start, end: end, branch: block.branch });
+		this.openBlocks.push({ ...block, branch: { group: block.branch.group, index: block.branch.index + 1, parent: block.branch.parent }, start: start });
+	}
+
+	/**
+	 * Start a case of the innermost block of a kind, each case being a branch of that block
+	 */
+	openCase(offset: number, switchKind: string): void {
+		const block = [...this.openBlocks].reverse().find(candidate => candidate.kind === switchKind);
+		if (!block) {
+			this.open(offset, 'case');
+			return;
+		}
+		block.cases++;
+		this.openBlocks.push({ branch: { group: block.branch.group, index: block.cases, parent: block.branch.parent }, start: offset, kind: 'case', cases: 0 });
+	}
+
+	/**
+	 * End the innermost block, or the innermost one of a kind along with the blocks left open
+	 * inside it; closing syntax without a matching block is ignored
+	 */
+	close(end: number, kind?: string): void {
+		const index = kind === undefined ? this.openBlocks.length - 1 : this.openBlocks.map(block => block.kind).lastIndexOf(kind);
+		if (index < 0) {
+			return;
+		}
+		this.openBlocks.splice(index).forEach(block => this.regions.push({ start: block.start, end: end, branch: block.branch }));
+	}
+
+	/**
+	 * Put each element into the innermost branch containing its start; blocks still open end
+	 * with the text
+	 */
+	assign(elements: HtmlElement[], textLength: number): void {
+		this.openBlocks.splice(0).forEach(block => this.regions.push({ start: block.start, end: textLength, branch: block.branch }));
+		elements.forEach(element => {
+			let innermost: BranchRegion | null = null;
+			for (const region of this.regions) {
+				if (region.start <= element.start && element.start < region.end && (!innermost || region.start >= innermost.start)) {
+					innermost = region;
+				}
+			}
+			element.addOuterBranch(innermost?.branch ?? null);
+		});
+	}
+
+	/**
+	 * Branch of the innermost open block
+	 */
+	private getCurrentBranch(): ConditionalBranch | null {
+		return this.openBlocks.length > 0 ? this.openBlocks[this.openBlocks.length - 1].branch : null;
+	}
+}
@@ -0,0 +1,291 @@
+import { AccessibilityIssue } from './accessibilityEngine';
+import { FormElementsChecker } from './formElementsChecker';
+import { ImageChecker } from './imageChecker';
+import { OtherAccessibilityChecker } from './otherAccessibilityChecker';
+import { AriaLabelRoleChecker } from './ariaLabelRoleChecker';
+import { TabIndexChecker } from './tabIndexChecker';
+import { SemanticHtmlChecker } from './semanticHtmlChecker';
+import { ColorContrastChecker } from './colorContrastChecker';
+import { KeyboardNavigationChecker } from './keyboardNavigationChecker';
+import { FocusManagementChecker } from './focusManagementChecker';
+import { InputPurposeChecker } from './inputPurposeChecker';
+import { LabelNameConsistencyChecker } from './labelNameConsistencyChecker';
+import { IdReferenceChecker } from './idReferenceChecker';
+import { HtmlDocument, HtmlElement, ScriptBlock, StyleRule } from './htmlParser';
+import { MarkupParser } from './markupParser';
+import { RuleCatalog } from './ruleCatalog';
+import { RuleOptions } from './ruleConfig';
+import { RuleContext, RuleDefinition } from './ruleRegistry';
+import { StyleCascade } from './styleCascade';
+import { StylesheetParser } from './stylesheetParser';
+
+type ElementCheck = (element: HtmlElement, document: HtmlDocument, options: RuleOptions) => AccessibilityIssue | AccessibilityIssue[] | null;
+type StyleCheck = (rule: StyleRule, document: HtmlDocument, options: RuleOptions) => AccessibilityIssue | null;
+type CascadeCheck = (document: HtmlDocument, cascade: StyleCascade) => (AccessibilityIssue | null)[];
+type ScriptCheck = (script: ScriptBlock, document: HtmlDocument) => AccessibilityIssue[];
+
+export class BuiltInRules {
+	// Rules about the structure of a whole page, which a component is only part of
+	private static readonly PAGE_RULES = ['heading-order'];
+
+	/**
+	 * Get a rule definition for every built-in check
+	 */
+	static getRules(): RuleDefinition[] {
+		const checkHeadingHierarchy = this.shared((element: HtmlElement, document: HtmlDocument) => SemanticHtmlChecker.checkHeadingHierarchy(element, document));
+		const checkListStructure = this.shared((element: HtmlElement, document: HtmlDocument) => SemanticHtmlChecker.checkListStructure(element, document));
+		const checkTableStructure = this.shared((element: HtmlElement, document: HtmlDocument) => SemanticHtmlChecker.checkTableStructure(element, document));
+		const checkFormStructure = this.shared((element: HtmlElement, document: HtmlDocument) => SemanticHtmlChecker.checkFormStructure(element, document));
+		const checkButtonUsage = this.shared((element: HtmlElement, document: HtmlDocument) => SemanticHtmlChecker.checkButtonUsage(element, document));
+		const checkLandmarkUsage = this.shared((element: HtmlElement, document: HtmlDocument) => SemanticHtmlChecker.checkLandmarkUsage(element, document));
+		const checkDocumentStructure = this.shared((element: HtmlElement, document: HtmlDocument) => SemanticHtmlChecker.checkDocumentStructure(element, document));
+		const checkAriaAttributes = this.shared((element: HtmlElement, document: HtmlDocument) => AriaLabelRoleChecker.checkAriaAttributes(element, document));
+		const checkAutocompleteMismatch = this.shared((element: HtmlElement, document: HtmlDocument) => InputPurposeChecker.checkInputTypeAutocompleteMismatch(element, document));
+		const checkDocumentContrast = this.shared((document: HtmlDocument, cascade: StyleCascade) => ColorContrastChecker.checkDocumentContrast(document, cascade));
+
+		return [
+			// Images
+			this.elementRule('image-alt', (element, document) => ImageChecker.checkImageAltAttributes(element, document)),
+			this.elementRule('image-alt-empty', (element, document) => ImageChecker.checkEmptyAltAttributes(element, document)),
+
+			// Form elements
+			this.elementRule('form-input-label', (element, document) => FormElementsChecker.checkFormInputLabels(element, document)),
+			this.elementRule('label-for', (element, document) => FormElementsChecker.checkFormLabels(element, document)),
+
+			// General checks
+			this.elementRule('single-h1', (element, document) => OtherAccessibilityChecker.checkHeadingStructure(element, document)),
+			this.elementRule('html-has-lang', (element, document) => OtherAccessibilityChecker.checkHtmlLangAttribute(element, document)),
+			this.elementRule('clickable-keyboard-access', (element, document) => OtherAccessibilityChecker.checkKeyboardAccessibility(element, document)),
+			this.styleRule('color-styling', (rule, document) => OtherAccessibilityChecker.checkColorOnlyInformation(rule, document)),
+			this.cascadeRule('focus-outline-removed', (document, cascade) =>
+				[
+					...document.getStyleRules().map(rule => OtherAccessibilityChecker.checkFocusIndicators(rule, document, cascade)),
+					...OtherAccessibilityChecker.checkUtilityFocusIndicators(document, cascade)
+				]
+			),
+
+			// Semantic HTML
+			this.elementRule('heading-h1-unique', checkHeadingHierarchy),
+			this.elementRule('heading-order', checkHeadingHierarchy),
+			this.elementRule('html-lang', (element, document) => SemanticHtmlChecker.checkHtmlLangAttribute(element, document)),
+			this.elementRule('listitem-parent', checkListStructure),
+			this.elementRule('list-nesting', checkListStructure),
+			this.elementRule('table-cell-parent', checkTableStructure),
+			this.elementRule('table-header-parent', checkTableStructure),
+			this.elementRule('table-caption', checkTableStructure),
+			this.elementRule('form-control-label', checkFormStructure),
+			this.elementRule('fieldset-legend', checkFormStructure),
+			this.elementRule('semantic-button', checkButtonUsage),
+			this.elementRule('button-name', checkButtonUsage),
+			this.elementRule('link-name', (element, document) => SemanticHtmlChecker.checkLinkUsage(element, document)),
+			// Checked again for link-purpose, whose phrases option changes what the check finds
+			this.elementRule('link-purpose', (element, document, options) =>
+				SemanticHtmlChecker.checkLinkUsage(element, document, this.getStringList(options, 'phrases'))
+			),
+			this.elementRule('landmark-main', checkLandmarkUsage),
+			this.elementRule('landmark-main-unique', checkLandmarkUsage),
+			this.elementRule('section-heading', (element, document) => SemanticHtmlChecker.checkSectioningElements(element, document)),
+			this.elementRule('nav-list', (element, document) => SemanticHtmlChecker.checkNavigationStructure(element, document)),
+			this.elementRule('document-title', checkDocumentStructure),
+			this.elementRule('meta-viewport', checkDocumentStructure),
+
+			// ARIA labels and roles
+			this.elementRule('aria-name-missing', (element, document) => AriaLabelRoleChecker.checkMissingAriaLabel(element, document)),
+			this.elementRule('aria-label-empty', (element, document) => AriaLabelRoleChecker.checkEmptyAriaLabel(element, document)),
+			this.elementRule('aria-label-redundant', (element, document) => AriaLabelRoleChecker.checkRedundantAriaLabel(element, document)),
+			this.elementRule('aria-role-valid', (element, document) => AriaLabelRoleChecker.checkInvalidRole(element, document)),
+			this.elementRule('aria-role-abstract', (element, document) => AriaLabelRoleChecker.checkAbstractRole(element, document)),
+			this.elementRule('aria-attribute-valid', checkAriaAttributes),
+			this.elementRule('aria-attribute-allowed', checkAriaAttributes),
+			this.elementRule('aria-attribute-value', checkAriaAttributes),
+			this.elementRule('aria-attribute-deprecated', checkAriaAttributes),
+			this.elementRule('aria-attribute-required', (element, document) => AriaLabelRoleChecker.checkRequiredAriaAttributes(element, document)),
+			this.elementRule('aria-required-owned', (element, document) => AriaLabelRoleChecker.checkRequiredOwnedElements(element, document)),
+			this.elementRule('aria-required-context', (element, document) => AriaLabelRoleChecker.checkRequiredContextRole(element, document)),
+			this.elementRule('aria-role-redundant', (element, document) => AriaLabelRoleChecker.checkRedundantRole(element, document)),
+			this.elementRule('aria-labelledby-reference', (element, document) => AriaLabelRoleChecker.checkMissingAriaLabelledbyReference(element, document)),
+			this.elementRule('aria-describedby-reference', (element, document) => AriaLabelRoleChecker.checkMissingAriaDescribedbyReference(element, document)),
+			this.elementRule('aria-expanded-missing', (element, document) => AriaLabelRoleChecker.checkMissingAriaExpanded(element, document)),
+			this.elementRule('aria-expanded-value', (element, document) => AriaLabelRoleChecker.checkIncorrectAriaExpanded(element, document)),
+			this.elementRule('aria-hidden-decorative', (element, document) => AriaLabelRoleChecker.checkMissingAriaHiddenOnDecorative(element, document)),
+			this.elementRule('aria-hidden-role', (element, document) => AriaLabelRoleChecker.checkConflictingAriaHiddenAndRole(element, document)),
+			this.elementRule('aria-disabled-missing', (element, document) => AriaLabelRoleChecker.checkMissingAriaDisabled(element, document)),
+			this.elementRule('aria-required-missing', (element, document) => AriaLabelRoleChecker.checkMissingAriaRequired(element, document)),
+			this.elementRule('aria-invalid-missing', (element, document) => AriaLabelRoleChecker.checkMissingAriaInvalid(element, document)),
+			this.elementRule('button-empty', (element, document) => AriaLabelRoleChecker.checkEmptyButtonElements(element, document)),
+
+			// ids and ID references
+			this.elementRule('id-duplicate', (element, document) => IdReferenceChecker.checkDuplicateIds(element, document)),
+			this.createRule('id-reference-missing', context => context.document.elements.flatMap(element =>
+				IdReferenceChecker.checkMissingReferences(element, context.document, MarkupParser.isPage(context.fileName))
+			)),
+			this.elementRule('id-reference-target', (element, document) => IdReferenceChecker.checkReferenceTargets(element, document)),
+
+			// Tab index
+			this.elementRule('tabindex-negative', (element, document) => TabIndexChecker.checkNegativeTabIndex(element, document)),
+			this.elementRule('tabindex-zero-non-interactive', (element, document) => TabIndexChecker.checkTabIndexZeroOnNonInteractive(element, document)),
+			this.elementRule('tabindex-missing-custom-interactive', (element, document) => TabIndexChecker.checkMissingTabIndexOnCustomInteractive(element, document)),
+			this.elementRule('tabindex-redundant', (element, document) => TabIndexChecker.checkRedundantTabIndexOnFocusable(element, document)),
+			this.elementRule('tabindex-positive', (element, document) => TabIndexChecker.checkPositiveTabIndex(element, document)),
+			this.elementRule('tabindex-missing-clickable', (element, document) => TabIndexChecker.checkMissingTabIndexOnClickable(element, document)),
+			this.elementRule('tabindex-disabled', (element, document) => TabIndexChecker.checkDisabledElementWithTabIndex(element, document)),
+			this.elementRule('tabindex-hidden', (element, document) => TabIndexChecker.checkTabIndexOnHiddenElement(element, document)),
+			this.elementRule('tabindex-decorative', (element, document) => TabIndexChecker.checkTabIndexOnDecorativeElement(element, document)),
+			this.elementRule('tabindex-low-positive', (element, document) => TabIndexChecker.checkInconsistentTabIndexUsage(element, document)),
+			this.elementRule('tabindex-missing-modal-trigger', (element, document) => TabIndexChecker.checkMissingTabIndexOnModalTrigger(element, document)),
+			this.elementRule('tabindex-presentation-role', (element, document) => TabIndexChecker.checkTabIndexOnPresentationRole(element, document)),
+			this.elementRule('tabindex-none-role', (element, document) => TabIndexChecker.checkTabIndexOnNoneRole(element, document)),
+			this.elementRule('tabindex-aria-hidden', (element, document) => TabIndexChecker.checkTabIndexOnAriaHidden(element, document)),
+			this.elementRule('tabindex-missing-custom-form-control', (element, document) => TabIndexChecker.checkMissingTabIndexOnCustomFormControl(element, document)),
+			this.elementRule('tabindex-non-interactive', (element, document) => TabIndexChecker.checkTabIndexOnNonInteractiveElement(element, document)),
+
+			// Color contrast
+			this.cascadeRule('color-contrast', checkDocumentContrast),
+			this.cascadeRule('color-contrast-inline', checkDocumentContrast),
+			this.cascadeRule('color-contrast-unknown', checkDocumentContrast),
+			this.styleRule('color-only-information', (rule, document) => ColorContrastChecker.checkColorOnlyInformation(rule, document)),
+			this.styleRule('non-text-contrast', (rule, document) => ColorContrastChecker.checkNonTextContrast(rule, document)),
+			this.styleRule('focus-indicator-contrast', (rule, document) => ColorContrastChecker.checkFocusIndicatorContrast(rule, document)),
+			this.styleRule('text-spacing', (rule, document, options) =>
+				ColorContrastChecker.checkTextSpacing(rule, document, this.getStringList(options, 'properties'))
+			),
+			this.styleRule('text-spacing-important', (rule, document, options) =>
+				ColorContrastChecker.checkImportantTextSpacing(rule, document, this.getStringList(options, 'properties'))
+			),
+			this.styleRule('font-size-fixed', (rule, document) => ColorContrastChecker.checkFixedFontSize(rule, document)),
+
+			// Keyboard navigation
+			this.elementRule('keyboard-clickable', (element, document) => KeyboardNavigationChecker.checkKeyboardAccessibility(element, document)),
+			this.elementRule('keyboard-trap', (element, document) => KeyboardNavigationChecker.checkKeyboardTrap(element, document)),
+			this.elementRule('keyboard-handler-missing', (element, document) => KeyboardNavigationChecker.checkMissingKeyboardHandlers(element, document)),
+			this.elementRule('keyboard-order-positive-tabindex', (element, document) => KeyboardNavigationChecker.checkKeyboardNavigationOrder(element, document)),
+			this.elementRule('skip-link', (element, document) => KeyboardNavigationChecker.checkMissingSkipLinks(element, document)),
+			this.elementRule('keyboard-shortcut', (element, document) => KeyboardNavigationChecker.checkKeyboardShortcuts(element, document)),
+			this.elementRule('keyboard-aria-widget', (element, document) => KeyboardNavigationChecker.checkAriaKeyboardNavigation(element, document)),
+			this.elementRule('keyboard-form-control', (element, document) => KeyboardNavigationChecker.checkFormKeyboardNavigation(element, document)),
+
+			// Focus management
+			this.elementRule('focus-order-positive-tabindex', (element, document) => FocusManagementChecker.checkFocusOrder(element, document)),
+			this.elementRule('focus-trap-dialog', (element, document) => FocusManagementChecker.checkFocusTrap(element, document)),
+			this.elementRule('focus-aria-widget', (element, document) => FocusManagementChecker.checkAriaFocusManagement(element, document)),
+			this.elementRule('focus-form-validation', (element, document) => FocusManagementChecker.checkFormFocusManagement(element, document)),
+			this.elementRule('focus-collapsible', (element, document) => FocusManagementChecker.checkCollapsibleFocusManagement(element, document)),
+			this.elementRule('focus-interactive-table', (element, document) => FocusManagementChecker.checkTableFocusManagement(element, document)),
+			this.styleRule('focus-indicator-removed', (rule, document) => FocusManagementChecker.checkMissingFocusIndicators(rule, document)),
+			this.scriptRule('focus-dynamic-content', (script, document) => FocusManagementChecker.checkDynamicFocusManagement(script, document)),
+			this.scriptRule('focus-spa-navigation', (script, document) => FocusManagementChecker.checkSPAFocusManagement(script, document)),
+
+			// Input purpose
+			this.elementRule('autocomplete-missing', (element, document) => InputPurposeChecker.checkMissingAutocomplete(element, document)),
+			this.elementRule('autocomplete-valid', (element, document) => InputPurposeChecker.checkInvalidAutocomplete(element, document)),
+			this.elementRule('autocomplete-email', checkAutocompleteMismatch),
+			this.elementRule('autocomplete-password', checkAutocompleteMismatch),
+			this.elementRule('autocomplete-personal-info', (element, document) => InputPurposeChecker.checkPersonalInformationFields(element, document)),
+			this.elementRule('autocomplete-financial', (element, document) => InputPurposeChecker.checkFinancialFields(element, document)),
+			this.elementRule('autocomplete-authentication', (element, document) => InputPurposeChecker.checkAuthenticationFields(element, document)),
+			this.elementRule('autocomplete-contact', (element, document) => InputPurposeChecker.checkContactFields(element, document)),
+			this.elementRule('autocomplete-address', (element, document) => InputPurposeChecker.checkAddressFields(element, document)),
+			this.elementRule('autocomplete-off', (element, document) => InputPurposeChecker.checkAutocompleteOffOnUserFields(element, document)),
+
+			// Label and name consistency
+			this.elementRule('label-in-name', (element, document) => LabelNameConsistencyChecker.checkLabelNameConsistencyIssue(element, document)),
+			this.elementRule('accessible-name-missing', (element, document) => LabelNameConsistencyChecker.checkMissingAccessibleNames(element, document)),
+			this.elementRule('accessible-name-redundant', (element, document) => LabelNameConsistencyChecker.checkRedundantAccessibleNames(element, document)),
+			this.elementRule('accessible-name-conflict', (element, document) => LabelNameConsistencyChecker.checkConflictingAccessibleNames(element, document)),
+			this.elementRule('accessible-name-empty', (element, document) => LabelNameConsistencyChecker.checkEmptyAccessibleNames(element, document)),
+			this.elementRule('aria-label-non-interactive', (element, document) => LabelNameConsistencyChecker.checkAccessibleNamesOnNonInteractive(element, document)),
+			this.elementRule('form-element-name', (element, document) => LabelNameConsistencyChecker.checkFormElementAccessibleNames(element, document)),
+			this.elementRule('custom-control-name', (element, document) => LabelNameConsistencyChecker.checkCustomControlAccessibleNames(element, document)),
+			this.elementRule('image-name', (element, document) => LabelNameConsistencyChecker.checkImageAccessibleNames(element, document))
+		];
+	}
+
+	/**
+	 * Read an option that holds a list of strings, or undefined to use the check's default
+	 */
+	private static getStringList(options: RuleOptions, name: string): string[] | undefined {
+		const value = options[name];
+		return Array.isArray(value) ? value.map(item => String(item).toLowerCase()) : undefined;
+	}
+
+	/**
+	 * Check that reports several rules, run once per element or document and reused by each of
+	 * those rules; only for checks that take no rule options
+	 */
+	private static shared<K extends object, A extends unknown[], R>(check: (key: K, ...args: A) => R): (key: K, ...args: A) => R {
+		const results = new WeakMap<K, R>();
+		return (key, ...args) => {
+			if (!results.has(key)) {
+				results.set(key, check(key, ...args));
+			}
+			return results.get(key)!;
+		};
+	}
+
+	/**
+	 * Rule that runs a check against every element in the document; a check may report several
+	 * issues for one element
+	 */
+	private static elementRule(ruleId: string, check: ElementCheck): RuleDefinition {
+		return this.createRule(ruleId, (context: RuleContext) =>
+			context.document.elements.flatMap(element => check(element, context.document, context.options))
+		);
+	}
+
+	/**
+	 * Rule that runs a check against every stylesheet rule and inline style, in markup and in
+	 * standalone stylesheets
+	 */
+	private static styleRule(ruleId: string, check: StyleCheck): RuleDefinition {
+		return this.createRule(ruleId, (context: RuleContext) =>
+			context.document.getStyleRules().map(rule => check(rule, context.document, context.options)),
+			[...MarkupParser.getFileTypes(), ...StylesheetParser.FILE_TYPES]
+		);
+	}
+
+	/**
+	 * Rule that checks a whole document with the styles that apply to its elements, including
+	 * linked stylesheets
+	 */
+	private static cascadeRule(ruleId: string, check: CascadeCheck): RuleDefinition {
+		return this.createRule(ruleId, (context: RuleContext) =>
+			check(context.document, StyleCascade.forDocument(context.document, context.fileName)),
+			[...MarkupParser.getFileTypes(), ...StylesheetParser.FILE_TYPES]
+		);
+	}
+
+	/**
+	 * Rule that runs a check against every script block and event handler attribute
+	 */
+	private static scriptRule(ruleId: string, check: ScriptCheck): RuleDefinition {
+		return this.createRule(ruleId, (context: RuleContext) => {
+			const issues: AccessibilityIssue[] = [];
+			context.document.getScripts().forEach(script => issues.push(...check(script, context.document)));
+			return issues;
+		});
+	}
+
+	/**
+	 * Wrap a check in a rule definition; checks that report several rules only contribute issues for this one
+	 */
+	private static createRule(
+		ruleId: string,
+		collect: (context: RuleContext) => (AccessibilityIssue | null)[],
+		fileTypes: string[] = MarkupParser.getFileTypes()
+	): RuleDefinition {
+		const metadata = RuleCatalog.getMetadata(ruleId);
+		return {
+			id: ruleId,
+			metadata: {
+				description: RuleCatalog.getDescription(ruleId) ?? ruleId,
+				wcag: metadata.wcag,
+				level: RuleCatalog.getLevel(metadata.wcag),
+				helpUrl: metadata.helpUrl
+			},
+			fileTypes: this.PAGE_RULES.includes(ruleId) ? MarkupParser.getPageFileTypes() : fileTypes,
+			check: context => collect(context).filter((issue): issue is AccessibilityIssue =>
+				issue !== null && issue.ruleId === ruleId
+			)
+		};
+	}
+}
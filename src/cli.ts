@@ -0,0 +1,264 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AccessibilityEngine, AccessibilityIssue } from './accessibilityEngine';
+import { Baseline } from './baseline';
+import { GitignoreFilter } from './gitignoreFilter';
+import { GlobPattern } from './globPattern';
+import { RuleConfigLoader } from './ruleConfig';
+import { RuleRegistry } from './ruleRegistry';
+import { FileReport, SarifExporter } from './sarifExporter';
+
+export type CliFormat = 'stylish' | 'sarif';
+
+/**
+ * Parsed command-line arguments
+ */
+export interface CliOptions {
+	// Files, folders and globs to check
+	patterns: string[];
+	// Fail when there are more warnings than this; -1 allows any number
+	maxWarnings: number;
+	// Skip files matched by .gitignore
+	gitignore: boolean;
+	// Hide known issues recorded in the baseline file of the current folder
+	baseline: boolean;
+	// Report errors only
+	quiet: boolean;
+	format: CliFormat;
+	// Write the report to this file instead of standard output
+	outputFile: string | null;
+	help: boolean;
+}
+
+/**
+ * Where the command line writes its output; process.stdout and process.stderr fit
+ */
+export interface CliOutput {
+	write(text: string): unknown;
+}
+
+/**
+ * Invalid command-line arguments
+ */
+export class CliUsageError extends Error {}
+
+/**
+ * Checks files from the command line, for CI pipelines and pre-commit hooks
+ */
+export class Cli {
+	static readonly USAGE = [
+		'Usage: marsa11y [options] [file|dir|glob ...]',
+		'',
+		'Check HTML files for accessibility issues. Defaults to the current folder.',
+		'',
+		'Options:',
+		'  --max-warnings <n>        Exit with an error when there are more than n warnings',
+		'  --no-gitignore            Also check files matched by .gitignore',
+		`  --no-baseline             Also report issues recorded in ${Baseline.FILE_NAME}`,
+		'  --quiet                   Report errors only, without checking --max-warnings',
+		'  -f, --format <format>     Output format: stylish (default) or sarif',
+		'  -o, --output-file <path>  Write the report to a file',
+		'  -h, --help                Show this help',
+		''
+	].join('\n');
+
+	// Folders never searched when expanding folders and globs
+	private static readonly SKIPPED_DIRECTORIES = ['node_modules', '.git'];
+
+	/**
+	 * Run the command line and return the exit code: 0 when clean, 1 when there are errors
+	 * or too many warnings, 2 when the arguments are invalid
+	 */
+	static run(args: string[], cwd: string = process.cwd(), stdout: CliOutput = process.stdout, stderr: CliOutput = process.stderr): number {
+		let options: CliOptions;
+		let files: string[];
+		try {
+			options = this.parseArguments(args);
+			if (options.help) {
+				stdout.write(this.USAGE);
+				return 0;
+			}
+			files = this.findFiles(options.patterns, cwd, options.gitignore);
+		} catch (error) {
+			if (error instanceof CliUsageError) {
+				stderr.write(`marsa11y: ${error.message}\n\n${this.USAGE}`);
+				return 2;
+			}
+			throw error;
+		}
+
+		const baseline = options.baseline ? Baseline.load(cwd) : null;
+		const reports: FileReport[] = files.map(file => ({
+			fileName: file,
+			report: AccessibilityEngine.check(file, fs.readFileSync(file, 'utf8'), RuleConfigLoader.load(file, {}, cwd), baseline)
+		}));
+		const issues = reports.flatMap(file => file.report.issues);
+		const errorCount = issues.filter(issue => issue.severity === 'HIGH').length;
+		// Hidden warnings do not count towards --max-warnings either
+		const warningCount = options.quiet ? 0 : issues.length - errorCount;
+		if (options.quiet) {
+			reports.forEach(file => file.report.issues = file.report.issues.filter(issue => issue.severity === 'HIGH'));
+		}
+
+		const output = options.format === 'sarif'
+			? JSON.stringify(SarifExporter.createLog(reports, cwd), null, 2) + '\n'
+			: this.formatStylish(reports, cwd, errorCount, warningCount, options.quiet);
+		if (options.outputFile) {
+			fs.writeFileSync(path.resolve(cwd, options.outputFile), output);
+		} else {
+			stdout.write(output);
+		}
+
+		if (options.maxWarnings >= 0 && warningCount > options.maxWarnings) {
+			stderr.write(`marsa11y found too many warnings (${warningCount}). Maximum allowed is ${options.maxWarnings}.\n`);
+			return 1;
+		}
+		return errorCount > 0 ? 1 : 0;
+	}
+
+	/**
+	 * Parse command-line arguments
+	 */
+	static parseArguments(args: string[]): CliOptions {
+		const options: CliOptions = {
+			patterns: [], maxWarnings: -1, gitignore: true, baseline: true, quiet: false, format: 'stylish', outputFile: null, help: false
+		};
+		let i = 0;
+		const getValue = (name: string) => {
+			const arg = args[i];
+			const value = arg.includes('=') ? arg.substring(arg.indexOf('=') + 1) : args[++i];
+			if (value === undefined || value === '') {
+				throw new CliUsageError(`${name} expects a value`);
+			}
+			return value;
+		};
+
+		for (; i < args.length; i++) {
+			const arg = args[i];
+			const name = arg.split('=')[0];
+			if (arg === '-h' || arg === '--help') {
+				options.help = true;
+			} else if (arg === '--quiet') {
+				options.quiet = true;
+			} else if (arg === '--no-gitignore') {
+				options.gitignore = false;
+			} else if (arg === '--no-baseline') {
+				options.baseline = false;
+			} else if (name === '--max-warnings') {
+				const value = getValue(name);
+				if (!/^-?\d+$/.test(value)) {
+					throw new CliUsageError('--max-warnings expects a whole number');
+				}
+				options.maxWarnings = parseInt(value, 10);
+			} else if (name === '-f' || name === '--format') {
+				const value = getValue(name);
+				if (value !== 'stylish' && value !== 'sarif') {
+					throw new CliUsageError(`Unknown format ${value}; use stylish or sarif`);
+				}
+				options.format = value;
+			} else if (name === '-o' || name === '--output-file') {
+				options.outputFile = getValue(name);
+			} else if (arg.startsWith('-') && arg !== '-') {
+				throw new CliUsageError(`Unknown option ${arg}`);
+			} else {
+				options.patterns.push(arg);
+			}
+		}
+
+		if (options.patterns.length === 0) {
+			options.patterns.push('.');
+		}
+		return options;
+	}
+
+	/**
+	 * Expand files, folders and globs to the files to check, in path order; folders and globs
+	 * only include files that rules apply to
+	 */
+	static findFiles(patterns: string[], cwd: string, respectGitignore = true): string[] {
+		const gitignore = respectGitignore ? new GitignoreFilter(cwd) : null;
+		const files = new Set<string>();
+
+		patterns.forEach(pattern => {
+			const resolved = path.resolve(cwd, pattern);
+			const stat = fs.statSync(resolved, { throwIfNoEntry: false });
+			let matches: string[];
+
+			if (stat?.isFile()) {
+				matches = [resolved];
+			} else if (stat?.isDirectory()) {
+				matches = this.walk(resolved, gitignore).filter(file => RuleRegistry.hasRulesForFile(file));
+			} else if (GlobPattern.isGlob(pattern)) {
+				const glob = pattern.split(path.sep).join('/');
+				const baseDirectory = path.resolve(cwd, GlobPattern.getBaseDirectory(glob));
+				const regExp = GlobPattern.toRegExp(this.toPosixPath(path.resolve(cwd, glob)));
+				matches = fs.existsSync(baseDirectory)
+					? this.walk(baseDirectory, gitignore).filter(file => RuleRegistry.hasRulesForFile(file) && regExp.test(this.toPosixPath(file)))
+					: [];
+			} else {
+				throw new CliUsageError(`No such file or folder: ${pattern}`);
+			}
+
+			if (matches.length === 0) {
+				throw new CliUsageError(`No files matching "${pattern}" were found`);
+			}
+			matches.forEach(file => files.add(file));
+		});
+
+		return Array.from(files).sort();
+	}
+
+	/**
+	 * Format findings as one file:line:column line per issue followed by a summary
+	 */
+	private static formatStylish(reports: FileReport[], cwd: string, errorCount: number, warningCount: number, quiet: boolean): string {
+		const lines = reports.flatMap(file => {
+			const relativePath = this.toPosixPath(path.relative(cwd, file.fileName));
+			return file.report.issues.map(issue => this.formatIssue(relativePath, issue));
+		});
+
+		if (lines.length === 0) {
+			return `No accessibility issues found in ${reports.length} file(s)\n`;
+		}
+		const warnings = quiet ? '' : `, ${warningCount} warning(s)`;
+		return `${lines.join('\n')}\n\n${lines.length} problem(s) (${errorCount} error(s)${warnings}) in ${reports.length} file(s)\n`;
+	}
+
+	/**
+	 * Format an issue as file:line:column for editors and CI annotations
+	 */
+	static formatIssue(relativePath: string, issue: AccessibilityIssue): string {
+		const severity = issue.severity === 'HIGH' ? 'error' : 'warning';
+		return `${relativePath}:${issue.range.start.line + 1}:${issue.range.start.character + 1}: ${severity} ${issue.issue} [${issue.ruleId}]`;
+	}
+
+	/**
+	 * List the files in a folder and its subfolders, skipping ignored ones
+	 */
+	private static walk(directory: string, gitignore: GitignoreFilter | null): string[] {
+		const files: string[] = [];
+
+		fs.readdirSync(directory, { withFileTypes: true }).forEach(entry => {
+			const entryPath = path.join(directory, entry.name);
+			if (gitignore?.isIgnored(entryPath)) {
+				return;
+			}
+			if (entry.isDirectory()) {
+				if (!this.SKIPPED_DIRECTORIES.includes(entry.name)) {
+					files.push(...this.walk(entryPath, gitignore));
+				}
+			} else if (entry.isFile()) {
+				files.push(entryPath);
+			}
+		});
+
+		return files;
+	}
+
+	/**
+	 * Use forward slashes so globs match on every platform
+	 */
+	private static toPosixPath(filePath: string): string {
+		return filePath.split(path.sep).join('/');
+	}
+}
@@ -0,0 +1,3 @@
+import { Cli } from './cli';
+
+process.exitCode = Cli.run(process.argv.slice(2));
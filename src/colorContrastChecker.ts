@@ -1,144 +1,684 @@
-import * as vscode from 'vscode';
-import { AccessibilityIssue } from './accessibilityChecker';
+import { AccessibilityIssue } from './accessibilityEngine';
+import { CssColor, RgbaColor } from './cssColor';
+import { HtmlDocument, HtmlElement, StyleDeclaration, StyleRule } from './htmlParser';
+import { RuleCatalog } from './ruleCatalog';
+import { CascadedDeclaration, ColorScheme, StyleCascade } from './styleCascade';
+import { StylesheetDocument } from './stylesheetParser';
+
+/**
+ * A declaration that sets one of the colors of a contrast measurement
+ */
+export interface ContrastDeclaration {
+	declaration: StyleDeclaration;
+	// Document the declaration's offsets point into, and its file when that is not the checked one
+	document: HtmlDocument;
+	fileName: string | null;
+	// Tailwind class the declaration stands for, e.g. "text-gray-400"
+	utilityClass?: string;
+}
+
+/**
+ * Contrast between text and the background behind it
+ */
+export interface ContrastMeasurement {
+	foreground: RgbaColor;
+	background: RgbaColor;
+	ratio: number;
+	isLargeText: boolean;
+	// Declarations that set the text color and the topmost background; null for browser defaults
+	foregroundDeclaration: ContrastDeclaration | null;
+	backgroundDeclaration: ContrastDeclaration | null;
+}
+
+/**
+ * Text color of an element and the declaration it comes from; null for browser defaults
+ */
+interface ResolvedTextColor {
+	color: RgbaColor;
+	declaration: CascadedDeclaration | null;
+}
+
+/**
+ * Background behind an element's text, composited from its own and its ancestors' backgrounds
+ */
+interface ResolvedBackground {
+	color: RgbaColor;
+	// Background declarations that were composited, innermost first
+	declarations: CascadedDeclaration[];
+	// Set when an image or gradient covers the background, so its color is not known
+	image: CascadedDeclaration | null;
+}
 
 export class ColorContrastChecker {
+	// Properties that change text spacing
+	static readonly TEXT_SPACING_PROPERTIES = ['line-height', 'letter-spacing', 'word-spacing', 'text-indent'];
+	// Minimum contrast ratios of WCAG 1.4.3
+	static readonly NORMAL_TEXT_CONTRAST_RATIO = 4.5;
+	static readonly LARGE_TEXT_CONTRAST_RATIO = 3;
+	// Enhanced contrast ratios of WCAG 1.4.6 (Level AAA)
+	static readonly ENHANCED_NORMAL_TEXT_CONTRAST_RATIO = 7;
+	static readonly ENHANCED_LARGE_TEXT_CONTRAST_RATIO = 4.5;
+	// How schemes other than the default light one are named in messages
+	private static readonly SCHEME_LABELS: Record<ColorScheme, string> = {
+		light: '', dark: ' in dark mode', 'increased-contrast': ' with increased contrast', 'forced-colors': ' in forced colors mode'
+	};
+	// System colors on the default canvas, the dark canvas and a high contrast black theme
+	private static readonly SYSTEM_COLORS: Record<'light' | 'dark' | 'forced', Record<string, string>> = {
+		light: {
+			canvas: '#ffffff', canvastext: '#000000', linktext: '#0000ee', visitedtext: '#551a8b', buttonface: '#efefef', buttontext: '#000000',
+			field: '#ffffff', fieldtext: '#000000', highlight: '#b4d5fe', highlighttext: '#000000', graytext: '#6d6d6d', mark: '#ffff00', marktext: '#000000'
+		},
+		dark: {
+			canvas: '#121212', canvastext: '#ffffff', linktext: '#9e9eff', visitedtext: '#d0adf0', buttonface: '#6b6b6b', buttontext: '#ffffff',
+			field: '#3b3b3b', fieldtext: '#ffffff', highlight: '#99c8ff', highlighttext: '#000000', graytext: '#a8a8a8', mark: '#ffff00', marktext: '#000000'
+		},
+		forced: {
+			canvas: '#000000', canvastext: '#ffffff', linktext: '#ffff00', visitedtext: '#ffff00', buttonface: '#000000', buttontext: '#ffffff',
+			field: '#000000', fieldtext: '#ffffff', highlight: '#1aebff', highlighttext: '#000000', graytext: '#3ff23f', mark: '#ffff00', marktext: '#000000'
+		}
+	};
+	private static readonly BACKGROUND_IMAGE_PATTERN = /\b(url|[\w-]*gradient|image|image-set|cross-fade|element)\(/i;
+	// Elements whose text is never rendered
+	private static readonly UNRENDERED_ELEMENTS = ['head', 'title', 'script', 'style', 'template', 'noscript'];
+	// Default font size relative to the parent and default bold elements of browser stylesheets
+	private static readonly DEFAULT_FONT_SCALE: Record<string, number> = { h1: 2, h2: 1.5, h3: 1.17, h5: 0.83, h6: 0.67, small: 0.83 };
+	private static readonly BOLD_ELEMENTS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'b', 'strong', 'th'];
+
 	/**
-	 * Check for color contrast issues in CSS styles (WCAG 1.4.3 - Level AA)
+	 * Check the contrast between the text color and background color set together in a rule or
+	 * inline style (WCAG 1.4.3 - Level AA)
 	 */
-	static checkColorContrastIssue(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		// Check for color and background-color combinations
-		if (trimmedLine.includes('color:') || trimmedLine.includes('background-color:')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-			return {
-				line: lineNumber + 1,
-				issue: 'Color contrast validation needed - ensure text has sufficient contrast ratio (4.5:1 for normal text, 3:1 for large text)',
-				severity: 'HIGH',
-				range: range
-			};
+	static checkColorContrastIssue(rule: StyleRule, document: HtmlDocument): AccessibilityIssue | null {
+		const scheme = this.getRuleScheme(rule);
+		const measurement = this.measureRuleContrast(rule, document);
+		const required = measurement ? this.getRequiredRatio(measurement.isLargeText) : 0;
+		if (!measurement || !measurement.foregroundDeclaration || measurement.ratio >= required || !this.keepsAuthorColors(rule, scheme)) {
+			return null;
 		}
-		
-		// Check for inline styles with color
-		if (trimmedLine.includes('style=') && 
-			(trimmedLine.includes('color:') || trimmedLine.includes('background-color:'))) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-			return {
-				line: lineNumber + 1,
-				issue: 'Inline color styles detected - verify contrast ratio meets WCAG 2.1 AA standards',
+
+		const declaration = measurement.foregroundDeclaration.declaration;
+		const range = document.getRange(declaration.start, declaration.end);
+		return {
+			line: range.start.line + 1,
+			issue: `Insufficient color contrast ${this.formatRatio(measurement.ratio)}:1 ` +
+				`(${CssColor.toHex(measurement.foreground)} on ${CssColor.toHex(measurement.background)})${this.describeScheme(scheme)} - ` +
+				`${measurement.isLargeText ? 'large' : 'normal'} text requires at least ${required}:1`,
+			severity: 'HIGH',
+			range: range,
+			...RuleCatalog.getMetadata(rule.selector === null ? 'color-contrast-inline' : 'color-contrast')
+		};
+	}
+
+	/**
+	 * Contrast of the text color and background color set together in a rule, or null when the
+	 * rule does not set both
+	 */
+	static measureRuleContrast(rule: StyleRule, document: HtmlDocument): ContrastMeasurement | null {
+		const declaration = this.findEffective(rule, ['color']);
+		const backgroundDeclaration = this.findEffective(rule, ['background', 'background-color']);
+		const foreground = declaration ? CssColor.parse(declaration.value) : null;
+		const background = this.getBackgroundColor(rule);
+		if (!declaration || !backgroundDeclaration || !foreground || !background || foreground.a === 0) {
+			return null;
+		}
+
+		return {
+			foreground: foreground,
+			background: background,
+			ratio: CssColor.getContrastRatio(foreground, background),
+			isLargeText: this.isLargeText(rule),
+			foregroundDeclaration: { declaration: declaration, document: document, fileName: null },
+			backgroundDeclaration: { declaration: backgroundDeclaration, document: document, fileName: null }
+		};
+	}
+
+	/**
+	 * Minimum contrast ratio for normal or large text, at Level AA or the enhanced Level AAA
+	 */
+	static getRequiredRatio(isLargeText: boolean, enhanced = false): number {
+		if (enhanced) {
+			return isLargeText ? this.ENHANCED_LARGE_TEXT_CONTRAST_RATIO : this.ENHANCED_NORMAL_TEXT_CONTRAST_RATIO;
+		}
+		return isLargeText ? this.LARGE_TEXT_CONTRAST_RATIO : this.NORMAL_TEXT_CONTRAST_RATIO;
+	}
+
+	/**
+	 * Ratio with two decimals, truncated rather than rounded so 4.499 never reads as 4.5
+	 */
+	static formatRatio(ratio: number): string {
+		return (Math.floor(ratio * 100) / 100).toFixed(2);
+	}
+
+	/**
+	 * Check the contrast of an element's own text against the backgrounds behind it, with colors
+	 * resolved through the cascade of the page and the stylesheets it links to, in each color
+	 * scheme the page has styles for (WCAG 1.4.3 - Level AA)
+	 */
+	static checkElementContrast(element: HtmlElement, document: HtmlDocument, cascade: StyleCascade): AccessibilityIssue[] {
+		if (!this.hasRenderedText(element)) {
+			return [];
+		}
+
+		const issues: AccessibilityIssue[] = [];
+		const range = document.getElementRange(element);
+		let defaultColors: string | null = null;
+		cascade.getColorSchemes().forEach(scheme => {
+			const schemeCascade = cascade.withScheme(scheme);
+			const foreground = this.usesAuthorColors(element, schemeCascade) ? this.getTextColor(element, schemeCascade) : null;
+			const background = foreground ? this.getBackground(element, schemeCascade) : null;
+			if (!foreground || !background || foreground.color.a === 0) {
+				return;
+			}
+
+			if (background.image) {
+				if (scheme === 'light') {
+					issues.push({
+						line: range.start.line + 1,
+						issue: `Could not determine color contrast - the text is over a background image or gradient from ${StyleCascade.describeSource(background.image)}; check its contrast manually`,
+						severity: 'LOW',
+						range: range,
+						...RuleCatalog.getMetadata('color-contrast-unknown')
+					});
+				}
+				return;
+			}
+			// Default text on the default canvas needs no check
+			if (!foreground.declaration && background.declarations.length === 0) {
+				return;
+			}
+
+			// Other schemes only report colors that differ from the default scheme's
+			const colors = `${CssColor.toHex(foreground.color)} on ${CssColor.toHex(background.color)}`;
+			const isLargeText = this.isLargeElementText(element, schemeCascade);
+			if (scheme === 'light') {
+				defaultColors = colors;
+			} else if (colors === defaultColors) {
+				return;
+			}
+
+			const ratio = CssColor.getContrastRatio(foreground.color, background.color);
+			const required = this.getRequiredRatio(isLargeText);
+			if (ratio >= required) {
+				return;
+			}
+
+			const textSource = foreground.declaration ? StyleCascade.describeSource(foreground.declaration) : 'browser default';
+			const backgroundSource = background.declarations.length > 0 ? StyleCascade.describeSource(background.declarations[0]) : 'browser default';
+			issues.push({
+				line: range.start.line + 1,
+				issue: `Insufficient color contrast ${this.formatRatio(ratio)}:1 (${colors})${this.describeScheme(scheme)} - ` +
+					`${isLargeText ? 'large' : 'normal'} text requires at least ${required}:1; text color from ${textSource}, background from ${backgroundSource}`,
 				severity: 'HIGH',
-				range: range
-			};
+				range: range,
+				...RuleCatalog.getMetadata(foreground.declaration?.source.rule.selector === null ? 'color-contrast-inline' : 'color-contrast')
+			});
+		});
+		return issues;
+	}
+
+	/**
+	 * Contrast of an element's own text against the backgrounds behind it in the cascade's color
+	 * scheme, or null when the element has no text, a color cannot be determined or the scheme
+	 * forces its own colors
+	 */
+	static measureElementContrast(element: HtmlElement, document: HtmlDocument, cascade: StyleCascade): ContrastMeasurement | null {
+		const foreground = this.hasRenderedText(element) && this.usesAuthorColors(element, cascade) ? this.getTextColor(element, cascade) : null;
+		const background = foreground ? this.getBackground(element, cascade) : null;
+		if (!foreground || !background || background.image || foreground.color.a === 0) {
+			return null;
 		}
-		
-		return null;
+
+		const toContrastDeclaration = (declaration: CascadedDeclaration | undefined | null): ContrastDeclaration | null => declaration ? {
+			declaration: declaration.declaration,
+			document: declaration.source.document,
+			fileName: declaration.source.document === document ? null : declaration.source.fileName,
+			utilityClass: declaration.source.utilityClass
+		} : null;
+		return {
+			foreground: foreground.color,
+			background: background.color,
+			ratio: CssColor.getContrastRatio(foreground.color, background.color),
+			isLargeText: this.isLargeElementText(element, cascade),
+			foregroundDeclaration: toContrastDeclaration(foreground.declaration),
+			backgroundDeclaration: toContrastDeclaration(background.declarations[0])
+		};
+	}
+
+	/**
+	 * Contrast findings of a document: per element in markup, per rule in standalone stylesheets,
+	 * where the elements the rules apply to are not known
+	 */
+	static checkDocumentContrast(document: HtmlDocument, cascade: StyleCascade): (AccessibilityIssue | null)[] {
+		if (document instanceof StylesheetDocument) {
+			return document.getStyleRules().map(rule => this.checkColorContrastIssue(rule, document));
+		}
+		return document.elements.flatMap(element => this.checkElementContrast(element, document, cascade));
+	}
+
+	/**
+	 * How a color scheme is named at the end of a finding, e.g. " in dark mode"; empty for the
+	 * default light scheme
+	 */
+	static describeScheme(scheme: ColorScheme): string {
+		return this.SCHEME_LABELS[scheme];
+	}
+
+	/**
+	 * The scheme a stylesheet rule applies in: light unless its media queries limit it to another,
+	 * or its selector only matches under a dark theme class or attribute
+	 */
+	static getRuleScheme(rule: StyleRule): ColorScheme {
+		const schemes: ColorScheme[] = ['light', 'dark', 'increased-contrast', 'forced-colors'];
+		const scheme = schemes.find(candidate => StyleCascade.appliesToScreen(rule.conditions, candidate)) ?? 'light';
+		return scheme === 'light' && rule.selector !== null && StyleCascade.isDarkThemeSelector(rule.selector) ? 'dark' : scheme;
 	}
 
 	/**
 	 * Check for color-only information conveyance (WCAG 1.4.1 - Level A)
 	 */
-	static checkColorOnlyInformation(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkColorOnlyInformation(rule: StyleRule, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for color-based indicators without alternative indicators
-		if (trimmedLine.includes('color:') && 
-			(trimmedLine.includes('red') || trimmedLine.includes('green') || 
-			 trimmedLine.includes('blue') || trimmedLine.includes('yellow')) &&
-			!trimmedLine.includes('aria-label') && !trimmedLine.includes('title=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		const declaration = rule.declarations.find(declaration =>
+			declaration.property === 'color' && /red|green|blue|yellow/i.test(declaration.value)
+		);
+		const hasTextAlternative = rule.selector === null &&
+			(rule.element?.mayHaveAttribute('aria-label') || rule.element?.mayHaveAttribute('title'));
+
+		if (declaration && !hasTextAlternative) {
+			const range = document.getRange(declaration.start, declaration.end);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Color-only information detected - ensure information is not conveyed by color alone',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('color-only-information')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for non-text contrast issues (WCAG 1.4.11 - Level AA)
 	 */
-	static checkNonTextContrast(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkNonTextContrast(rule: StyleRule, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for UI components that need contrast validation
-		if (trimmedLine.includes('border:') || trimmedLine.includes('outline:') ||
-			trimmedLine.includes('box-shadow:') || trimmedLine.includes('background:')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		const declaration = rule.declarations.find(declaration =>
+			['border', 'outline', 'box-shadow', 'background'].includes(declaration.property)
+		);
+
+		if (declaration) {
+			const range = document.getRange(declaration.start, declaration.end);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'UI component styling detected - ensure sufficient contrast ratio (3:1) for visual elements',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('non-text-contrast')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for focus indicator contrast (WCAG 2.4.7 - Level AA)
 	 */
-	static checkFocusIndicatorContrast(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkFocusIndicatorContrast(rule: StyleRule, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for focus styles
-		if (trimmedLine.includes(':focus') || trimmedLine.includes(':focus-visible')) {
-			if (trimmedLine.includes('outline: none') || trimmedLine.includes('outline: 0')) {
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (rule.selector && rule.selector.includes(':focus')) {
+			const declaration = rule.declarations.find(declaration =>
+				declaration.property === 'outline' && (declaration.value === 'none' || declaration.value === '0')
+			);
+			if (declaration) {
+				const range = document.getRange(declaration.start, declaration.end);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Focus outline removed - ensure alternative focus indicator has sufficient contrast',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('focus-indicator-contrast')
 				};
 			}
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for text spacing that might affect contrast (WCAG 1.4.12 - Level AA)
 	 */
-	static checkTextSpacing(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkTextSpacing(rule: StyleRule, document: HtmlDocument, properties: string[] = this.TEXT_SPACING_PROPERTIES): AccessibilityIssue | null {
 		// Check for text spacing properties
-		if (trimmedLine.includes('line-height:') || trimmedLine.includes('letter-spacing:') ||
-			trimmedLine.includes('word-spacing:') || trimmedLine.includes('text-indent:')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		const declaration = rule.declarations.find(declaration =>
+			properties.includes(declaration.property)
+		);
+
+		if (declaration) {
+			const range = document.getRange(declaration.start, declaration.end);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Text spacing detected - ensure content remains accessible when spacing is adjusted',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('text-spacing')
 			};
 		}
-		
+
+		return null;
+	}
+
+	/**
+	 * Check for text spacing locked with !important, which user style sheets cannot adjust (WCAG 1.4.12 - Level AA)
+	 */
+	static checkImportantTextSpacing(rule: StyleRule, document: HtmlDocument, properties: string[] = this.TEXT_SPACING_PROPERTIES): AccessibilityIssue | null {
+		const declaration = rule.declarations.find(declaration =>
+			properties.includes(declaration.property) && declaration.important
+		);
+
+		if (declaration) {
+			const range = document.getRange(declaration.start, declaration.end);
+			return {
+				line: range.start.line + 1,
+				issue: `${declaration.property} set with !important - users cannot adjust text spacing to make content readable`,
+				severity: 'MEDIUM',
+				range: range,
+				...RuleCatalog.getMetadata('text-spacing-important')
+			};
+		}
+
 		return null;
 	}
 
+	/**
+	 * Check for font sizes in px or pt, which ignore the user's default font size (WCAG 1.4.4 - Level AA)
+	 */
+	static checkFixedFontSize(rule: StyleRule, document: HtmlDocument): AccessibilityIssue | null {
+		// The size is the first length in the font shorthand, before any /line-height
+		const declaration = rule.declarations.find(declaration =>
+			(declaration.property === 'font-size' || declaration.property === 'font') &&
+			/(^|\s)(\d*\.)?[1-9]\d*(px|pt)(?=\/|\s|$)/i.test(declaration.value)
+		);
+
+		if (declaration) {
+			const range = document.getRange(declaration.start, declaration.end);
+			return {
+				line: range.start.line + 1,
+				issue: 'Fixed font size - use rem or em so text scales with the user\'s font size setting',
+				severity: 'LOW',
+				range: range,
+				...RuleCatalog.getMetadata('font-size-fixed')
+			};
+		}
+
+		return null;
+	}
+
+	/**
+	 * Background color of a rule, or null when it is not set or an image may cover it
+	 */
+	private static getBackgroundColor(rule: StyleRule): RgbaColor | null {
+		const declaration = this.findEffective(rule, ['background', 'background-color']);
+		if (!declaration || /\b(url|[\w-]*gradient|image|image-set)\(/i.test(declaration.value)) {
+			return null;
+		}
+		return declaration.property === 'background' ? CssColor.findColor(declaration.value) : CssColor.parse(declaration.value);
+	}
+
+	/**
+	 * Check whether text is large under WCAG: at least 18pt (24px), or 14pt (18.66px) and bold;
+	 * inline styles on h1-h3 start from those headings' default size and weight
+	 */
+	private static isLargeText(rule: StyleRule): boolean {
+		const headingSizes: Record<string, number> = { h1: 32, h2: 24, h3: 18.72 };
+		let size = rule.selector === null && rule.element ? headingSizes[rule.element.tagName] ?? 16 : 16;
+		let bold = size > 16;
+
+		this.findAll(rule, ['font', 'font-size', 'font-weight']).forEach(declaration => {
+			if (declaration.property === 'font-size') {
+				size = this.toPixels(declaration.value) ?? size;
+				return;
+			}
+			// The font shorthand resets the weight when it does not set one
+			bold = /(^|\s)(bold|bolder|[7-9]00)(\s|$)/i.test(declaration.value);
+			if (declaration.property === 'font') {
+				const sizeValue = this.getFontShorthandSize(declaration.value);
+				size = (sizeValue && this.toPixels(sizeValue)) || size;
+			}
+		});
+
+		return size >= 24 || (bold && size >= 18.66);
+	}
+
+	/**
+	 * Font size in pixels, with em and percentages relative to the parent's size and rem to the
+	 * 16px default
+	 */
+	private static toPixels(value: string, parentSize = 16): number | null {
+		const keywordSizes: Record<string, number> = {
+			'xx-small': 9, 'x-small': 10, 'small': 13, 'medium': 16, 'large': 18, 'x-large': 24, 'xx-large': 32, 'xxx-large': 48,
+			'smaller': parentSize / 1.2, 'larger': parentSize * 1.2
+		};
+		const unitSizes: Record<string, number> = { px: 1, pt: 4 / 3, em: parentSize, rem: 16, '%': parentSize / 100 };
+		const match = /^([\d.]+)(px|pt|r?em|%)$/i.exec(value.trim());
+		if (match) {
+			return parseFloat(match[1]) * unitSizes[match[2].toLowerCase()];
+		}
+		return keywordSizes[value.trim().toLowerCase()] ?? null;
+	}
+
+	/**
+	 * Declarations of the given properties, in source order
+	 */
+	private static findAll(rule: StyleRule, properties: string[]): StyleDeclaration[] {
+		return rule.declarations.filter(declaration => properties.includes(declaration.property));
+	}
+
+	/**
+	 * The declaration that wins among the given properties: the last one, unless an earlier one is !important
+	 */
+	private static findEffective(rule: StyleRule, properties: string[]): StyleDeclaration | null {
+		const declarations = this.findAll(rule, properties);
+		return [...declarations].reverse().find(declaration => declaration.important) ?? declarations[declarations.length - 1] ?? null;
+	}
+
+	/**
+	 * Check whether an element has text of its own that is rendered, with styles that are known
+	 * before runtime for it and its ancestors
+	 */
+	private static hasRenderedText(element: HtmlElement): boolean {
+		if (!element.children.some(child => child.type === 'text' && child.text.trim().length > 0)) {
+			return false;
+		}
+		for (let current: HtmlElement | null = element; current; current = current.parent) {
+			if (this.UNRENDERED_ELEMENTS.includes(current.tagName) || current.hasAttribute('hidden') || current.hasSpreadAttributes ||
+				['class', 'id', 'style'].some(name => current!.getAttributeNode(name)?.dynamic)) {
+				return false;
+			}
+		}
+		return true;
+	}
+
+	/**
+	 * Text color the element inherits or sets; null when it cannot be resolved
+	 */
+	private static getTextColor(element: HtmlElement, cascade: StyleCascade): ResolvedTextColor | null {
+		const systemColors = this.getSystemColors(cascade);
+		for (let current: HtmlElement | null = element; current; current = current.parent) {
+			const declaration = cascade.getDeclaration(current, ['color']);
+			if (!declaration) {
+				if (current.tagName === 'a' && current.hasAttribute('href')) {
+					return { color: CssColor.parse(systemColors.linktext)!, declaration: null };
+				}
+				continue;
+			}
+			if (declaration.value === null) {
+				return null;
+			}
+
+			const value = declaration.value.trim().toLowerCase();
+			if (['inherit', 'unset', 'currentcolor'].includes(value)) {
+				continue;
+			}
+			const color = this.parseColor(value === 'initial' ? 'canvastext' : value, systemColors);
+			return color ? { color: color, declaration: declaration } : null;
+		}
+		return { color: CssColor.parse(systemColors.canvastext)!, declaration: null };
+	}
+
+	/**
+	 * System colors in the cascade's scheme; dark ones only when the page allows a dark canvas
+	 */
+	private static getSystemColors(cascade: StyleCascade): Record<string, string> {
+		if (cascade.scheme === 'forced-colors') {
+			return this.SYSTEM_COLORS.forced;
+		}
+		return cascade.scheme === 'dark' && cascade.allowsDarkCanvas() ? this.SYSTEM_COLORS.dark : this.SYSTEM_COLORS.light;
+	}
+
+	/**
+	 * Parse a color value, with system colors such as Canvas or LinkText taken from the given set
+	 */
+	private static parseColor(value: string, systemColors: Record<string, string>): RgbaColor | null {
+		const keyword = value.trim().toLowerCase();
+		return CssColor.parse(Object.hasOwn(systemColors, keyword) ? systemColors[keyword] : value);
+	}
+
+	/**
+	 * Check whether the colors of a stylesheet rule reach the screen: in forced colors mode only
+	 * when the rule itself sets forced-color-adjust: none, since the elements it applies to are
+	 * not known
+	 */
+	private static keepsAuthorColors(rule: StyleRule, scheme: ColorScheme): boolean {
+		return scheme !== 'forced-colors' || this.findEffective(rule, ['forced-color-adjust'])?.value.trim().toLowerCase() === 'none';
+	}
+
+	/**
+	 * Check whether the author's colors reach the screen: always, except in forced colors mode,
+	 * where only forced-color-adjust: none on the element or an ancestor keeps them
+	 */
+	private static usesAuthorColors(element: HtmlElement, cascade: StyleCascade): boolean {
+		if (cascade.scheme !== 'forced-colors') {
+			return true;
+		}
+		for (let current: HtmlElement | null = element; current; current = current.parent) {
+			const value = cascade.getDeclaration(current, ['forced-color-adjust'])?.value?.trim().toLowerCase();
+			if (value && value !== 'inherit') {
+				return value === 'none';
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Composite the backgrounds of the element and its ancestors down to the first opaque one or
+	 * the white canvas; null when a background color cannot be resolved
+	 */
+	private static getBackground(element: HtmlElement, cascade: StyleCascade): ResolvedBackground | null {
+		const systemColors = this.getSystemColors(cascade);
+		const canvas = CssColor.parse(systemColors.canvas)!;
+		const layers: RgbaColor[] = [];
+		const declarations: CascadedDeclaration[] = [];
+
+		for (let current: HtmlElement | null = element; current; current = current.parent) {
+			const image = cascade.getDeclaration(current, ['background', 'background-image']);
+			if (image && image.value !== null && this.BACKGROUND_IMAGE_PATTERN.test(image.value)) {
+				return { color: canvas, declarations: declarations, image: image };
+			}
+
+			const declaration = cascade.getDeclaration(current, ['background', 'background-color']);
+			if (!declaration) {
+				continue;
+			}
+			if (declaration.value === null) {
+				return null;
+			}
+			const color = declaration.declaration.property === 'background'
+				? CssColor.findColor(declaration.value) ?? { r: 0, g: 0, b: 0, a: 0 }
+				: this.parseColor(declaration.value, systemColors);
+			if (!color) {
+				return null;
+			}
+			if (color.a > 0) {
+				layers.push(color);
+				declarations.push(declaration);
+			}
+			if (color.a === 1) {
+				break;
+			}
+		}
+
+		const color = layers.reduceRight((backdrop, layer) => CssColor.composite(layer, backdrop), canvas);
+		return { color: color, declarations: declarations, image: null };
+	}
+
+	/**
+	 * Check whether an element's text is large under WCAG: at least 24px, or 18.66px and bold
+	 */
+	private static isLargeElementText(element: HtmlElement, cascade: StyleCascade): boolean {
+		const fontSize = this.getFontSize(element, cascade);
+		return fontSize >= 24 || (this.isBold(element, cascade) && fontSize >= 18.66);
+	}
+
+	/**
+	 * Computed font size in pixels, following em and percentage sizes up to the 16px default
+	 */
+	private static getFontSize(element: HtmlElement, cascade: StyleCascade): number {
+		const parentSize = element.parent ? this.getFontSize(element.parent, cascade) : 16;
+		const declaration = cascade.getDeclaration(element, ['font', 'font-size']);
+		if (!declaration) {
+			return parentSize * (this.DEFAULT_FONT_SCALE[element.tagName] ?? 1);
+		}
+
+		const value = declaration.declaration.property === 'font' ? this.getFontShorthandSize(declaration.value ?? '') : declaration.value;
+		return (value ? this.toPixels(value, parentSize) : null) ?? parentSize;
+	}
+
+	/**
+	 * Check whether an element's text is bold (700 or more), from its styles or its element type
+	 */
+	private static isBold(element: HtmlElement, cascade: StyleCascade): boolean {
+		const declaration = cascade.getDeclaration(element, ['font', 'font-weight']);
+		const value = declaration?.value ?? '';
+		if (/(^|\s)(bold|bolder|[7-9]00)(\s|$)/i.test(value)) {
+			return true;
+		}
+		// The font shorthand resets the weight when it does not set one
+		if (declaration?.declaration.property === 'font' || /(^|\s)(normal|lighter|[1-6]00)(\s|$)/i.test(value)) {
+			return false;
+		}
+		return this.BOLD_ELEMENTS.includes(element.tagName) || (element.parent !== null && this.isBold(element.parent, cascade));
+	}
+
+	/**
+	 * Size in a font shorthand, e.g. 14px in "bold 14px/1.5 Georgia"
+	 */
+	private static getFontShorthandSize(value: string): string | undefined {
+		return /(^|\s)([\d.]+(px|pt|r?em|%)|[a-z-]*(small|medium|large|smaller|larger))(?=\/|\s|$)/i.exec(value)?.[2];
+	}
+
 	/**
 	 * Run all color contrast accessibility checks
 	 */
-	static checkColorContrastIssues(line: string, lineNumber: number): AccessibilityIssue[] {
+	static checkColorContrastIssues(document: HtmlDocument): AccessibilityIssue[] {
 		const issues: AccessibilityIssue[] = [];
-		
-		const checks = [
-			this.checkColorContrastIssue(line, lineNumber),
-			this.checkColorOnlyInformation(line, lineNumber),
-			this.checkNonTextContrast(line, lineNumber),
-			this.checkFocusIndicatorContrast(line, lineNumber),
-			this.checkTextSpacing(line, lineNumber)
-		];
-
-		checks.forEach(check => {
-			if (check) {
-				issues.push(check);
-			}
+
+		document.getStyleRules().forEach(rule => {
+			const checks = [
+				this.checkColorContrastIssue(rule, document),
+				this.checkColorOnlyInformation(rule, document),
+				this.checkNonTextContrast(rule, document),
+				this.checkFocusIndicatorContrast(rule, document),
+				this.checkTextSpacing(rule, document),
+				this.checkImportantTextSpacing(rule, document),
+				this.checkFixedFontSize(rule, document)
+			];
+
+			checks.forEach(check => {
+				if (check) {
+					issues.push(check);
+				}
+			});
 		});
 
 		return issues;
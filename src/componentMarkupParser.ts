@@ -0,0 +1,261 @@
+import * as path from 'path';
+import { HtmlAttribute, HtmlDocument, HtmlElement, HtmlNode, HtmlParser } from './htmlParser';
+
+/**
+ * Builds an element tree from the markup of Svelte and Astro components, whose attributes and
+ * text hold {expressions}
+ */
+export class ComponentMarkupParser {
+	static readonly SVELTE_FILE_TYPES = ['.svelte'];
+	static readonly ASTRO_FILE_TYPES = ['.astro'];
+
+	// Directives that render no attribute, e.g. class:active, use:tooltip or client:load
+	private static readonly DIRECTIVE_PREFIXES = ['class', 'style', 'use', 'transition', 'in', 'out', 'animate', 'let', 'client', 'server', 'is', 'define'];
+	// Elements that only group their children
+	private static readonly FRAGMENTS = ['svelte:fragment', 'Fragment'];
+	// {#if ...}, {:else}, {/each}, {@const ...} and {@debug ...} are control flow, not content
+	private static readonly BLOCK_PATTERN = /\{(?:[#:/]|@(?:const|debug)\b)[^}]*\}/g;
+
+	/**
+	 * File extensions of Svelte and Astro components
+	 */
+	static getFileTypes(): string[] {
+		return [...this.SVELTE_FILE_TYPES, ...this.ASTRO_FILE_TYPES];
+	}
+
+	/**
+	 * Parse a component; scripts, styles and frontmatter are blanked out and expressions inside
+	 * tags are read from the original text, so offsets still point into the component file
+	 */
+	static parse(text: string, fileName: string): HtmlDocument {
+		const isAstro = this.ASTRO_FILE_TYPES.includes(path.extname(fileName).toLowerCase());
+		const markup = isAstro ? this.blankFrontmatter(text) : this.blankScriptsAndStyles(text);
+		const parsed = HtmlParser.parse(this.maskTagExpressions(markup));
+		const document = new HtmlDocument(text);
+
+		parsed.elements.forEach(element => {
+			// Components keep their name so <Button> never matches an HTML tag
+			if (/[A-Z]/.test(text[element.start + 1])) {
+				element.tagName = text.substring(element.start + 1, element.start + 1 + element.tagName.length);
+			}
+			this.convertAttributes(element, text);
+		});
+		this.restoreText(parsed.children, text, !isAstro);
+
+		document.children.push(...this.unwrapFragments(parsed.children, null));
+		document.elements.push(...parsed.elements.filter(element => !this.FRAGMENTS.includes(element.tagName)));
+		document.comments.push(...parsed.comments);
+
+		return document;
+	}
+
+	/**
+	 * Blank out a range, keeping line breaks
+	 */
+	private static blank(text: string, start: number, end: number): string {
+		return text.substring(0, start) + text.substring(start, end).replace(/[^\n]/g, ' ') + text.substring(end);
+	}
+
+	/**
+	 * Blank out the --- fenced script at the top of an Astro component
+	 */
+	private static blankFrontmatter(text: string): string {
+		const frontmatter = /^\s*---\r?\n[\s\S]*?\n---/.exec(text);
+		return frontmatter ? this.blank(text, 0, frontmatter[0].length) : text;
+	}
+
+	/**
+	 * Blank out the <script> and <style> blocks of a Svelte component
+	 */
+	private static blankScriptsAndStyles(text: string): string {
+		let result = text;
+		for (const block of text.matchAll(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi)) {
+			result = this.blank(result, block.index!, block.index! + block[0].length);
+		}
+		return result;
+	}
+
+	/**
+	 * Replace the content of {expressions} inside tags with a filler, so spaces, quotes and >
+	 * in them do not end the attribute or tag
+	 */
+	private static maskTagExpressions(text: string): string {
+		const chars = text.split('');
+		let position = 0;
+
+		while (position < text.length) {
+			if (text.startsWith('<!--', position)) {
+				const commentEnd = text.indexOf('-->', position + 4);
+				position = commentEnd === -1 ? text.length : commentEnd + 3;
+				continue;
+			}
+			if (text[position] !== '<' || !/[A-Za-z]/.test(text[position + 1] ?? '')) {
+				position++;
+				continue;
+			}
+
+			const tagName = /^<([^\s/>{]+)/.exec(text.substring(position, position + 64))![1].toLowerCase();
+			let quote: string | null = null;
+			position++;
+			while (position < text.length) {
+				const char = text[position];
+				if (char === '{') {
+					const end = this.findExpressionEnd(text, position);
+					chars.fill('_', position + 1, end - 1);
+					position = end;
+					continue;
+				}
+				if (quote) {
+					quote = char === quote ? null : quote;
+				} else if (char === '"' || char === "'") {
+					quote = char;
+				} else if (char === '>') {
+					position++;
+					break;
+				}
+				position++;
+			}
+
+			// Scripts and styles in the markup are raw text
+			if (tagName === 'script' || tagName === 'style') {
+				const closing = text.toLowerCase().indexOf(`</${tagName}`, position);
+				position = closing === -1 ? text.length : closing;
+			}
+		}
+
+		return chars.join('');
+	}
+
+	/**
+	 * Offset just past the } closing the expression that starts at the given {
+	 */
+	private static findExpressionEnd(text: string, start: number): number {
+		let depth = 0;
+		for (let i = start; i < text.length; i++) {
+			const char = text[i];
+			if (char === '"' || char === "'" || char === '`') {
+				i++;
+				while (i < text.length && text[i] !== char) {
+					i += text[i] === '\\' ? 2 : 1;
+				}
+			} else if (char === '{') {
+				depth++;
+			} else if (char === '}' && --depth === 0) {
+				return i + 1;
+			}
+		}
+		return text.length;
+	}
+
+	/**
+	 * Take text back from the original source; in Svelte, block tags are dropped from it
+	 */
+	private static restoreText(nodes: HtmlNode[], text: string, stripBlocks: boolean): void {
+		nodes.forEach(node => {
+			if (node.type === 'element') {
+				this.restoreText(node.children, text, stripBlocks);
+			} else if (node.type === 'text') {
+				const source = text.substring(node.start, node.end);
+				if (node.parent?.tagName === 'script' || node.parent?.tagName === 'style') {
+					node.text = source;
+				} else {
+					node.text = HtmlParser.decodeEntities(stripBlocks ? source.replace(this.BLOCK_PATTERN, '') : source);
+				}
+			}
+		});
+	}
+
+	/**
+	 * Replace fragments by their children
+	 */
+	private static unwrapFragments(nodes: HtmlNode[], parent: HtmlElement | null): HtmlNode[] {
+		return nodes.flatMap(node => {
+			if (node.type === 'element' && this.FRAGMENTS.includes(node.tagName)) {
+				return this.unwrapFragments(node.children, parent);
+			}
+			node.parent = parent;
+			if (node.type === 'element') {
+				node.children = this.unwrapFragments(node.children, node);
+			}
+			return [node];
+		});
+	}
+
+	/**
+	 * Turn directives and expression attributes into the attributes they render: expressions are
+	 * marked dynamic, on:click becomes onclick, bind:value becomes value and {...props} may hold
+	 * any attribute
+	 */
+	private static convertAttributes(element: HtmlElement, text: string): void {
+		element.attributes = element.attributes.flatMap((attribute): HtmlAttribute[] => {
+			const rawName = text.substring(attribute.start, attribute.start + attribute.rawName.length);
+
+			// {...props} spreads attributes, {alt} is short for alt={alt}
+			if (rawName.startsWith('{')) {
+				const expression = rawName.slice(1, -1).trim();
+				if (expression.startsWith('...')) {
+					element.hasSpreadAttributes = true;
+					return [];
+				}
+				return [{ ...attribute, name: expression.toLowerCase(), rawName: rawName, value: expression, dynamic: true }];
+			}
+
+			const separator = rawName.indexOf(':');
+			const prefix = separator === -1 ? null : rawName.substring(0, separator);
+			const directive = rawName.substring(separator + 1);
+			let name = attribute.name;
+			if (prefix === 'on') {
+				// on:click|preventDefault
+				name = `on${directive.split('|')[0].toLowerCase()}`;
+			} else if (prefix === 'bind') {
+				if (directive === 'this') {
+					return [];
+				}
+				name = directive.toLowerCase();
+				if (attribute.value === null) {
+					return [{ ...attribute, name: name, rawName: rawName, value: directive, dynamic: true }];
+				}
+			} else if (prefix === 'class' && directive === 'list') {
+				name = 'class';
+			} else if (prefix === 'set' && (directive === 'html' || directive === 'text')) {
+				// The content is only known at runtime
+				element.children.push({ type: 'text', text: text.substring(attribute.valueStart, attribute.valueEnd), start: attribute.valueStart, end: attribute.valueEnd, parent: element });
+				return [];
+			} else if (prefix !== null && this.DIRECTIVE_PREFIXES.includes(prefix)) {
+				return [];
+			}
+
+			const converted: HtmlAttribute = { ...attribute, name: name, rawName: rawName };
+			if (attribute.value === null) {
+				return [converted];
+			}
+
+			const source = text.substring(attribute.valueStart, attribute.valueEnd);
+			const trimmed = source.trim();
+			if (trimmed.startsWith('{') && this.findExpressionEnd(trimmed, 0) === trimmed.length) {
+				// Attributes set to false, null or undefined are left out
+				const expression = trimmed.slice(1, -1).trim();
+				if (['false', 'null', 'undefined'].includes(expression)) {
+					return [];
+				}
+				const literal = this.getLiteralValue(expression);
+				return [{ ...converted, value: literal ?? expression, dynamic: literal === null || prefix === 'on' }];
+			}
+			if (source.includes('{') || prefix === 'on') {
+				return [{ ...converted, value: source, dynamic: true }];
+			}
+			return [converted];
+		});
+	}
+
+	/**
+	 * Value of a number, true or string literal expression such as -1 or "Logo", or null for anything else
+	 */
+	private static getLiteralValue(expression: string): string | null {
+		if (/^(-?\d+(\.\d+)?|true)$/.test(expression)) {
+			return expression;
+		}
+		const quoted = /^(['"`])([^'"`$]*)\1$/.exec(expression);
+		return quoted ? quoted[2] : null;
+	}
+}
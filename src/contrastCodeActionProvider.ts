@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { AccessibilityChecker } from './accessibilityChecker';
+import { ContrastFixer } from './contrastFixer';
+import { MarkupParser } from './markupParser';
+
+export class ContrastCodeActionProvider implements vscode.CodeActionProvider {
+	static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+	/**
+	 * Offer the nearest passing text or background color for each contrast diagnostic
+	 */
+	provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+		const diagnostics = context.diagnostics.filter(diagnostic => {
+			const ruleId = typeof diagnostic.code === 'object' ? String(diagnostic.code.value) : String(diagnostic.code ?? '');
+			return diagnostic.source === AccessibilityChecker.DIAGNOSTIC_SOURCE && ContrastFixer.RULE_IDS.includes(ruleId);
+		});
+		if (diagnostics.length === 0) {
+			return [];
+		}
+
+		const parsed = MarkupParser.parse(document.getText(), document.fileName);
+		return diagnostics.flatMap(diagnostic =>
+			ContrastFixer.getFixes(parsed, document.fileName, document.offsetAt(diagnostic.range.start)).filter(fix => {
+				// Linked stylesheets are read from disk, so their offsets do not fit an open copy with unsaved changes
+				const stylesheet = fix.fileName ? vscode.workspace.textDocuments.find(candidate => candidate.uri.fsPath === fix.fileName) : undefined;
+				return !stylesheet || stylesheet.getText() === fix.document.text;
+			}).map((fix, index) => {
+				const uri = fix.fileName ? vscode.Uri.file(fix.fileName) : document.uri;
+				const start = fix.document.positionAt(fix.start);
+				const end = fix.document.positionAt(fix.end);
+				const edit = new vscode.WorkspaceEdit();
+				edit.replace(uri, new vscode.Range(start.line, start.character, end.line, end.character), fix.newText);
+
+				const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+				action.edit = edit;
+				action.diagnostics = [diagnostic];
+				action.isPreferred = index === 0;
+				return action;
+			})
+		);
+	}
+}
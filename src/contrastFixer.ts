@@ -0,0 +1,237 @@
+import { ColorContrastChecker, ContrastDeclaration, ContrastMeasurement } from './colorContrastChecker';
+import { CssColor, RgbaColor } from './cssColor';
+import { HtmlDocument, HtmlElement } from './htmlParser';
+import { ColorScheme, StyleCascade } from './styleCascade';
+import { StylesheetDocument } from './stylesheetParser';
+
+/**
+ * A color change that brings text up to a contrast level
+ */
+export interface ContrastFix {
+	title: string;
+	color: RgbaColor;
+	ratio: number;
+	level: 'AA' | 'AAA';
+	// Text to replace: offsets into the document the declaration is in, and its file when that
+	// is not the checked one
+	document: HtmlDocument;
+	fileName: string | null;
+	start: number;
+	end: number;
+	newText: string;
+}
+
+/**
+ * Suggests the nearest text or background color that passes a contrast finding, keeping the
+ * hue and changing perceptual lightness as little as possible
+ */
+export class ContrastFixer {
+	static readonly RULE_IDS = ['color-contrast', 'color-contrast-inline'];
+
+	// Lightness steps tried in each direction when searching for a passing color
+	private static readonly LIGHTNESS_STEP = 0.0025;
+	// Nesting limit for custom properties that refer to each other
+	private static readonly MAX_VARIABLE_DEPTH = 16;
+
+	/**
+	 * Fixes for the contrast finding reported at an offset: the element's start tag in markup,
+	 * the color declaration in a stylesheet
+	 */
+	static getFixes(document: HtmlDocument, fileName: string, offset: number): ContrastFix[] {
+		const fixes: ContrastFix[] = [];
+		this.findMeasurements(document, fileName, offset).forEach(({ measurement, scheme, element, cascade }) => (['AA', 'AAA'] as const).forEach(level => {
+			const required = ColorContrastChecker.getRequiredRatio(measurement.isLargeText, level === 'AAA');
+			if (measurement.ratio >= required) {
+				return;
+			}
+
+			const foreground = this.findNearestPassingColor(measurement.foreground, measurement.background, required, false);
+			const background = this.findNearestPassingColor(measurement.background, measurement.foreground, required, true);
+			[
+				{ color: foreground, declaration: measurement.foregroundDeclaration, label: 'text color' },
+				{ color: background, declaration: measurement.backgroundDeclaration, label: 'background' }
+			].forEach(({ color, declaration, label }) => {
+				const target = declaration && element && cascade ? this.followCustomProperty(declaration, element, cascade, document) : declaration;
+				const replacement = color && target ? this.getReplacement(target, CssColor.toHex(color), scheme) : null;
+				if (!color || !target || !replacement || fixes.some(fix =>
+					fix.document === target.document && fix.start === replacement.start && CssColor.toHex(fix.color) === CssColor.toHex(color)
+				)) {
+					return;
+				}
+				const ratio = label === 'background'
+					? CssColor.getContrastRatio(measurement.foreground, color)
+					: CssColor.getContrastRatio(color, measurement.background);
+				const hex = CssColor.toHex(color);
+				const location = target.fileName ? ` in ${target.fileName.split(/[\\/]/).pop()}` : '';
+				fixes.push({
+					title: `Change ${target !== declaration ? target.declaration.property : label} to ${hex}${location} (${ColorContrastChecker.formatRatio(ratio)}:1, meets ${level}${ColorContrastChecker.describeScheme(scheme)})`,
+					color: color,
+					ratio: ratio,
+					level: level,
+					document: target.document,
+					fileName: target.fileName,
+					start: replacement.start,
+					end: replacement.end,
+					newText: replacement.text
+				});
+			});
+		}));
+		return fixes;
+	}
+
+	/**
+	 * Nearest opaque color with the same hue that reaches the ratio against the other color,
+	 * trying lighter and darker shades; null when neither direction gets there
+	 */
+	static findNearestPassingColor(color: RgbaColor, other: RgbaColor, ratio: number, isBackground: boolean): RgbaColor | null {
+		const start = CssColor.toOklch(CssColor.composite(color, isBackground ? CssColor.WHITE : CssColor.composite(other, CssColor.WHITE)));
+		const passes = (candidate: RgbaColor) => (isBackground
+			? CssColor.getContrastRatio(other, candidate)
+			: CssColor.getContrastRatio(candidate, other)) >= ratio;
+
+		const candidates = [1, -1].map(direction => {
+			for (let lightness = start.l; lightness >= 0 && lightness <= 1; lightness += direction * this.LIGHTNESS_STEP) {
+				const candidate = this.toGamut(lightness, start.c, start.h);
+				if (passes(candidate)) {
+					return { color: candidate, distance: Math.abs(lightness - start.l) };
+				}
+			}
+			const extreme = direction > 0 ? CssColor.WHITE : CssColor.BLACK;
+			return passes(extreme) ? { color: extreme, distance: Math.abs((direction > 0 ? 1 : 0) - start.l) } : null;
+		});
+
+		const found = candidates.filter((candidate): candidate is { color: RgbaColor; distance: number } => candidate !== null);
+		found.sort((a, b) => a.distance - b.distance);
+		return found[0]?.color ?? null;
+	}
+
+	/**
+	 * Closest in-gamut color at a lightness and hue, giving up chroma where needed, with channels
+	 * rounded the way they will be written
+	 */
+	private static toGamut(lightness: number, chroma: number, hue: number): RgbaColor {
+		let low = 0;
+		let high = chroma;
+		let color = CssColor.fromOklch({ l: lightness, c: chroma, h: hue });
+		if (!color) {
+			for (let i = 0; i < 16; i++) {
+				const middle = (low + high) / 2;
+				if (CssColor.fromOklch({ l: lightness, c: middle, h: hue })) {
+					low = middle;
+				} else {
+					high = middle;
+				}
+			}
+			color = CssColor.fromOklch({ l: lightness, c: low, h: hue }) ?? CssColor.fromOklch({ l: lightness, c: 0, h: hue })!;
+		}
+		return { r: Math.round(color.r), g: Math.round(color.g), b: Math.round(color.b), a: 1 };
+	}
+
+	/**
+	 * Measurements of the finding at an offset, one for each color scheme the page has styles for,
+	 * with the element and cascade they were taken from in markup
+	 */
+	private static findMeasurements(document: HtmlDocument, fileName: string, offset: number): { measurement: ContrastMeasurement; scheme: ColorScheme; element: HtmlElement | null; cascade: StyleCascade | null }[] {
+		if (document instanceof StylesheetDocument) {
+			const rule = document.getStyleRules().find(candidate =>
+				ColorContrastChecker.measureRuleContrast(candidate, document)?.foregroundDeclaration?.declaration.start === offset
+			);
+			return rule ? [{ measurement: ColorContrastChecker.measureRuleContrast(rule, document)!, scheme: ColorContrastChecker.getRuleScheme(rule), element: null, cascade: null }] : [];
+		}
+
+		const element = document.elements.find(candidate => candidate.start === offset);
+		const cascade = StyleCascade.forDocument(document, fileName);
+		return element ? cascade.getColorSchemes().flatMap(scheme => {
+			const schemeCascade = cascade.withScheme(scheme);
+			const measurement = ColorContrastChecker.measureElementContrast(element, document, schemeCascade);
+			return measurement ? [{ measurement: measurement, scheme: scheme, element: element, cascade: schemeCascade }] : [];
+		}) : [];
+	}
+
+	/**
+	 * The declaration a var(--name) color comes from, so the custom property is changed where it
+	 * is set instead of the reference being replaced; the lookup starts at the element the
+	 * declaration applies to, which for a background may be an ancestor
+	 */
+	private static followCustomProperty(declaration: ContrastDeclaration, element: HtmlElement, cascade: StyleCascade, document: HtmlDocument): ContrastDeclaration {
+		let current = declaration;
+		let currentElement: HtmlElement | null = element;
+		while (currentElement && !cascade.getMatchedDeclarations(currentElement).some(candidate => candidate.declaration === declaration.declaration)) {
+			currentElement = currentElement.parent;
+		}
+
+		for (let depth = 0; currentElement && !current.utilityClass && depth < this.MAX_VARIABLE_DEPTH; depth++) {
+			const { valueStart, valueEnd } = current.declaration;
+			const value = current.document.text.substring(valueStart, valueEnd).replace(/\s*!\s*important\s*$/i, '').trim();
+			const name = /^var\(\s*(--[\w-]+)\s*(,[^]*)?\)$/i.exec(value)?.[1];
+			const found = name ? cascade.getCustomPropertyDeclaration(currentElement, name) : null;
+			if (!found) {
+				break;
+			}
+			current = {
+				declaration: found.declaration.declaration,
+				document: found.declaration.source.document,
+				fileName: found.declaration.source.document === document ? null : found.declaration.source.fileName,
+				utilityClass: found.declaration.source.utilityClass
+			};
+			currentElement = found.element;
+		}
+		return current;
+	}
+
+	/**
+	 * Edit that writes the color into the part of a declaration's value that holds it: the whole
+	 * value of color and background-color, the color in a background shorthand, the argument of
+	 * light-dark() for the scheme, or an arbitrary value in a Tailwind class (text-[#595959]);
+	 * !important and class variants are kept
+	 */
+	private static getReplacement(declaration: ContrastDeclaration, hex: string, scheme: ColorScheme): { start: number; end: number; text: string } | null {
+		const { valueStart, valueEnd, property } = declaration.declaration;
+		if (declaration.utilityClass) {
+			const text = declaration.utilityClass.replace(/(text|bg)-(\[[^\]]*\]|[^:[\]]+)(!?)$/, `$1-[${hex}]$3`);
+			return text !== declaration.utilityClass ? { start: valueStart, end: valueEnd, text: text } : null;
+		}
+
+		const value = declaration.document.text.substring(valueStart, valueEnd).replace(/\s*!\s*important\s*$/i, '');
+		const argument = this.findLightDarkArgument(value, scheme);
+		if (argument) {
+			return { start: valueStart + argument.start, end: valueStart + argument.end, text: hex };
+		}
+		if (property !== 'background' || /^var\([^]*\)$/i.test(value.trim())) {
+			return { start: valueStart, end: valueStart + value.length, text: hex };
+		}
+
+		const tokens = Array.from(value.matchAll(/[\w#.%-]+\([^()]*\)|[^\s()]+/g)).reverse();
+		const token = tokens.find(candidate => CssColor.parse(candidate[0]) !== null);
+		return token ? { start: valueStart + token.index!, end: valueStart + token.index! + token[0].length, text: hex } : null;
+	}
+
+	/**
+	 * Offsets of the color a light-dark(light, dark) function in a value uses in a scheme; the
+	 * dark argument applies in dark mode only, as in the cascade
+	 */
+	private static findLightDarkArgument(value: string, scheme: ColorScheme): { start: number; end: number } | null {
+		let found: { start: number; end: number } | null = null;
+		for (const match of value.matchAll(/light-dark\(/gi)) {
+			const argumentBounds: number[] = [match.index! + match[0].length];
+			let depth = 0;
+			for (let i = argumentBounds[0]; i < value.length && depth >= 0; i++) {
+				depth += value[i] === '(' ? 1 : value[i] === ')' ? -1 : 0;
+				if ((value[i] === ',' && depth === 0) || depth < 0) {
+					argumentBounds.push(i);
+				}
+			}
+			if (argumentBounds.length !== 3) {
+				continue;
+			}
+
+			const [start, end] = scheme === 'dark' ? [argumentBounds[1] + 1, argumentBounds[2]] : [argumentBounds[0], argumentBounds[1]];
+			const text = value.substring(start, end);
+			const trimmedStart = start + text.length - text.trimStart().length;
+			if (CssColor.parse(text.trim()) !== null) {
+				found = { start: trimmedStart, end: trimmedStart + text.trim().length };
+			}
+		}
+		return found;
+	}
+}
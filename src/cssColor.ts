@@ -0,0 +1,266 @@
+/**
+ * sRGB color with channels from 0 to 255 and alpha from 0 to 1
+ */
+export interface RgbaColor {
+	r: number;
+	g: number;
+	b: number;
+	a: number;
+}
+
+/**
+ * Color in the OKLCH space: perceptual lightness from 0 to 1, chroma and hue in degrees
+ */
+export interface OklchColor {
+	l: number;
+	c: number;
+	h: number;
+}
+
+/**
+ * Parses CSS color values and computes WCAG relative luminance and contrast ratios
+ */
+export class CssColor {
+	static readonly WHITE: RgbaColor = { r: 255, g: 255, b: 255, a: 1 };
+	static readonly BLACK: RgbaColor = { r: 0, g: 0, b: 0, a: 1 };
+
+	// CSS Color Module Level 4 named colors
+	private static readonly NAMED_COLORS: Record<string, string> = {
+		aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+		beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+		blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+		chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+		cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+		darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+		darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+		darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+		deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff',
+		firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+		ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+		greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+		indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5',
+		lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+		lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1',
+		lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+		lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6',
+		magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+		mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+		mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+		navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+		orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+		paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+		pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+		red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+		sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+		skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+		springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+		tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+		whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32'
+	};
+
+	/**
+	 * Parse a hex, rgb(), rgba(), hsl(), hsla() or named color; null for anything else, e.g.
+	 * var(--text), currentColor or inherit, whose value is not known from the declaration alone
+	 */
+	static parse(value: string): RgbaColor | null {
+		const color = value.trim().toLowerCase();
+
+		if (color === 'transparent') {
+			return { r: 0, g: 0, b: 0, a: 0 };
+		}
+		if (this.NAMED_COLORS[color]) {
+			return this.parseHex(this.NAMED_COLORS[color]);
+		}
+		if (color.startsWith('#')) {
+			return this.parseHex(color.substring(1));
+		}
+
+		const functional = /^(rgba?|hsla?)\(([^()]*)\)$/.exec(color);
+		if (!functional) {
+			return null;
+		}
+		// Both rgb(1, 2, 3, 0.5) and rgb(1 2 3 / 50%)
+		const parts = functional[2].split(/\s*[,/]\s*|\s+/).filter(part => part.length > 0);
+		if (parts.length !== 3 && parts.length !== 4) {
+			return null;
+		}
+		const rgba = functional[1].startsWith('rgb') ? this.parseRgb(parts.slice(0, 3)) : this.parseHsl(parts.slice(0, 3));
+		return parts.length === 4 ? this.withAlpha(rgba, parts[3]) : rgba;
+	}
+
+	/**
+	 * Find the color in a shorthand such as "background: #fff" or "border: 1px solid red"; null
+	 * when there is none or it cannot be resolved
+	 */
+	static findColor(value: string): RgbaColor | null {
+		const tokens = value.match(/[\w#.%-]+\([^()]*\)|[^\s()]+/g) ?? [];
+		for (let i = tokens.length - 1; i >= 0; i--) {
+			const color = this.parse(tokens[i]);
+			if (color) {
+				return color;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Paint a translucent color over an opaque backdrop
+	 */
+	static composite(color: RgbaColor, backdrop: RgbaColor): RgbaColor {
+		const mix = (top: number, bottom: number) => top * color.a + bottom * (1 - color.a);
+		return { r: mix(color.r, backdrop.r), g: mix(color.g, backdrop.g), b: mix(color.b, backdrop.b), a: 1 };
+	}
+
+	/**
+	 * WCAG 2.x relative luminance of an opaque color
+	 */
+	static getRelativeLuminance(color: RgbaColor): number {
+		return 0.2126 * this.toLinear(color.r) + 0.7152 * this.toLinear(color.g) + 0.0722 * this.toLinear(color.b);
+	}
+
+	/**
+	 * WCAG 2.x contrast ratio between text and its background, from 1 to 21; translucent colors
+	 * are composited, the background over white
+	 */
+	static getContrastRatio(foreground: RgbaColor, background: RgbaColor): number {
+		const opaqueBackground = this.composite(background, this.WHITE);
+		const opaqueForeground = this.composite(foreground, opaqueBackground);
+		const lighter = Math.max(this.getRelativeLuminance(opaqueForeground), this.getRelativeLuminance(opaqueBackground));
+		const darker = Math.min(this.getRelativeLuminance(opaqueForeground), this.getRelativeLuminance(opaqueBackground));
+		return (lighter + 0.05) / (darker + 0.05);
+	}
+
+	/**
+	 * Convert an opaque color to OKLCH, where equal steps in lightness look equal
+	 */
+	static toOklch(color: RgbaColor): OklchColor {
+		const [r, g, b] = [color.r, color.g, color.b].map(channel => this.toLinear(channel));
+		const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+		const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+		const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+		const lightness = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+		const a = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+		const bAxis = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+		return { l: lightness, c: Math.hypot(a, bAxis), h: (Math.atan2(bAxis, a) * 180 / Math.PI + 360) % 360 };
+	}
+
+	/**
+	 * Convert an OKLCH color to sRGB; null when it is outside the sRGB gamut
+	 */
+	static fromOklch(color: OklchColor): RgbaColor | null {
+		const a = color.c * Math.cos(color.h * Math.PI / 180);
+		const bAxis = color.c * Math.sin(color.h * Math.PI / 180);
+		const l = Math.pow(color.l + 0.3963377774 * a + 0.2158037573 * bAxis, 3);
+		const m = Math.pow(color.l - 0.1055613458 * a - 0.0638541728 * bAxis, 3);
+		const s = Math.pow(color.l - 0.0894841775 * a - 1.2914855480 * bAxis, 3);
+		const linear = [
+			4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+			-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+			-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+		];
+		if (linear.some(channel => channel < -0.0001 || channel > 1.0001)) {
+			return null;
+		}
+		const [r, g, b] = linear.map(channel => {
+			const value = this.clamp(channel, 0, 1);
+			return 255 * (value <= 0.0031308 ? 12.92 * value : 1.055 * Math.pow(value, 1 / 2.4) - 0.055);
+		});
+		return { r: r, g: g, b: b, a: 1 };
+	}
+
+	/**
+	 * Format a color as #rrggbb, or #rrggbbaa when it is translucent
+	 */
+	static toHex(color: RgbaColor): string {
+		const hex = (channel: number) => Math.round(channel).toString(16).padStart(2, '0');
+		return `#${hex(color.r)}${hex(color.g)}${hex(color.b)}${color.a < 1 ? hex(color.a * 255) : ''}`;
+	}
+
+	/**
+	 * Parse 3, 4, 6 or 8 hex digits
+	 */
+	private static parseHex(hex: string): RgbaColor | null {
+		if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(hex)) {
+			return null;
+		}
+		const digits = hex.length <= 4 ? hex.split('').map(digit => digit + digit) : hex.match(/../g)!;
+		const [r, g, b, a] = digits.map(pair => parseInt(pair, 16));
+		return { r: r, g: g, b: b, a: a === undefined ? 1 : a / 255 };
+	}
+
+	/**
+	 * Channels of rgb() as numbers from 0 to 255 or percentages
+	 */
+	private static parseRgb(parts: string[]): RgbaColor | null {
+		const channels = parts.map(part => this.parseNumber(part, 255));
+		if (channels.some(channel => channel === null)) {
+			return null;
+		}
+		const [r, g, b] = channels.map(channel => this.clamp(channel!, 0, 255));
+		return { r: r, g: g, b: b, a: 1 };
+	}
+
+	/**
+	 * Hue, saturation and lightness of hsl(), converted to sRGB
+	 */
+	private static parseHsl(parts: string[]): RgbaColor | null {
+		const hue = this.parseHue(parts[0]);
+		const saturation = this.parseNumber(parts[1], 100);
+		const lightness = this.parseNumber(parts[2], 100);
+		if (hue === null || saturation === null || lightness === null) {
+			return null;
+		}
+
+		const s = this.clamp(saturation, 0, 100) / 100;
+		const l = this.clamp(lightness, 0, 100) / 100;
+		const channel = (n: number) => {
+			const k = (n + hue / 30) % 12;
+			return 255 * (l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+		};
+		return { r: channel(0), g: channel(8), b: channel(4), a: 1 };
+	}
+
+	/**
+	 * Hue in degrees, from a number or a deg, grad, rad or turn angle
+	 */
+	private static parseHue(value: string): number | null {
+		const match = /^(-?[\d.]+)(deg|grad|rad|turn)?$/.exec(value);
+		if (!match || isNaN(parseFloat(match[1]))) {
+			return null;
+		}
+		const factors: Record<string, number> = { deg: 1, grad: 0.9, rad: 180 / Math.PI, turn: 360 };
+		const degrees = parseFloat(match[1]) * factors[match[2] ?? 'deg'];
+		return ((degrees % 360) + 360) % 360;
+	}
+
+	/**
+	 * A number, or a percentage of the given maximum
+	 */
+	private static parseNumber(value: string, percentageOf: number): number | null {
+		const match = /^(-?[\d.]+)(%)?$/.exec(value);
+		if (!match || isNaN(parseFloat(match[1]))) {
+			return null;
+		}
+		return match[2] ? parseFloat(match[1]) * percentageOf / 100 : parseFloat(match[1]);
+	}
+
+	/**
+	 * Apply an alpha given as a number from 0 to 1 or a percentage
+	 */
+	private static withAlpha(color: RgbaColor | null, alpha: string): RgbaColor | null {
+		const value = this.parseNumber(alpha, 1);
+		return color && value !== null ? { ...color, a: this.clamp(value, 0, 1) } : null;
+	}
+
+	/**
+	 * Linear-light value of an sRGB channel
+	 */
+	private static toLinear(channel: number): number {
+		const value = channel / 255;
+		return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+	}
+
+	private static clamp(value: number, min: number, max: number): number {
+		return Math.min(max, Math.max(min, value));
+	}
+}
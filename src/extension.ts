@@ -1,12 +1,37 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { AccessibilityChecker } from './accessibilityChecker';
-import { ImageChecker } from './imageChecker';
+import { AltTagCommands } from './altTagCommands';
+import { Baseline } from './baseline';
+import { BaselineCommands } from './baselineCommands';
+import { BaselineTreeProvider } from './baselineTreeProvider';
+import { ContrastCodeActionProvider } from './contrastCodeActionProvider';
+import { HtmlDocument, HtmlParser } from './htmlParser';
+import { IdReferenceProvider } from './idReferenceProvider';
+import { MarkupParser } from './markupParser';
+import { RuleDefinition, RuleRegistry } from './ruleRegistry';
+import { RuleConfigLoader } from './ruleConfig';
+import { SarifExportCommand } from './sarifExportCommand';
+import { SuppressionCodeActionProvider } from './suppressionCodeActionProvider';
+import { TailwindTheme } from './tailwindTheme';
+import { WorkspaceScanner } from './workspaceScanner';
+
+export type { RuleContext, RuleDefinition, RuleDefinitionMetadata, RuleIssue } from './ruleRegistry';
+
+/**
+ * API returned from activate() so other extensions can contribute their own rules
+ */
+export interface Marsa11yApi {
+	registerRule(rule: RuleDefinition): vscode.Disposable;
+	getRules(): RuleDefinition[];
+	parseHtml(text: string): HtmlDocument;
+}
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): Marsa11yApi {
 
 	// Use the console to output diagnostic information (console.log) and errors (console.error)
 	// This line of code will only be executed once when your extension is activated
@@ -24,15 +49,124 @@ export function activate(context: vscode.ExtensionContext) {
 	statusBarItem.show();
 	context.subscriptions.push(statusBarItem);
 
-	// Listen for HTML file edits and check for accessibility issues
+	// Listen for edits to files that registered rules apply to and check for accessibility issues
 	const htmlFileWatcher = vscode.workspace.onDidChangeTextDocument((event) => {
 		const fileName = event.document.fileName;
-		if (fileName.endsWith('.html') || fileName.endsWith('.htm')) {
-			console.log(`\n🔍 Accessibility Check - HTML file edited: ${fileName}`);
+		if (RuleRegistry.hasRulesForFile(fileName)) {
+			console.log(`\n🔍 Accessibility Check - file edited: ${fileName}`);
 			AccessibilityChecker.checkAccessibilityIssues(event.document, diagnosticCollection);
 		}
 	});
 
+	// Re-check open documents after the set of registered rules changes
+	const recheckOpenDocuments = () => {
+		vscode.workspace.textDocuments.forEach(document => {
+			if (RuleRegistry.hasRulesForFile(document.fileName)) {
+				AccessibilityChecker.checkAccessibilityIssues(document, diagnosticCollection);
+			} else {
+				diagnosticCollection.delete(document.uri);
+			}
+		});
+	};
+
+	// Re-check open documents and every file the workspace scan left diagnostics for
+	const recheckCheckedFiles = async () => {
+		recheckOpenDocuments();
+
+		const checkedFiles: vscode.Uri[] = [];
+		diagnosticCollection.forEach(uri => {
+			if (!vscode.workspace.textDocuments.some(document => document.uri.toString() === uri.toString())) {
+				checkedFiles.push(uri);
+			}
+		});
+		for (const uri of checkedFiles) {
+			await WorkspaceScanner.checkFile(uri, diagnosticCollection);
+		}
+	};
+
+	// Re-check files with diagnostics when a .marsa11yrc.json file or the rules setting changes
+	const configFileWatcher = vscode.workspace.createFileSystemWatcher(`**/${RuleConfigLoader.CONFIG_FILE_NAME}`);
+	const onConfigFileChanged = async (uri: vscode.Uri) => {
+		RuleConfigLoader.clearCache();
+		RuleConfigLoader.readConfigFile(uri.fsPath);
+		const error = RuleConfigLoader.getConfigError(uri.fsPath);
+		if (error) {
+			vscode.window.showWarningMessage(`Invalid accessibility config ${vscode.workspace.asRelativePath(uri)}: ${error}`);
+		}
+		await recheckCheckedFiles();
+	};
+	configFileWatcher.onDidCreate(onConfigFileChanged);
+	configFileWatcher.onDidChange(onConfigFileChanged);
+	configFileWatcher.onDidDelete(onConfigFileChanged);
+
+	// Known issues recorded in the baseline, listed in their own view
+	const baselineTreeProvider = new BaselineTreeProvider();
+	const baselineView = vscode.window.registerTreeDataProvider(BaselineTreeProvider.VIEW_ID, baselineTreeProvider);
+
+	// Re-check every file with diagnostics when the baseline file is created, changed or deleted
+	const baselineFileWatcher = vscode.workspace.createFileSystemWatcher(`**/${Baseline.FILE_NAME}`);
+	const onBaselineFileChanged = async () => {
+		Baseline.clearCache();
+		baselineTreeProvider.refresh();
+		await recheckCheckedFiles();
+	};
+	baselineFileWatcher.onDidCreate(onBaselineFileChanged);
+	baselineFileWatcher.onDidChange(onBaselineFileChanged);
+	baselineFileWatcher.onDidDelete(onBaselineFileChanged);
+
+	const settingsWatcher = vscode.workspace.onDidChangeConfiguration((event) => {
+		if (event.affectsConfiguration('marsa11yfix.rules')) {
+			recheckCheckedFiles();
+		}
+	});
+
+	// Re-check files when they are opened, saved, renamed or deleted
+	const openWatcher = vscode.workspace.onDidOpenTextDocument((document) => {
+		if (['file', 'untitled'].includes(document.uri.scheme) && RuleRegistry.hasRulesForFile(document.fileName)) {
+			AccessibilityChecker.checkAccessibilityIssues(document, diagnosticCollection);
+		}
+	});
+	const saveWatcher = vscode.workspace.onDidSaveTextDocument((document) => {
+		if (MarkupParser.isStylesheet(document.fileName) || TailwindTheme.CONFIG_FILES.includes(path.basename(document.fileName))) {
+			// Pages that link to the stylesheet or use the Tailwind theme see the change once it is saved
+			recheckOpenDocuments();
+			baselineTreeProvider.refresh();
+		} else if (RuleRegistry.hasRulesForFile(document.fileName)) {
+			AccessibilityChecker.checkAccessibilityIssues(document, diagnosticCollection);
+			baselineTreeProvider.refresh();
+		}
+	});
+	const renameWatcher = vscode.workspace.onDidRenameFiles(async (event) => {
+		for (const file of event.files) {
+			await WorkspaceScanner.handleRename(file.oldUri, file.newUri, diagnosticCollection);
+		}
+	});
+	const deleteWatcher = vscode.workspace.onDidDeleteFiles((event) => {
+		event.files.forEach(uri => WorkspaceScanner.removeDiagnostics(uri, diagnosticCollection));
+	});
+
+	// Check documents that were already open before the extension activated
+	recheckOpenDocuments();
+
+	// Quick fixes that insert or remove marsa11y-disable comments
+	const suppressionCodeActions = vscode.languages.registerCodeActionsProvider(
+		[{ scheme: 'file' }, { scheme: 'untitled' }],
+		new SuppressionCodeActionProvider(),
+		{ providedCodeActionKinds: SuppressionCodeActionProvider.providedCodeActionKinds }
+	);
+
+	// Quick fixes that change a color to the nearest one with enough contrast
+	const contrastCodeActions = vscode.languages.registerCodeActionsProvider(
+		[{ scheme: 'file' }, { scheme: 'untitled' }],
+		new ContrastCodeActionProvider(),
+		{ providedCodeActionKinds: ContrastCodeActionProvider.providedCodeActionKinds }
+	);
+
+	// Go to definition, find references and rename for ids and the attributes that refer to them
+	const idReferenceProvider = new IdReferenceProvider();
+	const idDefinitions = vscode.languages.registerDefinitionProvider(IdReferenceProvider.getDocumentSelector(), idReferenceProvider);
+	const idReferences = vscode.languages.registerReferenceProvider(IdReferenceProvider.getDocumentSelector(), idReferenceProvider);
+	const idRenames = vscode.languages.registerRenameProvider(IdReferenceProvider.getDocumentSelector(), idReferenceProvider);
 
 	// The command has been defined in the package.json file
 	// Now provide the implementation of the command with registerCommand
@@ -52,12 +186,12 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		const document = editor.document;
-		if (!document.fileName.endsWith('.html') && !document.fileName.endsWith('.htm')) {
-			vscode.window.showErrorMessage('This command only works with HTML files');
+		if (!MarkupParser.getFileTypes().some(fileType => document.fileName.toLowerCase().endsWith(fileType))) {
+			vscode.window.showErrorMessage('This command only works with HTML files and component templates');
 			return;
 		}
 
-		await ImageChecker.autoFixMissingAltTags(document);
+		await AltTagCommands.autoFixMissingAltTags(document);
 	});
 
 	// Auto-fix the current image (where cursor is positioned)
@@ -69,16 +203,48 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		const document = editor.document;
-		if (!document.fileName.endsWith('.html') && !document.fileName.endsWith('.htm')) {
-			vscode.window.showErrorMessage('This command only works with HTML files');
+		if (!MarkupParser.getFileTypes().some(fileType => document.fileName.toLowerCase().endsWith(fileType))) {
+			vscode.window.showErrorMessage('This command only works with HTML files and component templates');
 			return;
 		}
 
 		const lineNumber = editor.selection.active.line;
-		await ImageChecker.autoFixSpecificImage(document, lineNumber);
+		await AltTagCommands.autoFixSpecificImage(document, lineNumber);
+	});
+
+	// Check every matching file in the workspace
+	const scanWorkspaceCommand = vscode.commands.registerCommand('marsa11yfix.scanWorkspace', async () => {
+		await WorkspaceScanner.scanWorkspace(diagnosticCollection);
+	});
+
+	// Export findings as SARIF for dashboards and code scanning
+	const exportSarifCommand = vscode.commands.registerCommand('marsa11yfix.exportSarif', async () => {
+		await SarifExportCommand.exportFindings();
+	});
+
+	// Record current findings so only new issues are reported
+	const createBaselineCommand = vscode.commands.registerCommand('marsa11yfix.createBaseline', async () => {
+		await BaselineCommands.createBaseline();
 	});
 
-	context.subscriptions.push(helloWorldCommand, autoFixAltTagsCommand, autoFixCurrentImageCommand, htmlFileWatcher);
+	context.subscriptions.push(helloWorldCommand, autoFixAltTagsCommand, autoFixCurrentImageCommand, htmlFileWatcher, configFileWatcher, settingsWatcher, suppressionCodeActions, contrastCodeActions);
+	context.subscriptions.push(scanWorkspaceCommand, exportSarifCommand, openWatcher, saveWatcher, renameWatcher, deleteWatcher);
+	context.subscriptions.push(createBaselineCommand, baselineView, baselineFileWatcher, idDefinitions, idReferences, idRenames);
+
+	return {
+		registerRule(rule: RuleDefinition): vscode.Disposable {
+			RuleRegistry.register(rule);
+			recheckOpenDocuments();
+			return new vscode.Disposable(() => {
+				if (RuleRegistry.getRule(rule.id) === rule) {
+					RuleRegistry.unregister(rule.id);
+					recheckOpenDocuments();
+				}
+			});
+		},
+		getRules: () => RuleRegistry.getRules(),
+		parseHtml: (text: string) => HtmlParser.parse(text)
+	};
 }
 
 // This method is called when your extension is deactivated
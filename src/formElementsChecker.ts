@@ -1,62 +1,69 @@
-import * as vscode from 'vscode';
-import { AccessibilityIssue } from './accessibilityChecker';
+import { AccessibilityIssue } from './accessibilityEngine';
+import { HtmlDocument, HtmlElement } from './htmlParser';
+import { RuleCatalog } from './ruleCatalog';
 
 export class FormElementsChecker {
 	/**
 	 * Check for missing labels on form inputs
 	 */
-	static checkFormInputLabels(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if ((trimmedLine.includes('<input') || trimmedLine.includes('<textarea') || trimmedLine.includes('<select')) && 
-			!trimmedLine.includes('aria-label') && !trimmedLine.includes('aria-labelledby') && 
-			!trimmedLine.includes('id=') && !trimmedLine.includes('placeholder=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+	static checkFormInputLabels(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const isFormInput = ['input', 'textarea', 'select'].includes(element.tagName) &&
+			element.getAttribute('type') !== 'hidden';
+
+		if (isFormInput &&
+			!element.mayHaveAttribute('aria-label') && !element.mayHaveAttribute('aria-labelledby') &&
+			!element.mayHaveAttribute('placeholder') && document.getLabelsFor(element).length === 0) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Form input missing label, aria-label, or aria-labelledby',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('form-input-label')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for missing form labels
 	 */
-	static checkFormLabels(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if (trimmedLine.includes('<label') && !trimmedLine.includes('for=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+	static checkFormLabels(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		// A label wrapping its control is associated implicitly
+		const wrapsControl = element.getElementsByTagName('input', 'textarea', 'select').length > 0;
+
+		if (element.tagName === 'label' && !element.mayHaveAttribute('for') && !wrapsControl) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Label element missing for attribute',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('label-for')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Run all form-related accessibility checks
 	 */
-	static checkFormElements(line: string, lineNumber: number): AccessibilityIssue[] {
+	static checkFormElements(document: HtmlDocument): AccessibilityIssue[] {
 		const issues: AccessibilityIssue[] = [];
-		
-		const checks = [
-			this.checkFormInputLabels(line, lineNumber),
-			this.checkFormLabels(line, lineNumber)
-		];
 
-		checks.forEach(check => {
-			if (check) {
-				issues.push(check);
-			}
+		document.elements.forEach(element => {
+			const checks = [
+				this.checkFormInputLabels(element, document),
+				this.checkFormLabels(element, document)
+			];
+
+			checks.forEach(check => {
+				if (check) {
+					issues.push(check);
+				}
+			});
 		});
 
 		return issues;
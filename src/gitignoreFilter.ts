@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GlobPattern } from './globPattern';
+
+interface IgnoreRule {
+	pattern: RegExp;
+	negated: boolean;
+	directoryOnly: boolean;
+}
+
+/**
+ * Decides whether files are ignored by the .gitignore files of a folder and its subfolders
+ */
+export class GitignoreFilter {
+	// Parsed .gitignore rules by directory
+	private readonly rules = new Map<string, IgnoreRule[]>();
+
+	constructor(private readonly rootDirectory: string) {}
+
+	/**
+	 * Check whether a file, or any folder containing it, is ignored
+	 */
+	isIgnored(filePath: string): boolean {
+		const relativePath = path.relative(this.rootDirectory, filePath);
+		if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+			return false;
+		}
+
+		const segments = relativePath.split(path.sep);
+		if (segments.includes('.git')) {
+			return true;
+		}
+
+		// Git does not look inside ignored folders, so an ignored ancestor ignores the file
+		for (let length = 1; length <= segments.length; length++) {
+			if (this.matches(segments.slice(0, length), length < segments.length)) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Apply the rules of every .gitignore above a path; the last matching rule wins
+	 */
+	private matches(segments: string[], isDirectory: boolean): boolean {
+		let ignored = false;
+
+		for (let depth = 0; depth < segments.length; depth++) {
+			const directory = path.join(this.rootDirectory, ...segments.slice(0, depth));
+			const relativePath = segments.slice(depth).join('/');
+
+			this.getRules(directory).forEach(rule => {
+				if ((!rule.directoryOnly || isDirectory) && rule.pattern.test(relativePath)) {
+					ignored = !rule.negated;
+				}
+			});
+		}
+
+		return ignored;
+	}
+
+	/**
+	 * Read and cache the rules of the .gitignore in a directory
+	 */
+	private getRules(directory: string): IgnoreRule[] {
+		let rules = this.rules.get(directory);
+		if (!rules) {
+			const ignoreFile = path.join(directory, '.gitignore');
+			rules = fs.existsSync(ignoreFile) ? GitignoreFilter.parse(fs.readFileSync(ignoreFile, 'utf8')) : [];
+			this.rules.set(directory, rules);
+		}
+		return rules;
+	}
+
+	/**
+	 * Parse the contents of a .gitignore file
+	 */
+	private static parse(text: string): IgnoreRule[] {
+		const rules: IgnoreRule[] = [];
+
+		text.split(/\r?\n/).forEach(line => {
+			let pattern = line.replace(/(?<!\\)\s+$/, '');
+			if (!pattern || pattern.startsWith('#')) {
+				return;
+			}
+
+			const negated = pattern.startsWith('!');
+			if (negated) {
+				pattern = pattern.substring(1);
+			}
+			pattern = pattern.replace(/^\\([#!])/, '$1');
+
+			const directoryOnly = pattern.endsWith('/');
+			pattern = pattern.replace(/\/+$/, '');
+
+			// Patterns with a slash are relative to the .gitignore, others match at any depth
+			const anchored = pattern.includes('/');
+			pattern = pattern.replace(/^\//, '');
+			if (!pattern) {
+				return;
+			}
+
+			rules.push({
+				pattern: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${GlobPattern.toRegExpSource(pattern, false)}$`),
+				negated: negated,
+				directoryOnly: directoryOnly
+			});
+		});
+
+		return rules;
+	}
+}
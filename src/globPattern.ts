@@ -0,0 +1,88 @@
+/**
+ * Converts glob patterns to regular expressions matched against forward-slash relative paths
+ */
+export class GlobPattern {
+	/**
+	 * Build a regular expression that matches a whole relative path
+	 */
+	static toRegExp(glob: string): RegExp {
+		return new RegExp(`^${this.toRegExpSource(glob)}$`);
+	}
+
+	/**
+	 * Convert a glob to a regular expression source; ** spans folders, * and ? do not, and
+	 * {a,b} alternatives are expanded unless braces are disabled (.gitignore has no braces)
+	 */
+	static toRegExpSource(glob: string, braces = true): string {
+		let source = '';
+		let braceDepth = 0;
+
+		for (let i = 0; i < glob.length; i++) {
+			const char = glob[i];
+			if (glob.startsWith('**/', i)) {
+				source += '(?:.*/)?';
+				i += 2;
+			} else if (glob.startsWith('**', i)) {
+				source += '.*';
+				i += 1;
+			} else if (char === '*') {
+				source += '[^/]*';
+			} else if (char === '?') {
+				source += '[^/]';
+			} else if (char === '[') {
+				const end = glob.indexOf(']', i + 1);
+				if (end === -1) {
+					source += '\\[';
+				} else {
+					source += `[${glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+					i = end;
+				}
+			} else if (char === '\\' && i + 1 < glob.length) {
+				source += this.escape(glob[i + 1]);
+				i += 1;
+			} else if (braces && char === '{') {
+				source += '(?:';
+				braceDepth++;
+			} else if (braces && char === '}' && braceDepth > 0) {
+				source += ')';
+				braceDepth--;
+			} else if (braces && char === ',' && braceDepth > 0) {
+				source += '|';
+			} else {
+				source += this.escape(char);
+			}
+		}
+
+		return source + ')'.repeat(braceDepth);
+	}
+
+	/**
+	 * Check whether a path segment contains glob syntax
+	 */
+	static isGlob(segment: string): boolean {
+		return /[*?[{]/.test(segment);
+	}
+
+	/**
+	 * The leading folders of a glob that contain no glob syntax, where a search can start
+	 */
+	static getBaseDirectory(glob: string): string {
+		const segments = glob.split('/');
+		const literal: string[] = [];
+
+		for (const segment of segments.slice(0, -1)) {
+			if (this.isGlob(segment)) {
+				break;
+			}
+			literal.push(segment);
+		}
+		return literal.join('/') || (glob.startsWith('/') ? '/' : '.');
+	}
+
+	/**
+	 * Escape a literal character for a regular expression
+	 */
+	private static escape(char: string): string {
+		return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+	}
+}
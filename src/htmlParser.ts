@@ -0,0 +1,758 @@
+import { SourcePosition, SourceRange } from './sourceRange';
+
+export interface HtmlAttribute {
+	name: string;
+	rawName: string;
+	value: string | null;
+	start: number;
+	end: number;
+	valueStart: number;
+	valueEnd: number;
+	// Set when the value is an expression only known at runtime, e.g. alt={title} in JSX
+	dynamic?: boolean;
+}
+
+export interface HtmlText {
+	type: 'text';
+	text: string;
+	start: number;
+	end: number;
+	parent: HtmlElement | null;
+}
+
+export interface HtmlComment {
+	type: 'comment';
+	data: string;
+	start: number;
+	end: number;
+	parent: HtmlElement | null;
+}
+
+export type HtmlNode = HtmlElement | HtmlText | HtmlComment;
+
+/**
+ * One branch of a conditional in a template, e.g. the v-else of a v-if chain or the else side of
+ * a JSX ternary; elements in different branches of one conditional never render together
+ */
+export interface ConditionalBranch {
+	// Shared by every branch of one conditional
+	group: object;
+	index: number;
+	// Branch of an enclosing conditional
+	parent: ConditionalBranch | null;
+}
+
+export interface StyleDeclaration {
+	property: string;
+	value: string;
+	important: boolean;
+	start: number;
+	end: number;
+	valueStart: number;
+	valueEnd: number;
+}
+
+export interface StyleRule {
+	// null for inline style attributes
+	selector: string | null;
+	// Enclosing at-rule preludes, outermost first (e.g. "@media (max-width: 600px)")
+	conditions: string[];
+	// The <style> element, or the element with the style attribute or utility class; null in standalone stylesheets
+	element: HtmlElement | null;
+	start: number;
+	end: number;
+	declarations: StyleDeclaration[];
+}
+
+export interface ScriptBlock {
+	text: string;
+	start: number;
+	element: HtmlElement;
+	// Set when the script comes from an inline event handler attribute
+	attribute?: HtmlAttribute;
+}
+
+export class HtmlElement {
+	readonly type = 'element';
+	attributes: HtmlAttribute[] = [];
+	children: HtmlNode[] = [];
+	end: number;
+	startTagEnd: number;
+	endTagStart: number | null = null;
+	selfClosing = false;
+	// Set when attributes are spread from an object (JSX {...props}), which may hold any attribute
+	hasSpreadAttributes = false;
+	// Innermost conditional branch the element is rendered in, when the parser knows of one
+	branch: ConditionalBranch | null = null;
+
+	constructor(
+		public tagName: string,
+		public start: number,
+		public parent: HtmlElement | null
+	) {
+		this.end = start;
+		this.startTagEnd = start;
+	}
+
+	getAttributeNode(name: string): HtmlAttribute | undefined {
+		return this.attributes.find(attribute => attribute.name === name);
+	}
+
+	hasAttribute(name: string): boolean {
+		return this.getAttributeNode(name) !== undefined;
+	}
+
+	/**
+	 * Check whether an attribute is or might be present; spread attributes might hold any
+	 * attribute, so checks for missing attributes use this to stay quiet for them
+	 */
+	mayHaveAttribute(name: string): boolean {
+		return this.hasSpreadAttributes || this.hasAttribute(name);
+	}
+
+	/**
+	 * Attribute value, '' for attributes without a value, null when absent
+	 */
+	getAttribute(name: string): string | null {
+		const attribute = this.getAttributeNode(name);
+		if (!attribute) {
+			return null;
+		}
+		return attribute.value ?? '';
+	}
+
+	/**
+	 * Check whether any attribute value contains one of the given keywords (case-insensitive)
+	 */
+	attributeValuesInclude(keywords: string[]): boolean {
+		return this.attributes.some(attribute => {
+			const value = (attribute.value ?? '').toLowerCase();
+			return keywords.some(keyword => value.includes(keyword));
+		});
+	}
+
+	get childElements(): HtmlElement[] {
+		return this.children.filter((child): child is HtmlElement => child.type === 'element');
+	}
+
+	/**
+	 * Concatenated text of all descendant text nodes
+	 */
+	get textContent(): string {
+		return this.children.map(child => {
+			if (child.type === 'text') {
+				return child.text;
+			}
+			if (child.type === 'element') {
+				return child.textContent;
+			}
+			return '';
+		}).join('');
+	}
+
+	getElementsByTagName(...tagNames: string[]): HtmlElement[] {
+		const result: HtmlElement[] = [];
+		const visit = (element: HtmlElement) => {
+			element.childElements.forEach(child => {
+				if (tagNames.includes(child.tagName)) {
+					result.push(child);
+				}
+				visit(child);
+			});
+		};
+		visit(this);
+		return result;
+	}
+
+	/**
+	 * Nearest ancestor (excluding this element) with one of the given tag names
+	 */
+	closest(...tagNames: string[]): HtmlElement | null {
+		let current = this.parent;
+		while (current) {
+			if (tagNames.includes(current.tagName)) {
+				return current;
+			}
+			current = current.parent;
+		}
+		return null;
+	}
+
+	/**
+	 * Check whether two elements are in different branches of the same conditional, so they never
+	 * render together and rules about the whole document should not count both
+	 */
+	isExclusiveWith(other: HtmlElement): boolean {
+		const getBranches = (element: HtmlElement) => {
+			const branches: ConditionalBranch[] = [];
+			for (let current: HtmlElement | null = element; current; current = current.parent) {
+				for (let branch = current.branch; branch; branch = branch.parent) {
+					branches.push(branch);
+				}
+			}
+			return branches;
+		};
+		const otherBranches = getBranches(other);
+		return getBranches(this).some(branch => otherBranches.some(candidate => candidate.group === branch.group && candidate.index !== branch.index));
+	}
+
+	/**
+	 * Put the element, inside any branches it is already in, into the branch of a container it is
+	 * unwrapped from, e.g. a Vue <template v-if>
+	 */
+	addOuterBranch(branch: ConditionalBranch | null): void {
+		if (!branch) {
+			return;
+		}
+		let innermost = this.branch;
+		if (!innermost) {
+			this.branch = branch;
+			return;
+		}
+		while (innermost.parent && innermost !== branch) {
+			innermost = innermost.parent;
+		}
+		if (innermost !== branch) {
+			innermost.parent = branch;
+		}
+	}
+
+	/**
+	 * Declarations of the inline style attribute
+	 */
+	getStyleDeclarations(): StyleDeclaration[] {
+		const style = this.getAttributeNode('style');
+		if (!style || style.value === null || style.dynamic) {
+			return [];
+		}
+		return CssScanner.parseDeclarations(style.value, style.valueStart);
+	}
+}
+
+export class HtmlDocument {
+	readonly elements: HtmlElement[] = [];
+	readonly comments: HtmlComment[] = [];
+	readonly children: HtmlNode[] = [];
+	private readonly lineStarts: number[] = [0];
+	private styleRules: StyleRule[] | null = null;
+
+	constructor(public readonly text: string) {
+		for (let i = 0; i < text.length; i++) {
+			if (text[i] === '\n') {
+				this.lineStarts.push(i + 1);
+			}
+		}
+	}
+
+	getElementsByTagName(...tagNames: string[]): HtmlElement[] {
+		return this.elements.filter(element => tagNames.includes(element.tagName));
+	}
+
+	getElementById(id: string): HtmlElement | null {
+		return this.elements.find(element => element.getAttribute('id') === id) ?? null;
+	}
+
+	/**
+	 * Label elements associated with a form control, either by for= or by nesting
+	 */
+	getLabelsFor(element: HtmlElement): HtmlElement[] {
+		const labels: HtmlElement[] = [];
+		const id = element.getAttribute('id');
+		if (id) {
+			labels.push(...this.getElementsByTagName('label').filter(label => label.getAttribute('for') === id));
+		}
+		const wrappingLabel = element.closest('label');
+		if (wrappingLabel && !labels.includes(wrappingLabel)) {
+			labels.push(wrappingLabel);
+		}
+		return labels;
+	}
+
+	positionAt(offset: number): SourcePosition {
+		let low = 0;
+		let high = this.lineStarts.length - 1;
+		while (low < high) {
+			const middle = Math.ceil((low + high) / 2);
+			if (this.lineStarts[middle] <= offset) {
+				low = middle;
+			} else {
+				high = middle - 1;
+			}
+		}
+		return { line: low, character: offset - this.lineStarts[low] };
+	}
+
+	/**
+	 * Offset of a position, the inverse of positionAt
+	 */
+	offsetAt(position: SourcePosition): number {
+		const line = Math.min(Math.max(position.line, 0), this.lineStarts.length - 1);
+		return Math.min(this.lineStarts[line] + position.character, this.text.length);
+	}
+
+	getRange(start: number, end: number): SourceRange {
+		return { start: this.positionAt(start), end: this.positionAt(end) };
+	}
+
+	/**
+	 * Range of an element's start tag, which is where element-level findings are reported
+	 */
+	getElementRange(element: HtmlElement): SourceRange {
+		return this.getRange(element.start, element.startTagEnd);
+	}
+
+	getAttributeRange(attribute: HtmlAttribute): SourceRange {
+		return this.getRange(attribute.start, attribute.end);
+	}
+
+	/**
+	 * CSS rules from <style> blocks and inline style attributes, in document order
+	 */
+	getStyleRules(): StyleRule[] {
+		if (!this.styleRules) {
+			const rules: StyleRule[] = [];
+			this.elements.forEach(element => {
+				if (element.tagName === 'style') {
+					element.children.forEach(child => {
+						if (child.type === 'text') {
+							rules.push(...CssScanner.parseStylesheet(child.text, child.start, element));
+						}
+					});
+				}
+				const style = element.getAttributeNode('style');
+				if (style && style.value !== null) {
+					rules.push({
+						selector: null,
+						conditions: [],
+						element: element,
+						start: style.start,
+						end: style.end,
+						declarations: element.getStyleDeclarations()
+					});
+				}
+			});
+			this.styleRules = rules;
+		}
+		return this.styleRules;
+	}
+
+	/**
+	 * Script sources from <script> blocks and inline event handler attributes
+	 */
+	getScripts(): ScriptBlock[] {
+		const scripts: ScriptBlock[] = [];
+		this.elements.forEach(element => {
+			if (element.tagName === 'script') {
+				element.children.forEach(child => {
+					if (child.type === 'text') {
+						scripts.push({ text: child.text, start: child.start, element: element });
+					}
+				});
+			}
+			element.attributes.forEach(attribute => {
+				if (attribute.name.startsWith('on') && attribute.value) {
+					scripts.push({ text: attribute.value, start: attribute.valueStart, element: element, attribute: attribute });
+				}
+			});
+		});
+		return scripts;
+	}
+}
+
+export class HtmlParser {
+	// Elements that never have content or a closing tag
+	private static readonly VOID_ELEMENTS = [
+		'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+	];
+
+	// Elements whose content is not parsed as markup
+	private static readonly RAW_TEXT_ELEMENTS = ['script', 'style', 'textarea', 'title'];
+
+	// Start tags that implicitly close an open element, unless a boundary element is reached first
+	private static readonly IMPLIED_END_TAGS: Record<string, { closes: string[]; boundary: string[] }> = {
+		li: { closes: ['li'], boundary: ['ul', 'ol', 'menu'] },
+		dt: { closes: ['dt', 'dd'], boundary: ['dl'] },
+		dd: { closes: ['dt', 'dd'], boundary: ['dl'] },
+		option: { closes: ['option'], boundary: ['select', 'datalist', 'optgroup'] },
+		optgroup: { closes: ['option', 'optgroup'], boundary: ['select'] },
+		tr: { closes: ['tr', 'td', 'th'], boundary: ['table', 'thead', 'tbody', 'tfoot'] },
+		td: { closes: ['td', 'th'], boundary: ['tr', 'table'] },
+		th: { closes: ['td', 'th'], boundary: ['tr', 'table'] },
+		thead: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], boundary: ['table'] },
+		tbody: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], boundary: ['table'] },
+		tfoot: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], boundary: ['table'] }
+	};
+
+	// Start tags that close an open paragraph
+	private static readonly CLOSES_PARAGRAPH = [
+		'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figure', 'footer',
+		'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre',
+		'section', 'table', 'ul'
+	];
+
+	/**
+	 * Parse markup into an element tree, tolerating unclosed and stray tags
+	 */
+	static parse(text: string): HtmlDocument {
+		const document = new HtmlDocument(text);
+		const stack: HtmlElement[] = [];
+		let position = 0;
+		let textStart = 0;
+
+		const currentParent = (): HtmlElement | null => stack.length > 0 ? stack[stack.length - 1] : null;
+
+		const append = (node: HtmlNode) => {
+			const parent = currentParent();
+			if (parent) {
+				parent.children.push(node);
+			} else {
+				document.children.push(node);
+			}
+		};
+
+		const flushText = (end: number) => {
+			if (end > textStart) {
+				append({ type: 'text', text: this.decodeEntities(text.substring(textStart, end)), start: textStart, end: end, parent: currentParent() });
+			}
+		};
+
+		const closeUntil = (index: number, end: number) => {
+			while (stack.length > index) {
+				const element = stack.pop()!;
+				element.end = end;
+			}
+		};
+
+		while (position < text.length) {
+			const tagStart = text.indexOf('<', position);
+			if (tagStart === -1) {
+				break;
+			}
+
+			// Comments
+			if (text.startsWith('<!--', tagStart)) {
+				flushText(tagStart);
+				const commentEnd = text.indexOf('-->', tagStart + 4);
+				const end = commentEnd === -1 ? text.length : commentEnd + 3;
+				const comment: HtmlComment = {
+					type: 'comment',
+					data: text.substring(tagStart + 4, commentEnd === -1 ? text.length : commentEnd),
+					start: tagStart,
+					end: end,
+					parent: currentParent()
+				};
+				append(comment);
+				document.comments.push(comment);
+				position = textStart = end;
+				continue;
+			}
+
+			// Doctype, CDATA and processing instructions
+			if (text[tagStart + 1] === '!' || text[tagStart + 1] === '?') {
+				flushText(tagStart);
+				const declarationEnd = text.indexOf('>', tagStart);
+				position = textStart = declarationEnd === -1 ? text.length : declarationEnd + 1;
+				continue;
+			}
+
+			// Closing tags
+			const closingMatch = text.substring(tagStart, tagStart + 256).match(/^<\/([A-Za-z][^\s/>]*)[^>]*>?/);
+			if (closingMatch) {
+				flushText(tagStart);
+				const tagName = closingMatch[1].toLowerCase();
+				const closingEnd = tagStart + closingMatch[0].length;
+				for (let i = stack.length - 1; i >= 0; i--) {
+					if (stack[i].tagName === tagName) {
+						closeUntil(i + 1, tagStart);
+						const element = stack.pop()!;
+						element.endTagStart = tagStart;
+						element.end = closingEnd;
+						break;
+					}
+				}
+				position = textStart = closingEnd;
+				continue;
+			}
+
+			// Anything else that is not a start tag is text
+			if (!/[A-Za-z]/.test(text[tagStart + 1] ?? '')) {
+				position = tagStart + 1;
+				continue;
+			}
+
+			flushText(tagStart);
+			const element = this.parseStartTag(text, tagStart);
+			this.applyImpliedEndTags(element.tagName, stack, tagStart, closeUntil);
+			element.parent = currentParent();
+			append(element);
+			document.elements.push(element);
+			position = textStart = element.startTagEnd;
+
+			if (element.selfClosing || this.VOID_ELEMENTS.includes(element.tagName)) {
+				element.end = element.startTagEnd;
+				continue;
+			}
+
+			if (this.RAW_TEXT_ELEMENTS.includes(element.tagName)) {
+				const closingPattern = new RegExp(`</${element.tagName}[^>]*>`, 'ig');
+				closingPattern.lastIndex = element.startTagEnd;
+				const closing = closingPattern.exec(text);
+				const contentEnd = closing ? closing.index : text.length;
+				if (contentEnd > element.startTagEnd) {
+					const content = text.substring(element.startTagEnd, contentEnd);
+					element.children.push({
+						type: 'text',
+						text: element.tagName === 'textarea' || element.tagName === 'title' ? this.decodeEntities(content) : content,
+						start: element.startTagEnd,
+						end: contentEnd,
+						parent: element
+					});
+				}
+				element.endTagStart = closing ? closing.index : null;
+				element.end = closing ? closing.index + closing[0].length : text.length;
+				position = textStart = element.end;
+				continue;
+			}
+
+			stack.push(element);
+		}
+
+		flushText(text.length);
+		closeUntil(0, text.length);
+
+		return document;
+	}
+
+	/**
+	 * Parse a start tag beginning at the given "<"
+	 */
+	private static parseStartTag(text: string, tagStart: number): HtmlElement {
+		let position = tagStart + 1;
+		while (position < text.length && !/[\s/>]/.test(text[position])) {
+			position++;
+		}
+		const element = new HtmlElement(text.substring(tagStart + 1, position).toLowerCase(), tagStart, null);
+
+		while (position < text.length) {
+			while (position < text.length && /\s/.test(text[position])) {
+				position++;
+			}
+			if (text[position] === '>') {
+				position++;
+				break;
+			}
+			if (text[position] === '/') {
+				if (text[position + 1] === '>') {
+					element.selfClosing = true;
+					position += 2;
+					break;
+				}
+				position++;
+				continue;
+			}
+			if (position >= text.length) {
+				break;
+			}
+
+			const nameStart = position;
+			while (position < text.length && !/[\s=>]/.test(text[position]) && !(text[position] === '/' && text[position + 1] === '>')) {
+				position++;
+			}
+			const rawName = text.substring(nameStart, position);
+			const attribute: HtmlAttribute = {
+				name: rawName.toLowerCase(),
+				rawName: rawName,
+				value: null,
+				start: nameStart,
+				end: position,
+				valueStart: position,
+				valueEnd: position
+			};
+
+			let lookahead = position;
+			while (lookahead < text.length && /\s/.test(text[lookahead])) {
+				lookahead++;
+			}
+			if (text[lookahead] === '=') {
+				position = lookahead + 1;
+				while (position < text.length && /\s/.test(text[position])) {
+					position++;
+				}
+				const quote = text[position];
+				if (quote === '"' || quote === "'") {
+					const closingQuote = text.indexOf(quote, position + 1);
+					const valueEnd = closingQuote === -1 ? text.length : closingQuote;
+					attribute.valueStart = position + 1;
+					attribute.valueEnd = valueEnd;
+					position = closingQuote === -1 ? text.length : closingQuote + 1;
+				} else {
+					attribute.valueStart = position;
+					while (position < text.length && !/[\s>]/.test(text[position])) {
+						position++;
+					}
+					attribute.valueEnd = position;
+				}
+				attribute.value = this.decodeEntities(text.substring(attribute.valueStart, attribute.valueEnd));
+				attribute.end = position;
+			}
+
+			element.attributes.push(attribute);
+		}
+
+		element.startTagEnd = position;
+		return element;
+	}
+
+	/**
+	 * Close elements that a new start tag implicitly ends (e.g. an open <li> before another <li>)
+	 */
+	private static applyImpliedEndTags(
+		tagName: string,
+		stack: HtmlElement[],
+		tagStart: number,
+		closeUntil: (index: number, end: number) => void
+	): void {
+		const top = stack[stack.length - 1];
+		if (top && top.tagName === 'p' && this.CLOSES_PARAGRAPH.includes(tagName)) {
+			closeUntil(stack.length - 1, tagStart);
+		}
+
+		const impliedEnd = this.IMPLIED_END_TAGS[tagName];
+		if (!impliedEnd) {
+			return;
+		}
+		for (let i = stack.length - 1; i >= 0; i--) {
+			if (impliedEnd.boundary.includes(stack[i].tagName)) {
+				return;
+			}
+			if (impliedEnd.closes.includes(stack[i].tagName)) {
+				closeUntil(i, tagStart);
+				return;
+			}
+		}
+	}
+
+	/**
+	 * Decode the character references most commonly found in markup
+	 */
+	static decodeEntities(value: string): string {
+		if (!value.includes('&')) {
+			return value;
+		}
+		const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+		return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+			if (entity[0] === '#') {
+				const codePoint = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+				return isNaN(codePoint) ? match : String.fromCodePoint(codePoint);
+			}
+			return named[entity.toLowerCase()] ?? match;
+		});
+	}
+}
+
+export class CssScanner {
+	/**
+	 * Split stylesheet text into rules with their declarations, keeping source offsets
+	 */
+	static parseStylesheet(css: string, offset: number, element: HtmlElement): StyleRule[] {
+		const source = this.maskComments(css);
+		const rules: StyleRule[] = [];
+		// Nested blocks are kept as ranges so they can be left out of the declarations of the rule around them
+		const blocks: { prelude: string; preludeStart: number; bodyStart: number; nested: { start: number; end: number }[] }[] = [];
+		let segmentStart = 0;
+
+		for (let i = 0; i < source.length; i++) {
+			const char = source[i];
+			if (char === '"' || char === "'") {
+				const closingQuote = source.indexOf(char, i + 1);
+				i = closingQuote === -1 ? source.length : closingQuote;
+			} else if (char === '{') {
+				blocks.push({ prelude: source.substring(segmentStart, i).trim(), preludeStart: segmentStart, bodyStart: i + 1, nested: [] });
+				segmentStart = i + 1;
+			} else if (char === '}') {
+				const block = blocks.pop();
+				if (block && blocks.length > 0) {
+					blocks[blocks.length - 1].nested.push({ start: block.preludeStart, end: i + 1 });
+				}
+				if (block && !block.prelude.startsWith('@')) {
+					let body = source.substring(block.bodyStart, i);
+					block.nested.forEach(nested => {
+						const start = nested.start - block.bodyStart;
+						const end = nested.end - block.bodyStart;
+						body = body.substring(0, start) + body.substring(start, end).replace(/[^\n]/g, ' ') + body.substring(end);
+					});
+					rules.push({
+						selector: block.prelude,
+						conditions: blocks.map(parent => parent.prelude),
+						element: element,
+						start: offset + source.lastIndexOf(block.prelude, block.bodyStart),
+						end: offset + i + 1,
+						declarations: this.parseDeclarations(body, offset + block.bodyStart)
+					});
+				}
+				segmentStart = i + 1;
+			} else if (char === ';') {
+				segmentStart = i + 1;
+			}
+		}
+
+		return rules;
+	}
+
+	/**
+	 * Parse a declaration list such as the body of a rule or an inline style attribute
+	 */
+	static parseDeclarations(css: string, offset: number): StyleDeclaration[] {
+		const source = this.maskComments(css);
+		const declarations: StyleDeclaration[] = [];
+		let segmentStart = 0;
+
+		for (let i = 0; i <= source.length; i++) {
+			const char = source[i];
+			if (char === '"' || char === "'") {
+				const closingQuote = source.indexOf(char, i + 1);
+				i = closingQuote === -1 ? source.length - 1 : closingQuote;
+				continue;
+			}
+			if (char === ';' || i === source.length) {
+				const segment = source.substring(segmentStart, i);
+				const colon = segment.indexOf(':');
+				if (colon !== -1) {
+					const leading = segment.length - segment.trimStart().length;
+					// Custom property names are case-sensitive
+					const name = segment.substring(0, colon).trim();
+					const property = name.startsWith('--') ? name : name.toLowerCase();
+					const rawValue = segment.substring(colon + 1);
+					const valueLeading = rawValue.length - rawValue.trimStart().length;
+					let value = rawValue.trim();
+					const important = /!\s*important$/i.test(value);
+					if (important) {
+						value = value.replace(/!\s*important$/i, '').trim();
+					}
+					if (property.length > 0) {
+						const valueStart = offset + segmentStart + colon + 1 + valueLeading;
+						declarations.push({
+							property: property,
+							value: value,
+							important: important,
+							start: offset + segmentStart + leading,
+							end: offset + segmentStart + segment.trimEnd().length,
+							valueStart: valueStart,
+							valueEnd: valueStart + rawValue.trim().length
+						});
+					}
+				}
+				segmentStart = i + 1;
+			}
+		}
+
+		return declarations;
+	}
+
+	/**
+	 * Replace comments with spaces so offsets stay aligned with the source
+	 */
+	private static maskComments(css: string): string {
+		return css.replace(/\/\*[\s\S]*?(\*\/|$)/g, comment => comment.replace(/[^\n]/g, ' '));
+	}
+}
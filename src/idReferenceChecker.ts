@@ -0,0 +1,131 @@
+import { AccessibilityIssue } from './accessibilityEngine';
+import { AccessibleName } from './accessibleName';
+import { HtmlDocument, HtmlElement } from './htmlParser';
+import { IdReferences } from './idReferences';
+import { RuleCatalog } from './ruleCatalog';
+
+export class IdReferenceChecker {
+	// Attributes with their own reference rules in AriaLabelRoleChecker
+	private static readonly ARIA_NAME_ATTRIBUTES = ['aria-labelledby', 'aria-describedby'];
+
+	/**
+	 * Check for ids that are used by more than one element; every use after the first is
+	 * reported, linked to the others. Elements in alternative branches of a conditional, such as
+	 * v-if and v-else, never render together and may share an id
+	 */
+	static checkDuplicateIds(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const id = element.getAttributeNode('id');
+		const definitions = (id?.value ? IdReferences.getDefinitions(document).get(id.value.trim()) ?? [] : [])
+			.filter(other => !element.isExclusiveWith(other.element));
+		const index = definitions.findIndex(definition => definition.element === element);
+		if (index < 1) {
+			return null;
+		}
+
+		const definition = definitions[index];
+		const first = document.getRange(definitions[0].start, definitions[0].end);
+		const referenced = IdReferences.getReferencesTo(document, definition.id).length > 0;
+		const range = document.getRange(definition.start, definition.end);
+		return {
+			line: range.start.line + 1,
+			issue: `Duplicate id="${definition.id}" is also used on line ${first.start.line + 1}` +
+				(referenced ? ' - references to it only reach the first element' : ''),
+			severity: referenced ? 'HIGH' : 'MEDIUM',
+			range: range,
+			related: definitions.filter(other => other !== definition).map(other => ({
+				range: document.getRange(other.start, other.end),
+				message: other === definitions[0] ? `First use of id="${definition.id}"` : `Another use of id="${definition.id}"`
+			})),
+			...RuleCatalog.getMetadata('id-duplicate')
+		};
+	}
+
+	/**
+	 * Check each id named by for, aria-controls, aria-owns, aria-activedescendant,
+	 * aria-errormessage, headers, list, form, usemap and the other IDREF attributes of an element.
+	 * A component may refer to ids the page or another component renders, so there they are
+	 * only pointed out
+	 */
+	static checkMissingReferences(element: HtmlElement, document: HtmlDocument, isPage = true): AccessibilityIssue[] {
+		return IdReferences.getElementReferences(document, element)
+			.filter(reference => !this.ARIA_NAME_ATTRIBUTES.includes(reference.definition.name) && !IdReferences.resolve(reference, document))
+			.map(reference => {
+				const range = document.getRange(reference.start, reference.end);
+				const isMap = reference.definition.name === 'usemap';
+				return {
+					line: range.start.line + 1,
+					issue: !isPage
+						? `${reference.definition.name} references ${isMap ? `a <map> named "${reference.id}"` : `id="${reference.id}"`}, which this component does not define - make sure the page renders it`
+						: isMap
+							? `usemap references non-existent <map> named "${reference.id}"`
+							: `${reference.definition.name} references non-existent element with id="${reference.id}"`,
+					severity: isPage ? 'HIGH' : 'LOW',
+					range: range,
+					...RuleCatalog.getMetadata('id-reference-missing')
+				};
+			});
+	}
+
+	/**
+	 * Check that referenced elements are of the type the attribute needs, e.g. a form control for
+	 * label for=, and are rendered when the reference only works on visible content
+	 */
+	static checkReferenceTargets(element: HtmlElement, document: HtmlDocument): AccessibilityIssue[] {
+		const issues: AccessibilityIssue[] = [];
+		IdReferences.getElementReferences(document, element).forEach(reference => {
+			const target = IdReferences.resolve(reference, document);
+			// Components and custom elements render something the markup does not show
+			if (!target || /[A-Z.-]/.test(target.tagName)) {
+				return;
+			}
+
+			const { name, target: expected, visible } = reference.definition;
+			let problem: string | null = null;
+			let severity = 'MEDIUM';
+			if (expected && !expected.matches(target, element)) {
+				problem = `${name} references id="${reference.id}" on a <${target.tagName}>, which is not a ${expected.description}`;
+				severity = 'HIGH';
+			} else if (visible && AccessibleName.isHidden(target, true)) {
+				problem = `${name} references id="${reference.id}" on an element hidden from assistive technology`;
+			}
+			if (!problem) {
+				return;
+			}
+
+			const range = document.getRange(reference.start, reference.end);
+			const targetId = target.getAttributeNode(name === 'usemap' && target.getAttribute('name') === reference.id ? 'name' : 'id')!;
+			issues.push({
+				line: range.start.line + 1,
+				issue: problem,
+				severity: severity,
+				range: range,
+				related: [{ range: document.getAttributeRange(targetId), message: `Referenced <${target.tagName}>` }],
+				...RuleCatalog.getMetadata('id-reference-target')
+			});
+		});
+		return issues;
+	}
+
+	/**
+	 * Run all id and ID reference checks
+	 */
+	static checkIdReferences(document: HtmlDocument, isPage = true): AccessibilityIssue[] {
+		const issues: AccessibilityIssue[] = [];
+
+		document.elements.forEach(element => {
+			const checks = [
+				this.checkDuplicateIds(element, document),
+				...this.checkMissingReferences(element, document, isPage),
+				...this.checkReferenceTargets(element, document)
+			];
+
+			checks.forEach(check => {
+				if (check) {
+					issues.push(check);
+				}
+			});
+		});
+
+		return issues;
+	}
+}
@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import { HtmlDocument } from './htmlParser';
+import { IdOccurrence, IdReferences } from './idReferences';
+import { MarkupParser } from './markupParser';
+import { WorkspaceScanner } from './workspaceScanner';
+
+/**
+ * An id or reference in a file
+ */
+interface IdLocation {
+	uri: vscode.Uri;
+	document: HtmlDocument;
+	occurrence: IdOccurrence;
+}
+
+/**
+ * Go to definition, find references and rename for id values and the for, aria-labelledby,
+ * aria-controls and other attributes that refer to them
+ */
+export class IdReferenceProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider, vscode.RenameProvider {
+	/**
+	 * Files the provider works in: markup that can be parsed into elements
+	 */
+	static getDocumentSelector(): vscode.DocumentFilter[] {
+		return [
+			{ scheme: 'file', pattern: `**/*{${MarkupParser.getFileTypes().join(',')}}` },
+			{ scheme: 'untitled', language: 'html' }
+		];
+	}
+
+	/**
+	 * Jump from a reference to the element with the id, looking in other components when the
+	 * file does not define it
+	 */
+	async provideDefinition(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Location[]> {
+		const locations = await this.findLocations(document, position, token);
+		const definitions = locations.filter(location => location.occurrence.isDefinition);
+		const local = definitions.filter(location => location.uri.toString() === document.uri.toString());
+		return (local.length > 0 ? local : definitions).map(location => this.toLocation(location));
+	}
+
+	/**
+	 * List every attribute that refers to the id under the cursor
+	 */
+	async provideReferences(document: vscode.TextDocument, position: vscode.Position, context: vscode.ReferenceContext, token: vscode.CancellationToken): Promise<vscode.Location[]> {
+		const locations = await this.findLocations(document, position, token);
+		return locations
+			.filter(location => context.includeDeclaration || !location.occurrence.isDefinition)
+			.map(location => this.toLocation(location));
+	}
+
+	/**
+	 * Rename only starts on an id value or one id in a reference
+	 */
+	prepareRename(document: vscode.TextDocument, position: vscode.Position): { range: vscode.Range; placeholder: string } {
+		const occurrence = IdReferences.findAt(MarkupParser.parse(document.getText(), document.fileName), document.offsetAt(position));
+		if (!occurrence) {
+			throw new Error('Place the cursor on an id or an attribute that refers to one');
+		}
+		return { range: new vscode.Range(document.positionAt(occurrence.start), document.positionAt(occurrence.end)), placeholder: occurrence.id };
+	}
+
+	/**
+	 * Rename an id together with every reference to it
+	 */
+	async provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string, token: vscode.CancellationToken): Promise<vscode.WorkspaceEdit> {
+		if (!IdReferences.isValidId(newName)) {
+			throw new Error(`"${newName}" cannot be used as an id: ids must not be empty, contain spaces or start with #`);
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+		(await this.findLocations(document, position, token)).forEach(location =>
+			edit.replace(location.uri, this.toLocation(location).range, newName)
+		);
+		return edit;
+	}
+
+	/**
+	 * Uses of the id under the cursor: those in the file, plus those in other components when the
+	 * file is a component that only defines or only refers to the id
+	 */
+	private async findLocations(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<IdLocation[]> {
+		const parsed = MarkupParser.parse(document.getText(), document.fileName);
+		const occurrence = IdReferences.findAt(parsed, document.offsetAt(position));
+		if (!occurrence) {
+			return [];
+		}
+
+		const id = occurrence.id;
+		const locations = IdReferences.getOccurrences(parsed, id).map(found => ({ uri: document.uri, document: parsed, occurrence: found }));
+		if (!this.isComponent(document.fileName) || IdReferences.isSelfContained(parsed, id)) {
+			return locations;
+		}
+
+		for (const uri of await WorkspaceScanner.findFiles(token)) {
+			if (token.isCancellationRequested) {
+				break;
+			}
+			if (uri.toString() === document.uri.toString() || !this.isComponent(uri.fsPath)) {
+				continue;
+			}
+			const text = await WorkspaceScanner.readFile(uri);
+			if (text === null || !text.includes(id)) {
+				continue;
+			}
+			const other = MarkupParser.parse(text, uri.fsPath);
+			if (!IdReferences.isSelfContained(other, id)) {
+				locations.push(...IdReferences.getOccurrences(other, id).map(found => ({ uri: uri, document: other, occurrence: found })));
+			}
+		}
+		return locations;
+	}
+
+	/**
+	 * Check whether a file is a component, which can refer to ids another component renders
+	 */
+	private isComponent(fileName: string): boolean {
+		const lowerCaseName = fileName.toLowerCase();
+		return MarkupParser.getFileTypes().some(fileType => lowerCaseName.endsWith(fileType)) && !MarkupParser.isPage(fileName);
+	}
+
+	/**
+	 * Editor location of an id, using the parsed file's text for positions
+	 */
+	private toLocation(location: IdLocation): vscode.Location {
+		const start = location.document.positionAt(location.occurrence.start);
+		const end = location.document.positionAt(location.occurrence.end);
+		return new vscode.Location(location.uri, new vscode.Range(start.line, start.character, end.line, end.character));
+	}
+}
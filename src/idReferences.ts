@@ -0,0 +1,296 @@
+import { HtmlAttribute, HtmlDocument, HtmlElement } from './htmlParser';
+
+/**
+ * An attribute whose value names other elements by id
+ */
+export interface IdReferenceAttribute {
+	name: string;
+	// Whether the value is a space separated list of ids rather than a single one
+	list: boolean;
+	// Elements the attribute has this meaning on; any element when absent
+	elements?: string[];
+	// Elements the attribute may point at, described for messages
+	target?: { description: string; matches: (target: HtmlElement, element: HtmlElement) => boolean };
+	// Whether the referenced element has to be rendered for the reference to work
+	visible: boolean;
+}
+
+/**
+ * One id named in an IDREF attribute, with the offsets of the id itself
+ */
+export interface IdReference {
+	element: HtmlElement;
+	attribute: HtmlAttribute;
+	definition: IdReferenceAttribute;
+	id: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * An id attribute, with the offsets of its value
+ */
+export interface IdDefinition {
+	element: HtmlElement;
+	attribute: HtmlAttribute;
+	id: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * An id or a reference to one found at a position, for navigation and rename
+ */
+export interface IdOccurrence {
+	element: HtmlElement;
+	attribute: HtmlAttribute;
+	id: string;
+	start: number;
+	end: number;
+	isDefinition: boolean;
+}
+
+/**
+ * References of a document looked up by the element they are on and by the id they name
+ */
+interface ReferenceIndex {
+	byElement: Map<HtmlElement, IdReference[]>;
+	byId: Map<string, IdReference[]>;
+}
+
+/**
+ * Finds ids and the attributes that refer to them, so references can be validated, followed and
+ * renamed together
+ */
+export class IdReferences {
+	private static readonly LABELABLE_ELEMENTS = ['button', 'input', 'meter', 'output', 'progress', 'select', 'textarea'];
+
+	static readonly ATTRIBUTES: IdReferenceAttribute[] = [
+		{ name: 'aria-activedescendant', list: false, visible: true },
+		{ name: 'aria-controls', list: true, visible: false },
+		{ name: 'aria-describedby', list: true, visible: false },
+		{ name: 'aria-details', list: true, visible: false },
+		// Error messages are usually hidden until the field is invalid
+		{ name: 'aria-errormessage', list: true, visible: false },
+		{ name: 'aria-flowto', list: true, visible: true },
+		{ name: 'aria-labelledby', list: true, visible: false },
+		{ name: 'aria-owns', list: true, visible: false },
+		{
+			name: 'for', list: false, elements: ['label'], visible: true,
+			target: {
+				description: 'labelable form control',
+				matches: target => IdReferences.LABELABLE_ELEMENTS.includes(target.tagName) &&
+					!(target.tagName === 'input' && target.getAttribute('type')?.toLowerCase() === 'hidden')
+			}
+		},
+		{ name: 'for', list: true, elements: ['output'], visible: false },
+		{
+			name: 'form', list: false, elements: ['button', 'fieldset', 'input', 'object', 'output', 'select', 'textarea'], visible: false,
+			target: { description: '<form>', matches: target => target.tagName === 'form' }
+		},
+		{
+			name: 'headers', list: true, elements: ['td', 'th'], visible: true,
+			target: {
+				description: 'cell in the same table',
+				matches: (target, element) => ['td', 'th'].includes(target.tagName) && target !== element &&
+					target.closest('table') === element.closest('table')
+			}
+		},
+		{
+			name: 'list', list: false, elements: ['input'], visible: false,
+			target: { description: '<datalist>', matches: target => target.tagName === 'datalist' }
+		},
+		{
+			name: 'usemap', list: false, elements: ['img', 'object'], visible: false,
+			target: { description: '<map>', matches: target => target.tagName === 'map' }
+		}
+	];
+
+	private static readonly references = new WeakMap<HtmlDocument, IdReference[]>();
+	private static readonly referenceIndexes = new WeakMap<HtmlDocument, ReferenceIndex>();
+	private static readonly definitions = new WeakMap<HtmlDocument, Map<string, IdDefinition[]>>();
+
+	/**
+	 * Every id named by an IDREF attribute in the document, in document order; values only known
+	 * at runtime are left out
+	 */
+	static getReferences(document: HtmlDocument): IdReference[] {
+		let references = this.references.get(document);
+		if (!references) {
+			references = document.elements.flatMap(element => element.attributes.flatMap(attribute => {
+				const definition = this.getAttributeDefinition(element, attribute);
+				return definition ? this.getAttributeReferences(element, attribute, definition, document) : [];
+			}));
+			this.references.set(document, references);
+		}
+		return references;
+	}
+
+	/**
+	 * IDREF values of one element
+	 */
+	static getElementReferences(document: HtmlDocument, element: HtmlElement): IdReference[] {
+		return this.getReferenceIndex(document).byElement.get(element) ?? [];
+	}
+
+	/**
+	 * References to one id in document order
+	 */
+	static getReferencesTo(document: HtmlDocument, id: string): IdReference[] {
+		return this.getReferenceIndex(document).byId.get(id) ?? [];
+	}
+
+	/**
+	 * id attributes with a known value, grouped by id in document order
+	 */
+	static getDefinitions(document: HtmlDocument): Map<string, IdDefinition[]> {
+		let definitions = this.definitions.get(document);
+		if (!definitions) {
+			definitions = new Map();
+			for (const element of document.elements) {
+				const attribute = element.getAttributeNode('id');
+				const id = attribute?.value?.trim();
+				if (!attribute || attribute.dynamic || !id) {
+					continue;
+				}
+				const range = this.findValue(attribute, id, 0, document);
+				definitions.set(id, [...(definitions.get(id) ?? []), { element: element, attribute: attribute, id: id, ...range }]);
+			}
+			this.definitions.set(document, definitions);
+		}
+		return definitions;
+	}
+
+	/**
+	 * The element a reference resolves to: the first with the id, or for usemap the map with that
+	 * name
+	 */
+	static resolve(reference: IdReference, document: HtmlDocument): HtmlElement | null {
+		if (reference.definition.name === 'usemap') {
+			return document.getElementsByTagName('map').find(map => map.getAttribute('name') === reference.id || map.getAttribute('id') === reference.id) ?? null;
+		}
+		return this.getDefinitions(document).get(reference.id)?.[0].element ?? null;
+	}
+
+	/**
+	 * The id or IDREF value at an offset, including the edge just after it
+	 */
+	static findAt(document: HtmlDocument, offset: number): IdOccurrence | null {
+		const contains = (occurrence: { start: number; end: number }) => occurrence.start <= offset && offset <= occurrence.end;
+		const definition = Array.from(this.getDefinitions(document).values()).flat().find(contains) ??
+			this.getMapNames(document).find(contains);
+		if (definition) {
+			return { ...definition, isDefinition: true };
+		}
+		const reference = this.getReferences(document).find(contains);
+		return reference ? this.toOccurrence(reference) : null;
+	}
+
+	/**
+	 * Every id attribute and reference with a value in document order; map names count as
+	 * definitions since usemap refers to them
+	 */
+	static getOccurrences(document: HtmlDocument, id: string): IdOccurrence[] {
+		const definitions = [...(this.getDefinitions(document).get(id) ?? []), ...this.getMapNames(document).filter(name => name.id === id)];
+		return [
+			...definitions.map(definition => ({ ...definition, isDefinition: true })),
+			...this.getReferencesTo(document, id).map(reference => this.toOccurrence(reference))
+		].sort((a, b) => a.start - b.start);
+	}
+
+	/**
+	 * Check whether a document both defines and refers to an id, so its uses are resolved within
+	 * the document; a component that only has one side is joined up with other components
+	 */
+	static isSelfContained(document: HtmlDocument, id: string): boolean {
+		const occurrences = this.getOccurrences(document, id);
+		return occurrences.some(occurrence => occurrence.isDefinition) && occurrences.some(occurrence => !occurrence.isDefinition);
+	}
+
+	/**
+	 * Check whether a value can be used as an id in an IDREF list
+	 */
+	static isValidId(id: string): boolean {
+		return /^\S+$/.test(id) && !id.startsWith('#');
+	}
+
+	/**
+	 * name attributes of map elements, which usemap refers to
+	 */
+	private static getMapNames(document: HtmlDocument): IdDefinition[] {
+		return document.getElementsByTagName('map').flatMap(map => {
+			const attribute = map.getAttributeNode('name');
+			const name = attribute?.value?.trim();
+			return attribute && !attribute.dynamic && name
+				? [{ element: map, attribute: attribute, id: name, ...this.findValue(attribute, name, 0, document) }]
+				: [];
+		});
+	}
+
+	/**
+	 * References grouped by element and by id, built once per document
+	 */
+	private static getReferenceIndex(document: HtmlDocument): ReferenceIndex {
+		let index = this.referenceIndexes.get(document);
+		if (!index) {
+			const byElement = new Map<HtmlElement, IdReference[]>();
+			const byId = new Map<string, IdReference[]>();
+			for (const reference of this.getReferences(document)) {
+				byElement.set(reference.element, byElement.get(reference.element) ?? []);
+				byElement.get(reference.element)!.push(reference);
+				byId.set(reference.id, byId.get(reference.id) ?? []);
+				byId.get(reference.id)!.push(reference);
+			}
+			index = { byElement: byElement, byId: byId };
+			this.referenceIndexes.set(document, index);
+		}
+		return index;
+	}
+
+	/**
+	 * Strip a reference down to the parts navigation needs
+	 */
+	private static toOccurrence(reference: IdReference): IdOccurrence {
+		return { element: reference.element, attribute: reference.attribute, id: reference.id, start: reference.start, end: reference.end, isDefinition: false };
+	}
+
+	/**
+	 * Meaning of an attribute on an element when it refers to ids
+	 */
+	private static getAttributeDefinition(element: HtmlElement, attribute: HtmlAttribute): IdReferenceAttribute | null {
+		return this.ATTRIBUTES.find(definition =>
+			definition.name === attribute.name && (!definition.elements || definition.elements.includes(element.tagName))
+		) ?? null;
+	}
+
+	/**
+	 * Ids in one attribute value with their offsets; usemap values are hash-name references
+	 */
+	private static getAttributeReferences(element: HtmlElement, attribute: HtmlAttribute, definition: IdReferenceAttribute, document: HtmlDocument): IdReference[] {
+		if (attribute.dynamic || !attribute.value) {
+			return [];
+		}
+
+		const value = definition.name === 'usemap' ? attribute.value.trim().replace(/^#/, '') : attribute.value;
+		const ids = definition.list ? value.trim().split(/\s+/) : [value.trim()];
+		const references: IdReference[] = [];
+		let searchFrom = 0;
+		ids.filter(id => id.length > 0).forEach(id => {
+			const range = this.findValue(attribute, id, searchFrom, document);
+			searchFrom = range.end - attribute.valueStart;
+			references.push({ element: element, attribute: attribute, definition: definition, id: id, ...range });
+		});
+		return references;
+	}
+
+	/**
+	 * Offsets of part of an attribute value in the source, or of the whole value when the source
+	 * spells it differently, e.g. with character references
+	 */
+	private static findValue(attribute: HtmlAttribute, text: string, searchFrom: number, document: HtmlDocument): { start: number; end: number } {
+		const index = document.text.substring(attribute.valueStart, attribute.valueEnd).indexOf(text, searchFrom);
+		return index >= 0
+			? { start: attribute.valueStart + index, end: attribute.valueStart + index + text.length }
+			: { start: attribute.valueStart, end: attribute.valueEnd };
+	}
+}
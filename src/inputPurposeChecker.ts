@@ -1,5 +1,6 @@
-import * as vscode from 'vscode';
-import { AccessibilityIssue } from './accessibilityChecker';
+import { AccessibilityIssue } from './accessibilityEngine';
+import { HtmlDocument, HtmlElement } from './htmlParser';
+import { RuleCatalog } from './ruleCatalog';
 
 export class InputPurposeChecker {
 	// Common autocomplete values for WCAG 1.3.5 - Level AA
@@ -15,24 +16,51 @@ export class InputPurposeChecker {
 		'tel-local-prefix', 'tel-local-suffix', 'tel-extension', 'url', 'photo', 'webauthn'
 	];
 
+	// Tokens that may precede the field name in an autocomplete value
+	private static readonly AUTOCOMPLETE_MODIFIERS = [
+		'shipping', 'billing', 'home', 'work', 'mobile', 'fax', 'pager'
+	];
+
+	// Input types that do not take personal data and ignore autocomplete
+	private static readonly NON_TEXT_INPUT_TYPES = [
+		'hidden', 'submit', 'button', 'reset', 'image', 'checkbox', 'radio', 'file', 'range', 'color'
+	];
+
+	/**
+	 * Combined name and id of a field, used to guess what the field collects
+	 */
+	private static getFieldName(element: HtmlElement): string {
+		return `${element.getAttribute('name') ?? ''} ${element.getAttribute('id') ?? ''}`.toLowerCase();
+	}
+
+	/**
+	 * Check whether an input collects data that autocomplete applies to and lacks autocomplete
+	 */
+	private static isNamedInputWithoutAutocomplete(element: HtmlElement): boolean {
+		return element.tagName === 'input' &&
+			(element.hasAttribute('name') || element.hasAttribute('id')) &&
+			!element.mayHaveAttribute('autocomplete') &&
+			!this.NON_TEXT_INPUT_TYPES.includes((element.getAttribute('type') ?? '').toLowerCase());
+	}
+
 	/**
 	 * Check for missing autocomplete attributes (WCAG 1.3.5 - Level AA)
 	 */
-	static checkMissingAutocomplete(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkMissingAutocomplete(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for form inputs that should have autocomplete
-		if ((trimmedLine.includes('<input') || trimmedLine.includes('<select') || trimmedLine.includes('<textarea')) &&
-			!trimmedLine.includes('autocomplete=') && 
-			!trimmedLine.includes('disabled') && 
-			!trimmedLine.includes('readonly')) {
+		if (['input', 'select', 'textarea'].includes(element.tagName) &&
+			!this.NON_TEXT_INPUT_TYPES.includes((element.getAttribute('type') ?? '').toLowerCase()) &&
+			!element.mayHaveAttribute('autocomplete') && 
+			!element.mayHaveAttribute('disabled') && 
+			!element.mayHaveAttribute('readonly')) {
 			
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Form input missing autocomplete attribute - add autocomplete for user information fields',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('autocomplete-missing')
 			};
 		}
 		
@@ -42,22 +70,26 @@ export class InputPurposeChecker {
 	/**
 	 * Check for invalid autocomplete values
 	 */
-	static checkInvalidAutocomplete(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkInvalidAutocomplete(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const autocomplete = element.getAttributeNode('autocomplete');
 		
-		if (trimmedLine.includes('autocomplete=')) {
-			const autocompleteMatch = trimmedLine.match(/autocomplete=["']([^"']+)["']/);
-			if (autocompleteMatch) {
-				const value = autocompleteMatch[1];
-				if (value !== 'off' && !this.AUTOCOMPLETE_VALUES.includes(value)) {
-					const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-					return {
-						line: lineNumber + 1,
-						issue: `Invalid autocomplete value "${value}" - use standard autocomplete values or "off"`,
-						severity: 'HIGH',
-						range: range
-					};
-				}
+		if (autocomplete && autocomplete.value) {
+			const value = autocomplete.value.trim();
+			const tokens = value.toLowerCase().split(/\s+/);
+			const fieldName = tokens[tokens.length - 1];
+			const modifiers = tokens.slice(0, -1);
+			const isValid = value === 'off' || value === 'on' ||
+				(this.AUTOCOMPLETE_VALUES.includes(fieldName) &&
+				 modifiers.every(token => token.startsWith('section-') || this.AUTOCOMPLETE_MODIFIERS.includes(token)));
+			if (!isValid) {
+				const range = document.getAttributeRange(autocomplete);
+				return {
+					line: range.start.line + 1,
+					issue: `Invalid autocomplete value "${value}" - use standard autocomplete values or "off"`,
+					severity: 'HIGH',
+					range: range,
+					...RuleCatalog.getMetadata('autocomplete-valid')
+				};
 			}
 		}
 		
@@ -67,37 +99,34 @@ export class InputPurposeChecker {
 	/**
 	 * Check for input type and autocomplete mismatch
 	 */
-	static checkInputTypeAutocompleteMismatch(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkInputTypeAutocompleteMismatch(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const autocomplete = element.getAttributeNode('autocomplete');
 		
-		if (trimmedLine.includes('<input') && trimmedLine.includes('autocomplete=')) {
-			const typeMatch = trimmedLine.match(/type=["']([^"']+)["']/);
-			const autocompleteMatch = trimmedLine.match(/autocomplete=["']([^"']+)["']/);
+		if (element.tagName === 'input' && autocomplete && autocomplete.value) {
+			const inputType = (element.getAttribute('type') ?? '').toLowerCase();
+			const autocompleteValue = autocomplete.value;
 			
-			if (typeMatch && autocompleteMatch) {
-				const inputType = typeMatch[1];
-				const autocompleteValue = autocompleteMatch[1];
-				
-				// Check for mismatches
-				if (inputType === 'email' && !autocompleteValue.includes('email')) {
-					const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-					return {
-						line: lineNumber + 1,
-						issue: 'Email input should have autocomplete="email" or related email field',
-						severity: 'MEDIUM',
-						range: range
-					};
-				}
-				
-				if (inputType === 'password' && !autocompleteValue.includes('password')) {
-					const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-					return {
-						line: lineNumber + 1,
-						issue: 'Password input should have autocomplete="current-password" or "new-password"',
-						severity: 'MEDIUM',
-						range: range
-					};
-				}
+			// Check for mismatches
+			if (inputType === 'email' && !autocompleteValue.includes('email')) {
+				const range = document.getAttributeRange(autocomplete);
+				return {
+					line: range.start.line + 1,
+					issue: 'Email input should have autocomplete="email" or related email field',
+					severity: 'MEDIUM',
+					range: range,
+					...RuleCatalog.getMetadata('autocomplete-email')
+				};
+			}
+			
+			if (inputType === 'password' && !autocompleteValue.includes('password')) {
+				const range = document.getAttributeRange(autocomplete);
+				return {
+					line: range.start.line + 1,
+					issue: 'Password input should have autocomplete="current-password" or "new-password"',
+					severity: 'MEDIUM',
+					range: range,
+					...RuleCatalog.getMetadata('autocomplete-password')
+				};
 			}
 		}
 		
@@ -107,28 +136,22 @@ export class InputPurposeChecker {
 	/**
 	 * Check for missing input purpose on personal information fields
 	 */
-	static checkPersonalInformationFields(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkPersonalInformationFields(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for common personal information field patterns
-		if (trimmedLine.includes('<input') && 
-			(trimmedLine.includes('name=') || trimmedLine.includes('id=')) &&
-			!trimmedLine.includes('autocomplete=')) {
-			
-			const fieldName = trimmedLine.toLowerCase();
+		if (this.isNamedInputWithoutAutocomplete(element)) {
+			const fieldName = this.getFieldName(element);
 			
 			// Check for common personal information field names
-			if (fieldName.includes('name') || fieldName.includes('email') || fieldName.includes('phone') ||
-				fieldName.includes('address') || fieldName.includes('city') || fieldName.includes('state') ||
-				fieldName.includes('zip') || fieldName.includes('country') || fieldName.includes('birth') ||
-				fieldName.includes('gender') || fieldName.includes('age')) {
+			if (['name', 'email', 'phone', 'address', 'city', 'state', 'zip', 'country', 'birth', 'gender', 'age']
+				.some(keyword => fieldName.includes(keyword))) {
 				
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+				const range = document.getElementRange(element);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Personal information field missing autocomplete attribute - add appropriate autocomplete value',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('autocomplete-personal-info')
 				};
 			}
 		}
@@ -139,26 +162,21 @@ export class InputPurposeChecker {
 	/**
 	 * Check for missing input purpose on financial fields
 	 */
-	static checkFinancialFields(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if (trimmedLine.includes('<input') && 
-			(trimmedLine.includes('name=') || trimmedLine.includes('id=')) &&
-			!trimmedLine.includes('autocomplete=')) {
-			
-			const fieldName = trimmedLine.toLowerCase();
+	static checkFinancialFields(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		if (this.isNamedInputWithoutAutocomplete(element)) {
+			const fieldName = this.getFieldName(element);
 			
 			// Check for financial field patterns
-			if (fieldName.includes('card') || fieldName.includes('credit') || fieldName.includes('debit') ||
-				fieldName.includes('cvv') || fieldName.includes('cvc') || fieldName.includes('expiry') ||
-				fieldName.includes('amount') || fieldName.includes('currency')) {
+			if (['card', 'credit', 'debit', 'cvv', 'cvc', 'expiry', 'amount', 'currency']
+				.some(keyword => fieldName.includes(keyword))) {
 				
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+				const range = document.getElementRange(element);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Financial field missing autocomplete attribute - add appropriate autocomplete value',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('autocomplete-financial')
 				};
 			}
 		}
@@ -169,25 +187,21 @@ export class InputPurposeChecker {
 	/**
 	 * Check for missing input purpose on authentication fields
 	 */
-	static checkAuthenticationFields(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if (trimmedLine.includes('<input') && 
-			(trimmedLine.includes('name=') || trimmedLine.includes('id=')) &&
-			!trimmedLine.includes('autocomplete=')) {
-			
-			const fieldName = trimmedLine.toLowerCase();
+	static checkAuthenticationFields(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		if (this.isNamedInputWithoutAutocomplete(element)) {
+			const fieldName = this.getFieldName(element);
 			
 			// Check for authentication field patterns
-			if (fieldName.includes('username') || fieldName.includes('login') || fieldName.includes('password') ||
-				fieldName.includes('otp') || fieldName.includes('verification') || fieldName.includes('code')) {
+			if (['username', 'login', 'password', 'otp', 'verification', 'code']
+				.some(keyword => fieldName.includes(keyword))) {
 				
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+				const range = document.getElementRange(element);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Authentication field missing autocomplete attribute - add appropriate autocomplete value',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('autocomplete-authentication')
 				};
 			}
 		}
@@ -198,25 +212,21 @@ export class InputPurposeChecker {
 	/**
 	 * Check for missing input purpose on contact fields
 	 */
-	static checkContactFields(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if (trimmedLine.includes('<input') && 
-			(trimmedLine.includes('name=') || trimmedLine.includes('id=')) &&
-			!trimmedLine.includes('autocomplete=')) {
-			
-			const fieldName = trimmedLine.toLowerCase();
+	static checkContactFields(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		if (this.isNamedInputWithoutAutocomplete(element)) {
+			const fieldName = this.getFieldName(element);
 			
 			// Check for contact field patterns
-			if (fieldName.includes('phone') || fieldName.includes('tel') || fieldName.includes('mobile') ||
-				fieldName.includes('fax') || fieldName.includes('website') || fieldName.includes('url')) {
+			if (['phone', 'tel', 'mobile', 'fax', 'website', 'url']
+				.some(keyword => fieldName.includes(keyword))) {
 				
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+				const range = document.getElementRange(element);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Contact field missing autocomplete attribute - add appropriate autocomplete value',
 					severity: 'MEDIUM',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('autocomplete-contact')
 				};
 			}
 		}
@@ -227,26 +237,21 @@ export class InputPurposeChecker {
 	/**
 	 * Check for missing input purpose on address fields
 	 */
-	static checkAddressFields(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if (trimmedLine.includes('<input') && 
-			(trimmedLine.includes('name=') || trimmedLine.includes('id=')) &&
-			!trimmedLine.includes('autocomplete=')) {
-			
-			const fieldName = trimmedLine.toLowerCase();
+	static checkAddressFields(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		if (this.isNamedInputWithoutAutocomplete(element)) {
+			const fieldName = this.getFieldName(element);
 			
 			// Check for address field patterns
-			if (fieldName.includes('street') || fieldName.includes('address') || fieldName.includes('city') ||
-				fieldName.includes('state') || fieldName.includes('province') || fieldName.includes('zip') ||
-				fieldName.includes('postal') || fieldName.includes('country')) {
+			if (['street', 'address', 'city', 'state', 'province', 'zip', 'postal', 'country']
+				.some(keyword => fieldName.includes(keyword))) {
 				
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+				const range = document.getElementRange(element);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Address field missing autocomplete attribute - add appropriate autocomplete value',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('autocomplete-address')
 				};
 			}
 		}
@@ -257,22 +262,22 @@ export class InputPurposeChecker {
 	/**
 	 * Check for autocomplete="off" on user information fields
 	 */
-	static checkAutocompleteOffOnUserFields(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkAutocompleteOffOnUserFields(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const autocomplete = element.getAttributeNode('autocomplete');
 		
-		if (trimmedLine.includes('autocomplete="off"') || trimmedLine.includes("autocomplete='off'")) {
-			const fieldName = trimmedLine.toLowerCase();
+		if (autocomplete && (autocomplete.value ?? '').trim().toLowerCase() === 'off') {
+			const fieldName = this.getFieldName(element);
 			
 			// Check if it's a user information field
-			if (fieldName.includes('name') || fieldName.includes('email') || fieldName.includes('phone') ||
-				fieldName.includes('address') || fieldName.includes('birth') || fieldName.includes('gender')) {
+			if (['name', 'email', 'phone', 'address', 'birth', 'gender'].some(keyword => fieldName.includes(keyword))) {
 				
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+				const range = document.getAttributeRange(autocomplete);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'User information field has autocomplete="off" - consider using appropriate autocomplete value',
 					severity: 'MEDIUM',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('autocomplete-off')
 				};
 			}
 		}
@@ -283,25 +288,27 @@ export class InputPurposeChecker {
 	/**
 	 * Run all input purpose accessibility checks
 	 */
-	static checkInputPurpose(line: string, lineNumber: number): AccessibilityIssue[] {
+	static checkInputPurpose(document: HtmlDocument): AccessibilityIssue[] {
 		const issues: AccessibilityIssue[] = [];
 		
-		const checks = [
-			this.checkMissingAutocomplete(line, lineNumber),
-			this.checkInvalidAutocomplete(line, lineNumber),
-			this.checkInputTypeAutocompleteMismatch(line, lineNumber),
-			this.checkPersonalInformationFields(line, lineNumber),
-			this.checkFinancialFields(line, lineNumber),
-			this.checkAuthenticationFields(line, lineNumber),
-			this.checkContactFields(line, lineNumber),
-			this.checkAddressFields(line, lineNumber),
-			this.checkAutocompleteOffOnUserFields(line, lineNumber)
-		];
+		document.elements.forEach(element => {
+			const checks = [
+				this.checkMissingAutocomplete(element, document),
+				this.checkInvalidAutocomplete(element, document),
+				this.checkInputTypeAutocompleteMismatch(element, document),
+				this.checkPersonalInformationFields(element, document),
+				this.checkFinancialFields(element, document),
+				this.checkAuthenticationFields(element, document),
+				this.checkContactFields(element, document),
+				this.checkAddressFields(element, document),
+				this.checkAutocompleteOffOnUserFields(element, document)
+			];
 
-		checks.forEach(check => {
-			if (check) {
-				issues.push(check);
-			}
+			checks.forEach(check => {
+				if (check) {
+					issues.push(check);
+				}
+			});
 		});
 
 		return issues;
@@ -0,0 +1,286 @@
+import * as ts from 'typescript';
+import { ConditionalBranch, HtmlAttribute, HtmlComment, HtmlDocument, HtmlElement, HtmlNode, HtmlParser } from './htmlParser';
+
+/**
+ * Builds an element tree from the JSX in React components, using the TypeScript parser
+ */
+export class JsxParser {
+	static readonly FILE_TYPES = ['.jsx', '.tsx'];
+
+	// JSX props whose HTML attribute name differs by more than case
+	private static readonly ATTRIBUTE_NAMES: Record<string, string> = {
+		className: 'class',
+		htmlFor: 'for'
+	};
+
+	/**
+	 * Parse a .jsx or .tsx file; JSX elements keep their offsets in the source file, so
+	 * findings point at the component code
+	 */
+	static parse(text: string, fileName: string): HtmlDocument {
+		const sourceFile = this.createSourceFile(text, fileName);
+		const document = new HtmlDocument(text);
+		const commentStarts = new Set<number>();
+		// Return statements of each function are branches of one conditional
+		const returnBranches = new Map<ts.Node, { group: object; count: number }>();
+
+		const append = (node: HtmlNode, parent: HtmlElement | null) => {
+			if (parent) {
+				parent.children.push(node);
+			} else {
+				document.children.push(node);
+			}
+		};
+
+		const addComments = (ranges: ts.CommentRange[], parent: HtmlElement | null) => {
+			ranges.forEach(range => {
+				if (commentStarts.has(range.pos)) {
+					return;
+				}
+				commentStarts.add(range.pos);
+				const isBlock = range.kind === ts.SyntaxKind.MultiLineCommentTrivia;
+				const comment: HtmlComment = {
+					type: 'comment',
+					data: text.substring(range.pos + 2, isBlock ? range.end - 2 : range.end),
+					start: range.pos,
+					end: range.end,
+					parent: parent
+				};
+				document.comments.push(comment);
+			});
+		};
+
+		// Elements are placed in the innermost conditional branch around them: the sides of a
+		// ternary, sibling {condition && <element>} children and the returns of a function
+		const visit = (node: ts.Node, parent: HtmlElement | null, branch: ConditionalBranch | null) => {
+			// Comments between tokens; inside JSX children the same characters are text
+			const inJsxChildren = node.parent !== undefined && (ts.isJsxElement(node.parent) || ts.isJsxFragment(node.parent));
+			if (!inJsxChildren) {
+				addComments(this.getCommentRanges(text, node.pos), parent);
+				addComments(this.getCommentRanges(text, node.end), parent);
+			}
+
+			if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+				const element = this.createElement(node, text, parent);
+				element.branch = branch;
+				append(element, parent);
+				document.elements.push(element);
+
+				const attributes = ts.isJsxElement(node) ? node.openingElement.attributes : node.attributes;
+				attributes.properties.forEach(attribute => visit(attribute, null, branch));
+				if (ts.isJsxElement(node)) {
+					visitChildren(node.children, element, null);
+				}
+			} else if (ts.isJsxFragment(node)) {
+				// Fragments render only their children
+				visitChildren(node.children, parent, branch);
+			} else if (ts.isConditionalExpression(node)) {
+				const group = {};
+				visit(node.condition, parent, branch);
+				visit(node.whenTrue, parent, { group: group, index: 0, parent: branch });
+				visit(node.whenFalse, parent, { group: group, index: 1, parent: branch });
+			} else if (ts.isReturnStatement(node) && node.expression) {
+				let container: ts.Node = node.parent;
+				while (!ts.isSourceFile(container) && !ts.isFunctionLike(container)) {
+					container = container.parent;
+				}
+				const returns = returnBranches.get(container) ?? { group: {}, count: 0 };
+				returnBranches.set(container, returns);
+				visit(node.expression, parent, { group: returns.group, index: returns.count++, parent: branch });
+			} else {
+				ts.forEachChild(node, child => visit(child, parent, branch));
+			}
+		};
+
+		const visitChildren = (children: ts.NodeArray<ts.JsxChild>, parent: HtmlElement | null, branch: ConditionalBranch | null) => {
+			const guarded = { group: {}, count: 0 };
+			children.forEach(child => {
+				// JSX children have no trivia, so their start is their position
+				if (ts.isJsxText(child)) {
+					if (child.end > child.pos) {
+						append({ type: 'text', text: HtmlParser.decodeEntities(text.substring(child.pos, child.end)), start: child.pos, end: child.end, parent: parent }, parent);
+					}
+				} else if (ts.isJsxExpression(child)) {
+					// {/* comments */} are expressions without content; their range includes the braces
+					const innerComments = this.getCommentRanges(text, child.pos + 1);
+					if (!child.expression && innerComments.length === 1) {
+						commentStarts.add(innerComments[0].pos);
+						document.comments.push({
+							type: 'comment',
+							data: text.substring(innerComments[0].pos + 2, innerComments[0].end - (innerComments[0].kind === ts.SyntaxKind.MultiLineCommentTrivia ? 2 : 0)),
+							start: child.pos,
+							end: child.end,
+							parent: parent
+						});
+						return;
+					}
+					addComments(innerComments, parent);
+					if (!child.expression) {
+						return;
+					}
+
+					// Expressions that render JSX contribute those elements; others render text only known at runtime
+					const elementCount = document.elements.length;
+					visit(child.expression, parent, this.isGuarded(child.expression)
+						? { group: guarded.group, index: guarded.count++, parent: branch }
+						: branch);
+					if (document.elements.length === elementCount && parent) {
+						append({ type: 'text', text: child.expression.getText(), start: child.expression.getStart(), end: child.expression.end, parent: parent }, parent);
+					}
+				} else {
+					visit(child, parent, branch);
+				}
+			});
+		};
+
+		visit(sourceFile, null, null);
+		document.comments.sort((a, b) => a.start - b.start);
+
+		return document;
+	}
+
+	/**
+	 * Check whether an offset lies among the children of a JSX element, where comments must be
+	 * wrapped in braces
+	 */
+	static isInJsxChildren(text: string, fileName: string, offset: number): boolean {
+		const sourceFile = this.createSourceFile(text, fileName);
+		let inChildren = false;
+
+		// The innermost node around the offset decides
+		const visit = (node: ts.Node) => {
+			if (node.pos > offset || node.end <= offset) {
+				return;
+			}
+			const parent = node.parent;
+			inChildren = (ts.isJsxElement(parent) || ts.isJsxFragment(parent)) && (parent.children as ts.NodeArray<ts.Node>).includes(node);
+			ts.forEachChild(node, visit);
+		};
+		ts.forEachChild(sourceFile, visit);
+
+		return inChildren;
+	}
+
+	/**
+	 * Check whether an expression only renders when a condition holds, as in {open && <Menu />};
+	 * siblings rendered like this are treated as alternatives, e.g. {open && …}{!open && …}
+	 */
+	private static isGuarded(expression: ts.Expression): boolean {
+		while (ts.isParenthesizedExpression(expression)) {
+			expression = expression.expression;
+		}
+		return ts.isBinaryExpression(expression) && expression.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken;
+	}
+
+	/**
+	 * Comments in the trivia at a position, both on the rest of its line and on the lines after it
+	 */
+	private static getCommentRanges(text: string, pos: number): ts.CommentRange[] {
+		return [...ts.getTrailingCommentRanges(text, pos) ?? [], ...ts.getLeadingCommentRanges(text, pos) ?? []];
+	}
+
+	/**
+	 * Parse a file with the TypeScript parser, as JSX for .jsx files and TSX otherwise
+	 */
+	private static createSourceFile(text: string, fileName: string): ts.SourceFile {
+		const scriptKind = fileName.toLowerCase().endsWith('.jsx') ? ts.ScriptKind.JSX : ts.ScriptKind.TSX;
+		return ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true, scriptKind);
+	}
+
+	/**
+	 * Create an element for a JSX element; intrinsic elements are lowercased like HTML tags,
+	 * components keep their name so they never match an HTML tag
+	 */
+	private static createElement(node: ts.JsxElement | ts.JsxSelfClosingElement, text: string, parent: HtmlElement | null): HtmlElement {
+		const openingElement = ts.isJsxElement(node) ? node.openingElement : node;
+		const name = openingElement.tagName.getText();
+		const isIntrinsic = /^[a-z]/.test(name) && !name.includes('.');
+		const element = new HtmlElement(isIntrinsic ? name.toLowerCase() : name, node.getStart(), parent);
+
+		element.startTagEnd = openingElement.end;
+		element.end = node.end;
+		if (ts.isJsxElement(node)) {
+			element.endTagStart = node.closingElement.getStart();
+		} else {
+			element.selfClosing = true;
+		}
+
+		openingElement.attributes.properties.forEach(property => {
+			if (ts.isJsxSpreadAttribute(property)) {
+				element.hasSpreadAttributes = true;
+				return;
+			}
+			const attribute = this.createAttribute(property, text);
+			if (attribute) {
+				element.attributes.push(attribute);
+			}
+		});
+
+		return element;
+	}
+
+	/**
+	 * Convert a JSX prop to an attribute; literal values are used as they are, other expressions
+	 * are kept as source text and marked dynamic
+	 */
+	private static createAttribute(property: ts.JsxAttribute, text: string): HtmlAttribute | null {
+		const rawName = property.name.getText();
+		const attribute: HtmlAttribute = {
+			name: this.ATTRIBUTE_NAMES[rawName] ?? rawName.toLowerCase(),
+			rawName: rawName,
+			value: null,
+			start: property.getStart(),
+			end: property.end,
+			valueStart: property.end,
+			valueEnd: property.end
+		};
+
+		const initializer = property.initializer;
+		if (!initializer || (ts.isJsxExpression(initializer) && !initializer.expression)) {
+			return attribute;
+		}
+
+		// Quoted values are JSX text, where character references work as in HTML
+		if (ts.isStringLiteral(initializer)) {
+			attribute.valueStart = initializer.getStart() + 1;
+			attribute.valueEnd = initializer.end - 1;
+			attribute.value = HtmlParser.decodeEntities(text.substring(attribute.valueStart, attribute.valueEnd));
+			return attribute;
+		}
+
+		const expression = ts.isJsxExpression(initializer) ? initializer.expression! : initializer;
+		if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+			attribute.valueStart = expression.getStart() + 1;
+			attribute.valueEnd = expression.end - 1;
+			attribute.value = expression.text;
+			return attribute;
+		}
+
+		// React leaves out attributes set to false, null or undefined, but writes false into aria-* attributes
+		if ((expression.kind === ts.SyntaxKind.FalseKeyword && !attribute.name.startsWith('aria-')) || expression.kind === ts.SyntaxKind.NullKeyword ||
+			(ts.isIdentifier(expression) && expression.text === 'undefined')) {
+			return null;
+		}
+
+		const literal = this.getLiteralValue(expression);
+		attribute.value = literal ?? expression.getText();
+		attribute.valueStart = expression.getStart();
+		attribute.valueEnd = expression.end;
+		attribute.dynamic = literal === null;
+		return attribute;
+	}
+
+	/**
+	 * Value of a number or boolean literal expression such as {-1} or {true}, or null for anything else
+	 */
+	private static getLiteralValue(expression: ts.Expression): string | null {
+		if (ts.isNumericLiteral(expression) || expression.kind === ts.SyntaxKind.TrueKeyword || expression.kind === ts.SyntaxKind.FalseKeyword) {
+			return expression.getText();
+		}
+		if (ts.isPrefixUnaryExpression(expression) && expression.operator === ts.SyntaxKind.MinusToken &&
+			ts.isNumericLiteral(expression.operand)) {
+			return `-${expression.operand.text}`;
+		}
+		return null;
+	}
+}
@@ -1,212 +1,220 @@
-import * as vscode from 'vscode';
-import { AccessibilityIssue } from './accessibilityChecker';
+import { AccessibilityIssue } from './accessibilityEngine';
+import { HtmlDocument, HtmlElement } from './htmlParser';
+import { RuleCatalog } from './ruleCatalog';
 
 export class KeyboardNavigationChecker {
+	/**
+	 * Check whether an element has any keyboard event handler attribute
+	 */
+	private static hasKeyboardHandler(element: HtmlElement): boolean {
+		return ['onkeydown', 'onkeyup', 'onkeypress'].some(handler => element.mayHaveAttribute(handler));
+	}
+
 	/**
 	 * Check for keyboard accessibility issues (WCAG 2.1.1 - Level A)
 	 */
-	static checkKeyboardAccessibility(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkKeyboardAccessibility(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for clickable elements without keyboard support
-		if ((trimmedLine.includes('<div') || trimmedLine.includes('<span')) && 
-			trimmedLine.includes('onclick') && 
-			!trimmedLine.includes('onkeydown') && 
-			!trimmedLine.includes('onkeyup') && 
-			!trimmedLine.includes('onkeypress') &&
-			!trimmedLine.includes('tabindex=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (['div', 'span'].includes(element.tagName) &&
+			element.hasAttribute('onclick') &&
+			!this.hasKeyboardHandler(element) &&
+			!element.mayHaveAttribute('tabindex')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Clickable element missing keyboard support - add onkeydown/onkeyup handlers or use semantic button element',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('keyboard-clickable')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for keyboard trap issues (WCAG 2.1.2 - Level A)
 	 */
-	static checkKeyboardTrap(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkKeyboardTrap(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for elements that might create keyboard traps
-		if (trimmedLine.includes('tabindex=') && 
-			(trimmedLine.includes('tabindex="0"') || trimmedLine.includes("tabindex='0'"))) {
+		if ((element.getAttribute('tabindex') ?? '').trim() === '0') {
+			const role = element.getAttribute('role');
 			// Check for modal or dialog elements that might trap focus
-			if (trimmedLine.includes('role="dialog"') || trimmedLine.includes('role="alertdialog"') ||
-				trimmedLine.includes('modal') || trimmedLine.includes('popup')) {
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+			if (role === 'dialog' || role === 'alertdialog' || element.attributeValuesInclude(['modal', 'popup'])) {
+				const range = document.getElementRange(element);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Modal/dialog element detected - ensure keyboard trap is properly managed with Escape key',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('keyboard-trap')
 				};
 			}
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for missing keyboard event handlers
 	 */
-	static checkMissingKeyboardHandlers(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkMissingKeyboardHandlers(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const onclick = element.getAttributeNode('onclick');
+
 		// Check for interactive elements without keyboard handlers
-		if (trimmedLine.includes('onclick') && 
-			!trimmedLine.includes('onkeydown') && 
-			!trimmedLine.includes('onkeyup') &&
-			!trimmedLine.includes('onkeypress') &&
-			(trimmedLine.includes('<div') || trimmedLine.includes('<span'))) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (onclick &&
+			!this.hasKeyboardHandler(element) &&
+			['div', 'span'].includes(element.tagName)) {
+			const range = document.getAttributeRange(onclick);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Interactive element missing keyboard event handlers - add onkeydown/onkeyup for accessibility',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('keyboard-handler-missing')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for proper keyboard navigation order
 	 */
-	static checkKeyboardNavigationOrder(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkKeyboardNavigationOrder(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
+
 		// Check for positive tabindex values that disrupt natural order
-		const positiveTabIndexMatch = trimmedLine.match(/tabindex=["']([1-9][0-9]*)["']/);
-		if (positiveTabIndexMatch) {
-			const tabIndexValue = positiveTabIndexMatch[1];
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (tabIndex && /^[1-9][0-9]*$/.test((tabIndex.value ?? '').trim())) {
+			const tabIndexValue = (tabIndex.value ?? '').trim();
+			const range = document.getAttributeRange(tabIndex);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: `Positive tabindex="${tabIndexValue}" disrupts natural keyboard navigation order - use tabindex="0" or negative values`,
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('keyboard-order-positive-tabindex')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for missing skip links
 	 */
-	static checkMissingSkipLinks(line: string, lineNumber: number, fullText: string): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkMissingSkipLinks(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		if (element.tagName !== 'body') {
+			return null;
+		}
+
 		// Check if page has skip links
-		if (trimmedLine.includes('<body') && !fullText.includes('skip') && !fullText.includes('skip-link')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		const hasSkipLink = document.getElementsByTagName('a').some(link =>
+			(link.getAttribute('href') ?? '').startsWith('#') &&
+			(link.textContent.toLowerCase().includes('skip') || link.attributeValuesInclude(['skip']))
+		);
+
+		if (!hasSkipLink) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Page missing skip links - add skip links for keyboard navigation to main content',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('skip-link')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for keyboard shortcuts (WCAG 2.1.4 - Level A)
 	 */
-	static checkKeyboardShortcuts(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkKeyboardShortcuts(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const onkeydown = element.getAttributeNode('onkeydown');
+
 		// Check for keyboard shortcuts without alternatives
-		if (trimmedLine.includes('onkeydown') && 
-			(trimmedLine.includes('keyCode') || trimmedLine.includes('key') || trimmedLine.includes('which'))) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (onkeydown && /keyCode|key|which/.test(onkeydown.value ?? '')) {
+			const range = document.getAttributeRange(onkeydown);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Keyboard shortcut detected - ensure users can turn off or remap shortcuts',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('keyboard-shortcut')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for proper ARIA keyboard navigation
 	 */
-	static checkAriaKeyboardNavigation(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkAriaKeyboardNavigation(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for ARIA roles that require keyboard navigation
-		if (trimmedLine.includes('role=') && 
-			(trimmedLine.includes('role="menu"') || trimmedLine.includes('role="menubar"') ||
-			 trimmedLine.includes('role="tablist"') || trimmedLine.includes('role="grid"'))) {
-			
-			if (!trimmedLine.includes('tabindex=') && !trimmedLine.includes('onkeydown')) {
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (['menu', 'menubar', 'tablist', 'grid'].includes(element.getAttribute('role') ?? '')) {
+			if (!element.mayHaveAttribute('tabindex') && !element.mayHaveAttribute('onkeydown')) {
+				const range = document.getElementRange(element);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'ARIA role requires keyboard navigation - add proper keyboard event handlers',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('keyboard-aria-widget')
 				};
 			}
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for missing keyboard navigation in forms
 	 */
-	static checkFormKeyboardNavigation(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkFormKeyboardNavigation(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for form elements without proper keyboard navigation
-		if ((trimmedLine.includes('<select') || trimmedLine.includes('<input')) &&
-			!trimmedLine.includes('tabindex=') && 
-			!trimmedLine.includes('disabled')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (['select', 'input'].includes(element.tagName) &&
+			element.getAttribute('type') !== 'hidden' &&
+			!element.mayHaveAttribute('tabindex') &&
+			!element.mayHaveAttribute('disabled')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Form element should be keyboard accessible - ensure proper tabindex and keyboard support',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('keyboard-form-control')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Run all keyboard navigation accessibility checks
 	 */
-	static checkKeyboardNavigation(line: string, lineNumber: number, fullText: string): AccessibilityIssue[] {
+	static checkKeyboardNavigation(document: HtmlDocument): AccessibilityIssue[] {
 		const issues: AccessibilityIssue[] = [];
-		
-		const checks = [
-			this.checkKeyboardAccessibility(line, lineNumber),
-			this.checkKeyboardTrap(line, lineNumber),
-			this.checkMissingKeyboardHandlers(line, lineNumber),
-			this.checkKeyboardNavigationOrder(line, lineNumber),
-			this.checkMissingSkipLinks(line, lineNumber, fullText),
-			this.checkKeyboardShortcuts(line, lineNumber),
-			this.checkAriaKeyboardNavigation(line, lineNumber),
-			this.checkFormKeyboardNavigation(line, lineNumber)
-		];
-
-		checks.forEach(check => {
-			if (check) {
-				issues.push(check);
-			}
+
+		document.elements.forEach(element => {
+			const checks = [
+				this.checkKeyboardAccessibility(element, document),
+				this.checkKeyboardTrap(element, document),
+				this.checkMissingKeyboardHandlers(element, document),
+				this.checkKeyboardNavigationOrder(element, document),
+				this.checkMissingSkipLinks(element, document),
+				this.checkKeyboardShortcuts(element, document),
+				this.checkAriaKeyboardNavigation(element, document),
+				this.checkFormKeyboardNavigation(element, document)
+			];
+
+			checks.forEach(check => {
+				if (check) {
+					issues.push(check);
+				}
+			});
 		});
 
 		return issues;
@@ -1,306 +1,256 @@
-import * as vscode from 'vscode';
-import { AccessibilityIssue } from './accessibilityChecker';
+import { AccessibilityIssue } from './accessibilityEngine';
+import { AccessibleName } from './accessibleName';
+import { HtmlDocument, HtmlElement } from './htmlParser';
+import { RuleCatalog } from './ruleCatalog';
 
 export class LabelNameConsistencyChecker {
+	/**
+	 * Visible text of buttons and links, empty for other elements
+	 */
+	private static getVisibleText(element: HtmlElement, document: HtmlDocument): string {
+		if (element.tagName === 'button' || element.tagName === 'a') {
+			return AccessibleName.getTextFromContent(element, document);
+		}
+		return '';
+	}
+
 	/**
 	 * Check for label-name consistency (WCAG 2.5.3 - Level A)
 	 */
-	static checkLabelNameConsistencyIssue(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkLabelNameConsistencyIssue(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const ariaLabel = element.getAttributeNode('aria-label');
+
 		// Check for elements with both visible text and aria-label
-		if (trimmedLine.includes('aria-label=') && 
-			(trimmedLine.includes('<button') || trimmedLine.includes('<a') || trimmedLine.includes('<input'))) {
-			
+		if (ariaLabel && ['button', 'a', 'input'].includes(element.tagName)) {
 			// Extract visible text content
-			let visibleText = '';
-			if (trimmedLine.includes('<button')) {
-				const buttonMatch = trimmedLine.match(/<button[^>]*>(.*?)<\/button>/);
-				if (buttonMatch) {
-					visibleText = buttonMatch[1].trim();
-				}
-			} else if (trimmedLine.includes('<a')) {
-				const linkMatch = trimmedLine.match(/<a[^>]*>(.*?)<\/a>/);
-				if (linkMatch) {
-					visibleText = linkMatch[1].trim();
-				}
-			}
-			
+			const visibleText = this.getVisibleText(element, document);
+
 			// Extract aria-label value
-			const ariaLabelMatch = trimmedLine.match(/aria-label=["']([^"']+)["']/);
-			if (ariaLabelMatch && visibleText) {
-				const ariaLabelValue = ariaLabelMatch[1].trim();
-				
+			const ariaLabelValue = (ariaLabel.value ?? '').trim();
+			if (ariaLabelValue && visibleText) {
 				// Check if aria-label contains the visible text
 				if (!ariaLabelValue.toLowerCase().includes(visibleText.toLowerCase()) &&
 					!visibleText.toLowerCase().includes(ariaLabelValue.toLowerCase())) {
-					const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+					const range = document.getAttributeRange(ariaLabel);
 					return {
-						line: lineNumber + 1,
+						line: range.start.line + 1,
 						issue: 'Label-name inconsistency - aria-label should contain the visible text or be consistent with it',
 						severity: 'HIGH',
-						range: range
+						range: range,
+						...RuleCatalog.getMetadata('label-in-name')
 					};
 				}
 			}
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for missing accessible names on interactive elements
 	 */
-	static checkMissingAccessibleNames(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkMissingAccessibleNames(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for interactive elements without accessible names
-		if ((trimmedLine.includes('<button') || trimmedLine.includes('<a') || trimmedLine.includes('<input')) &&
-			!trimmedLine.includes('aria-label') && !trimmedLine.includes('aria-labelledby') &&
-			!trimmedLine.includes('title=')) {
-			
-			// Check for visible text content
-			let hasVisibleText = false;
-			if (trimmedLine.includes('<button')) {
-				const buttonMatch = trimmedLine.match(/<button[^>]*>(.*?)<\/button>/);
-				if (buttonMatch && buttonMatch[1].trim().length > 0) {
-					hasVisibleText = true;
-				}
-			} else if (trimmedLine.includes('<a')) {
-				const linkMatch = trimmedLine.match(/<a[^>]*>(.*?)<\/a>/);
-				if (linkMatch && linkMatch[1].trim().length > 0) {
-					hasVisibleText = true;
-				}
-			}
-			
-			if (!hasVisibleText) {
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (['button', 'a', 'input'].includes(element.tagName) && element.getAttribute('type') !== 'hidden' &&
+			(element.tagName !== 'a' || element.mayHaveAttribute('href'))) {
+
+			if (AccessibleName.isMissing(element, document)) {
+				const range = document.getElementRange(element);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Interactive element missing accessible name - add aria-label, aria-labelledby, or visible text',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('accessible-name-missing')
 				};
 			}
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for redundant accessible names
 	 */
-	static checkRedundantAccessibleNames(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkRedundantAccessibleNames(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const ariaLabel = element.getAttributeNode('aria-label');
+
 		// Check for elements with both aria-label and visible text that are the same
-		if (trimmedLine.includes('aria-label=') && 
-			(trimmedLine.includes('<button') || trimmedLine.includes('<a'))) {
-			
+		if (ariaLabel && ['button', 'a'].includes(element.tagName)) {
 			// Extract visible text content
-			let visibleText = '';
-			if (trimmedLine.includes('<button')) {
-				const buttonMatch = trimmedLine.match(/<button[^>]*>(.*?)<\/button>/);
-				if (buttonMatch) {
-					visibleText = buttonMatch[1].trim();
-				}
-			} else if (trimmedLine.includes('<a')) {
-				const linkMatch = trimmedLine.match(/<a[^>]*>(.*?)<\/a>/);
-				if (linkMatch) {
-					visibleText = linkMatch[1].trim();
-				}
-			}
-			
+			const visibleText = this.getVisibleText(element, document);
+
 			// Extract aria-label value
-			const ariaLabelMatch = trimmedLine.match(/aria-label=["']([^"']+)["']/);
-			if (ariaLabelMatch && visibleText) {
-				const ariaLabelValue = ariaLabelMatch[1].trim();
-				
+			const ariaLabelValue = (ariaLabel.value ?? '').trim();
+			if (ariaLabelValue && visibleText) {
 				// Check if they are exactly the same
 				if (ariaLabelValue.toLowerCase() === visibleText.toLowerCase()) {
-					const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+					const range = document.getAttributeRange(ariaLabel);
 					return {
-						line: lineNumber + 1,
+						line: range.start.line + 1,
 						issue: 'Redundant accessible name - aria-label is identical to visible text',
 						severity: 'MEDIUM',
-						range: range
+						range: range,
+						...RuleCatalog.getMetadata('accessible-name-redundant')
 					};
 				}
 			}
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for conflicting accessible names
 	 */
-	static checkConflictingAccessibleNames(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkConflictingAccessibleNames(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for elements with both aria-label and aria-labelledby
-		if (trimmedLine.includes('aria-label=') && trimmedLine.includes('aria-labelledby=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.hasAttribute('aria-label') && element.hasAttribute('aria-labelledby')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Conflicting accessible names - element has both aria-label and aria-labelledby',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('accessible-name-conflict')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for empty accessible names
 	 */
-	static checkEmptyAccessibleNames(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkEmptyAccessibleNames(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const ariaLabel = element.getAttributeNode('aria-label');
+
 		// Check for empty aria-label
-		if (trimmedLine.includes('aria-label=""') || trimmedLine.includes("aria-label=''") ||
-			trimmedLine.includes('aria-label=" "') || trimmedLine.includes("aria-label=' '")) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (ariaLabel && (ariaLabel.value ?? '').trim().length === 0) {
+			const range = document.getAttributeRange(ariaLabel);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Empty accessible name - aria-label is empty or contains only whitespace',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('accessible-name-empty')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for accessible names on non-interactive elements
 	 */
-	static checkAccessibleNamesOnNonInteractive(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkAccessibleNamesOnNonInteractive(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const ariaLabel = element.getAttributeNode('aria-label');
+
 		// Check for aria-label on non-interactive elements
-		if (trimmedLine.includes('aria-label=') && 
-			(trimmedLine.includes('<div') || trimmedLine.includes('<span') || trimmedLine.includes('<p')) &&
-			!trimmedLine.includes('role=') && !trimmedLine.includes('tabindex=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (ariaLabel && ['div', 'span', 'p'].includes(element.tagName) &&
+			!element.mayHaveAttribute('role') && !element.mayHaveAttribute('tabindex')) {
+			const range = document.getAttributeRange(ariaLabel);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Non-interactive element with aria-label - add role attribute or use semantic element',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('aria-label-non-interactive')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for missing accessible names on form elements
 	 */
-	static checkFormElementAccessibleNames(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkFormElementAccessibleNames(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for form elements without accessible names
-		if ((trimmedLine.includes('<input') || trimmedLine.includes('<select') || trimmedLine.includes('<textarea')) &&
-			!trimmedLine.includes('aria-label') && !trimmedLine.includes('aria-labelledby') &&
-			!trimmedLine.includes('title=') && !trimmedLine.includes('placeholder=')) {
-			
-			// Check for associated label
-			if (!trimmedLine.includes('id=') || !trimmedLine.includes('for=')) {
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (['input', 'select', 'textarea'].includes(element.tagName) && element.getAttribute('type') !== 'hidden') {
+
+			// Labels, titles and placeholders all count
+			if (AccessibleName.isMissing(element, document)) {
+				const range = document.getElementRange(element);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Form element missing accessible name - add label, aria-label, or aria-labelledby',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('form-element-name')
 				};
 			}
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for accessible names on custom controls
 	 */
-	static checkCustomControlAccessibleNames(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkCustomControlAccessibleNames(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for custom controls with roles but no accessible names
-		if (trimmedLine.includes('role=') && 
-			(trimmedLine.includes('role="button"') || trimmedLine.includes('role="link"') ||
-			 trimmedLine.includes('role="menuitem"') || trimmedLine.includes('role="tab"') ||
-			 trimmedLine.includes('role="option"') || trimmedLine.includes('role="checkbox"')) &&
-			!trimmedLine.includes('aria-label') && !trimmedLine.includes('aria-labelledby')) {
-			
-			// Check for visible text content
-			let hasVisibleText = false;
-			if (trimmedLine.includes('>') && trimmedLine.includes('</')) {
-				const textMatch = trimmedLine.match(/>([^<]+)</);
-				if (textMatch && textMatch[1].trim().length > 0) {
-					hasVisibleText = true;
-				}
-			}
-			
-			if (!hasVisibleText) {
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (['button', 'link', 'menuitem', 'tab', 'option', 'checkbox'].includes(element.getAttribute('role') ?? '')) {
+
+			// Visible text counts, as these roles take their name from content
+			if (AccessibleName.isMissing(element, document)) {
+				const range = document.getElementRange(element);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Custom control missing accessible name - add aria-label, aria-labelledby, or visible text',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('custom-control-name')
 				};
 			}
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for accessible names on images
 	 */
-	static checkImageAccessibleNames(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkImageAccessibleNames(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for images without accessible names
-		if (trimmedLine.includes('<img') && 
-			!trimmedLine.includes('alt=') && !trimmedLine.includes('aria-label=') &&
-			!trimmedLine.includes('aria-labelledby=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.tagName === 'img' && !element.mayHaveAttribute('alt') && AccessibleName.isMissing(element, document)) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Image missing accessible name - add alt, aria-label, or aria-labelledby',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('image-name')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Run all label-name consistency accessibility checks
 	 */
-	static checkLabelNameConsistency(line: string, lineNumber: number): AccessibilityIssue[] {
+	static checkLabelNameConsistency(document: HtmlDocument): AccessibilityIssue[] {
 		const issues: AccessibilityIssue[] = [];
-		
-		const checks = [
-			this.checkLabelNameConsistencyIssue(line, lineNumber),
-			this.checkMissingAccessibleNames(line, lineNumber),
-			this.checkRedundantAccessibleNames(line, lineNumber),
-			this.checkConflictingAccessibleNames(line, lineNumber),
-			this.checkEmptyAccessibleNames(line, lineNumber),
-			this.checkAccessibleNamesOnNonInteractive(line, lineNumber),
-			this.checkFormElementAccessibleNames(line, lineNumber),
-			this.checkCustomControlAccessibleNames(line, lineNumber),
-			this.checkImageAccessibleNames(line, lineNumber)
-		];
-
-		checks.forEach(check => {
-			if (check) {
-				issues.push(check);
-			}
+
+		document.elements.forEach(element => {
+			const checks = [
+				this.checkLabelNameConsistencyIssue(element, document),
+				this.checkMissingAccessibleNames(element, document),
+				this.checkRedundantAccessibleNames(element, document),
+				this.checkConflictingAccessibleNames(element, document),
+				this.checkEmptyAccessibleNames(element, document),
+				this.checkAccessibleNamesOnNonInteractive(element, document),
+				this.checkFormElementAccessibleNames(element, document),
+				this.checkCustomControlAccessibleNames(element, document),
+				this.checkImageAccessibleNames(element, document)
+			];
+
+			checks.forEach(check => {
+				if (check) {
+					issues.push(check);
+				}
+			});
 		});
 
 		return issues;
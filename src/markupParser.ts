@@ -0,0 +1,84 @@
+import * as path from 'path';
+import { AngularParser } from './angularParser';
+import { ComponentMarkupParser } from './componentMarkupParser';
+import { HtmlDocument, HtmlParser } from './htmlParser';
+import { JsxParser } from './jsxParser';
+import { ServerTemplateParser } from './serverTemplateParser';
+import { StylesheetParser } from './stylesheetParser';
+import { VueParser } from './vueParser';
+
+/**
+ * Picks the parser for a file from its extension
+ */
+export class MarkupParser {
+	static readonly HTML_FILE_TYPES = ['.html', '.htm'];
+
+	/**
+	 * File extensions that can be parsed into an element tree
+	 */
+	static getFileTypes(): string[] {
+		return [
+			...this.HTML_FILE_TYPES,
+			...JsxParser.FILE_TYPES,
+			...VueParser.FILE_TYPES,
+			...AngularParser.FILE_TYPES,
+			...ComponentMarkupParser.getFileTypes(),
+			...ServerTemplateParser.getFileTypes()
+		];
+	}
+
+	/**
+	 * File extensions of whole pages, as opposed to components that are only part of one
+	 */
+	static getPageFileTypes(): string[] {
+		return [...this.HTML_FILE_TYPES, ...ServerTemplateParser.getFileTypes()];
+	}
+
+	/**
+	 * Check whether a file is a whole page rather than a component
+	 */
+	static isPage(fileName: string): boolean {
+		const lowerCaseName = fileName.toLowerCase();
+		return this.getPageFileTypes().some(fileType => lowerCaseName.endsWith(fileType));
+	}
+
+	/**
+	 * Parse a file into an element tree; files that are not components, templates or
+	 * stylesheets are parsed as HTML
+	 */
+	static parse(text: string, fileName: string): HtmlDocument {
+		if (AngularParser.isAngular(fileName)) {
+			return AngularParser.parse(text, fileName);
+		}
+		if (this.isJsx(fileName)) {
+			return JsxParser.parse(text, fileName);
+		}
+		if (VueParser.FILE_TYPES.includes(path.extname(fileName).toLowerCase())) {
+			return VueParser.parse(text);
+		}
+		if (ComponentMarkupParser.getFileTypes().includes(path.extname(fileName).toLowerCase())) {
+			return ComponentMarkupParser.parse(text, fileName);
+		}
+		if (ServerTemplateParser.getFileTypes().includes(path.extname(fileName).toLowerCase())) {
+			return ServerTemplateParser.parse(text, fileName);
+		}
+		if (this.isStylesheet(fileName)) {
+			return StylesheetParser.parse(text, fileName);
+		}
+		return HtmlParser.parse(text);
+	}
+
+	/**
+	 * Check whether a file is a standalone stylesheet, which has style rules but no elements
+	 */
+	static isStylesheet(fileName: string): boolean {
+		return StylesheetParser.FILE_TYPES.includes(path.extname(fileName).toLowerCase());
+	}
+
+	/**
+	 * Check whether a file contains JSX, where comments use JavaScript syntax
+	 */
+	static isJsx(fileName: string): boolean {
+		return JsxParser.FILE_TYPES.includes(path.extname(fileName).toLowerCase());
+	}
+}
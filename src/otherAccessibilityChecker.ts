@@ -1,125 +1,236 @@
-import * as vscode from 'vscode';
-import { AccessibilityIssue } from './accessibilityChecker';
+import { AccessibilityIssue } from './accessibilityEngine';
+import { HtmlDocument, HtmlElement, StyleRule } from './htmlParser';
+import { RuleCatalog } from './ruleCatalog';
+import { SelectorMatcher } from './selectorMatcher';
+import { StyleCascade } from './styleCascade';
 
 export class OtherAccessibilityChecker {
+	// States in which :focus rules apply and the properties that draw the outline
+	private static readonly FOCUS_STATES = ['focus', 'focus-visible', 'focus-within'];
+	private static readonly OUTLINE_PROPERTIES = ['outline', 'outline-style', 'outline-width', 'outline-color'];
+	// Elements that take focus without a tabindex
+	private static readonly FOCUSABLE_ELEMENTS = ['a', 'button', 'input', 'select', 'textarea', 'summary', 'area', 'iframe'];
+
 	/**
 	 * Check for missing heading structure
 	 */
-	static checkHeadingStructure(line: string, lineNumber: number, fullText: string): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if (trimmedLine.includes('<h1>') || trimmedLine.includes('<h2>') || trimmedLine.includes('<h3>') || 
-			trimmedLine.includes('<h4>') || trimmedLine.includes('<h5>') || trimmedLine.includes('<h6>')) {
-			// This is a basic check - in a real implementation, you'd track heading hierarchy
-			if (trimmedLine.includes('<h1>') && !fullText.includes('<h1>')) {
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-				return {
-					line: lineNumber + 1,
-					issue: 'Multiple h1 tags found - page should have only one h1',
-					severity: 'MEDIUM',
-					range: range
-				};
-			}
+	static checkHeadingStructure(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		// Every h1 after the first one that can render with it is reported
+		if (element.tagName === 'h1' && document.getElementsByTagName('h1').find(h1 => !element.isExclusiveWith(h1)) !== element) {
+			const range = document.getElementRange(element);
+			return {
+				line: range.start.line + 1,
+				issue: 'Multiple h1 tags found - page should have only one h1',
+				severity: 'MEDIUM',
+				range: range,
+				...RuleCatalog.getMetadata('single-h1')
+			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for missing lang attribute on html tag
 	 */
-	static checkHtmlLangAttribute(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if (trimmedLine.includes('<html') && !trimmedLine.includes('lang=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+	static checkHtmlLangAttribute(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		if (element.tagName === 'html' && !element.mayHaveAttribute('lang')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Missing lang attribute on html tag',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('html-has-lang')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for clickable elements without keyboard accessibility
 	 */
-	static checkKeyboardAccessibility(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if ((trimmedLine.includes('<div') || trimmedLine.includes('<span')) && 
-			trimmedLine.includes('onclick') && !trimmedLine.includes('tabindex') && !trimmedLine.includes('role=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+	static checkKeyboardAccessibility(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		if (['div', 'span'].includes(element.tagName) &&
+			element.hasAttribute('onclick') && !element.mayHaveAttribute('tabindex') && !element.mayHaveAttribute('role')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Clickable div/span without keyboard accessibility - add tabindex and role',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('clickable-keyboard-access')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for color-only information
 	 */
-	static checkColorOnlyInformation(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if (trimmedLine.includes('color:') || trimmedLine.includes('background-color:')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+	static checkColorOnlyInformation(rule: StyleRule, document: HtmlDocument): AccessibilityIssue | null {
+		const declaration = rule.declarations.find(declaration =>
+			declaration.property === 'color' || declaration.property === 'background-color'
+		);
+
+		if (declaration) {
+			const range = document.getRange(declaration.start, declaration.end);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Color styling detected - ensure information is not conveyed by color alone',
 				severity: 'LOW',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('color-styling')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
-	 * Check for missing focus indicators
+	 * Check for focus styles that remove the outline without putting another indicator in its
+	 * place, in the same rule or, given the cascade, in any rule that applies when focused
 	 */
-	static checkFocusIndicators(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if (trimmedLine.includes(':focus') && trimmedLine.includes('outline: none')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+	static checkFocusIndicators(rule: StyleRule, document: HtmlDocument, cascade?: StyleCascade, elements?: HtmlElement[]): AccessibilityIssue | null {
+		const declaration = rule.declarations.find(declaration => this.removesOutline(declaration.property, declaration.value));
+		const hasReplacement = rule.declarations.some(declaration => this.isFocusReplacement(declaration.property, declaration.value));
+
+		if (rule.selector && rule.selector.includes(':focus') && declaration && !hasReplacement &&
+			!(cascade && this.isOutlineReplaced(rule, document, cascade, elements))) {
+			const range = document.getRange(declaration.start, declaration.end);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Focus outline removed without alternative focus indicator',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('focus-outline-removed')
 			};
 		}
-		
+
 		return null;
 	}
 
+	/**
+	 * Check for Tailwind classes that remove the outline, e.g. focus:outline-none, without a
+	 * focus-visible:ring-2 or other indicator on the same element; outline-none without a
+	 * variant counts on elements that can take focus
+	 */
+	static checkUtilityFocusIndicators(document: HtmlDocument, cascade: StyleCascade): (AccessibilityIssue | null)[] {
+		return cascade.getSources().filter(source => source.utilityClass).map(({ rule }) => {
+			const element = rule.element!;
+			if (rule.selector!.includes(':focus')) {
+				return this.checkFocusIndicators(rule, document, cascade, [element]);
+			}
+
+			const declaration = rule.declarations.find(candidate => this.removesOutline(candidate.property, candidate.value));
+			const isFocusable = this.FOCUSABLE_ELEMENTS.includes(element.tagName) || element.mayHaveAttribute('tabindex') ||
+				element.hasAttribute('contenteditable');
+			if (!declaration || !isFocusable || element.hasAttribute('disabled') || this.isOutlineReplaced(rule, document, cascade, [element])) {
+				return null;
+			}
+			const range = document.getRange(declaration.start, declaration.end);
+			return {
+				line: range.start.line + 1,
+				issue: 'Focus outline removed without alternative focus indicator',
+				severity: 'HIGH',
+				range: range,
+				...RuleCatalog.getMetadata('focus-outline-removed')
+			};
+		});
+	}
+
+	/**
+	 * Check whether other rules restore the outline or add another indicator: for every element
+	 * the rule applies to when focused, or else in rules with the same selector
+	 */
+	private static isOutlineReplaced(
+		rule: StyleRule,
+		document: HtmlDocument,
+		cascade: StyleCascade,
+		elements = document.elements.filter(element => SelectorMatcher.match(element, rule.selector!, this.FOCUS_STATES) !== null)
+	): boolean {
+		if (elements.length > 0) {
+			return elements.every(element => {
+				const outline = cascade.getDeclaration(element, this.OUTLINE_PROPERTIES, this.FOCUS_STATES);
+				if (outline && outline.value !== null && !this.removesOutline(outline.declaration.property, outline.value)) {
+					return true;
+				}
+				// Indicators are styles that only apply while focused and are not overridden
+				const restingRules = new Set(cascade.getMatchedDeclarations(element).map(candidate => candidate.source.rule));
+				return cascade.getMatchedDeclarations(element, this.FOCUS_STATES).some(candidate =>
+					!restingRules.has(candidate.source.rule) && candidate.value !== null &&
+					this.isFocusReplacement(candidate.declaration.property, candidate.value) &&
+					cascade.getDeclaration(element, [candidate.declaration.property], this.FOCUS_STATES) === candidate
+				);
+			});
+		}
+
+		const selector = this.normalizeFocusSelector(rule.selector!);
+		return cascade.getSources().some(source =>
+			source.rule !== rule && source.rule.selector !== null && this.normalizeFocusSelector(source.rule.selector) === selector &&
+			source.rule.declarations.some(declaration => this.isFocusReplacement(declaration.property, declaration.value) ||
+				(this.OUTLINE_PROPERTIES.includes(declaration.property) && !this.removesOutline(declaration.property, declaration.value)))
+		);
+	}
+
+	/**
+	 * Check whether a declaration hides the outline, e.g. outline: none, outline: 0, outline-style: none
+	 * or a transparent outline, which only shows in forced colors mode
+	 */
+	private static removesOutline(property: string, value: string): boolean {
+		const normalized = value.toLowerCase();
+		return (['outline', 'outline-style'].includes(property) && /^(none|0)(\s+none)?$/.test(normalized)) ||
+			(property === 'outline-width' && /^0(px)?$/.test(normalized)) ||
+			(['outline', 'outline-color'].includes(property) && /(^|\s)transparent(\s|$)/.test(normalized));
+	}
+
+	/**
+	 * Check whether a declaration can stand in for the outline, e.g. a box shadow or border
+	 */
+	private static isFocusReplacement(property: string, value: string): boolean {
+		return /^(box-shadow|border|background|text-decoration)/.test(property) && !/^(none|0|transparent)$/i.test(value);
+	}
+
+	/**
+	 * Selector with :focus and :focus-visible treated alike and whitespace collapsed
+	 */
+	private static normalizeFocusSelector(selector: string): string {
+		return selector.replace(/:focus-visible\b/g, ':focus').replace(/\s+/g, ' ').trim();
+	}
+
 	/**
 	 * Run all other accessibility checks
 	 */
-	static checkOtherAccessibility(line: string, lineNumber: number, fullText: string): AccessibilityIssue[] {
+	static checkOtherAccessibility(document: HtmlDocument): AccessibilityIssue[] {
 		const issues: AccessibilityIssue[] = [];
-		
-		const checks = [
-			this.checkHeadingStructure(line, lineNumber, fullText),
-			this.checkHtmlLangAttribute(line, lineNumber),
-			this.checkKeyboardAccessibility(line, lineNumber),
-			this.checkColorOnlyInformation(line, lineNumber),
-			this.checkFocusIndicators(line, lineNumber)
-		];
-
-		checks.forEach(check => {
-			if (check) {
-				issues.push(check);
-			}
+
+		document.elements.forEach(element => {
+			const checks = [
+				this.checkHeadingStructure(element, document),
+				this.checkHtmlLangAttribute(element, document),
+				this.checkKeyboardAccessibility(element, document)
+			];
+
+			checks.forEach(check => {
+				if (check) {
+					issues.push(check);
+				}
+			});
+		});
+
+		document.getStyleRules().forEach(rule => {
+			const checks = [
+				this.checkColorOnlyInformation(rule, document),
+				this.checkFocusIndicators(rule, document)
+			];
+
+			checks.forEach(check => {
+				if (check) {
+					issues.push(check);
+				}
+			});
 		});
 
 		return issues;
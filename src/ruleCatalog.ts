@@ -0,0 +1,262 @@
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+
+/**
+ * Rule identity and WCAG mapping attached to every reported issue
+ */
+export interface RuleMetadata {
+	ruleId: string;
+	wcag: string[];
+	// null for findings that are not tied to a WCAG success criterion
+	level: WcagLevel | null;
+	helpUrl: string;
+}
+
+interface WcagCriterion {
+	title: string;
+	level: WcagLevel;
+	slug: string;
+}
+
+interface RuleEntry {
+	description: string;
+	wcag: string[];
+	// W3C technique or failure that explains the rule, e.g. html/H37 for image-alt
+	technique?: string;
+}
+
+export class RuleCatalog {
+	private static readonly UNDERSTANDING_BASE_URL = 'https://www.w3.org/WAI/WCAG22/Understanding/';
+	private static readonly TECHNIQUES_BASE_URL = 'https://www.w3.org/WAI/WCAG22/Techniques/';
+
+	// WCAG success criteria referenced by the built-in rules
+	private static readonly WCAG_CRITERIA: { [criterion: string]: WcagCriterion } = {
+		'1.1.1': { title: 'Non-text Content', level: 'A', slug: 'non-text-content' },
+		'1.3.1': { title: 'Info and Relationships', level: 'A', slug: 'info-and-relationships' },
+		'1.3.5': { title: 'Identify Input Purpose', level: 'AA', slug: 'identify-input-purpose' },
+		'1.4.1': { title: 'Use of Color', level: 'A', slug: 'use-of-color' },
+		'1.4.3': { title: 'Contrast (Minimum)', level: 'AA', slug: 'contrast-minimum' },
+		'1.4.4': { title: 'Resize Text', level: 'AA', slug: 'resize-text' },
+		'1.4.10': { title: 'Reflow', level: 'AA', slug: 'reflow' },
+		'1.4.11': { title: 'Non-text Contrast', level: 'AA', slug: 'non-text-contrast' },
+		'1.4.12': { title: 'Text Spacing', level: 'AA', slug: 'text-spacing' },
+		'2.1.1': { title: 'Keyboard', level: 'A', slug: 'keyboard' },
+		'2.1.2': { title: 'No Keyboard Trap', level: 'A', slug: 'no-keyboard-trap' },
+		'2.1.4': { title: 'Character Key Shortcuts', level: 'A', slug: 'character-key-shortcuts' },
+		'2.4.1': { title: 'Bypass Blocks', level: 'A', slug: 'bypass-blocks' },
+		'2.4.2': { title: 'Page Titled', level: 'A', slug: 'page-titled' },
+		'2.4.3': { title: 'Focus Order', level: 'A', slug: 'focus-order' },
+		'2.4.4': { title: 'Link Purpose (In Context)', level: 'A', slug: 'link-purpose-in-context' },
+		'2.4.7': { title: 'Focus Visible', level: 'AA', slug: 'focus-visible' },
+		'2.4.10': { title: 'Section Headings', level: 'AAA', slug: 'section-headings' },
+		'2.5.3': { title: 'Label in Name', level: 'A', slug: 'label-in-name' },
+		'3.1.1': { title: 'Language of Page', level: 'A', slug: 'language-of-page' },
+		'3.3.1': { title: 'Error Identification', level: 'A', slug: 'error-identification' },
+		'3.3.2': { title: 'Labels or Instructions', level: 'A', slug: 'labels-or-instructions' },
+		'4.1.2': { title: 'Name, Role, Value', level: 'A', slug: 'name-role-value' }
+	};
+
+	// Built-in rules keyed by their stable rule ID; the first criterion is the primary one
+	private static readonly RULES: { [ruleId: string]: RuleEntry } = {
+		// Images
+		'image-alt': { description: 'Images must have an alt attribute', wcag: ['1.1.1'], technique: 'html/H37' },
+		'image-alt-empty': { description: 'Empty alt text should only be used for decorative images', wcag: ['1.1.1'], technique: 'html/H67' },
+
+		// Form elements
+		'form-input-label': { description: 'Form inputs must have a label, aria-label or aria-labelledby', wcag: ['1.3.1', '3.3.2', '4.1.2'], technique: 'html/H44' },
+		'label-for': { description: 'Label elements should reference their control with a for attribute', wcag: ['1.3.1'], technique: 'html/H44' },
+
+		// General checks
+		'single-h1': { description: 'Pages should have a single h1', wcag: ['1.3.1'], technique: 'html/H42' },
+		'html-has-lang': { description: 'The html element must have a lang attribute', wcag: ['3.1.1'], technique: 'html/H57' },
+		'clickable-keyboard-access': { description: 'Clickable div and span elements must be keyboard accessible', wcag: ['2.1.1'], technique: 'failures/F54' },
+		'color-styling': { description: 'Color styling must not be the only way information is conveyed', wcag: ['1.4.1'], technique: 'general/G14' },
+		'focus-outline-removed': { description: 'Focus outlines must not be removed without an alternative', wcag: ['2.4.7'], technique: 'failures/F78' },
+
+		// Semantic HTML
+		'heading-h1-unique': { description: 'Documents should contain only one h1', wcag: ['1.3.1'], technique: 'html/H42' },
+		'heading-order': { description: 'Heading levels should only increase by one', wcag: ['1.3.1'], technique: 'html/H42' },
+		'html-lang': { description: 'The html element must declare the page language', wcag: ['3.1.1'], technique: 'html/H57' },
+		'listitem-parent': { description: 'List items must be contained in a ul, ol or menu', wcag: ['1.3.1'], technique: 'html/H48' },
+		'list-nesting': { description: 'Nested lists must be wrapped in a list item', wcag: ['1.3.1'], technique: 'html/H48' },
+		'table-cell-parent': { description: 'Table cells must be contained in a table row', wcag: ['1.3.1'], technique: 'html/H51' },
+		'table-header-parent': { description: 'Table headers must be contained in a table row', wcag: ['1.3.1'], technique: 'html/H51' },
+		'table-caption': { description: 'Tables should have a caption', wcag: ['1.3.1'], technique: 'html/H39' },
+		'form-control-label': { description: 'Form controls must have a label', wcag: ['1.3.1', '4.1.2'], technique: 'html/H44' },
+		'fieldset-legend': { description: 'Fieldsets must have a legend', wcag: ['1.3.1'], technique: 'html/H71' },
+		'semantic-button': { description: 'Use a button element instead of a clickable div or span', wcag: ['4.1.2'], technique: 'failures/F59' },
+		'button-name': { description: 'Buttons must have accessible text', wcag: ['4.1.2'], technique: 'html/H91' },
+		'link-name': { description: 'Links must have accessible text', wcag: ['2.4.4', '4.1.2'], technique: 'general/G91' },
+		'link-purpose': { description: 'Link text should describe the link destination', wcag: ['2.4.4'], technique: 'general/G91' },
+		'landmark-main': { description: 'Pages should have a main landmark', wcag: ['1.3.1'], technique: 'aria/ARIA11' },
+		'landmark-main-unique': { description: 'Pages should have only one main landmark', wcag: ['1.3.1'], technique: 'aria/ARIA11' },
+		'section-heading': { description: 'Sections and articles should have a heading', wcag: ['2.4.10', '1.3.1'], technique: 'general/G141' },
+		'nav-list': { description: 'Navigation links should be structured as a list', wcag: ['1.3.1'], technique: 'html/H48' },
+		'document-title': { description: 'Documents must have a title element', wcag: ['2.4.2'], technique: 'html/H25' },
+		'meta-viewport': { description: 'Documents should have a viewport meta tag', wcag: ['1.4.10'] },
+
+		// ARIA labels and roles
+		'aria-name-missing': { description: 'Interactive elements must have an accessible name', wcag: ['4.1.2'], technique: 'failures/F68' },
+		'aria-label-empty': { description: 'aria-label must not be empty', wcag: ['4.1.2'], technique: 'aria/ARIA6' },
+		'aria-label-redundant': { description: 'aria-label should not repeat visible text', wcag: ['4.1.2'] },
+		'aria-role-valid': { description: 'role must be a valid ARIA role', wcag: ['4.1.2'], technique: 'aria/ARIA4' },
+		'aria-role-abstract': { description: 'Abstract ARIA roles must not be used', wcag: ['4.1.2'], technique: 'aria/ARIA4' },
+		'aria-attribute-valid': { description: 'aria-* attributes must be defined in WAI-ARIA', wcag: ['4.1.2'], technique: 'aria/ARIA5' },
+		'aria-attribute-allowed': { description: 'ARIA attributes must be supported by the role of the element', wcag: ['4.1.2'], technique: 'aria/ARIA5' },
+		'aria-attribute-value': { description: 'ARIA attributes must have values of their type', wcag: ['4.1.2'], technique: 'aria/ARIA5' },
+		'aria-attribute-deprecated': { description: 'Deprecated ARIA attributes should not be used', wcag: ['4.1.2'], technique: 'aria/ARIA5' },
+		'aria-attribute-required': { description: 'Roles must have their required ARIA states and properties', wcag: ['4.1.2'], technique: 'aria/ARIA5' },
+		'aria-required-owned': { description: 'Roles must own the elements their role requires, e.g. tabs in a tablist', wcag: ['1.3.1'] },
+		'aria-required-context': { description: 'Roles must be owned by the role they require, e.g. a menuitem by a menu', wcag: ['1.3.1'] },
+		'aria-role-redundant': { description: 'role should not repeat the implicit role of an element', wcag: ['4.1.2'], technique: 'aria/ARIA4' },
+		'aria-labelledby-reference': { description: 'aria-labelledby must reference an existing id', wcag: ['1.3.1', '4.1.2'], technique: 'aria/ARIA16' },
+		'aria-describedby-reference': { description: 'aria-describedby must reference an existing id', wcag: ['1.3.1'], technique: 'aria/ARIA1' },
+		'aria-expanded-missing': { description: 'Collapsible elements should expose aria-expanded', wcag: ['4.1.2'], technique: 'aria/ARIA5' },
+		'aria-expanded-value': { description: 'aria-expanded must be "true" or "false"', wcag: ['4.1.2'], technique: 'aria/ARIA5' },
+		'aria-hidden-decorative': { description: 'Decorative images should be hidden from assistive technology', wcag: ['1.1.1'] },
+		'aria-hidden-role': { description: 'Elements hidden with aria-hidden should not have a role', wcag: ['4.1.2'] },
+		'aria-disabled-missing': { description: 'Disabled elements should expose aria-disabled', wcag: ['4.1.2'], technique: 'aria/ARIA5' },
+		'aria-required-missing': { description: 'Required form elements should expose aria-required', wcag: ['3.3.2', '1.3.1'], technique: 'aria/ARIA2' },
+		'aria-invalid-missing': { description: 'Form elements in an error state should expose aria-invalid', wcag: ['3.3.1'], technique: 'aria/ARIA21' },
+		'button-empty': { description: 'Button elements must not be empty', wcag: ['4.1.2'], technique: 'html/H91' },
+
+		// ids and ID references
+		'id-duplicate': { description: 'id values must be unique so references reach the intended element', wcag: ['1.3.1', '4.1.2'] },
+		'id-reference-missing': { description: 'for, aria-controls, headers and other ID references must name existing elements', wcag: ['1.3.1', '4.1.2'] },
+		'id-reference-target': { description: 'ID references must point at rendered elements of the expected type', wcag: ['1.3.1', '4.1.2'] },
+
+		// Tab index
+		'tabindex-negative': { description: 'Negative tabindex removes an element from the tab order', wcag: ['2.1.1'] },
+		'tabindex-zero-non-interactive': { description: 'Non-interactive elements with tabindex="0" need a role', wcag: ['4.1.2', '2.4.3'] },
+		'tabindex-missing-custom-interactive': { description: 'Custom interactive elements must be focusable', wcag: ['2.1.1'], technique: 'general/G202' },
+		'tabindex-redundant': { description: 'Naturally focusable elements do not need tabindex', wcag: ['2.4.3'] },
+		'tabindex-positive': { description: 'Positive tabindex values disrupt the tab order', wcag: ['2.4.3'], technique: 'failures/F44' },
+		'tabindex-missing-clickable': { description: 'Clickable elements must be focusable', wcag: ['2.1.1'], technique: 'general/G202' },
+		'tabindex-disabled': { description: 'Disabled elements should not be focusable', wcag: ['2.4.3'] },
+		'tabindex-hidden': { description: 'Hidden elements should not be focusable', wcag: ['2.4.3'] },
+		'tabindex-decorative': { description: 'Decorative elements should not be focusable', wcag: ['2.4.3'] },
+		'tabindex-low-positive': { description: 'Low positive tabindex values make the tab order hard to follow', wcag: ['2.4.3'], technique: 'failures/F44' },
+		'tabindex-missing-modal-trigger': { description: 'Modal trigger elements must be focusable', wcag: ['2.1.1'], technique: 'general/G202' },
+		'tabindex-presentation-role': { description: 'Elements with role="presentation" should not be focusable', wcag: ['4.1.2'] },
+		'tabindex-none-role': { description: 'Elements with role="none" should not be focusable', wcag: ['4.1.2'] },
+		'tabindex-aria-hidden': { description: 'Elements with aria-hidden="true" must not be focusable', wcag: ['4.1.2'] },
+		'tabindex-missing-custom-form-control': { description: 'Custom form controls must be focusable', wcag: ['2.1.1'], technique: 'general/G202' },
+		'tabindex-non-interactive': { description: 'Non-interactive elements should usually not be focusable', wcag: ['2.4.3'] },
+
+		// Color contrast
+		'color-contrast': { description: 'Text must have sufficient color contrast', wcag: ['1.4.3'], technique: 'general/G18' },
+		'color-contrast-inline': { description: 'Inline text colors must have sufficient contrast', wcag: ['1.4.3'], technique: 'general/G18' },
+		'color-contrast-unknown': { description: 'Text over background images and gradients must be checked for contrast', wcag: ['1.4.3'], technique: 'failures/F83' },
+		'color-only-information': { description: 'Information must not be conveyed by color alone', wcag: ['1.4.1'], technique: 'general/G14' },
+		'non-text-contrast': { description: 'UI components must have sufficient contrast', wcag: ['1.4.11'] },
+		'focus-indicator-contrast': { description: 'Focus indicators must be visible and have sufficient contrast', wcag: ['2.4.7'], technique: 'general/G195' },
+		'text-spacing': { description: 'Content must remain readable when text spacing is adjusted', wcag: ['1.4.12'], technique: 'css/C36' },
+		'text-spacing-important': { description: 'Text spacing must not be locked with !important', wcag: ['1.4.12'], technique: 'css/C36' },
+		'font-size-fixed': { description: 'Font sizes should use relative units so text can be resized', wcag: ['1.4.4'], technique: 'css/C14' },
+
+		// Keyboard navigation
+		'keyboard-clickable': { description: 'Clickable elements must support the keyboard', wcag: ['2.1.1'], technique: 'failures/F54' },
+		'keyboard-trap': { description: 'Dialogs must not trap keyboard focus', wcag: ['2.1.2'], technique: 'general/G21' },
+		'keyboard-handler-missing': { description: 'Elements with click handlers need keyboard handlers', wcag: ['2.1.1'], technique: 'scripting/SCR20' },
+		'keyboard-order-positive-tabindex': { description: 'Positive tabindex values disrupt keyboard navigation order', wcag: ['2.4.3'], technique: 'failures/F44' },
+		'skip-link': { description: 'Pages should provide a skip link to the main content', wcag: ['2.4.1'], technique: 'general/G1' },
+		'keyboard-shortcut': { description: 'Single-key shortcuts must be able to be turned off or remapped', wcag: ['2.1.4'], technique: 'general/G217' },
+		'keyboard-aria-widget': { description: 'Composite ARIA widgets must support keyboard navigation', wcag: ['2.1.1'], technique: 'general/G202' },
+		'keyboard-form-control': { description: 'Form controls must be keyboard accessible', wcag: ['2.1.1'], technique: 'general/G202' },
+
+		// Focus management
+		'focus-order-positive-tabindex': { description: 'Positive tabindex values disrupt the focus order', wcag: ['2.4.3'], technique: 'failures/F44' },
+		'focus-trap-dialog': { description: 'Dialogs must manage focus while open', wcag: ['2.4.3'], technique: 'scripting/SCR37' },
+		'focus-indicator-removed': { description: 'Focus indicators must not be removed', wcag: ['2.4.7'], technique: 'failures/F78' },
+		'focus-dynamic-content': { description: 'Focus must be managed when content changes dynamically', wcag: ['2.4.3'], technique: 'scripting/SCR26' },
+		'focus-aria-widget': { description: 'Composite ARIA widgets must manage focus', wcag: ['2.4.3', '2.1.1'], technique: 'general/G202' },
+		'focus-form-validation': { description: 'Form validation errors must be exposed to assistive technology', wcag: ['3.3.1'], technique: 'aria/ARIA19' },
+		'focus-spa-navigation': { description: 'Focus must be managed when the route changes', wcag: ['2.4.3'] },
+		'focus-collapsible': { description: 'Collapsible content must be operable with the keyboard', wcag: ['2.1.1'], technique: 'general/G202' },
+		'focus-interactive-table': { description: 'Interactive tables must be keyboard accessible', wcag: ['2.1.1'], technique: 'general/G202' },
+
+		// Input purpose
+		'autocomplete-missing': { description: 'Inputs collecting user information should have autocomplete', wcag: ['1.3.5'], technique: 'html/H98' },
+		'autocomplete-valid': { description: 'autocomplete must use a valid token', wcag: ['1.3.5'], technique: 'html/H98' },
+		'autocomplete-email': { description: 'Email inputs should use an email autocomplete token', wcag: ['1.3.5'], technique: 'html/H98' },
+		'autocomplete-password': { description: 'Password inputs should use a password autocomplete token', wcag: ['1.3.5'], technique: 'html/H98' },
+		'autocomplete-personal-info': { description: 'Personal information fields should have autocomplete', wcag: ['1.3.5'], technique: 'html/H98' },
+		'autocomplete-financial': { description: 'Financial fields should have autocomplete', wcag: ['1.3.5'], technique: 'html/H98' },
+		'autocomplete-authentication': { description: 'Authentication fields should have autocomplete', wcag: ['1.3.5'], technique: 'html/H98' },
+		'autocomplete-contact': { description: 'Contact fields should have autocomplete', wcag: ['1.3.5'], technique: 'html/H98' },
+		'autocomplete-address': { description: 'Address fields should have autocomplete', wcag: ['1.3.5'], technique: 'html/H98' },
+		'autocomplete-off': { description: 'User information fields should not disable autocomplete', wcag: ['1.3.5'], technique: 'html/H98' },
+
+		// Label and name consistency
+		'label-in-name': { description: 'The accessible name must contain the visible label', wcag: ['2.5.3'], technique: 'general/G208' },
+		'accessible-name-missing': { description: 'Buttons, links and inputs must have an accessible name', wcag: ['4.1.2'], technique: 'failures/F68' },
+		'accessible-name-redundant': { description: 'aria-label should not duplicate the visible text', wcag: ['4.1.2'] },
+		'accessible-name-conflict': { description: 'Elements should not have both aria-label and aria-labelledby', wcag: ['4.1.2'] },
+		'accessible-name-empty': { description: 'Accessible names must not be empty', wcag: ['4.1.2'], technique: 'failures/F68' },
+		'aria-label-non-interactive': { description: 'aria-label should not be used on generic elements without a role', wcag: ['4.1.2'] },
+		'form-element-name': { description: 'Form elements must have an accessible name', wcag: ['4.1.2', '1.3.1'], technique: 'failures/F68' },
+		'custom-control-name': { description: 'Custom controls must have an accessible name', wcag: ['4.1.2'], technique: 'failures/F68' },
+		'image-name': { description: 'Images must have an accessible name', wcag: ['1.1.1'], technique: 'failures/F65' }
+	};
+
+	/**
+	 * Get the metadata to attach to an issue reported by a built-in rule
+	 */
+	static getMetadata(ruleId: string): RuleMetadata {
+		const rule = this.RULES[ruleId];
+		if (!rule) {
+			throw new Error(`Unknown accessibility rule "${ruleId}"`);
+		}
+
+		return {
+			ruleId: ruleId,
+			wcag: rule.wcag,
+			level: this.getLevel(rule.wcag),
+			helpUrl: this.getHelpUrl(ruleId)
+		};
+	}
+
+	/**
+	 * Get the description of a built-in rule
+	 */
+	static getDescription(ruleId: string): string | undefined {
+		return this.RULES[ruleId]?.description;
+	}
+
+	/**
+	 * Get the IDs of all built-in rules
+	 */
+	static getRuleIds(): string[] {
+		return Object.keys(this.RULES);
+	}
+
+	/**
+	 * Get the title of a WCAG success criterion, e.g. "Non-text Content" for 1.1.1
+	 */
+	static getCriterionTitle(criterion: string): string | undefined {
+		return this.WCAG_CRITERIA[criterion]?.title;
+	}
+
+	/**
+	 * Conformance level of a rule - the level of its primary, first listed criterion, or null
+	 * when it maps to none
+	 */
+	static getLevel(criteria: string[]): WcagLevel | null {
+		if (criteria.length === 0) {
+			return null;
+		}
+		return this.WCAG_CRITERIA[criteria[0]]?.level ?? 'A';
+	}
+
+	/**
+	 * Link explaining a built-in rule: the W3C technique it checks, else the "Understanding" page
+	 * of its first success criterion, else an empty string
+	 */
+	static getHelpUrl(ruleId: string): string {
+		const rule = this.RULES[ruleId];
+		if (rule?.technique) {
+			return `${this.TECHNIQUES_BASE_URL}${rule.technique}`;
+		}
+		const criterion = rule ? this.WCAG_CRITERIA[rule.wcag[0]] : undefined;
+		return criterion ? `${this.UNDERSTANDING_BASE_URL}${criterion.slug}.html` : '';
+	}
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type RuleSeverity = 'HIGH' | 'MEDIUM' | 'LOW';
+
+export type RuleOptions = { [name: string]: unknown };
+
+/**
+ * Resolved setting for a single rule
+ */
+export interface RuleSetting {
+	enabled?: boolean;
+	severity?: RuleSeverity;
+	options?: RuleOptions;
+}
+
+/**
+ * A rule entry as written in .marsa11yrc.json or the marsa11yfix.rules setting:
+ * "off", "on", a severity, or an object with enabled/severity/options
+ */
+export type RuleSettingValue = string | RuleSetting;
+
+export type RuleSettings = { [ruleId: string]: RuleSettingValue };
+
+/**
+ * Contents of a .marsa11yrc.json file
+ */
+export interface RuleConfigFile {
+	// Stop looking for config files in parent folders
+	root?: boolean;
+	rules?: RuleSettings;
+}
+
+/**
+ * Rule settings that apply to one file after merging every config source
+ */
+export class RuleConfiguration {
+	private readonly settings = new Map<string, RuleSetting>();
+
+	/**
+	 * Apply settings on top of the ones already merged, field by field
+	 */
+	merge(rules: RuleSettings | undefined): void {
+		Object.keys(rules ?? {}).forEach(ruleId => {
+			const setting = RuleConfigLoader.normalizeSetting(rules![ruleId]);
+			if (!setting) {
+				console.warn(`Ignoring invalid setting for accessibility rule "${ruleId}"`);
+				return;
+			}
+
+			const current = this.settings.get(ruleId) ?? {};
+			this.settings.set(ruleId, {
+				enabled: setting.enabled ?? current.enabled,
+				severity: setting.severity ?? current.severity,
+				options: setting.options || current.options ? { ...current.options, ...setting.options } : undefined
+			});
+		});
+	}
+
+	/**
+	 * Check whether a rule should run; rules are enabled unless turned off
+	 */
+	isEnabled(ruleId: string): boolean {
+		return this.settings.get(ruleId)?.enabled !== false;
+	}
+
+	/**
+	 * Get the configured severity of a rule, if it was overridden
+	 */
+	getSeverity(ruleId: string): RuleSeverity | undefined {
+		return this.settings.get(ruleId)?.severity;
+	}
+
+	/**
+	 * Get the options configured for a rule
+	 */
+	getOptions(ruleId: string): RuleOptions {
+		return this.settings.get(ruleId)?.options ?? {};
+	}
+}
+
+export class RuleConfigLoader {
+	static readonly CONFIG_FILE_NAME = '.marsa11yrc.json';
+
+	private static readonly SEVERITIES: RuleSeverity[] = ['HIGH', 'MEDIUM', 'LOW'];
+
+	// Parsed config files by path; null when a folder has no config file
+	private static readonly cache = new Map<string, RuleConfigFile | null>();
+
+	// Parse errors by config file path
+	private static readonly errors = new Map<string, string>();
+
+	/**
+	 * Resolve the configuration for a file: base settings first, then every .marsa11yrc.json
+	 * from the outermost folder down to the file's own folder, so nested configs win
+	 */
+	static load(fileName: string, baseSettings?: RuleSettings, rootDirectory?: string): RuleConfiguration {
+		const configuration = new RuleConfiguration();
+		configuration.merge(baseSettings);
+
+		this.findConfigFiles(fileName, rootDirectory).forEach(config => configuration.merge(config.rules));
+
+		return configuration;
+	}
+
+	/**
+	 * Find the config files that apply to a file, outermost first
+	 */
+	private static findConfigFiles(fileName: string, rootDirectory?: string): RuleConfigFile[] {
+		const configs: RuleConfigFile[] = [];
+		const root = rootDirectory ? path.resolve(rootDirectory) : undefined;
+		let directory = path.dirname(path.resolve(fileName));
+
+		while (true) {
+			const config = this.readConfigFile(path.join(directory, this.CONFIG_FILE_NAME));
+			if (config) {
+				configs.unshift(config);
+				if (config.root) {
+					break;
+				}
+			}
+
+			const parent = path.dirname(directory);
+			if (directory === root || parent === directory) {
+				break;
+			}
+			directory = parent;
+		}
+
+		return configs;
+	}
+
+	/**
+	 * Read and cache a config file; invalid files are reported once and treated as empty
+	 */
+	static readConfigFile(configPath: string): RuleConfigFile | null {
+		if (this.cache.has(configPath)) {
+			return this.cache.get(configPath)!;
+		}
+
+		let config: RuleConfigFile | null = null;
+		if (fs.existsSync(configPath)) {
+			try {
+				const parsed = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+				if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+					throw new Error('expected an object with a "rules" property');
+				}
+				config = parsed as RuleConfigFile;
+				this.errors.delete(configPath);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				console.error(`Invalid accessibility config ${configPath}: ${message}`);
+				this.errors.set(configPath, message);
+				config = {};
+			}
+		}
+
+		this.cache.set(configPath, config);
+		return config;
+	}
+
+	/**
+	 * Get the parse error of a config file, if reading it failed
+	 */
+	static getConfigError(configPath: string): string | undefined {
+		return this.errors.get(configPath);
+	}
+
+	/**
+	 * Forget cached config files so changes on disk are picked up
+	 */
+	static clearCache(): void {
+		this.cache.clear();
+		this.errors.clear();
+	}
+
+	/**
+	 * Convert a rule entry to a setting, or null if it is not valid
+	 */
+	static normalizeSetting(value: RuleSettingValue): RuleSetting | null {
+		if (typeof value === 'string') {
+			const keyword = value.trim().toUpperCase();
+			if (keyword === 'OFF') {
+				return { enabled: false };
+			}
+			if (keyword === 'ON') {
+				return { enabled: true };
+			}
+			const severity = this.toSeverity(keyword);
+			return severity ? { enabled: true, severity: severity } : null;
+		}
+
+		if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+			return null;
+		}
+
+		const severity = value.severity === undefined ? undefined : this.toSeverity(String(value.severity));
+		if (value.severity !== undefined && !severity) {
+			return null;
+		}
+
+		return {
+			enabled: typeof value.enabled === 'boolean' ? value.enabled : undefined,
+			severity: severity,
+			options: typeof value.options === 'object' && value.options !== null ? value.options : undefined
+		};
+	}
+
+	/**
+	 * Parse a severity name, case-insensitively
+	 */
+	private static toSeverity(value: string): RuleSeverity | undefined {
+		return this.SEVERITIES.find(severity => severity === value.trim().toUpperCase());
+	}
+}
@@ -0,0 +1,129 @@
+import * as path from 'path';
+import { AccessibilityIssue } from './accessibilityEngine';
+import { BuiltInRules } from './builtInRules';
+import { HtmlDocument } from './htmlParser';
+import { RuleMetadata, WcagLevel } from './ruleCatalog';
+import { RuleConfiguration, RuleOptions } from './ruleConfig';
+
+/**
+ * Everything a rule needs to check one document
+ */
+export interface RuleContext {
+	document: HtmlDocument;
+	fileName: string;
+	// Options configured for the rule in .marsa11yrc.json or the marsa11yfix.rules setting
+	options: RuleOptions;
+}
+
+/**
+ * An issue reported by a rule; rule ID and WCAG metadata are filled in from the rule definition
+ */
+export type RuleIssue = Omit<AccessibilityIssue, keyof RuleMetadata>;
+
+/**
+ * Descriptive metadata a rule declares about itself
+ */
+export interface RuleDefinitionMetadata {
+	description: string;
+	wcag: string[];
+	// null when the rule is not tied to a WCAG success criterion
+	level: WcagLevel | null;
+	helpUrl: string;
+}
+
+/**
+ * A single accessibility rule, built in or contributed by another extension
+ */
+export interface RuleDefinition {
+	id: string;
+	metadata: RuleDefinitionMetadata;
+	// File name endings the rule applies to, e.g. ['.html', '.htm'] or ['.component.ts']
+	fileTypes: string[];
+	check(context: RuleContext): RuleIssue[];
+}
+
+export class RuleRegistry {
+	private static readonly rules = new Map<string, RuleDefinition>(
+		BuiltInRules.getRules().map(rule => [rule.id, rule])
+	);
+
+	/**
+	 * Register a rule; rule IDs must be unique
+	 */
+	static register(rule: RuleDefinition): void {
+		if (!rule.id || typeof rule.check !== 'function') {
+			throw new Error('Accessibility rules must have an id and a check function');
+		}
+		if (this.rules.has(rule.id)) {
+			throw new Error(`Accessibility rule "${rule.id}" is already registered`);
+		}
+		this.rules.set(rule.id, rule);
+	}
+
+	/**
+	 * Remove a previously registered rule
+	 */
+	static unregister(ruleId: string): boolean {
+		return this.rules.delete(ruleId);
+	}
+
+	/**
+	 * Get a registered rule by ID
+	 */
+	static getRule(ruleId: string): RuleDefinition | undefined {
+		return this.rules.get(ruleId);
+	}
+
+	/**
+	 * Get all registered rules in registration order
+	 */
+	static getRules(): RuleDefinition[] {
+		return Array.from(this.rules.values());
+	}
+
+	/**
+	 * Get the rules that apply to a file, based on how its name ends
+	 */
+	static getRulesForFile(fileName: string): RuleDefinition[] {
+		const baseName = path.basename(fileName).toLowerCase();
+		return this.getRules().filter(rule =>
+			rule.fileTypes.some(fileType => fileType.startsWith('.') && baseName.endsWith(fileType.toLowerCase()))
+		);
+	}
+
+	/**
+	 * Check whether any registered rule applies to a file
+	 */
+	static hasRulesForFile(fileName: string): boolean {
+		return this.getRulesForFile(fileName).length > 0;
+	}
+
+	/**
+	 * Run every enabled rule that applies to the file and stamp each issue with its rule's metadata
+	 */
+	static runRules(document: HtmlDocument, fileName: string, configuration: RuleConfiguration = new RuleConfiguration()): AccessibilityIssue[] {
+		const issues: AccessibilityIssue[] = [];
+
+		this.getRulesForFile(fileName).filter(rule => configuration.isEnabled(rule.id)).forEach(rule => {
+			const context = { document: document, fileName: fileName, options: configuration.getOptions(rule.id) };
+			const severity = configuration.getSeverity(rule.id);
+			try {
+				rule.check(context).forEach(issue => {
+					issues.push({
+						...issue,
+						severity: severity ?? issue.severity,
+						ruleId: rule.id,
+						wcag: rule.metadata.wcag,
+						level: rule.metadata.level,
+						helpUrl: rule.metadata.helpUrl
+					});
+				});
+			} catch (error) {
+				// A failing rule must not hide the results of the other rules
+				console.error(`Accessibility rule "${rule.id}" failed:`, error);
+			}
+		});
+
+		return issues;
+	}
+}
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { AccessibilityChecker } from './accessibilityChecker';
+import { AccessibilityEngine } from './accessibilityEngine';
+import { RuleRegistry } from './ruleRegistry';
+import { FileReport, SarifExporter } from './sarifExporter';
+import { WorkspaceScanner } from './workspaceScanner';
+
+export class SarifExportCommand {
+	/**
+	 * Export the findings of the current file or the whole workspace to a SARIF file
+	 */
+	static async exportFindings(): Promise<void> {
+		const editor = vscode.window.activeTextEditor;
+		const canExportFile = editor !== undefined && RuleRegistry.hasRulesForFile(editor.document.fileName);
+		const hasWorkspace = (vscode.workspace.workspaceFolders ?? []).length > 0;
+		if (!canExportFile && !hasWorkspace) {
+			vscode.window.showErrorMessage('Open a file or folder to export its accessibility findings');
+			return;
+		}
+
+		let scope: string | undefined = canExportFile ? 'Current File' : 'Whole Workspace';
+		if (canExportFile && hasWorkspace) {
+			scope = await vscode.window.showQuickPick(['Current File', 'Whole Workspace'], {
+				placeHolder: 'Export accessibility findings for'
+			});
+			if (!scope) {
+				return;
+			}
+		}
+
+		const reports = scope === 'Current File'
+			? [this.checkDocument(editor!.document)]
+			: await this.checkWorkspace();
+		if (!reports) {
+			return;
+		}
+
+		const baseFolder = canExportFile && scope === 'Current File'
+			? vscode.workspace.getWorkspaceFolder(editor!.document.uri)
+			: vscode.workspace.workspaceFolders?.[0];
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: baseFolder ? vscode.Uri.joinPath(baseFolder.uri, 'marsa11y.sarif') : undefined,
+			filters: { 'SARIF': ['sarif', 'json'] },
+			saveLabel: 'Export'
+		});
+		if (!target) {
+			return;
+		}
+
+		const log = SarifExporter.createLog(reports, baseFolder?.uri.fsPath);
+		await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(log, null, 2) + '\n', 'utf8'));
+
+		const resultCount = log.runs[0].results.length;
+		const choice = await vscode.window.showInformationMessage(
+			`Exported ${resultCount} accessibility finding(s) from ${reports.length} file(s) to ${vscode.workspace.asRelativePath(target)}`,
+			'Open'
+		);
+		if (choice === 'Open') {
+			await vscode.window.showTextDocument(target);
+		}
+	}
+
+	/**
+	 * Check an open document
+	 */
+	private static checkDocument(document: vscode.TextDocument): FileReport {
+		return {
+			fileName: document.fileName,
+			report: AccessibilityEngine.check(document.fileName, document.getText(), AccessibilityChecker.getConfiguration(document.uri), AccessibilityChecker.getBaseline(document.uri))
+		};
+	}
+
+	/**
+	 * Check every file the workspace scan would, or return undefined when cancelled
+	 */
+	private static async checkWorkspace(): Promise<FileReport[] | undefined> {
+		return vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Collecting accessibility findings',
+			cancellable: true
+		}, async (progress, token) => {
+			const reports: FileReport[] = [];
+			const files = await WorkspaceScanner.findFiles(token);
+
+			for (const uri of files) {
+				if (token.isCancellationRequested) {
+					return undefined;
+				}
+				progress.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / files.length });
+
+				const text = await WorkspaceScanner.readFile(uri);
+				if (text !== null) {
+					reports.push({
+						fileName: uri.fsPath,
+						report: AccessibilityEngine.check(uri.fsPath, text, AccessibilityChecker.getConfiguration(uri), AccessibilityChecker.getBaseline(uri))
+					});
+				}
+			}
+			return reports;
+		});
+	}
+}
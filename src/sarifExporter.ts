@@ -0,0 +1,245 @@
+import * as path from 'path';
+import { AccessibilityIssue, AccessibilityReport } from './accessibilityEngine';
+import { Baseline } from './baseline';
+import { RuleCatalog } from './ruleCatalog';
+import { RuleRegistry } from './ruleRegistry';
+import { SourceRange } from './sourceRange';
+import { Suppressions } from './suppressions';
+
+/**
+ * Findings for one checked file
+ */
+export interface FileReport {
+	fileName: string;
+	report: AccessibilityReport;
+}
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+/**
+ * The parts of a SARIF 2.1.0 reporting descriptor that describe a rule
+ */
+export interface SarifRule {
+	id: string;
+	shortDescription: { text: string };
+	fullDescription: { text: string };
+	help: { text: string };
+	helpUri?: string;
+	properties: { tags: string[] };
+}
+
+/**
+ * The parts of a SARIF 2.1.0 result that describe one finding
+ */
+export interface SarifResult {
+	ruleId: string;
+	ruleIndex: number;
+	level: SarifLevel;
+	message: { text: string };
+	locations: {
+		physicalLocation: {
+			artifactLocation: { uri: string; uriBaseId?: string };
+			region: { startLine: number; startColumn: number; endLine: number; endColumn: number };
+		};
+	}[];
+	relatedLocations?: {
+		id: number;
+		message: { text: string };
+		physicalLocation: {
+			artifactLocation: { uri: string; uriBaseId?: string };
+			region: { startLine: number; startColumn: number; endLine: number; endColumn: number };
+		};
+	}[];
+	suppressions?: { kind: 'inSource' | 'external'; justification?: string }[];
+	// Whether the finding is recorded in the baseline file; set on every result once one is
+	baselineState?: 'new' | 'unchanged';
+}
+
+/**
+ * A SARIF 2.1.0 log with a single run
+ */
+export interface SarifLog {
+	$schema: string;
+	version: '2.1.0';
+	runs: {
+		tool: { driver: { name: string; informationUri: string; rules: SarifRule[] } };
+		originalUriBaseIds?: { [id: string]: { uri: string } };
+		columnKind: 'utf16CodeUnits';
+		results: SarifResult[];
+	}[];
+}
+
+/**
+ * Writes findings in the Static Analysis Results Interchange Format for dashboards and code scanning
+ */
+export class SarifExporter {
+	static readonly SCHEMA_URL = 'https://json.schemastore.org/sarif-2.1.0.json';
+	static readonly TOOL_NAME = 'marsa11y';
+	// Findings are located relative to this base so logs can be uploaded from any checkout
+	static readonly SOURCE_ROOT = '%SRCROOT%';
+
+	/**
+	 * Build a SARIF log from the findings of one or more files; paths inside the base directory
+	 * are written relative to it
+	 */
+	static createLog(files: FileReport[], baseDirectory?: string): SarifLog {
+		const rules: SarifRule[] = [];
+		const ruleIndexes = new Map<string, number>();
+		const results: SarifResult[] = [];
+
+		const getRuleIndex = (ruleId: string) => {
+			let index = ruleIndexes.get(ruleId);
+			if (index === undefined) {
+				index = rules.push(this.createRule(ruleId)) - 1;
+				ruleIndexes.set(ruleId, index);
+			}
+			return index;
+		};
+
+		files.forEach(file => {
+			const artifactLocation = this.getArtifactLocation(file.fileName, baseDirectory);
+			file.report.issues.forEach(issue => {
+				results.push(this.createResult(issue, getRuleIndex(issue.ruleId), artifactLocation));
+			});
+			file.report.suppressed.forEach(suppressed => {
+				const result = this.createResult(suppressed.issue, getRuleIndex(suppressed.issue.ruleId), artifactLocation);
+				result.suppressions = [suppressed.directive.reason
+					? { kind: 'inSource', justification: suppressed.directive.reason }
+					: { kind: 'inSource' }];
+				results.push(result);
+			});
+			// Known issues stay in the log, suppressed so code scanning does not raise them again
+			file.report.baselined.forEach(issue => {
+				const result = this.createResult(issue, getRuleIndex(issue.ruleId), artifactLocation);
+				result.suppressions = [{ kind: 'external', justification: `Recorded in ${Baseline.FILE_NAME}` }];
+				result.baselineState = 'unchanged';
+				results.push(result);
+			});
+		});
+		if (results.some(result => result.baselineState)) {
+			results.forEach(result => result.baselineState = result.baselineState ?? 'new');
+		}
+
+		return {
+			$schema: this.SCHEMA_URL,
+			version: '2.1.0',
+			runs: [{
+				tool: {
+					driver: {
+						name: this.TOOL_NAME,
+						informationUri: 'https://www.w3.org/WAI/standards-guidelines/wcag/',
+						rules: rules
+					}
+				},
+				...(baseDirectory ? { originalUriBaseIds: { [this.SOURCE_ROOT]: { uri: this.toFileUri(baseDirectory) + '/' } } } : {}),
+				columnKind: 'utf16CodeUnits',
+				results: results
+			}]
+		};
+	}
+
+	/**
+	 * Describe a rule, preferring the registered definition so contributed rules are described too
+	 */
+	private static createRule(ruleId: string): SarifRule {
+		const definition = RuleRegistry.getRule(ruleId);
+		const isUnusedSuppression = ruleId === Suppressions.UNUSED_SUPPRESSION.ruleId;
+		const description = definition?.metadata.description ??
+			(isUnusedSuppression ? Suppressions.UNUSED_SUPPRESSION_DESCRIPTION : RuleCatalog.getDescription(ruleId)) ?? ruleId;
+		const wcag = definition?.metadata.wcag ?? [];
+		const helpUrl = definition?.metadata.helpUrl ?? '';
+
+		const criteria = wcag.map(criterion => {
+			const title = RuleCatalog.getCriterionTitle(criterion);
+			return `WCAG ${criterion}${title ? ` ${title}` : ''} (Level ${RuleCatalog.getLevel([criterion])})`;
+		});
+		const help = criteria.length > 0 ? `${description}. See ${criteria.join(', ')}.` : `${description}.`;
+
+		return {
+			id: ruleId,
+			shortDescription: { text: description },
+			fullDescription: { text: description },
+			help: { text: help },
+			...(helpUrl ? { helpUri: helpUrl } : {}),
+			properties: {
+				tags: ['accessibility', ...wcag.map(criterion => `WCAG ${criterion}`), ...(wcag.length > 0 ? [`WCAG ${RuleCatalog.getLevel(wcag)}`] : [])]
+			}
+		};
+	}
+
+	/**
+	 * Convert an issue to a result; SARIF lines and columns start at 1
+	 */
+	private static createResult(issue: AccessibilityIssue, ruleIndex: number, artifactLocation: { uri: string; uriBaseId?: string }): SarifResult {
+		const result: SarifResult = {
+			ruleId: issue.ruleId,
+			ruleIndex: ruleIndex,
+			level: this.getLevel(issue.severity),
+			message: { text: issue.issue },
+			locations: [{
+				physicalLocation: {
+					artifactLocation: artifactLocation,
+					region: this.toRegion(issue.range)
+				}
+			}]
+		};
+		if (issue.related && issue.related.length > 0) {
+			result.relatedLocations = issue.related.map((related, index) => ({
+				id: index + 1,
+				message: { text: related.message },
+				physicalLocation: {
+					artifactLocation: artifactLocation,
+					region: this.toRegion(related.range)
+				}
+			}));
+		}
+		return result;
+	}
+
+	/**
+	 * Convert an engine range to a SARIF region
+	 */
+	private static toRegion(range: SourceRange): { startLine: number; startColumn: number; endLine: number; endColumn: number } {
+		return {
+			startLine: range.start.line + 1,
+			startColumn: range.start.character + 1,
+			endLine: range.end.line + 1,
+			endColumn: range.end.character + 1
+		};
+	}
+
+	/**
+	 * Convert severity string to SARIF result level
+	 */
+	private static getLevel(severity: string): SarifLevel {
+		switch (severity) {
+			case 'HIGH':
+				return 'error';
+			case 'MEDIUM':
+				return 'warning';
+			default:
+				return 'note';
+		}
+	}
+
+	/**
+	 * Locate a file relative to the base directory, or by absolute URI when it lies outside
+	 */
+	private static getArtifactLocation(fileName: string, baseDirectory?: string): { uri: string; uriBaseId?: string } {
+		if (baseDirectory) {
+			const relativePath = path.relative(baseDirectory, fileName);
+			if (relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath)) {
+				return { uri: relativePath.split(path.sep).map(encodeURIComponent).join('/'), uriBaseId: this.SOURCE_ROOT };
+			}
+		}
+		return { uri: path.isAbsolute(fileName) ? this.toFileUri(fileName) : fileName.split(path.sep).map(encodeURIComponent).join('/') };
+	}
+
+	/**
+	 * Build a file:// URI for an absolute path
+	 */
+	private static toFileUri(filePath: string): string {
+		const segments = path.resolve(filePath).split(path.sep).map(encodeURIComponent).join('/');
+		return `file://${segments.startsWith('/') ? '' : '/'}${segments}`;
+	}
+}
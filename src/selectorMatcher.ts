@@ -0,0 +1,472 @@
+import { HtmlElement } from './htmlParser';
+
+/**
+ * Specificity as [ids, classes/attributes/pseudo-classes, types]
+ */
+export type Specificity = [number, number, number];
+
+type Combinator = ' ' | '>' | '+' | '~';
+
+interface SimpleSelector {
+	kind: 'universal' | 'type' | 'id' | 'class' | 'attribute' | 'pseudo-class' | 'pseudo-element';
+	name: string;
+	// Attribute selectors: operator, value and the i flag
+	operator?: string;
+	value?: string;
+	caseInsensitive?: boolean;
+	// Pseudo-classes: the text between the parentheses
+	argument?: string;
+}
+
+interface CompoundSelector {
+	selectors: SimpleSelector[];
+	// How this compound relates to the one before it; null for the first
+	combinator: Combinator | null;
+}
+
+type ComplexSelector = CompoundSelector[];
+
+/**
+ * Matches CSS selectors against parsed elements, the way a browser would for an element at rest
+ * or in the given user-action states such as focus
+ */
+export class SelectorMatcher {
+	// Pseudo-classes that depend on what the user is doing
+	private static readonly STATE_PSEUDO_CLASSES = ['hover', 'focus', 'focus-visible', 'focus-within', 'active', 'visited', 'target'];
+	// Pseudo-elements that may be written with a single colon
+	private static readonly LEGACY_PSEUDO_ELEMENTS = ['before', 'after', 'first-line', 'first-letter'];
+	private static readonly parsed = new Map<string, ComplexSelector[] | null>();
+
+	/**
+	 * Specificity of the most specific selector in the list that matches the element, or null
+	 * when none does; pseudo-elements never match, since their content is not the element's text
+	 */
+	static match(element: HtmlElement, selectorList: string, states: string[] = []): Specificity | null {
+		const selectors = this.parse(selectorList);
+		let best: Specificity | null = null;
+		selectors?.forEach(selector => {
+			if (this.matchesComplex(selector, selector.length - 1, element, states)) {
+				const specificity = this.getComplexSpecificity(selector);
+				best = best && this.compareSpecificity(best, specificity) >= 0 ? best : specificity;
+			}
+		});
+		return best;
+	}
+
+	/**
+	 * Compare two specificities; positive when the first is higher
+	 */
+	static compareSpecificity(a: Specificity, b: Specificity): number {
+		return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+	}
+
+	/**
+	 * Parse a selector list once; null when it is not valid
+	 */
+	private static parse(selectorList: string): ComplexSelector[] | null {
+		if (!this.parsed.has(selectorList)) {
+			const selectors = this.splitList(selectorList).map(selector => this.parseComplex(selector));
+			this.parsed.set(selectorList, selectors.some(selector => selector === null) ? null : selectors as ComplexSelector[]);
+		}
+		return this.parsed.get(selectorList)!;
+	}
+
+	/**
+	 * Split on the commas that are not inside parentheses, brackets or strings
+	 */
+	private static splitList(selectorList: string): string[] {
+		const parts: string[] = [];
+		let depth = 0;
+		let start = 0;
+		for (let i = 0; i < selectorList.length; i++) {
+			const char = selectorList[i];
+			if (char === '\\') {
+				i++;
+			} else if (char === '"' || char === "'") {
+				const closingQuote = selectorList.indexOf(char, i + 1);
+				i = closingQuote === -1 ? selectorList.length : closingQuote;
+			} else if (char === '(' || char === '[') {
+				depth++;
+			} else if (char === ')' || char === ']') {
+				depth--;
+			} else if (char === ',' && depth === 0) {
+				parts.push(selectorList.substring(start, i));
+				start = i + 1;
+			}
+		}
+		parts.push(selectorList.substring(start));
+		return parts.map(part => part.trim());
+	}
+
+	/**
+	 * Parse one selector into compounds joined by combinators
+	 */
+	private static parseComplex(selector: string): ComplexSelector | null {
+		const compounds: ComplexSelector = [];
+		let current: CompoundSelector = { selectors: [], combinator: null };
+		let pendingCombinator: Combinator | null = null;
+		let position = 0;
+
+		const startCompound = () => {
+			if (current.selectors.length > 0) {
+				compounds.push(current);
+				current = { selectors: [], combinator: pendingCombinator ?? ' ' };
+			}
+			pendingCombinator = null;
+		};
+
+		while (position < selector.length) {
+			const char = selector[position];
+			if (/\s/.test(char)) {
+				position++;
+				if (current.selectors.length > 0 && pendingCombinator === null) {
+					pendingCombinator = ' ';
+				}
+				continue;
+			}
+			if (char === '>' || char === '+' || char === '~') {
+				if (current.selectors.length === 0 && compounds.length === 0) {
+					return null;
+				}
+				pendingCombinator = char;
+				position++;
+				continue;
+			}
+			if (pendingCombinator !== null) {
+				startCompound();
+			}
+
+			let simple: SimpleSelector | null = null;
+			if (char === '*') {
+				simple = { kind: 'universal', name: '*' };
+				position++;
+			} else if (char === '#' || char === '.') {
+				const identifier = this.readIdentifier(selector, position + 1);
+				if (!identifier) {
+					return null;
+				}
+				simple = { kind: char === '#' ? 'id' : 'class', name: identifier.value };
+				position = identifier.end;
+			} else if (char === '[') {
+				const end = this.findClosing(selector, position, '[', ']');
+				simple = this.parseAttribute(selector.substring(position + 1, end - 1));
+				position = end;
+			} else if (char === ':') {
+				const isElement = selector[position + 1] === ':';
+				const identifier = this.readIdentifier(selector, position + (isElement ? 2 : 1));
+				if (!identifier) {
+					return null;
+				}
+				const name = identifier.value.toLowerCase();
+				position = identifier.end;
+				let argument: string | undefined;
+				if (selector[position] === '(') {
+					const end = this.findClosing(selector, position, '(', ')');
+					argument = selector.substring(position + 1, end - 1).trim();
+					position = end;
+				}
+				const kind = isElement || this.LEGACY_PSEUDO_ELEMENTS.includes(name) ? 'pseudo-element' : 'pseudo-class';
+				simple = { kind: kind, name: name, argument: argument };
+			} else {
+				const identifier = this.readIdentifier(selector, position);
+				if (!identifier) {
+					return null;
+				}
+				simple = { kind: 'type', name: identifier.value };
+				position = identifier.end;
+			}
+
+			if (!simple) {
+				return null;
+			}
+			current.selectors.push(simple);
+		}
+
+		if (current.selectors.length === 0) {
+			return null;
+		}
+		compounds.push(current);
+		return compounds;
+	}
+
+	/**
+	 * Parse the inside of [name], [name=value], [name^="value" i] and the like
+	 */
+	private static parseAttribute(source: string): SimpleSelector | null {
+		const match = /^\s*([^\s~|^$*=]+)\s*(?:([~|^$*]?=)\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([^\s"']+))\s*([is])?)?\s*$/i.exec(source);
+		if (!match) {
+			return null;
+		}
+		const value = match[3] ?? match[4] ?? match[5];
+		return {
+			kind: 'attribute',
+			name: this.unescape(match[1]).toLowerCase(),
+			operator: match[2],
+			value: value === undefined ? undefined : this.unescape(value),
+			caseInsensitive: match[6]?.toLowerCase() === 'i'
+		};
+	}
+
+	/**
+	 * Read an identifier, which may contain escapes such as md\:flex
+	 */
+	private static readIdentifier(selector: string, start: number): { value: string; end: number } | null {
+		const match = /^(?:[\w\u00a0-\uffff-]|\\[0-9a-fA-F]{1,6}\s?|\\[^\n0-9a-fA-F])+/.exec(selector.substring(start));
+		return match ? { value: this.unescape(match[0]), end: start + match[0].length } : null;
+	}
+
+	private static unescape(value: string): string {
+		return value.replace(/\\([0-9a-fA-F]{1,6})\s?|\\(.)/g, (_match, hex: string | undefined, char: string | undefined) =>
+			hex ? String.fromCodePoint(parseInt(hex, 16)) : char!
+		);
+	}
+
+	/**
+	 * Offset just past the bracket closing the one at the given offset
+	 */
+	private static findClosing(text: string, start: number, open: string, close: string): number {
+		let depth = 0;
+		for (let i = start; i < text.length; i++) {
+			const char = text[i];
+			if (char === '\\') {
+				i++;
+			} else if (char === '"' || char === "'") {
+				const closingQuote = text.indexOf(char, i + 1);
+				i = closingQuote === -1 ? text.length : closingQuote;
+			} else if (char === open) {
+				depth++;
+			} else if (char === close && --depth === 0) {
+				return i + 1;
+			}
+		}
+		return text.length;
+	}
+
+	/**
+	 * Match compounds right to left; states only apply to the element the selector is about
+	 */
+	private static matchesComplex(selector: ComplexSelector, index: number, element: HtmlElement, states: string[]): boolean {
+		const compound = selector[index];
+		if (!compound.selectors.every(simple => this.matchesSimple(simple, element, index === selector.length - 1 ? states : []))) {
+			return false;
+		}
+		if (index === 0) {
+			return true;
+		}
+
+		switch (compound.combinator) {
+			case '>':
+				return element.parent !== null && this.matchesComplex(selector, index - 1, element.parent, states);
+			case '+': {
+				const previous = this.getPreviousSiblings(element);
+				return previous.length > 0 && this.matchesComplex(selector, index - 1, previous[previous.length - 1], states);
+			}
+			case '~':
+				return this.getPreviousSiblings(element).some(sibling => this.matchesComplex(selector, index - 1, sibling, states));
+			default:
+				for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+					if (this.matchesComplex(selector, index - 1, ancestor, states)) {
+						return true;
+					}
+				}
+				return false;
+		}
+	}
+
+	private static matchesSimple(simple: SimpleSelector, element: HtmlElement, states: string[]): boolean {
+		switch (simple.kind) {
+			case 'universal':
+				return true;
+			case 'type':
+				return element.tagName === simple.name.toLowerCase();
+			case 'id':
+				return this.getKnownAttribute(element, 'id') === simple.name;
+			case 'class':
+				return (this.getKnownAttribute(element, 'class') ?? '').split(/\s+/).includes(simple.name);
+			case 'attribute':
+				return this.matchesAttribute(simple, element);
+			case 'pseudo-class':
+				return this.matchesPseudoClass(simple, element, states);
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Attribute value when it is known; null when absent or only known at runtime
+	 */
+	private static getKnownAttribute(element: HtmlElement, name: string): string | null {
+		const attribute = element.getAttributeNode(name);
+		return attribute && !attribute.dynamic ? attribute.value ?? '' : null;
+	}
+
+	private static matchesAttribute(simple: SimpleSelector, element: HtmlElement): boolean {
+		const actual = this.getKnownAttribute(element, simple.name);
+		if (actual === null) {
+			return false;
+		}
+		if (simple.operator === undefined || simple.value === undefined) {
+			return true;
+		}
+
+		const value = simple.caseInsensitive ? actual.toLowerCase() : actual;
+		const expected = simple.caseInsensitive ? simple.value.toLowerCase() : simple.value;
+		switch (simple.operator) {
+			case '=':
+				return value === expected;
+			case '~=':
+				return value.split(/\s+/).includes(expected);
+			case '|=':
+				return value === expected || value.startsWith(`${expected}-`);
+			case '^=':
+				return expected !== '' && value.startsWith(expected);
+			case '$=':
+				return expected !== '' && value.endsWith(expected);
+			case '*=':
+				return expected !== '' && value.includes(expected);
+			default:
+				return false;
+		}
+	}
+
+	private static matchesPseudoClass(simple: SimpleSelector, element: HtmlElement, states: string[]): boolean {
+		const argumentMatches = () => this.parse(simple.argument ?? '')?.some(selector =>
+			this.matchesComplex(selector, selector.length - 1, element, states)
+		) ?? false;
+		const siblings = this.getSiblings(element);
+		const sameType = siblings.filter(sibling => sibling.tagName === element.tagName);
+
+		if (this.STATE_PSEUDO_CLASSES.includes(simple.name)) {
+			return states.includes(simple.name);
+		}
+		switch (simple.name) {
+			case 'not':
+				return simple.argument !== undefined && this.parse(simple.argument) !== null && !argumentMatches();
+			case 'is':
+			case 'where':
+			case 'matches':
+			case '-webkit-any':
+				return argumentMatches();
+			case 'root':
+			case 'scope':
+				return element.parent === null && element.tagName === 'html';
+			case 'link':
+			case 'any-link':
+				return ['a', 'area'].includes(element.tagName) && element.hasAttribute('href');
+			case 'first-child':
+				return siblings[0] === element;
+			case 'last-child':
+				return siblings[siblings.length - 1] === element;
+			case 'only-child':
+				return siblings.length === 1;
+			case 'first-of-type':
+				return sameType[0] === element;
+			case 'last-of-type':
+				return sameType[sameType.length - 1] === element;
+			case 'only-of-type':
+				return sameType.length === 1;
+			case 'nth-child':
+				return this.matchesNth(simple.argument, siblings.indexOf(element) + 1);
+			case 'nth-last-child':
+				return this.matchesNth(simple.argument, siblings.length - siblings.indexOf(element));
+			case 'nth-of-type':
+				return this.matchesNth(simple.argument, sameType.indexOf(element) + 1);
+			case 'nth-last-of-type':
+				return this.matchesNth(simple.argument, sameType.length - sameType.indexOf(element));
+			case 'empty':
+				return element.children.every(child => child.type === 'comment');
+			case 'checked':
+				return element.hasAttribute('checked') || element.hasAttribute('selected');
+			case 'disabled':
+				return element.hasAttribute('disabled');
+			case 'enabled':
+				return ['button', 'input', 'select', 'textarea', 'option', 'fieldset'].includes(element.tagName) && !element.hasAttribute('disabled');
+			case 'required':
+				return element.hasAttribute('required');
+			case 'optional':
+				return ['input', 'select', 'textarea'].includes(element.tagName) && !element.hasAttribute('required');
+			case 'lang': {
+				for (let current: HtmlElement | null = element; current; current = current.parent) {
+					const lang = this.getKnownAttribute(current, 'lang');
+					if (lang !== null) {
+						const expected = (simple.argument ?? '').replace(/["']/g, '').toLowerCase();
+						return lang.toLowerCase() === expected || lang.toLowerCase().startsWith(`${expected}-`);
+					}
+				}
+				return false;
+			}
+			default:
+				// Unknown and unsupported pseudo-classes, e.g. :has(), are treated as not matching
+				return false;
+		}
+	}
+
+	/**
+	 * Match a position against an+b, odd or even
+	 */
+	private static matchesNth(argument: string | undefined, position: number): boolean {
+		const formula = (argument ?? '').replace(/\s+/g, '').toLowerCase();
+		const match = /^(?:([+-]?\d*)n)?([+-]?\d+)?$/.exec(formula === 'odd' ? '2n+1' : formula === 'even' ? '2n' : formula);
+		if (!match || formula === '') {
+			return false;
+		}
+		const a = match[1] === undefined ? 0 : match[1] === '' || match[1] === '+' ? 1 : match[1] === '-' ? -1 : parseInt(match[1], 10);
+		const b = match[2] === undefined ? 0 : parseInt(match[2], 10);
+		if (a === 0) {
+			return position === b;
+		}
+		return (position - b) / a >= 0 && (position - b) % a === 0;
+	}
+
+	/**
+	 * Element siblings of an element, including itself; top-level elements have none to compare with
+	 */
+	private static getSiblings(element: HtmlElement): HtmlElement[] {
+		return element.parent ? element.parent.childElements : [element];
+	}
+
+	private static getPreviousSiblings(element: HtmlElement): HtmlElement[] {
+		const siblings = this.getSiblings(element);
+		return siblings.slice(0, siblings.indexOf(element));
+	}
+
+	private static getComplexSpecificity(selector: ComplexSelector): Specificity {
+		const specificity: Specificity = [0, 0, 0];
+		selector.forEach(compound => compound.selectors.forEach(simple => {
+			const [ids, classes, types] = this.getSimpleSpecificity(simple);
+			specificity[0] += ids;
+			specificity[1] += classes;
+			specificity[2] += types;
+		}));
+		return specificity;
+	}
+
+	/**
+	 * :is(), :not() and :has() count as their most specific argument, :where() counts as nothing
+	 */
+	private static getSimpleSpecificity(simple: SimpleSelector): Specificity {
+		switch (simple.kind) {
+			case 'id':
+				return [1, 0, 0];
+			case 'class':
+			case 'attribute':
+				return [0, 1, 0];
+			case 'type':
+			case 'pseudo-element':
+				return [0, 0, 1];
+			case 'pseudo-class': {
+				if (simple.name === 'where') {
+					return [0, 0, 0];
+				}
+				if (['is', 'not', 'has', 'matches', '-webkit-any'].includes(simple.name)) {
+					return (this.parse(simple.argument ?? '') ?? [])
+						.map(selector => this.getComplexSpecificity(selector))
+						.reduce((best, specificity) => this.compareSpecificity(specificity, best) > 0 ? specificity : best, [0, 0, 0] as Specificity);
+				}
+				return [0, 1, 0];
+			}
+			default:
+				return [0, 0, 0];
+		}
+	}
+}
@@ -1,371 +1,395 @@
-import * as vscode from 'vscode';
-import { AccessibilityIssue } from './accessibilityChecker';
+import { AccessibilityIssue } from './accessibilityEngine';
+import { AccessibleName } from './accessibleName';
+import { HtmlDocument, HtmlElement } from './htmlParser';
+import { RuleCatalog } from './ruleCatalog';
 
 export class SemanticHtmlChecker {
+	private static readonly HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+	// Link texts that do not describe the link destination
+	static readonly GENERIC_LINK_TEXT = ['click here', 'read more', 'here', 'more'];
+
 	/**
 	 * Check for missing or incorrect heading hierarchy (MANDATORY)
 	 */
-	static checkHeadingHierarchy(line: string, lineNumber: number, fullText: string): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		// Check for multiple h1 tags (MANDATORY - WCAG 2.1)
-		if (trimmedLine.includes('<h1>')) {
-			const h1Count = (fullText.match(/<h1[^>]*>/g) || []).length;
-			if (h1Count > 1) {
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+	static checkHeadingHierarchy(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		if (!this.HEADINGS.includes(element.tagName)) {
+			return null;
+		}
+
+		const headings = document.getElementsByTagName(...this.HEADINGS);
+
+		// Check for multiple h1 tags (MANDATORY - WCAG 2.1); h1s in alternative template branches
+		// never render together
+		if (element.tagName === 'h1') {
+			if (headings.some(heading => heading.tagName === 'h1' && heading !== element && !element.isExclusiveWith(heading))) {
+				const range = document.getElementRange(element);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Multiple h1 tags found - page should have only one h1 for proper document structure',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('heading-h1-unique')
 				};
 			}
+			return null;
 		}
 
 		// Check for skipped heading levels (HIGH PRIORITY)
-		const headingMatch = trimmedLine.match(/<h([1-6])[^>]*>/);
-		if (headingMatch) {
-			const currentLevel = parseInt(headingMatch[1]);
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-			
-			// This is a simplified check - in a real implementation, you'd track the previous heading level
-			if (currentLevel > 1) {
-				return {
-					line: lineNumber + 1,
-					issue: `Heading h${currentLevel} detected - ensure proper heading hierarchy (h1 → h2 → h3, etc.)`,
-					severity: 'MEDIUM',
-					range: range
-				};
-			}
+		const currentLevel = parseInt(element.tagName.substring(1));
+		const index = headings.indexOf(element);
+		const previousLevel = index > 0 ? parseInt(headings[index - 1].tagName.substring(1)) : 0;
+
+		if (currentLevel > previousLevel + 1) {
+			const range = document.getElementRange(element);
+			const after = previousLevel > 0 ? ` after h${previousLevel}` : ' before any higher-level heading';
+			return {
+				line: range.start.line + 1,
+				issue: `Heading h${currentLevel} detected${after} - ensure proper heading hierarchy (h1 → h2 → h3, etc.)`,
+				severity: 'MEDIUM',
+				range: range,
+				...RuleCatalog.getMetadata('heading-order')
+			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for missing lang attribute on html tag (MANDATORY - WCAG 2.1)
 	 */
-	static checkHtmlLangAttribute(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		if (trimmedLine.includes('<html') && !trimmedLine.includes('lang=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+	static checkHtmlLangAttribute(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		if (element.tagName === 'html' && !element.mayHaveAttribute('lang')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Missing lang attribute on html tag - required for screen readers and language detection',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('html-lang')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for proper list structure (HIGH PRIORITY)
 	 */
-	static checkListStructure(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkListStructure(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const parentTag = element.parent?.tagName;
+
 		// Check for li without ul/ol parent
-		if (trimmedLine.includes('<li>') && !trimmedLine.includes('<ul') && !trimmedLine.includes('<ol')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.tagName === 'li' && !['ul', 'ol', 'menu'].includes(parentTag ?? '')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'List item (li) found without proper list container (ul/ol)',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('listitem-parent')
 			};
 		}
 
 		// Check for nested lists without proper structure
-		if (trimmedLine.includes('<ul') && trimmedLine.includes('<ol')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (['ul', 'ol'].includes(element.tagName) && ['ul', 'ol'].includes(parentTag ?? '')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
-				issue: 'Mixed list types (ul and ol) in same line - ensure proper nesting',
+				line: range.start.line + 1,
+				issue: 'List nested directly inside another list - wrap nested lists (ul/ol) in an li',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('list-nesting')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for proper table structure (HIGH PRIORITY)
 	 */
-	static checkTableStructure(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkTableStructure(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for td without table structure
-		if (trimmedLine.includes('<td>') && !trimmedLine.includes('<table') && !trimmedLine.includes('<tr')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.tagName === 'td' && !(element.closest('tr') && element.closest('table'))) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Table cell (td) found without proper table structure (table > tr > td)',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('table-cell-parent')
 			};
 		}
 
 		// Check for th without table structure
-		if (trimmedLine.includes('<th>') && !trimmedLine.includes('<table') && !trimmedLine.includes('<tr')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.tagName === 'th' && !(element.closest('tr') && element.closest('table'))) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Table header (th) found without proper table structure (table > tr > th)',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('table-header-parent')
 			};
 		}
 
 		// Check for missing caption or summary
-		if (trimmedLine.includes('<table') && !trimmedLine.includes('caption') && !trimmedLine.includes('summary')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.tagName === 'table' &&
+			!element.childElements.some(child => child.tagName === 'caption') && !element.mayHaveAttribute('summary')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Table missing caption or summary - add caption for table description',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('table-caption')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for proper form structure (MANDATORY)
 	 */
-	static checkFormStructure(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkFormStructure(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for form inputs without labels
-		if ((trimmedLine.includes('<input') || trimmedLine.includes('<select') || trimmedLine.includes('<textarea')) && 
-			!trimmedLine.includes('aria-label') && !trimmedLine.includes('aria-labelledby') && 
-			!trimmedLine.includes('<label')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (['input', 'select', 'textarea'].includes(element.tagName) && element.getAttribute('type') !== 'hidden' &&
+			!element.mayHaveAttribute('aria-label') && !element.mayHaveAttribute('aria-labelledby') &&
+			document.getLabelsFor(element).length === 0) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Form control missing label - add label, aria-label, or aria-labelledby',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('form-control-label')
 			};
 		}
 
 		// Check for fieldset without legend
-		if (trimmedLine.includes('<fieldset') && !trimmedLine.includes('<legend')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.tagName === 'fieldset' && !element.childElements.some(child => child.tagName === 'legend')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Fieldset missing legend - add legend to describe fieldset purpose',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('fieldset-legend')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for proper button usage (HIGH PRIORITY)
 	 */
-	static checkButtonUsage(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkButtonUsage(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for div/span with onclick instead of button
-		if ((trimmedLine.includes('<div') || trimmedLine.includes('<span')) && 
-			trimmedLine.includes('onclick') && !trimmedLine.includes('role="button"')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (['div', 'span'].includes(element.tagName) &&
+			element.hasAttribute('onclick') && element.getAttribute('role') !== 'button') {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Use semantic button element instead of div/span with onclick for better accessibility',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('semantic-button')
 			};
 		}
 
 		// Check for button without accessible text
-		if (trimmedLine.includes('<button') && 
-			!trimmedLine.includes('aria-label') && 
-			!trimmedLine.includes('aria-labelledby') && 
-			!trimmedLine.match(/<button[^>]*>.*<\/button>/)) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.tagName === 'button' && AccessibleName.isMissing(element, document)) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Button missing accessible text - add text content or aria-label',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('button-name')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for proper link usage (HIGH PRIORITY)
 	 */
-	static checkLinkUsage(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkLinkUsage(element: HtmlElement, document: HtmlDocument, genericLinkText: string[] = this.GENERIC_LINK_TEXT): AccessibilityIssue | null {
+		if (element.tagName !== 'a') {
+			return null;
+		}
+
+		const linkText = element.textContent.trim().toLowerCase();
+		const hasImageText = element.getElementsByTagName('img').some(image => (image.getAttribute('alt') ?? '').trim().length > 0);
+
 		// Check for links without accessible text
-		if (trimmedLine.includes('<a') && 
-			!trimmedLine.includes('aria-label') && 
-			!trimmedLine.includes('aria-labelledby') && 
-			!trimmedLine.match(/<a[^>]*>.*<\/a>/)) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (!element.mayHaveAttribute('aria-label') &&
+			!element.mayHaveAttribute('aria-labelledby') &&
+			linkText.length === 0 && !hasImageText) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Link missing accessible text - add text content or aria-label',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('link-name')
 			};
 		}
 
 		// Check for links with generic text
-		if (trimmedLine.includes('<a') && 
-			(trimmedLine.includes('>click here<') || trimmedLine.includes('>read more<') || 
-			 trimmedLine.includes('>here<') || trimmedLine.includes('>more<'))) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (genericLinkText.some(text => text.trim().toLowerCase() === linkText)) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Link text is not descriptive - use meaningful link text instead of "click here" or "read more"',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('link-purpose')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for proper landmark usage (HIGH PRIORITY)
 	 */
-	static checkLandmarkUsage(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkLandmarkUsage(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const mainLandmarks = document.elements.filter(candidate =>
+			candidate.tagName === 'main' || candidate.getAttribute('role') === 'main'
+		);
+
 		// Check for missing main landmark
-		if (trimmedLine.includes('<body') && !trimmedLine.includes('role="main"') && !trimmedLine.includes('<main')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.tagName === 'body' && mainLandmarks.length === 0) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Page missing main landmark - add <main> or role="main" for primary content',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('landmark-main')
 			};
 		}
 
-		// Check for multiple main landmarks
-		if (trimmedLine.includes('<main') || trimmedLine.includes('role="main"')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		// Check for multiple main landmarks that can render together
+		if (mainLandmarks.filter(candidate => !element.isExclusiveWith(candidate)).indexOf(element) > 0) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
-				issue: 'Main landmark detected - ensure only one main landmark per page',
+				line: range.start.line + 1,
+				issue: 'Multiple main landmarks found - ensure only one main landmark per page',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('landmark-main-unique')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for proper sectioning elements (MEDIUM PRIORITY)
 	 */
-	static checkSectioningElements(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkSectioningElements(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for section/article without heading
-		if ((trimmedLine.includes('<section') || trimmedLine.includes('<article')) && 
-			!trimmedLine.includes('<h1') && !trimmedLine.includes('<h2') && !trimmedLine.includes('<h3') && 
-			!trimmedLine.includes('<h4') && !trimmedLine.includes('<h5') && !trimmedLine.includes('<h6')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (['section', 'article'].includes(element.tagName) &&
+			element.getElementsByTagName(...this.HEADINGS).length === 0) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Section/article should have a heading to describe its purpose',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('section-heading')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for proper navigation structure (MEDIUM PRIORITY)
 	 */
-	static checkNavigationStructure(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkNavigationStructure(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for nav without list structure
-		if (trimmedLine.includes('<nav') && !trimmedLine.includes('<ul') && !trimmedLine.includes('<ol')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.tagName === 'nav' && element.getElementsByTagName('ul', 'ol').length === 0) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Navigation should use list structure (ul/ol) for better screen reader support',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('nav-list')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Check for proper document structure (MANDATORY)
 	 */
-	static checkDocumentStructure(line: string, lineNumber: number, fullText: string): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkDocumentStructure(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		if (element.tagName !== 'head') {
+			return null;
+		}
+
 		// Check for missing title
-		if (trimmedLine.includes('<head') && !fullText.includes('<title>')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (document.getElementsByTagName('title').length === 0) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Document missing title element - add <title> for page identification',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('document-title')
 			};
 		}
 
 		// Check for missing viewport meta tag
-		if (trimmedLine.includes('<head') && !fullText.includes('viewport')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (!document.getElementsByTagName('meta').some(meta => meta.getAttribute('name') === 'viewport')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Missing viewport meta tag - add for responsive design and mobile accessibility',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('meta-viewport')
 			};
 		}
-		
+
 		return null;
 	}
 
 	/**
 	 * Run all semantic HTML checks
 	 */
-	static checkSemanticHtml(line: string, lineNumber: number, fullText: string): AccessibilityIssue[] {
+	static checkSemanticHtml(document: HtmlDocument): AccessibilityIssue[] {
 		const issues: AccessibilityIssue[] = [];
-		
-		const checks = [
-			this.checkHeadingHierarchy(line, lineNumber, fullText),
-			this.checkHtmlLangAttribute(line, lineNumber),
-			this.checkListStructure(line, lineNumber),
-			this.checkTableStructure(line, lineNumber),
-			this.checkFormStructure(line, lineNumber),
-			this.checkButtonUsage(line, lineNumber),
-			this.checkLinkUsage(line, lineNumber),
-			this.checkLandmarkUsage(line, lineNumber),
-			this.checkSectioningElements(line, lineNumber),
-			this.checkNavigationStructure(line, lineNumber),
-			this.checkDocumentStructure(line, lineNumber, fullText)
-		];
-
-		checks.forEach(check => {
-			if (check) {
-				issues.push(check);
-			}
+
+		document.elements.forEach(element => {
+			const checks = [
+				this.checkHeadingHierarchy(element, document),
+				this.checkHtmlLangAttribute(element, document),
+				this.checkListStructure(element, document),
+				this.checkTableStructure(element, document),
+				this.checkFormStructure(element, document),
+				this.checkButtonUsage(element, document),
+				this.checkLinkUsage(element, document),
+				this.checkLandmarkUsage(element, document),
+				this.checkSectioningElements(element, document),
+				this.checkNavigationStructure(element, document),
+				this.checkDocumentStructure(element, document)
+			];
+
+			checks.forEach(check => {
+				if (check) {
+					issues.push(check);
+				}
+			});
 		});
 
 		return issues;
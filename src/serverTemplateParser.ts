@@ -0,0 +1,385 @@
+import * as path from 'path';
+import { BranchTracker } from './branchTracker';
+import { HtmlAttribute, HtmlDocument, HtmlElement, HtmlNode, HtmlParser } from './htmlParser';
+
+/**
+ * What a piece of template syntax contributes to the rendered HTML
+ */
+export type TemplateFragmentKind = 'output' | 'statement' | 'comment';
+
+/**
+ * How a piece of template syntax structures the template: opening a block such as {% if %},
+ * starting its next branch such as {% else %}, or closing it
+ */
+export interface TemplateBlockTag {
+	action: 'open' | 'next' | 'close';
+	// Keyword that pairs the tags of a block, e.g. if for {% if %} and {% endif %}; closing tags
+	// without one end the innermost block
+	name?: string;
+}
+
+/**
+ * A piece of template syntax, e.g. {{ name }} or <% if user %>
+ */
+export interface TemplateFragment {
+	kind: TemplateFragmentKind;
+	start: number;
+	end: number;
+	block?: TemplateBlockTag;
+}
+
+interface TemplateDelimiter {
+	open: string;
+	close: string;
+	// Fixed kind, or a function of the text between the delimiters
+	kind: TemplateFragmentKind | ((content: string) => TemplateFragmentKind);
+	// Block structure of the text between the delimiters, if any
+	block?: (content: string) => TemplateBlockTag | null;
+}
+
+/**
+ * Checks HTML written in server-side template languages; template syntax is masked before
+ * parsing, keeping every offset, and attributes built from it count as present but unknown
+ */
+export class ServerTemplateParser {
+	private static readonly HANDLEBARS: TemplateDelimiter[] = [
+		{ open: '{{!--', close: '--}}', kind: 'comment' },
+		{ open: '{{{', close: '}}}', kind: 'output' },
+		{
+			open: '{{', close: '}}',
+			kind: content => /^~?\s*!/.test(content) ? 'comment' : /^~?\s*([#/^]|else\b)/.test(content) ? 'statement' : 'output',
+			block: content => {
+				const [, sigil, name] = /^~?\s*([#^/]|else\b)\s*[*>]?\s*([^\s~]*)/.exec(content) ?? [];
+				if (sigil === 'else' || (sigil === '^' && !name)) {
+					return { action: 'next' };
+				}
+				return sigil ? { action: sigil === '/' ? 'close' : 'open', name: name } : null;
+			}
+		}
+	];
+
+	private static readonly JINJA: TemplateDelimiter[] = [
+		{ open: '{#', close: '#}', kind: 'comment' },
+		{
+			open: '{%', close: '%}', kind: 'statement',
+			block: content => {
+				const [, tag, rest] = /^[-+]?\s*(\w+)(.*)/s.exec(content) ?? [];
+				if (['if', 'for', 'block', 'macro', 'call', 'filter', 'with', 'autoescape', 'raw', 'trans'].includes(tag) || (tag === 'set' && !rest.includes('='))) {
+					return { action: 'open', name: tag };
+				}
+				if (['elif', 'elseif', 'else', 'empty'].includes(tag)) {
+					return { action: 'next' };
+				}
+				return tag?.startsWith('end') ? { action: 'close', name: tag.substring(3) } : null;
+			}
+		},
+		{ open: '{{', close: '}}', kind: 'output' }
+	];
+
+	private static readonly ERB: TemplateDelimiter[] = [
+		{ open: '<%#', close: '%>', kind: 'comment' },
+		{ open: '<%=', close: '%>', kind: 'output', block: content => this.getRubyBlock(content) },
+		{ open: '<%-', close: '%>', kind: 'output', block: content => this.getRubyBlock(content) },
+		{ open: '<%', close: '%>', kind: 'statement', block: content => this.getRubyBlock(content) }
+	];
+
+	private static readonly PHP: TemplateDelimiter[] = [
+		{ open: '<?=', close: '?>', kind: 'output' },
+		{
+			open: '<?', close: '?>',
+			kind: content => /^(php)?\s+(echo|print)\b/i.test(content) ? 'output' : 'statement',
+			// Control structures in colon or brace syntax that wrap markup
+			block: content => {
+				const code = content.replace(/^php\b/i, '').trim();
+				if (/^(if|foreach|for|while|switch)\b.*[:{]$/s.test(code)) {
+					return { action: 'open' };
+				}
+				if (/^\}?\s*(else\s*if|elseif|else)\b.*[:{]$/s.test(code)) {
+					return { action: 'next' };
+				}
+				return /^(endif|endforeach|endfor|endwhile|endswitch)\b|^\}$/.test(code) ? { action: 'close' } : null;
+			}
+		}
+	];
+
+	// Delimited template languages by file extension; Razor is found by findRazorFragments
+	private static readonly LANGUAGES: Record<string, TemplateDelimiter[]> = {
+		'.hbs': this.HANDLEBARS,
+		'.handlebars': this.HANDLEBARS,
+		'.mustache': this.HANDLEBARS,
+		'.njk': this.JINJA,
+		'.nunjucks': this.JINJA,
+		'.jinja': this.JINJA,
+		'.jinja2': this.JINJA,
+		'.j2': this.JINJA,
+		'.erb': this.ERB,
+		'.php': this.PHP
+	};
+
+	private static readonly RAZOR_FILE_TYPES = ['.cshtml', '.razor'];
+
+	// Razor keywords followed by a C# block or a parenthesized header and a markup block
+	private static readonly RAZOR_CODE_BLOCKS = ['code', 'functions'];
+	private static readonly RAZOR_CONTROL_KEYWORDS = ['if', 'for', 'foreach', 'while', 'do', 'switch', 'using', 'lock', 'try', 'section'];
+	// Razor directives that take the rest of their line
+	private static readonly RAZOR_DIRECTIVES = ['model', 'using', 'inject', 'page', 'namespace', 'inherits', 'layout', 'implements', 'attribute', 'addTagHelper', 'removeTagHelper', 'tagHelperPrefix', 'rendermode', 'typeparam'];
+
+	/**
+	 * File extensions of the supported template languages
+	 */
+	static getFileTypes(): string[] {
+		return [...Object.keys(this.LANGUAGES), ...this.RAZOR_FILE_TYPES];
+	}
+
+	/**
+	 * Parse a template: output tags become opaque text, statements and comments are blanked out,
+	 * and the element tree keeps the offsets of the template file
+	 */
+	static parse(text: string, fileName: string): HtmlDocument {
+		const fragments = this.findFragments(text, fileName);
+
+		// Masked text is parsed; display text is what text nodes and attribute values show
+		const masked = text.split('');
+		const display = text.split('');
+		fragments.forEach(fragment => {
+			for (let i = fragment.start; i < fragment.end; i++) {
+				if (text[i] !== '\n') {
+					masked[i] = fragment.kind === 'output' ? '_' : ' ';
+					display[i] = fragment.kind === 'output' ? text[i] : ' ';
+				}
+			}
+		});
+		const displayText = display.join('');
+
+		const parsed = HtmlParser.parse(masked.join(''));
+		parsed.elements.forEach(element => this.convertAttributes(element, fragments, displayText));
+		this.markBranches(fragments, parsed.elements, text.length);
+		this.restoreText(parsed.children, displayText);
+
+		const document = new HtmlDocument(text);
+		document.children.push(...parsed.children);
+		document.elements.push(...parsed.elements);
+		document.comments.push(...parsed.comments);
+		return document;
+	}
+
+	/**
+	 * Find the template syntax in a file, in source order
+	 */
+	static findFragments(text: string, fileName: string): TemplateFragment[] {
+		const extension = path.extname(fileName).toLowerCase();
+		if (this.RAZOR_FILE_TYPES.includes(extension)) {
+			return this.findRazorFragments(text);
+		}
+
+		const delimiters = this.LANGUAGES[extension] ?? [];
+		const fragments: TemplateFragment[] = [];
+		let position = 0;
+		while (position < text.length) {
+			const delimiter = delimiters.find(candidate => text.startsWith(candidate.open, position));
+			if (!delimiter) {
+				position++;
+				continue;
+			}
+
+			const closeStart = text.indexOf(delimiter.close, position + delimiter.open.length);
+			const end = closeStart === -1 ? text.length : closeStart + delimiter.close.length;
+			const content = text.substring(position + delimiter.open.length, closeStart === -1 ? text.length : closeStart);
+			const block = delimiter.block?.(content);
+			fragments.push({
+				kind: typeof delimiter.kind === 'function' ? delimiter.kind(content) : delimiter.kind,
+				start: position,
+				end: end,
+				...(block ? { block: block } : {})
+			});
+			position = end;
+		}
+		return fragments;
+	}
+
+	/**
+	 * Find Razor code: @* comments *@, @{ blocks }, @( expressions ), directives, control flow
+	 * headers with the braces closing their markup blocks, and implicit @Model.Name expressions
+	 */
+	private static findRazorFragments(text: string): TemplateFragment[] {
+		const fragments: TemplateFragment[] = [];
+		// Markup blocks opened by control flow whose closing brace is still ahead
+		let openBlocks = 0;
+		let position = 0;
+
+		while (position < text.length) {
+			const char = text[position];
+
+			if (char === '}' && openBlocks > 0) {
+				// The block may continue with else, else if, catch or finally
+				const continuation = /^\}\s*(else\s+if\s*\(|else\b|catch\s*\(|finally\b)/.exec(text.substring(position, position + 64));
+				let end = position + 1;
+				openBlocks--;
+				if (continuation) {
+					end = this.findBlockStart(text, position + continuation[0].length - (continuation[0].endsWith('(') ? 1 : 0));
+					openBlocks++;
+				}
+				fragments.push({ kind: 'statement', start: position, end: end, block: { action: continuation ? 'next' : 'close' } });
+				position = end;
+				continue;
+			}
+
+			if (char !== '@' || /[\w.]/.test(text[position - 1] ?? '')) {
+				position++;
+				continue;
+			}
+
+			const next = text[position + 1] ?? '';
+			const word = /^[A-Za-z_]\w*/.exec(text.substring(position + 1, position + 65))?.[0] ?? '';
+			let fragment: TemplateFragment;
+			if (next === '@') {
+				// @@ is an escaped @
+				position += 2;
+				continue;
+			} else if (next === '*') {
+				const commentEnd = text.indexOf('*@', position + 2);
+				fragment = { kind: 'comment', start: position, end: commentEnd === -1 ? text.length : commentEnd + 2 };
+			} else if (next === '{' || this.RAZOR_CODE_BLOCKS.includes(word)) {
+				const braceStart = text.indexOf('{', position);
+				fragment = { kind: 'statement', start: position, end: braceStart === -1 ? text.length : this.findBalancedEnd(text, braceStart) };
+			} else if (next === '(') {
+				fragment = { kind: 'output', start: position, end: this.findBalancedEnd(text, position + 1) };
+			} else if (this.RAZOR_CONTROL_KEYWORDS.includes(word) && (word === 'section' || /^\s*[({]/.test(text.substring(position + 1 + word.length)))) {
+				fragment = { kind: 'statement', start: position, end: this.findBlockStart(text, position + 1 + word.length), block: { action: 'open', name: word } };
+				openBlocks++;
+			} else if (this.RAZOR_DIRECTIVES.includes(word)) {
+				const lineEnd = text.indexOf('\n', position);
+				fragment = { kind: 'statement', start: position, end: lineEnd === -1 ? text.length : lineEnd };
+			} else if (word) {
+				fragment = { kind: 'output', start: position, end: this.findImplicitExpressionEnd(text, position + 1 + word.length) };
+			} else {
+				position++;
+				continue;
+			}
+
+			fragments.push(fragment);
+			position = fragment.end;
+		}
+		return fragments;
+	}
+
+	/**
+	 * Block structure of ERB code; Ruby blocks all close with end, which ends the innermost one
+	 */
+	private static getRubyBlock(content: string): TemplateBlockTag | null {
+		const code = content.replace(/^-/, '').replace(/-$/, '').trim();
+		if (/^(if|unless|case|while|until|for|begin)\b/.test(code) || /\bdo(\s*\|[^|]*\|)?$/.test(code)) {
+			return { action: 'open' };
+		}
+		if (/^(elsif|else|when|rescue|ensure)\b/.test(code)) {
+			return { action: 'next' };
+		}
+		return /^end\b/.test(code) ? { action: 'close' } : null;
+	}
+
+	/**
+	 * Put elements into the branches of the blocks around them, so elements in {{#if}} and
+	 * {{else}} are known not to render together
+	 */
+	private static markBranches(fragments: TemplateFragment[], elements: HtmlElement[], textLength: number): void {
+		const tracker = new BranchTracker();
+		fragments.forEach(fragment => {
+			if (fragment.block?.action === 'open') {
+				tracker.open(fragment.end, fragment.block.name ?? '');
+			} else if (fragment.block?.action === 'next') {
+				tracker.next(fragment.start, fragment.end);
+			} else if (fragment.block?.action === 'close') {
+				tracker.close(fragment.start, fragment.block.name);
+			}
+		});
+		tracker.assign(elements, textLength);
+	}
+
+	/**
+	 * Offset just past the { opening a block, skipping a parenthesized header before it
+	 */
+	private static findBlockStart(text: string, position: number): number {
+		while (position < text.length && text[position] !== '{') {
+			position = text[position] === '(' ? this.findBalancedEnd(text, position) : position + 1;
+		}
+		return Math.min(position + 1, text.length);
+	}
+
+	/**
+	 * Offset just past the end of an implicit expression, e.g. @Model.Items[0].Name or @Html.Raw(x)
+	 */
+	private static findImplicitExpressionEnd(text: string, position: number): number {
+		while (position < text.length) {
+			if (text[position] === '(' || text[position] === '[') {
+				position = this.findBalancedEnd(text, position);
+			} else if (text[position] === '.' && /[A-Za-z_]/.test(text[position + 1] ?? '')) {
+				position++;
+				while (position < text.length && /\w/.test(text[position])) {
+					position++;
+				}
+			} else {
+				break;
+			}
+		}
+		return position;
+	}
+
+	/**
+	 * Offset just past the bracket closing the one at the given offset, skipping string literals
+	 */
+	private static findBalancedEnd(text: string, start: number): number {
+		const open = text[start];
+		const close = open === '(' ? ')' : open === '[' ? ']' : '}';
+		let depth = 0;
+		for (let i = start; i < text.length; i++) {
+			const char = text[i];
+			if (char === '"' || char === "'") {
+				i++;
+				while (i < text.length && text[i] !== char && text[i] !== '\n') {
+					i += text[i] === '\\' ? 2 : 1;
+				}
+			} else if (char === open) {
+				depth++;
+			} else if (char === close && --depth === 0) {
+				return i + 1;
+			}
+		}
+		return text.length;
+	}
+
+	/**
+	 * Attributes whose name is template output may be any attribute; values built from template
+	 * syntax are dynamic
+	 */
+	private static convertAttributes(element: HtmlElement, fragments: TemplateFragment[], displayText: string): void {
+		const overlaps = (start: number, end: number) =>
+			fragments.some(fragment => fragment.start < end && start < fragment.end);
+
+		element.attributes = element.attributes.flatMap((attribute): HtmlAttribute[] => {
+			if (overlaps(attribute.start, attribute.start + attribute.rawName.length)) {
+				element.hasSpreadAttributes = true;
+				return [];
+			}
+			if (attribute.value !== null && overlaps(attribute.valueStart, attribute.valueEnd)) {
+				const value = HtmlParser.decodeEntities(displayText.substring(attribute.valueStart, attribute.valueEnd));
+				return [{ ...attribute, value: value, dynamic: true }];
+			}
+			return [attribute];
+		});
+	}
+
+	/**
+	 * Take text from the display text, so output tags read as their source
+	 */
+	private static restoreText(nodes: HtmlNode[], displayText: string): void {
+		nodes.forEach(node => {
+			if (node.type === 'element') {
+				this.restoreText(node.children, displayText);
+			} else if (node.type === 'text') {
+				const source = displayText.substring(node.start, node.end);
+				const isRawText = node.parent?.tagName === 'script' || node.parent?.tagName === 'style';
+				node.text = isRawText ? source : HtmlParser.decodeEntities(source);
+			}
+		});
+	}
+}
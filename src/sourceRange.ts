@@ -0,0 +1,15 @@
+/**
+ * Zero-based line and character position in a source file
+ */
+export interface SourcePosition {
+	line: number;
+	character: number;
+}
+
+/**
+ * Range in a source file; structurally compatible with vscode.Range so editor code can convert it directly
+ */
+export interface SourceRange {
+	start: SourcePosition;
+	end: SourcePosition;
+}
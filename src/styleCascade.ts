@@ -0,0 +1,496 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HtmlDocument, HtmlElement, StyleDeclaration, StyleRule } from './htmlParser';
+import { SelectorMatcher, Specificity } from './selectorMatcher';
+import { StylesheetDocument, StylesheetParser } from './stylesheetParser';
+import { TailwindStyles } from './tailwindStyles';
+import { TailwindTheme } from './tailwindTheme';
+
+/**
+ * A rule taking part in the cascade and the file it was written in
+ */
+export interface CascadeSource {
+	rule: StyleRule;
+	// Document the rule's offsets point into; a linked stylesheet or the checked file
+	document: HtmlDocument;
+	fileName: string;
+	// Tailwind class the rule was generated from; its offsets are those of the class name
+	utilityClass?: string;
+}
+
+/**
+ * A declaration that applies to an element, with var() references resolved
+ */
+export interface CascadedDeclaration {
+	declaration: StyleDeclaration;
+	source: CascadeSource;
+	// The value with custom properties substituted; null when one of them cannot be resolved
+	value: string | null;
+	specificity: Specificity;
+	// Position in the cascade; later declarations win ties
+	order: number;
+}
+
+/**
+ * User setting a cascade is resolved for: the default light scheme, dark mode, increased
+ * contrast (prefers-contrast: more) and forced colors (e.g. Windows contrast themes)
+ */
+export type ColorScheme = 'light' | 'dark' | 'increased-contrast' | 'forced-colors';
+
+/**
+ * Resolves which declarations apply to each element of a page, from its <style> blocks, the
+ * stylesheets it links to, Tailwind utility classes and inline styles, ordered by importance,
+ * specificity and position
+ */
+export class StyleCascade {
+	// Nesting limit for custom properties that refer to each other
+	private static readonly MAX_VARIABLE_DEPTH = 16;
+	private static readonly cascades = new WeakMap<HtmlDocument, Map<ColorScheme, StyleCascade>>();
+	// Selector parts that turn on a dark theme set by script, e.g. [data-theme="dark"] or .dark
+	private static readonly DARK_THEME_SELECTOR = /\[\s*(?:data-)?(?:[\w-]*-)?(?:theme|color-scheme|scheme|mode)\s*=\s*(["']?)dark\1\s*\]|\.(?:dark|dark-mode|dark-theme|theme-dark)(?![\w-])/gi;
+	// Linked stylesheets by path, reparsed when the file changes
+	private static readonly stylesheets = new Map<string, { modified: number; document: StylesheetDocument }>();
+
+	private sources: CascadeSource[] | null = null;
+	// Matched declarations by element and states, before and after var() substitution
+	private readonly raw = new Map<HtmlElement, Map<string, CascadedDeclaration[]>>();
+	private readonly resolved = new Map<HtmlElement, Map<string, CascadedDeclaration[]>>();
+
+	private constructor(
+		private readonly document: HtmlDocument,
+		private readonly fileName: string,
+		readonly scheme: ColorScheme
+	) { }
+
+	/**
+	 * Cascade of a parsed document for a color scheme; linked stylesheets are read when it is
+	 * first used
+	 */
+	static forDocument(document: HtmlDocument, fileName: string, scheme: ColorScheme = 'light'): StyleCascade {
+		let cascades = this.cascades.get(document);
+		if (!cascades) {
+			cascades = new Map();
+			this.cascades.set(document, cascades);
+		}
+		let cascade = cascades.get(scheme);
+		if (!cascade) {
+			cascade = new StyleCascade(document, fileName, scheme);
+			cascades.set(scheme, cascade);
+		}
+		return cascade;
+	}
+
+	/**
+	 * Check whether rules under these at-rule conditions apply on a screen in a color scheme;
+	 * print styles never do, and with the default light scheme neither do dark mode, contrast
+	 * preferences or forced colors
+	 */
+	static appliesToScreen(conditions: string[], scheme: ColorScheme = 'light'): boolean {
+		return conditions.every(condition => {
+			if (!/^@media\b/i.test(condition)) {
+				return true;
+			}
+			return condition.replace(/^@media\s*/i, '').toLowerCase().split(',').some(query => {
+				const mediaType = /^\s*(?:only\s+)?(not\s+)?([a-z]+)?/.exec(query)!;
+				const targetsOtherMedia = mediaType[2] !== undefined && !['screen', 'all', 'and'].includes(mediaType[2]);
+				if (mediaType[1]) {
+					return targetsOtherMedia;
+				}
+				return !targetsOtherMedia && Array.from(query.matchAll(/\(\s*(prefers-color-scheme|prefers-contrast|forced-colors|inverted-colors)\s*:\s*([a-z-]+)\s*\)/g))
+					.every(([, feature, value]) => this.matchesPreference(feature, value, scheme));
+			});
+		});
+	}
+
+	/**
+	 * Check whether a selector only applies under a dark theme set by script, e.g. on
+	 * [data-theme="dark"] .card or .dark .card
+	 */
+	static isDarkThemeSelector(selector: string): boolean {
+		return selector.match(this.DARK_THEME_SELECTOR) !== null;
+	}
+
+	/**
+	 * Check whether a user preference media feature, e.g. (forced-colors: active), matches a scheme
+	 */
+	private static matchesPreference(feature: string, value: string, scheme: ColorScheme): boolean {
+		switch (feature) {
+			case 'prefers-color-scheme':
+				return (value === 'dark') === (scheme === 'dark');
+			case 'prefers-contrast':
+				// Forced colors modes report their own contrast as a custom preference
+				return value === 'no-preference' ? scheme !== 'increased-contrast' && scheme !== 'forced-colors'
+					: (value === 'more' && scheme === 'increased-contrast') || (value === 'custom' && scheme === 'forced-colors');
+			case 'forced-colors':
+				return (value === 'active') === (scheme === 'forced-colors');
+			default:
+				return value === 'none';
+		}
+	}
+
+	/**
+	 * Cascade of the same document in another color scheme
+	 */
+	withScheme(scheme: ColorScheme): StyleCascade {
+		return StyleCascade.forDocument(this.document, this.fileName, scheme);
+	}
+
+	/**
+	 * Schemes whose styles differ from the default light one for this document, starting with
+	 * light: dark mode when the page has dark styles or lets the browser draw a dark canvas,
+	 * increased contrast and forced colors when it has styles for them
+	 */
+	getColorSchemes(): ColorScheme[] {
+		const schemes: ColorScheme[] = ['light'];
+		const conditions = this.getSources().flatMap(source => source.rule.conditions).join(' ');
+		const declarations = [...this.getSources().map(source => source.rule), ...this.document.getStyleRules()]
+			.flatMap(rule => rule.declarations);
+		if (/prefers-color-scheme/i.test(conditions) || this.getSources().some(source => source.rule.selector !== null && StyleCascade.isDarkThemeSelector(source.rule.selector)) ||
+			declarations.some(declaration => /light-dark\(/i.test(declaration.value)) || this.allowsDarkCanvas()) {
+			schemes.push('dark');
+		}
+		if (/prefers-contrast/i.test(conditions)) {
+			schemes.push('increased-contrast');
+		}
+		if (/forced-colors/i.test(conditions) || declarations.some(declaration => declaration.property === 'forced-color-adjust')) {
+			schemes.push('forced-colors');
+		}
+		return schemes;
+	}
+
+	/**
+	 * Check whether the page opts into a dark canvas and default text colors in dark mode, with
+	 * <meta name="color-scheme"> or the color-scheme property on the root element
+	 */
+	allowsDarkCanvas(): boolean {
+		const meta = this.document.elements.find(element => element.tagName === 'meta' && element.getAttribute('name')?.toLowerCase() === 'color-scheme');
+		if (meta) {
+			return /\bdark\b/i.test(meta.getAttribute('content') ?? '');
+		}
+		const root = this.document.elements.find(element => element.parent === null && element.tagName === 'html');
+		const declaration = root ? this.getDeclaration(root, ['color-scheme']) : null;
+		return /\bdark\b/i.test(declaration?.value ?? '');
+	}
+
+	/**
+	 * Style rules that take part in the cascade, in cascade order; inline styles are not included
+	 */
+	getSources(): CascadeSource[] {
+		if (!this.sources) {
+			this.sources = this.collectSources();
+		}
+		return this.sources;
+	}
+
+	/**
+	 * Declarations that apply to an element in the given states (e.g. ['focus']), from lowest to
+	 * highest precedence
+	 */
+	getMatchedDeclarations(element: HtmlElement, states: string[] = []): CascadedDeclaration[] {
+		return this.getCached(this.resolved, element, states, () =>
+			this.getRawDeclarations(element, states).map(declaration => {
+				const value = this.resolveVariables(declaration.declaration.value, element, states, 0);
+				return { ...declaration, value: value === null ? null : this.resolveLightDark(value) };
+			})
+		);
+	}
+
+	/**
+	 * The declaration that wins among the given properties, e.g. ['background', 'background-color'],
+	 * or null when none of them is set on the element itself
+	 */
+	getDeclaration(element: HtmlElement, properties: string[], states: string[] = []): CascadedDeclaration | null {
+		const declarations = this.getMatchedDeclarations(element, states);
+		for (let i = declarations.length - 1; i >= 0; i--) {
+			if (properties.includes(declarations[i].declaration.property)) {
+				return declarations[i];
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * The declaration that sets a custom property for an element: its own, or that of the nearest
+	 * ancestor that sets it, along with the element it is set on
+	 */
+	getCustomPropertyDeclaration(element: HtmlElement, name: string, states: string[] = []): { declaration: CascadedDeclaration; element: HtmlElement } | null {
+		for (let current: HtmlElement | null = element; current; current = current.parent) {
+			const declaration = this.getRawDeclarations(current, current === element ? states : [])
+				.filter(candidate => candidate.declaration.property === name)
+				.pop();
+			if (declaration) {
+				return { declaration: declaration, element: current };
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Where a declaration comes from, for messages: "inline style", ".card (site.css:12)" or
+	 * "class text-gray-400 (page.html:3)"
+	 */
+	static describeSource(declaration: CascadedDeclaration): string {
+		const { rule, document, fileName, utilityClass } = declaration.source;
+		if (rule.selector === null) {
+			return 'inline style';
+		}
+		const line = document.positionAt(declaration.declaration.start).line + 1;
+		return `${utilityClass ? `class ${utilityClass}` : rule.selector} (${path.basename(fileName)}:${line})`;
+	}
+
+	/**
+	 * <style> blocks and linked stylesheets in document order, then the utility classes of a
+	 * Tailwind project; a stylesheet file is its own source
+	 */
+	private collectSources(): CascadeSource[] {
+		if (this.document instanceof StylesheetDocument) {
+			return this.document.getStyleRules().map(rule => ({ rule: rule, document: this.document, fileName: this.fileName }));
+		}
+
+		const sources: CascadeSource[] = [];
+		const styleRules = this.document.getStyleRules();
+		this.document.elements.forEach(element => {
+			if (element.tagName === 'style') {
+				styleRules
+					.filter(rule => rule.element === element && rule.selector !== null)
+					.forEach(rule => sources.push({ rule: rule, document: this.document, fileName: this.fileName }));
+			} else if (element.tagName === 'link') {
+				const linked = this.loadLinkedStylesheet(element);
+				if (linked) {
+					linked.document.getStyleRules().forEach(rule => sources.push({ rule: rule, document: linked.document, fileName: linked.fileName }));
+				}
+			}
+		});
+
+		const theme = TailwindTheme.forFile(this.fileName);
+		if (theme) {
+			TailwindStyles.getRules(this.document, theme).forEach(({ rule, className }) =>
+				sources.push({ rule: rule, document: this.document, fileName: this.fileName, utilityClass: className })
+			);
+		}
+		return sources;
+	}
+
+	/**
+	 * Parse the stylesheet a <link> points to, if it is a local file that applies to screens
+	 */
+	private loadLinkedStylesheet(link: HtmlElement): { document: StylesheetDocument; fileName: string } | null {
+		const rel = (link.getAttribute('rel') ?? '').toLowerCase().split(/\s+/);
+		const href = link.getAttributeNode('href');
+		const media = link.getAttribute('media');
+		if (!rel.includes('stylesheet') || rel.includes('alternate') || link.hasAttribute('disabled') ||
+			!href || href.dynamic || !href.value || (media && !StyleCascade.appliesToScreen([`@media ${media}`]))) {
+			return null;
+		}
+
+		const fileName = this.resolveStylesheetPath(href.value);
+		if (!fileName) {
+			return null;
+		}
+		try {
+			const modified = fs.statSync(fileName).mtimeMs;
+			const cached = StyleCascade.stylesheets.get(fileName);
+			if (cached && cached.modified === modified) {
+				return { document: cached.document, fileName: fileName };
+			}
+			const document = StylesheetParser.parse(fs.readFileSync(fileName, 'utf8'), fileName);
+			StyleCascade.stylesheets.set(fileName, { modified: modified, document: document });
+			return { document: document, fileName: fileName };
+		} catch (error) {
+			console.error(`Could not read stylesheet ${fileName}: ${error instanceof Error ? error.message : error}`);
+			return null;
+		}
+	}
+
+	/**
+	 * Local path of a stylesheet URL; root-relative URLs are looked up from each folder above the
+	 * page, since the site root is not known. Remote stylesheets are not followed.
+	 */
+	private resolveStylesheetPath(href: string): string | null {
+		const url = href.split(/[?#]/)[0];
+		if (!url || /^([a-z][a-z\d+.-]*:|\/\/)/i.test(url)) {
+			return null;
+		}
+
+		let relativePath: string;
+		try {
+			relativePath = decodeURI(url);
+		} catch {
+			return null;
+		}
+		const directory = path.dirname(path.resolve(this.fileName));
+		if (!relativePath.startsWith('/')) {
+			const candidate = path.resolve(directory, relativePath);
+			return fs.existsSync(candidate) ? candidate : null;
+		}
+
+		for (let current = directory; ; current = path.dirname(current)) {
+			const candidate = path.join(current, relativePath);
+			if (fs.existsSync(candidate)) {
+				return candidate;
+			}
+			if (path.dirname(current) === current) {
+				return null;
+			}
+		}
+	}
+
+	/**
+	 * Matched declarations with their values as written
+	 */
+	private getRawDeclarations(element: HtmlElement, states: string[]): CascadedDeclaration[] {
+		return this.getCached(this.raw, element, states, () => this.matchDeclarations(element, states));
+	}
+
+	/**
+	 * Collect the declarations of matching rules and the inline style and sort them by
+	 * !important, inline versus selector, specificity and position
+	 */
+	private matchDeclarations(element: HtmlElement, states: string[]): CascadedDeclaration[] {
+		const declarations: (CascadedDeclaration & { inline: boolean })[] = [];
+		let order = 0;
+
+		this.getSources().forEach(source => {
+			// A utility rule stands for one occurrence of its class, so it applies to that element only
+			const specificity = StyleCascade.appliesToScreen(source.rule.conditions, this.scheme) && source.rule.selector !== null &&
+				(!source.utilityClass || source.rule.element === element)
+				? SelectorMatcher.match(element, this.getSchemeSelector(source.rule.selector), states)
+				: null;
+			source.rule.declarations.forEach(declaration => {
+				order++;
+				if (specificity) {
+					declarations.push({ declaration: declaration, source: source, value: null, specificity: specificity, order: order, inline: false });
+				}
+			});
+		});
+
+		const inlineRule = this.document.getStyleRules().find(rule => rule.selector === null && rule.element === element);
+		inlineRule?.declarations.forEach(declaration => {
+			order++;
+			const source = { rule: inlineRule, document: this.document, fileName: this.fileName };
+			declarations.push({ declaration: declaration, source: source, value: null, specificity: [0, 0, 0], order: order, inline: true });
+		});
+
+		declarations.sort((a, b) =>
+			Number(a.declaration.important) - Number(b.declaration.important) ||
+			Number(a.inline) - Number(b.inline) ||
+			SelectorMatcher.compareSpecificity(a.specificity, b.specificity) ||
+			a.order - b.order
+		);
+		return declarations.map(({ inline: _inline, ...declaration }) => declaration);
+	}
+
+	/**
+	 * Selector as it applies in this scheme: in dark mode a dark theme class or attribute is taken
+	 * to be set on the root element or body, where scripts usually put it
+	 */
+	private getSchemeSelector(selector: string): string {
+		return this.scheme === 'dark' ? selector.replace(StyleCascade.DARK_THEME_SELECTOR, ':is(html, body)') : selector;
+	}
+
+	/**
+	 * Pick the value for this scheme from light-dark(light, dark) functions
+	 */
+	private resolveLightDark(value: string): string {
+		let result = '';
+		let position = 0;
+		for (let start = value.search(/light-dark\(/i); start !== -1; start = this.findNext(value, /light-dark\(/i, position)) {
+			const end = this.findClosingParenthesis(value, start + 10);
+			const inner = value.substring(start + 11, end - 1);
+			let depth = 0;
+			const comma = Array.from(inner).findIndex(char => {
+				depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+				return char === ',' && depth === 0;
+			});
+			const choice = comma === -1 ? inner : this.scheme === 'dark' ? inner.substring(comma + 1) : inner.substring(0, comma);
+			result += value.substring(position, start) + this.resolveLightDark(choice.trim());
+			position = end;
+		}
+		return result + value.substring(position);
+	}
+
+	private getCached(
+		cache: Map<HtmlElement, Map<string, CascadedDeclaration[]>>,
+		element: HtmlElement,
+		states: string[],
+		compute: () => CascadedDeclaration[]
+	): CascadedDeclaration[] {
+		const key = states.join(' ');
+		let byState = cache.get(element);
+		if (!byState) {
+			byState = new Map();
+			cache.set(element, byState);
+		}
+		let declarations = byState.get(key);
+		if (!declarations) {
+			declarations = compute();
+			byState.set(key, declarations);
+		}
+		return declarations;
+	}
+
+	/**
+	 * Substitute var(--name, fallback) references with the custom property values the element
+	 * inherits; null when a reference has no value and no fallback
+	 */
+	private resolveVariables(value: string, element: HtmlElement, states: string[], depth: number): string | null {
+		if (!/var\(/i.test(value)) {
+			return value;
+		}
+		if (depth > StyleCascade.MAX_VARIABLE_DEPTH) {
+			return null;
+		}
+
+		let result = '';
+		let position = 0;
+		for (let start = value.search(/var\(/i); start !== -1; start = this.findNext(value, /var\(/i, position)) {
+			const end = this.findClosingParenthesis(value, start + 3);
+			const inner = value.substring(start + 4, end - 1);
+			const comma = inner.indexOf(',');
+			const name = (comma === -1 ? inner : inner.substring(0, comma)).trim();
+			const fallback = comma === -1 ? null : inner.substring(comma + 1).trim();
+
+			let replacement = this.getCustomProperty(element, name, states, depth);
+			if (replacement === null && fallback !== null) {
+				replacement = this.resolveVariables(fallback, element, states, depth + 1);
+			}
+			if (replacement === null) {
+				return null;
+			}
+			result += value.substring(position, start) + replacement;
+			position = end;
+		}
+		return result + value.substring(position);
+	}
+
+	/**
+	 * Custom property value set on the element or inherited from its ancestors, with the var()
+	 * references in it resolved where it is set
+	 */
+	private getCustomProperty(element: HtmlElement, name: string, states: string[], depth: number): string | null {
+		const found = this.getCustomPropertyDeclaration(element, name, states);
+		return found
+			? this.resolveVariables(found.declaration.declaration.value, found.element, found.element === element ? states : [], depth + 1)
+			: null;
+	}
+
+	private findNext(value: string, pattern: RegExp, position: number): number {
+		const next = value.substring(position).search(pattern);
+		return next === -1 ? -1 : position + next;
+	}
+
+	/**
+	 * Offset just past the ) closing the ( at the given offset
+	 */
+	private findClosingParenthesis(value: string, start: number): number {
+		let depth = 0;
+		for (let i = start; i < value.length; i++) {
+			if (value[i] === '(') {
+				depth++;
+			} else if (value[i] === ')' && --depth === 0) {
+				return i + 1;
+			}
+		}
+		return value.length;
+	}
+}
@@ -0,0 +1,162 @@
+import * as path from 'path';
+import postcss from 'postcss';
+import postcssLess from 'postcss-less';
+import postcssScss from 'postcss-scss';
+import { HtmlDocument, StyleDeclaration, StyleRule } from './htmlParser';
+
+/**
+ * A .css, .scss or .less file; it has no elements, only style rules
+ */
+export class StylesheetDocument extends HtmlDocument {
+	constructor(text: string, private readonly rules: StyleRule[]) {
+		super(text);
+	}
+
+	getStyleRules(): StyleRule[] {
+		return this.rules;
+	}
+}
+
+/**
+ * Parses standalone stylesheets with PostCSS, using the SCSS and Less syntaxes for those files
+ */
+export class StylesheetParser {
+	static readonly FILE_TYPES = ['.css', '.scss', '.less'];
+
+	/**
+	 * Parse a stylesheet into rules with resolved selectors; a file that does not parse yields
+	 * no rules rather than an error
+	 */
+	static parse(text: string, fileName: string): StylesheetDocument {
+		let root: postcss.Root;
+		try {
+			root = this.getParser(fileName)(text, { from: fileName });
+		} catch (error) {
+			console.error(`Could not parse stylesheet ${fileName}: ${error instanceof Error ? error.message : error}`);
+			return new StylesheetDocument(text, []);
+		}
+
+		const rules: StyleRule[] = [];
+		const document = new StylesheetDocument(text, rules);
+
+		root.walk(node => {
+			if (node.type === 'comment') {
+				document.comments.push({
+					type: 'comment',
+					data: node.text,
+					start: this.getStart(node),
+					end: this.getEnd(node, text),
+					parent: null
+				});
+			} else if (node.type === 'rule' && !this.isInsideAtRule(node, ['mixin', 'function', 'keyframes', 'font-face'])) {
+				const declarations = node.nodes
+					// Sass and Less variables are not declarations; custom properties are
+					.filter((child): child is postcss.Declaration => child.type === 'decl' && (!child.variable || child.prop.startsWith('--')))
+					.map(declaration => this.createDeclaration(declaration));
+				rules.push({
+					selector: this.resolveSelectors(node).join(', '),
+					conditions: this.getConditions(node),
+					element: null,
+					start: this.getStart(node),
+					end: this.getEnd(node, text),
+					declarations: declarations
+				});
+			}
+		});
+
+		return document;
+	}
+
+	/**
+	 * PostCSS parser for the syntax of a file
+	 */
+	private static getParser(fileName: string): postcss.Parser<postcss.Root> {
+		switch (path.extname(fileName).toLowerCase()) {
+			case '.scss':
+				return postcssScss.parse;
+			case '.less':
+				return postcssLess.parse;
+			default:
+				return postcss.parse;
+		}
+	}
+
+	/**
+	 * Convert a declaration, with the value's offsets taken from its raw source text
+	 */
+	private static createDeclaration(declaration: postcss.Declaration): StyleDeclaration {
+		const start = this.getStart(declaration);
+		const valueStart = start + declaration.prop.length + (declaration.raws.between ?? ':').length;
+		const rawValue = declaration.raws.value?.raw ?? declaration.value;
+		return {
+			property: declaration.prop.startsWith('--') ? declaration.prop : declaration.prop.toLowerCase(),
+			value: declaration.value,
+			important: declaration.important === true,
+			start: start,
+			// Up to the end of the value or !important, without the semicolon
+			end: start + declaration.toString().length,
+			valueStart: valueStart,
+			valueEnd: valueStart + rawValue.length
+		};
+	}
+
+	/**
+	 * Full selectors of a rule, with nested rules resolved against their parents as Sass and
+	 * Less do: & stands for the parent selector, otherwise the parent becomes an ancestor
+	 */
+	private static resolveSelectors(rule: postcss.Rule): string[] {
+		const selectors = rule.selectors.map(selector => selector.trim());
+		let parent = rule.parent;
+		while (parent && parent.type !== 'rule' && parent.type !== 'root') {
+			parent = parent.parent;
+		}
+		if (!parent || parent.type !== 'rule') {
+			return selectors;
+		}
+
+		const parentSelectors = this.resolveSelectors(parent as postcss.Rule);
+		return parentSelectors.flatMap(parentSelector => selectors.map(selector =>
+			selector.includes('&') ? selector.replace(/&/g, parentSelector) : `${parentSelector} ${selector}`
+		));
+	}
+
+	/**
+	 * Enclosing at-rule preludes, outermost first, e.g. "@media (max-width: 600px)"
+	 */
+	private static getConditions(node: postcss.Node): string[] {
+		const conditions: string[] = [];
+		for (let parent = node.parent; parent; parent = parent.parent) {
+			if (parent.type === 'atrule') {
+				const atRule = parent as postcss.AtRule;
+				conditions.unshift(`@${atRule.name}${atRule.params ? ` ${atRule.params}` : ''}`);
+			}
+		}
+		return conditions;
+	}
+
+	/**
+	 * Check whether a node is inside a definition that is not applied where it is written
+	 */
+	private static isInsideAtRule(node: postcss.Node, names: string[]): boolean {
+		for (let parent = node.parent; parent; parent = parent.parent) {
+			if (parent.type === 'atrule' && names.includes((parent as postcss.AtRule).name.toLowerCase())) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Offset of a node's first character
+	 */
+	private static getStart(node: postcss.Node): number {
+		return node.source?.start?.offset ?? 0;
+	}
+
+	/**
+	 * Offset just past a node
+	 */
+	private static getEnd(node: postcss.Node, text: string): number {
+		return Math.min(node.source?.end?.offset ?? text.length, text.length);
+	}
+}
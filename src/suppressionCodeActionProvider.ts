@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { AccessibilityChecker } from './accessibilityChecker';
+import { JsxParser } from './jsxParser';
+import { MarkupParser } from './markupParser';
+import { Suppressions } from './suppressions';
+
+export class SuppressionCodeActionProvider implements vscode.CodeActionProvider {
+	static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+	/**
+	 * Offer to suppress each accessibility diagnostic, or to remove an unused suppression
+	 */
+	provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+		const actions: vscode.CodeAction[] = [];
+
+		context.diagnostics
+			.filter(diagnostic => diagnostic.source === AccessibilityChecker.DIAGNOSTIC_SOURCE)
+			.forEach(diagnostic => {
+				const ruleId = typeof diagnostic.code === 'object' ? String(diagnostic.code.value) : String(diagnostic.code ?? '');
+				if (!ruleId) {
+					return;
+				}
+
+				if (ruleId === Suppressions.UNUSED_SUPPRESSION.ruleId) {
+					actions.push(this.createRemoveSuppressionAction(document, diagnostic));
+				} else {
+					actions.push(this.createSuppressAction(document, diagnostic, ruleId));
+				}
+			});
+
+		return actions;
+	}
+
+	/**
+	 * Insert a disable-next-line comment above the issue, or above its element when the issue is in
+	 * a start tag spanning several lines, or a disable/enable pair around
+	 * a <style> or <script> block where HTML comments cannot be used
+	 */
+	private createSuppressAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, ruleId: string): vscode.CodeAction {
+		const edit = new vscode.WorkspaceEdit();
+		const offset = document.offsetAt(diagnostic.range.start);
+		const isJsx = MarkupParser.isJsx(document.fileName);
+		const parsed = MarkupParser.parse(document.getText(), document.fileName);
+		const rawTextElement = isJsx ? undefined : parsed.elements.find(element =>
+			['style', 'script'].includes(element.tagName) &&
+			element.endTagStart !== null && element.startTagEnd <= offset && offset < element.endTagStart
+		);
+
+		let title: string;
+		if (rawTextElement) {
+			title = `Suppress "${ruleId}" in this <${rawTextElement.tagName}> block`;
+			const startLine = document.positionAt(rawTextElement.start).line;
+			const endPosition = document.positionAt(rawTextElement.end);
+			const indent = this.getIndentation(document, startLine);
+			edit.set(document.uri, [
+				vscode.SnippetTextEdit.insert(new vscode.Position(startLine, 0), new vscode.SnippetString()
+					.appendText(`${indent}<!-- marsa11y-disable ${ruleId} -- `)
+					.appendPlaceholder('reason')
+					.appendText(' -->\n')),
+				vscode.SnippetTextEdit.insert(endPosition, new vscode.SnippetString()
+					.appendText(`\n${indent}<!-- marsa11y-enable ${ruleId} -->`))
+			]);
+		} else {
+			title = `Suppress "${ruleId}" on this line`;
+			const line = Suppressions.getAnchorLine(parsed, diagnostic.range.start);
+			const [open, close] = this.getCommentDelimiters(document, line, isJsx);
+			edit.set(document.uri, [
+				vscode.SnippetTextEdit.insert(new vscode.Position(line, 0), new vscode.SnippetString()
+					.appendText(`${this.getIndentation(document, line)}${open}marsa11y-disable-next-line ${ruleId} -- `)
+					.appendPlaceholder('reason')
+					.appendText(`${close}\n`))
+			]);
+		}
+
+		const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+		action.edit = edit;
+		action.diagnostics = [diagnostic];
+		return action;
+	}
+
+	/**
+	 * Delete an unused suppression comment, together with its line when nothing else is on it
+	 */
+	private createRemoveSuppressionAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+		const action = new vscode.CodeAction('Remove unused suppression comment', vscode.CodeActionKind.QuickFix);
+		const range = diagnostic.range;
+		const startLine = document.lineAt(range.start.line);
+		const endLine = document.lineAt(range.end.line);
+		const standsAlone = startLine.text.substring(0, range.start.character).trim() === '' &&
+			endLine.text.substring(range.end.character).trim() === '';
+
+		action.edit = new vscode.WorkspaceEdit();
+		action.edit.delete(document.uri, standsAlone ? endLine.rangeIncludingLineBreak.with(startLine.range.start) : range);
+		action.diagnostics = [diagnostic];
+		action.isPreferred = true;
+		return action;
+	}
+
+	/**
+	 * Comment syntax for a new line above the given one: HTML comments in markup, CSS comments in
+	 * stylesheets, {/* *\/} among JSX children and // elsewhere in a component
+	 */
+	private getCommentDelimiters(document: vscode.TextDocument, line: number, isJsx: boolean): [string, string] {
+		if (MarkupParser.isStylesheet(document.fileName)) {
+			return ['/* ', ' */'];
+		}
+		if (!isJsx) {
+			return ['<!-- ', ' -->'];
+		}
+		const lineStart = document.offsetAt(new vscode.Position(line, 0));
+		return JsxParser.isInJsxChildren(document.getText(), document.fileName, lineStart) ? ['{/* ', ' */}'] : ['// ', ''];
+	}
+
+	/**
+	 * Leading whitespace of a line
+	 */
+	private getIndentation(document: vscode.TextDocument, line: number): string {
+		return /^\s*/.exec(document.lineAt(line).text)![0];
+	}
+}
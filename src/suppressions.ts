@@ -0,0 +1,176 @@
+import { AccessibilityIssue } from './accessibilityEngine';
+import { HtmlComment, HtmlDocument } from './htmlParser';
+import { RuleMetadata } from './ruleCatalog';
+import { SourcePosition } from './sourceRange';
+
+export type SuppressionKind = 'disable-next-line' | 'disable' | 'enable' | 'disable-file';
+
+/**
+ * A marsa11y-disable comment found in a document
+ */
+export interface SuppressionDirective {
+	kind: SuppressionKind;
+	// Rule IDs the directive applies to; empty means every rule
+	ruleIds: string[];
+	reason: string | null;
+	comment: HtmlComment;
+}
+
+export interface SuppressedIssue {
+	issue: AccessibilityIssue;
+	directive: SuppressionDirective;
+}
+
+export interface SuppressionResult {
+	active: AccessibilityIssue[];
+	suppressed: SuppressedIssue[];
+	// Findings for directives that did not suppress anything
+	unused: AccessibilityIssue[];
+}
+
+export class Suppressions {
+	static readonly UNUSED_SUPPRESSION: RuleMetadata = {
+		ruleId: 'unused-suppression',
+		wcag: [],
+		level: null,
+		helpUrl: ''
+	};
+	static readonly UNUSED_SUPPRESSION_DESCRIPTION = 'Suppression comments must match an issue that would otherwise be reported';
+
+	// <!-- marsa11y-disable-next-line rule-a, rule-b -- reason -->
+	private static readonly DIRECTIVE_PATTERN = /^\s*marsa11y-(disable-next-line|disable-file|disable|enable)(?=\s|$)([\s\S]*)$/;
+
+	/**
+	 * Find every suppression directive in the document's comments
+	 */
+	static getDirectives(document: HtmlDocument): SuppressionDirective[] {
+		const directives: SuppressionDirective[] = [];
+
+		document.comments.forEach(comment => {
+			const match = this.DIRECTIVE_PATTERN.exec(comment.data);
+			if (!match) {
+				return;
+			}
+
+			const separator = match[2].indexOf('--');
+			const ruleText = separator === -1 ? match[2] : match[2].substring(0, separator);
+			const reason = separator === -1 ? '' : match[2].substring(separator + 2).trim();
+
+			directives.push({
+				kind: match[1] as SuppressionKind,
+				ruleIds: ruleText.split(/[\s,]+/).filter(ruleId => ruleId.length > 0),
+				reason: reason.length > 0 ? reason : null,
+				comment: comment
+			});
+		});
+
+		return directives;
+	}
+
+	/**
+	 * Split issues into active and suppressed ones and report directives that suppressed nothing
+	 */
+	static apply(document: HtmlDocument, issues: AccessibilityIssue[]): SuppressionResult {
+		const directives = this.getDirectives(document);
+		const usedRuleIds = new Map<SuppressionDirective, Set<string>>();
+		const result: SuppressionResult = { active: [], suppressed: [], unused: [] };
+
+		issues.forEach(issue => {
+			const directive = this.findDirective(document, directives, issue);
+			if (directive) {
+				if (!usedRuleIds.has(directive)) {
+					usedRuleIds.set(directive, new Set<string>());
+				}
+				usedRuleIds.get(directive)!.add(issue.ruleId);
+				result.suppressed.push({ issue: issue, directive: directive });
+			} else {
+				result.active.push(issue);
+			}
+		});
+
+		directives.filter(directive => directive.kind !== 'enable').forEach(directive => {
+			const used = usedRuleIds.get(directive);
+			const unusedRuleIds = directive.ruleIds.filter(ruleId => !used?.has(ruleId));
+			if (directive.ruleIds.length === 0 ? !used : unusedRuleIds.length > 0) {
+				const range = document.getRange(directive.comment.start, directive.comment.end);
+				const target = unusedRuleIds.length > 0 ? unusedRuleIds.map(ruleId => `"${ruleId}"`).join(', ') : 'any rule';
+				result.unused.push({
+					line: range.start.line + 1,
+					issue: `Unused marsa11y-${directive.kind} comment - no ${target} issue is reported here, remove the suppression`,
+					severity: 'LOW',
+					range: range,
+					...this.UNUSED_SUPPRESSION
+				});
+			}
+		});
+
+		return result;
+	}
+
+	/**
+	 * Find the directive that suppresses an issue, if any
+	 */
+	private static findDirective(document: HtmlDocument, directives: SuppressionDirective[], issue: AccessibilityIssue): SuppressionDirective | null {
+		const appliesTo = (directive: SuppressionDirective) =>
+			directive.ruleIds.length === 0 || directive.ruleIds.includes(issue.ruleId);
+
+		// File-level directives apply wherever they are written
+		const fileDirective = directives.find(directive => directive.kind === 'disable-file' && appliesTo(directive));
+		if (fileDirective) {
+			return fileDirective;
+		}
+
+		// Next-line directives apply to issues starting on the line after the comment ends, or in a
+		// start tag that begins there
+		const lineDirectives = directives.filter(directive => directive.kind === 'disable-next-line' && appliesTo(directive));
+		const anchorLine = lineDirectives.length > 0 ? this.getAnchorLine(document, issue.range.start) : issue.range.start.line;
+		const lineDirective = lineDirectives.find(directive => {
+			const line = document.positionAt(directive.comment.end).line + 1;
+			return line === issue.range.start.line || line === anchorLine;
+		});
+		if (lineDirective) {
+			return lineDirective;
+		}
+
+		// Block directives apply from a disable comment until a matching enable comment
+		let blockDirective: SuppressionDirective | null = null;
+		for (const directive of directives) {
+			if (this.comparePositions(document.positionAt(directive.comment.end), issue.range.start) > 0) {
+				break;
+			}
+			if (directive.kind === 'disable' && appliesTo(directive)) {
+				blockDirective = directive;
+			} else if (directive.kind === 'enable' && blockDirective &&
+				(directive.ruleIds.length === 0 || directive.ruleIds.includes(issue.ruleId))) {
+				blockDirective = null;
+			}
+		}
+
+		return blockDirective;
+	}
+
+	/**
+	 * Line a disable-next-line comment goes above to cover an issue: where the start tag containing
+	 * the issue begins, since a comment cannot go inside a tag that spans several lines
+	 */
+	static getAnchorLine(document: HtmlDocument, position: SourcePosition): number {
+		const offset = document.offsetAt(position);
+		// Start tags only nest through attribute expressions in JSX, where the innermost is wanted
+		const element = document.elements.filter(candidate => candidate.start <= offset && offset < candidate.startTagEnd).pop();
+		return element ? document.positionAt(element.start).line : position.line;
+	}
+
+	/**
+	 * Order two positions, negative when a comes first
+	 */
+	private static comparePositions(a: SourcePosition, b: SourcePosition): number {
+		return a.line - b.line || a.character - b.character;
+	}
+
+	/**
+	 * Text of a comment that suppresses a rule on the line below
+	 */
+	static createDisableNextLineComment(ruleId: string, reason: string): string {
+		return `<!-- marsa11y-disable-next-line ${ruleId} -- ${reason} -->`;
+	}
+}
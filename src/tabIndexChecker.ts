@@ -1,5 +1,6 @@
-import * as vscode from 'vscode';
-import { AccessibilityIssue } from './accessibilityChecker';
+import { AccessibilityIssue } from './accessibilityEngine';
+import { HtmlDocument, HtmlElement } from './htmlParser';
+import { RuleCatalog } from './ruleCatalog';
 
 export class TabIndexChecker {
 	// Elements that are naturally focusable
@@ -12,30 +13,32 @@ export class TabIndexChecker {
 		'div', 'span', 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'img', 'br', 'hr'
 	];
 
-	// Elements that should have tabindex="0" for keyboard accessibility
-	private static readonly SHOULD_BE_FOCUSABLE = [
-		'div[role="button"]', 'div[role="link"]', 'div[role="menuitem"]', 
-		'div[role="tab"]', 'div[role="option"]', 'div[role="checkbox"]',
-		'span[role="button"]', 'span[role="link"]', 'span[role="menuitem"]',
-		'span[role="tab"]', 'span[role="option"]', 'span[role="checkbox"]'
+	// Roles that make a non-focusable element interactive, so it should have tabindex="0"
+	private static readonly INTERACTIVE_ROLES = [
+		'button', 'link', 'menuitem', 'tab', 'option', 'checkbox'
+	];
+
+	// Roles of custom form controls that need to be focusable
+	private static readonly FORM_CONTROL_ROLES = [
+		'combobox', 'slider', 'spinbutton'
 	];
 
 	/**
 	 * Check for negative tabindex values (HIGH priority - mandatory)
 	 */
-	static checkNegativeTabIndex(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkNegativeTabIndex(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
 		
 		// Check for tabindex="-1" or other negative values
-		const negativeTabIndexMatch = trimmedLine.match(/tabindex=["'](-[0-9]+)["']/);
-		if (negativeTabIndexMatch) {
-			const tabIndexValue = negativeTabIndexMatch[1];
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (tabIndex && /^-[0-9]+$/.test((tabIndex.value ?? '').trim())) {
+			const tabIndexValue = (tabIndex.value ?? '').trim();
+			const range = document.getAttributeRange(tabIndex);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: `Negative tabindex="${tabIndexValue}" removes element from tab order - ensure this is intentional`,
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-negative')
 			};
 		}
 		
@@ -45,22 +48,21 @@ export class TabIndexChecker {
 	/**
 	 * Check for tabindex="0" on non-interactive elements (HIGH priority - mandatory)
 	 */
-	static checkTabIndexZeroOnNonInteractive(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkTabIndexZeroOnNonInteractive(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
 		
-		if (trimmedLine.includes('tabindex="0"') || trimmedLine.includes("tabindex='0'")) {
+		if (tabIndex && (tabIndex.value ?? '').trim() === '0') {
 			// Check if element is naturally non-interactive
-			const isNonInteractive = this.NON_FOCUSABLE.some(element => 
-				trimmedLine.includes(`<${element}`) && !trimmedLine.includes('role=')
-			);
+			const isNonInteractive = this.NON_FOCUSABLE.includes(element.tagName) && !element.mayHaveAttribute('role');
 			
 			if (isNonInteractive) {
-				const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+				const range = document.getAttributeRange(tabIndex);
 				return {
-					line: lineNumber + 1,
+					line: range.start.line + 1,
 					issue: 'Non-interactive element with tabindex="0" - add role attribute or use semantic element',
 					severity: 'HIGH',
-					range: range
+					range: range,
+					...RuleCatalog.getMetadata('tabindex-zero-non-interactive')
 				};
 			}
 		}
@@ -71,24 +73,18 @@ export class TabIndexChecker {
 	/**
 	 * Check for missing tabindex on custom interactive elements (HIGH priority - mandatory)
 	 */
-	static checkMissingTabIndexOnCustomInteractive(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
-		// Check for div/span with interactive roles but no tabindex
-		const hasInteractiveRole = trimmedLine.includes('role="button"') || 
-								  trimmedLine.includes('role="link"') ||
-								  trimmedLine.includes('role="menuitem"') ||
-								  trimmedLine.includes('role="tab"') ||
-								  trimmedLine.includes('role="option"') ||
-								  trimmedLine.includes('role="checkbox"');
+	static checkMissingTabIndexOnCustomInteractive(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		// Check for non-focusable elements with interactive roles but no tabindex
+		const hasInteractiveRole = this.INTERACTIVE_ROLES.includes(element.getAttribute('role') ?? '');
 		
-		if (hasInteractiveRole && !trimmedLine.includes('tabindex=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (hasInteractiveRole && !this.NATURALLY_FOCUSABLE.includes(element.tagName) && !element.mayHaveAttribute('tabindex')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Custom interactive element missing tabindex - add tabindex="0" for keyboard accessibility',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-missing-custom-interactive')
 			};
 		}
 		
@@ -98,21 +94,18 @@ export class TabIndexChecker {
 	/**
 	 * Check for tabindex on naturally focusable elements (MEDIUM priority)
 	 */
-	static checkRedundantTabIndexOnFocusable(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkRedundantTabIndexOnFocusable(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
 		
 		// Check for naturally focusable elements with explicit tabindex
-		const isNaturallyFocusable = this.NATURALLY_FOCUSABLE.some(element => 
-			trimmedLine.includes(`<${element}`)
-		);
-		
-		if (isNaturallyFocusable && trimmedLine.includes('tabindex=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (this.NATURALLY_FOCUSABLE.includes(element.tagName) && tabIndex) {
+			const range = document.getAttributeRange(tabIndex);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Redundant tabindex on naturally focusable element - remove unless changing tab order',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-redundant')
 			};
 		}
 		
@@ -122,19 +115,19 @@ export class TabIndexChecker {
 	/**
 	 * Check for tabindex values greater than 0 (MEDIUM priority)
 	 */
-	static checkPositiveTabIndex(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkPositiveTabIndex(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
 		
 		// Check for tabindex values > 0
-		const positiveTabIndexMatch = trimmedLine.match(/tabindex=["']([1-9][0-9]*)["']/);
-		if (positiveTabIndexMatch) {
-			const tabIndexValue = positiveTabIndexMatch[1];
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (tabIndex && /^[1-9][0-9]*$/.test((tabIndex.value ?? '').trim())) {
+			const tabIndexValue = (tabIndex.value ?? '').trim();
+			const range = document.getAttributeRange(tabIndex);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: `Positive tabindex="${tabIndexValue}" disrupts natural tab order - use tabindex="0" or negative values only`,
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-positive')
 			};
 		}
 		
@@ -144,19 +137,18 @@ export class TabIndexChecker {
 	/**
 	 * Check for missing tabindex on clickable elements (MEDIUM priority)
 	 */
-	static checkMissingTabIndexOnClickable(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkMissingTabIndexOnClickable(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for elements with onclick but no tabindex
-		if ((trimmedLine.includes('onclick') || trimmedLine.includes('onkeydown')) && 
-			!trimmedLine.includes('tabindex=') && 
-			(trimmedLine.includes('<div') || trimmedLine.includes('<span'))) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if ((element.hasAttribute('onclick') || element.hasAttribute('onkeydown')) && 
+			!element.mayHaveAttribute('tabindex') && 
+			['div', 'span'].includes(element.tagName)) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Clickable element missing tabindex - add tabindex="0" for keyboard accessibility',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-missing-clickable')
 			};
 		}
 		
@@ -166,17 +158,17 @@ export class TabIndexChecker {
 	/**
 	 * Check for disabled elements with tabindex (MEDIUM priority)
 	 */
-	static checkDisabledElementWithTabIndex(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkDisabledElementWithTabIndex(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
 		
-		if ((trimmedLine.includes('disabled') || trimmedLine.includes('aria-disabled="true"')) && 
-			trimmedLine.includes('tabindex=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if ((element.hasAttribute('disabled') || element.getAttribute('aria-disabled') === 'true') && tabIndex) {
+			const range = document.getAttributeRange(tabIndex);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Disabled element should not be focusable - remove tabindex or use tabindex="-1"',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-disabled')
 			};
 		}
 		
@@ -186,18 +178,21 @@ export class TabIndexChecker {
 	/**
 	 * Check for tabindex on hidden elements (MEDIUM priority)
 	 */
-	static checkTabIndexOnHiddenElement(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkTabIndexOnHiddenElement(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
+		const isHiddenByStyle = element.getStyleDeclarations().some(declaration =>
+			(declaration.property === 'display' && declaration.value === 'none') ||
+			(declaration.property === 'visibility' && declaration.value === 'hidden')
+		);
 		
-		if ((trimmedLine.includes('hidden') || trimmedLine.includes('aria-hidden="true"') || 
-			 trimmedLine.includes('style="display: none"') || trimmedLine.includes('style="visibility: hidden"')) &&
-			trimmedLine.includes('tabindex=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if ((element.hasAttribute('hidden') || isHiddenByStyle) && tabIndex) {
+			const range = document.getAttributeRange(tabIndex);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Hidden element should not be focusable - remove tabindex or use tabindex="-1"',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-hidden')
 			};
 		}
 		
@@ -207,19 +202,18 @@ export class TabIndexChecker {
 	/**
 	 * Check for tabindex on decorative elements (LOW priority)
 	 */
-	static checkTabIndexOnDecorativeElement(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkTabIndexOnDecorativeElement(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
 		
 		// Check for decorative images or elements with tabindex
-		if ((trimmedLine.includes('decorative') || trimmedLine.includes('ornament') || 
-			 trimmedLine.includes('spacer') || trimmedLine.includes('divider')) &&
-			trimmedLine.includes('tabindex=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.attributeValuesInclude(['decorative', 'ornament', 'spacer', 'divider']) && tabIndex) {
+			const range = document.getAttributeRange(tabIndex);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Decorative element should not be focusable - remove tabindex or use tabindex="-1"',
 				severity: 'LOW',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-decorative')
 			};
 		}
 		
@@ -229,24 +223,22 @@ export class TabIndexChecker {
 	/**
 	 * Check for inconsistent tabindex usage (LOW priority)
 	 */
-	static checkInconsistentTabIndexUsage(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkInconsistentTabIndexUsage(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
 		
 		// Check for mixed tabindex values in same context
-		if (trimmedLine.includes('tabindex=')) {
-			const tabIndexMatch = trimmedLine.match(/tabindex=["']([^"']+)["']/);
-			if (tabIndexMatch) {
-				const tabIndexValue = tabIndexMatch[1];
-				// Check for unusual patterns
-				if (tabIndexValue === '1' || tabIndexValue === '2' || tabIndexValue === '3') {
-					const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
-					return {
-						line: lineNumber + 1,
-						issue: `Low positive tabindex="${tabIndexValue}" may cause confusion - consider using tabindex="0" or negative values`,
-						severity: 'LOW',
-						range: range
-					};
-				}
+		if (tabIndex) {
+			const tabIndexValue = (tabIndex.value ?? '').trim();
+			// Check for unusual patterns
+			if (tabIndexValue === '1' || tabIndexValue === '2' || tabIndexValue === '3') {
+				const range = document.getAttributeRange(tabIndex);
+				return {
+					line: range.start.line + 1,
+					issue: `Low positive tabindex="${tabIndexValue}" may cause confusion - consider using tabindex="0" or negative values`,
+					severity: 'LOW',
+					range: range,
+					...RuleCatalog.getMetadata('tabindex-low-positive')
+				};
 			}
 		}
 		
@@ -256,21 +248,20 @@ export class TabIndexChecker {
 	/**
 	 * Check for missing tabindex on modal triggers (MEDIUM priority)
 	 */
-	static checkMissingTabIndexOnModalTrigger(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkMissingTabIndexOnModalTrigger(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for elements that might trigger modals
-		if ((trimmedLine.includes('data-toggle="modal"') || 
-			 trimmedLine.includes('data-bs-toggle="modal"') ||
-			 trimmedLine.includes('onclick') && trimmedLine.includes('modal')) &&
-			!trimmedLine.includes('tabindex=') &&
-			(trimmedLine.includes('<div') || trimmedLine.includes('<span'))) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		const isModalTrigger = element.getAttribute('data-toggle') === 'modal' ||
+			element.getAttribute('data-bs-toggle') === 'modal' ||
+			(element.hasAttribute('onclick') && element.attributeValuesInclude(['modal']));
+		
+		if (isModalTrigger && !element.mayHaveAttribute('tabindex') && ['div', 'span'].includes(element.tagName)) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Modal trigger element missing tabindex - add tabindex="0" for keyboard accessibility',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-missing-modal-trigger')
 			};
 		}
 		
@@ -280,16 +271,17 @@ export class TabIndexChecker {
 	/**
 	 * Check for tabindex on elements with role="presentation" (HIGH priority)
 	 */
-	static checkTabIndexOnPresentationRole(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkTabIndexOnPresentationRole(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
 		
-		if (trimmedLine.includes('role="presentation"') && trimmedLine.includes('tabindex=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.getAttribute('role') === 'presentation' && tabIndex) {
+			const range = document.getAttributeRange(tabIndex);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Element with role="presentation" should not be focusable - remove tabindex',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-presentation-role')
 			};
 		}
 		
@@ -299,16 +291,17 @@ export class TabIndexChecker {
 	/**
 	 * Check for tabindex on elements with role="none" (HIGH priority)
 	 */
-	static checkTabIndexOnNoneRole(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkTabIndexOnNoneRole(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
 		
-		if (trimmedLine.includes('role="none"') && trimmedLine.includes('tabindex=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.getAttribute('role') === 'none' && tabIndex) {
+			const range = document.getAttributeRange(tabIndex);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Element with role="none" should not be focusable - remove tabindex',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-none-role')
 			};
 		}
 		
@@ -318,16 +311,17 @@ export class TabIndexChecker {
 	/**
 	 * Check for tabindex on elements with aria-hidden="true" (HIGH priority)
 	 */
-	static checkTabIndexOnAriaHidden(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkTabIndexOnAriaHidden(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
 		
-		if (trimmedLine.includes('aria-hidden="true"') && trimmedLine.includes('tabindex=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (element.getAttribute('aria-hidden') === 'true' && tabIndex) {
+			const range = document.getAttributeRange(tabIndex);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Element with aria-hidden="true" should not be focusable - remove tabindex',
 				severity: 'HIGH',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-aria-hidden')
 			};
 		}
 		
@@ -337,20 +331,18 @@ export class TabIndexChecker {
 	/**
 	 * Check for missing tabindex on custom form controls (MEDIUM priority)
 	 */
-	static checkMissingTabIndexOnCustomFormControl(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
-		
+	static checkMissingTabIndexOnCustomFormControl(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
 		// Check for custom form controls
-		if ((trimmedLine.includes('role="combobox"') || 
-			 trimmedLine.includes('role="slider"') ||
-			 trimmedLine.includes('role="spinbutton"')) &&
-			!trimmedLine.includes('tabindex=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (this.FORM_CONTROL_ROLES.includes(element.getAttribute('role') ?? '') &&
+			!this.NATURALLY_FOCUSABLE.includes(element.tagName) &&
+			!element.mayHaveAttribute('tabindex')) {
+			const range = document.getElementRange(element);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Custom form control missing tabindex - add tabindex="0" for keyboard accessibility',
 				severity: 'MEDIUM',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-missing-custom-form-control')
 			};
 		}
 		
@@ -360,21 +352,19 @@ export class TabIndexChecker {
 	/**
 	 * Check for tabindex on elements that should not be interactive (LOW priority)
 	 */
-	static checkTabIndexOnNonInteractiveElement(line: string, lineNumber: number): AccessibilityIssue | null {
-		const trimmedLine = line.trim();
+	static checkTabIndexOnNonInteractiveElement(element: HtmlElement, document: HtmlDocument): AccessibilityIssue | null {
+		const tabIndex = element.getAttributeNode('tabindex');
 		
 		// Check for elements that should not be interactive
-		if ((trimmedLine.includes('<p') || trimmedLine.includes('<h1') || 
-			 trimmedLine.includes('<h2') || trimmedLine.includes('<h3') ||
-			 trimmedLine.includes('<h4') || trimmedLine.includes('<h5') ||
-			 trimmedLine.includes('<h6') || trimmedLine.includes('<img')) &&
-			trimmedLine.includes('tabindex=') && !trimmedLine.includes('role=')) {
-			const range = new vscode.Range(lineNumber, 0, lineNumber, line.length);
+		if (['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'img'].includes(element.tagName) &&
+			tabIndex && !element.mayHaveAttribute('role')) {
+			const range = document.getAttributeRange(tabIndex);
 			return {
-				line: lineNumber + 1,
+				line: range.start.line + 1,
 				issue: 'Non-interactive element with tabindex - consider if this element should be focusable',
 				severity: 'LOW',
-				range: range
+				range: range,
+				...RuleCatalog.getMetadata('tabindex-non-interactive')
 			};
 		}
 		
@@ -384,37 +374,39 @@ export class TabIndexChecker {
 	/**
 	 * Run all tab index accessibility checks
 	 */
-	static checkTabIndex(line: string, lineNumber: number): AccessibilityIssue[] {
+	static checkTabIndex(document: HtmlDocument): AccessibilityIssue[] {
 		const issues: AccessibilityIssue[] = [];
 		
-		const checks = [
-			// HIGH priority - mandatory checks
-			this.checkNegativeTabIndex(line, lineNumber),
-			this.checkTabIndexZeroOnNonInteractive(line, lineNumber),
-			this.checkMissingTabIndexOnCustomInteractive(line, lineNumber),
-			this.checkTabIndexOnPresentationRole(line, lineNumber),
-			this.checkTabIndexOnNoneRole(line, lineNumber),
-			this.checkTabIndexOnAriaHidden(line, lineNumber),
-			
-			// MEDIUM priority checks
-			this.checkRedundantTabIndexOnFocusable(line, lineNumber),
-			this.checkPositiveTabIndex(line, lineNumber),
-			this.checkMissingTabIndexOnClickable(line, lineNumber),
-			this.checkDisabledElementWithTabIndex(line, lineNumber),
-			this.checkTabIndexOnHiddenElement(line, lineNumber),
-			this.checkMissingTabIndexOnModalTrigger(line, lineNumber),
-			this.checkMissingTabIndexOnCustomFormControl(line, lineNumber),
-			
-			// LOW priority checks
-			this.checkTabIndexOnDecorativeElement(line, lineNumber),
-			this.checkInconsistentTabIndexUsage(line, lineNumber),
-			this.checkTabIndexOnNonInteractiveElement(line, lineNumber)
-		];
+		document.elements.forEach(element => {
+			const checks = [
+				// HIGH priority - mandatory checks
+				this.checkNegativeTabIndex(element, document),
+				this.checkTabIndexZeroOnNonInteractive(element, document),
+				this.checkMissingTabIndexOnCustomInteractive(element, document),
+				this.checkTabIndexOnPresentationRole(element, document),
+				this.checkTabIndexOnNoneRole(element, document),
+				this.checkTabIndexOnAriaHidden(element, document),
+				
+				// MEDIUM priority checks
+				this.checkRedundantTabIndexOnFocusable(element, document),
+				this.checkPositiveTabIndex(element, document),
+				this.checkMissingTabIndexOnClickable(element, document),
+				this.checkDisabledElementWithTabIndex(element, document),
+				this.checkTabIndexOnHiddenElement(element, document),
+				this.checkMissingTabIndexOnModalTrigger(element, document),
+				this.checkMissingTabIndexOnCustomFormControl(element, document),
+				
+				// LOW priority checks
+				this.checkTabIndexOnDecorativeElement(element, document),
+				this.checkInconsistentTabIndexUsage(element, document),
+				this.checkTabIndexOnNonInteractiveElement(element, document)
+			];
 
-		checks.forEach(check => {
-			if (check) {
-				issues.push(check);
-			}
+			checks.forEach(check => {
+				if (check) {
+					issues.push(check);
+				}
+			});
 		});
 
 		return issues;
@@ -0,0 +1,267 @@
+import { CssColor } from './cssColor';
+import { HtmlDocument, HtmlElement, StyleDeclaration, StyleRule } from './htmlParser';
+import { TailwindTheme } from './tailwindTheme';
+
+/**
+ * A rule generated for one utility class on one element
+ */
+export interface UtilityRule {
+	rule: StyleRule;
+	// The class as written, e.g. "focus-visible:ring-2"
+	className: string;
+}
+
+/**
+ * Turns Tailwind utility classes into the style rules they stand for, so the cascade can resolve
+ * colors, font sizes and focus styles set with classes. Only utilities that matter to contrast
+ * and focus visibility are known; other classes are ignored.
+ */
+export class TailwindStyles {
+	private static readonly STATE_VARIANTS = ['hover', 'focus', 'focus-visible', 'focus-within', 'active', 'visited', 'target'];
+	private static readonly STRUCTURAL_VARIANTS: Record<string, string> = {
+		first: ':first-child', last: ':last-child', only: ':only-child', odd: ':nth-child(odd)', even: ':nth-child(even)'
+	};
+	private static readonly MEDIA_VARIANTS: Record<string, string> = {
+		'motion-safe': '@media (prefers-reduced-motion: no-preference)',
+		'motion-reduce': '@media (prefers-reduced-motion: reduce)',
+		'contrast-more': '@media (prefers-contrast: more)',
+		'contrast-less': '@media (prefers-contrast: less)',
+		print: '@media print'
+	};
+	private static readonly FONT_WEIGHTS: Record<string, string> = {
+		thin: '100', extralight: '200', light: '300', normal: '400', medium: '500', semibold: '600', bold: '700', extrabold: '800', black: '900'
+	};
+	private static readonly BORDER_WIDTHS = ['0', '2', '4', '8'];
+	private static readonly SIDES: Record<string, string> = { t: 'top', r: 'right', b: 'bottom', l: 'left' };
+	private static readonly DEFAULT_RING_COLOR = 'rgb(59 130 246 / 0.5)';
+
+	/**
+	 * Rules for the static class names of a document's elements, base utilities before variants
+	 * as in Tailwind's generated stylesheet
+	 */
+	static getRules(document: HtmlDocument, theme: TailwindTheme): UtilityRule[] {
+		const rules: { rule: UtilityRule; order: number }[] = [];
+		document.elements.forEach(element => {
+			const attribute = element.getAttributeNode('class');
+			if (!attribute || attribute.dynamic || attribute.value === null) {
+				return;
+			}
+			const text = document.text.substring(attribute.valueStart, attribute.valueEnd);
+			for (const match of text.matchAll(/\S+/g)) {
+				const start = attribute.valueStart + match.index!;
+				const rule = this.createRule(match[0], element, start, theme);
+				if (rule) {
+					// Responsive and other media variants come last, then the more variants the later
+					rules.push({ rule: { rule: rule, className: match[0] }, order: rule.conditions.length * 100 + this.splitVariants(match[0]).length });
+				}
+			}
+		});
+		return rules.sort((a, b) => a.order - b.order).map(({ rule }) => rule);
+	}
+
+	/**
+	 * Rule for one class, e.g. md:hover:!text-gray-400/50; null for classes that are not
+	 * known utilities or use a variant that cannot be expressed
+	 */
+	private static createRule(className: string, element: HtmlElement, start: number, theme: TailwindTheme): StyleRule | null {
+		if (/["\\]/.test(className)) {
+			return null;
+		}
+		const parts = this.splitVariants(className);
+		let utility = parts.pop()!;
+		const important = utility.startsWith('!') || utility.endsWith('!');
+		utility = utility.replace(/^!|!$/g, '');
+		if (!utility.startsWith(theme.prefix)) {
+			return null;
+		}
+
+		const declarations = this.getDeclarations(utility.substring(theme.prefix.length), theme);
+		if (declarations.length === 0) {
+			return null;
+		}
+
+		let selector = `[class~="${className}"]`;
+		let ancestor = '';
+		const conditions: string[] = [];
+		for (const variant of parts) {
+			const group = /^(group|peer)-(.+)$/.exec(variant);
+			if (this.STATE_VARIANTS.includes(variant)) {
+				selector += `:${variant}`;
+			} else if (this.STRUCTURAL_VARIANTS[variant]) {
+				selector += this.STRUCTURAL_VARIANTS[variant];
+			} else if (group && this.STATE_VARIANTS.includes(group[2])) {
+				ancestor += `.${theme.prefix}${group[1]}:${group[2]}${group[1] === 'peer' ? ' ~ ' : ' '}`;
+			} else if (variant === 'dark') {
+				if (theme.darkSelector) {
+					ancestor = `${theme.darkSelector} ${ancestor}`;
+				} else {
+					conditions.push('@media (prefers-color-scheme: dark)');
+				}
+			} else if (theme.screens.has(variant)) {
+				conditions.push(`@media (min-width: ${theme.screens.get(variant)})`);
+			} else if (this.MEDIA_VARIANTS[variant]) {
+				conditions.push(this.MEDIA_VARIANTS[variant]);
+			} else {
+				return null;
+			}
+		}
+
+		const end = start + className.length;
+		return {
+			selector: ancestor + selector,
+			conditions: conditions,
+			element: element,
+			start: start,
+			end: end,
+			declarations: declarations.map(([property, value]): StyleDeclaration => ({
+				property: property,
+				value: value,
+				important: important,
+				start: start,
+				end: end,
+				valueStart: start,
+				valueEnd: end
+			}))
+		};
+	}
+
+	/**
+	 * Split variants off a class at the colons outside of [arbitrary values]
+	 */
+	private static splitVariants(className: string): string[] {
+		const parts: string[] = [];
+		let depth = 0;
+		let current = '';
+		for (const char of className) {
+			if (char === '[') {
+				depth++;
+			} else if (char === ']') {
+				depth--;
+			}
+			if (char === ':' && depth === 0) {
+				parts.push(current);
+				current = '';
+			} else {
+				current += char;
+			}
+		}
+		parts.push(current);
+		return parts;
+	}
+
+	/**
+	 * Declarations of a utility without its variants and prefix
+	 */
+	private static getDeclarations(utility: string, theme: TailwindTheme): [string, string][] {
+		const arbitraryProperty = /^\[([a-z-]+):(.+)\]$/.exec(utility);
+		if (arbitraryProperty) {
+			return [[arbitraryProperty[1], arbitraryProperty[2].replace(/_/g, ' ')]];
+		}
+
+		const [, name, argument] = utility === 'no-underline' ? [utility, utility] : /^([a-z]+)(?:-(.+))?$/.exec(utility) ?? [];
+		switch (name) {
+			case 'text': {
+				const size = argument ? this.getFontSize(argument, theme) : null;
+				if (size) {
+					return [['font-size', size]];
+				}
+				const color = argument ? this.getColor(argument, theme) : null;
+				return color ? [['color', color]] : [];
+			}
+			case 'bg': {
+				if (argument === 'none') {
+					return [['background-image', 'none']];
+				}
+				if (argument?.startsWith('gradient-to-')) {
+					const direction = argument.substring(12).split('').map(side => this.SIDES[side]).join(' ');
+					return [['background-image', `linear-gradient(to ${direction}, var(--tw-gradient-stops, transparent))`]];
+				}
+				const image = argument ? /^\[((?:url|[\w-]*gradient)\(.*\))\]$/.exec(argument) : null;
+				if (image) {
+					return [['background-image', image[1].replace(/_/g, ' ')]];
+				}
+				const color = argument ? this.getColor(argument, theme) : null;
+				return color ? [['background-color', color]] : [];
+			}
+			case 'font': {
+				const weight = argument ? this.FONT_WEIGHTS[argument] ?? /^\[(\d+)\]$/.exec(argument)?.[1] : undefined;
+				return weight ? [['font-weight', weight]] : [];
+			}
+			case 'outline': {
+				if (argument === undefined) {
+					return [['outline-style', 'solid']];
+				}
+				if (argument === 'none' || argument === 'hidden') {
+					return [['outline', '2px solid transparent'], ['outline-offset', '2px']];
+				}
+				if (['dashed', 'dotted', 'double'].includes(argument)) {
+					return [['outline-style', argument]];
+				}
+				const width = this.getWidth(argument);
+				if (width) {
+					return [['outline-width', width]];
+				}
+				const color = this.getColor(argument, theme);
+				return color ? [['outline-color', color]] : [];
+			}
+			case 'ring': {
+				const width = argument === undefined ? '3px' : this.getWidth(argument);
+				if (width) {
+					return [['box-shadow', /^0(px)?$/.test(width) ? 'none' : `0 0 0 ${width} var(--tw-ring-color, ${this.DEFAULT_RING_COLOR})`]];
+				}
+				const color = argument ? this.getColor(argument, theme) : null;
+				return color ? [['--tw-ring-color', color]] : [];
+			}
+			case 'shadow':
+				return [['box-shadow', argument === 'none' ? 'none' : '0 1px 3px 0 rgb(0 0 0 / 0.1)']];
+			case 'border': {
+				if (argument === undefined || this.BORDER_WIDTHS.includes(argument)) {
+					return [['border-width', `${argument ?? 1}px`]];
+				}
+				const color = this.getColor(argument, theme);
+				return color ? [['border-color', color]] : [];
+			}
+			case 'underline':
+				return argument === undefined ? [['text-decoration-line', 'underline']] : [];
+			case 'no-underline':
+				return argument === undefined ? [['text-decoration-line', 'none']] : [];
+			default:
+				return [];
+		}
+	}
+
+	/**
+	 * Color of a theme color name or [arbitrary value], with an optional /opacity modifier
+	 */
+	private static getColor(argument: string, theme: TailwindTheme): string | null {
+		const [, name, opacity] = /^(\[[^\]]+\]|[^/]+)(?:\/(\d+|\[[\d.]+%?\]))?$/.exec(argument) ?? [];
+		const value = name?.startsWith('[')
+			? name.substring(1, name.length - 1).replace(/^color:/, '').replace(/_/g, ' ')
+			: theme.colors.get(name ?? '');
+		if (!value || (name!.startsWith('[') && !CssColor.parse(value) && !/^var\(/.test(value))) {
+			return null;
+		}
+		if (opacity === undefined) {
+			return value;
+		}
+
+		const color = CssColor.parse(value);
+		const alpha = /^\d+$/.test(opacity) ? Number(opacity) / 100 : parseFloat(opacity.substring(1)) / (opacity.endsWith('%]') ? 100 : 1);
+		return color ? `rgb(${color.r} ${color.g} ${color.b} / ${color.a * alpha})` : null;
+	}
+
+	private static getFontSize(argument: string, theme: TailwindTheme): string | null {
+		const arbitrary = /^\[(?:length:)?([\d.]+(?:px|r?em|pt|%))\]$/.exec(argument);
+		return arbitrary ? arbitrary[1] : theme.fontSizes.get(argument) ?? null;
+	}
+
+	/**
+	 * Width in pixels of outline-2, ring-[3px] and the like
+	 */
+	private static getWidth(argument: string): string | null {
+		if (/^\d+$/.test(argument)) {
+			return `${argument}px`;
+		}
+		return /^\[([\d.]+(?:px|r?em))\]$/.exec(argument)?.[1] ?? null;
+	}
+}
@@ -0,0 +1,291 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * Parts of a Tailwind config that decide the colors, font sizes and variants of utility classes
+ */
+export class TailwindTheme {
+	static readonly CONFIG_FILES = ['tailwind.config.js', 'tailwind.config.cjs', 'tailwind.config.mjs', 'tailwind.config.ts', 'tailwind.config.cts', 'tailwind.config.mts'];
+
+	// Default palette, one color per shade from 50 to 950
+	private static readonly SHADES = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950'];
+	private static readonly PALETTE: Record<string, string> = {
+		slate: '#f8fafc #f1f5f9 #e2e8f0 #cbd5e1 #94a3b8 #64748b #475569 #334155 #1e293b #0f172a #020617',
+		gray: '#f9fafb #f3f4f6 #e5e7eb #d1d5db #9ca3af #6b7280 #4b5563 #374151 #1f2937 #111827 #030712',
+		zinc: '#fafafa #f4f4f5 #e4e4e7 #d4d4d8 #a1a1aa #71717a #52525b #3f3f46 #27272a #18181b #09090b',
+		neutral: '#fafafa #f5f5f5 #e5e5e5 #d4d4d4 #a3a3a3 #737373 #525252 #404040 #262626 #171717 #0a0a0a',
+		stone: '#fafaf9 #f5f5f4 #e7e5e4 #d6d3d1 #a8a29e #78716c #57534e #44403c #292524 #1c1917 #0c0a09',
+		red: '#fef2f2 #fee2e2 #fecaca #fca5a5 #f87171 #ef4444 #dc2626 #b91c1c #991b1b #7f1d1d #450a0a',
+		orange: '#fff7ed #ffedd5 #fed7aa #fdba74 #fb923c #f97316 #ea580c #c2410c #9a3412 #7c2d12 #431407',
+		amber: '#fffbeb #fef3c7 #fde68a #fcd34d #fbbf24 #f59e0b #d97706 #b45309 #92400e #78350f #451a03',
+		yellow: '#fefce8 #fef9c3 #fef08a #fde047 #facc15 #eab308 #ca8a04 #a16207 #854d0e #713f12 #422006',
+		lime: '#f7fee7 #ecfccb #d9f99d #bef264 #a3e635 #84cc16 #65a30d #4d7c0f #3f6212 #365314 #1a2e05',
+		green: '#f0fdf4 #dcfce7 #bbf7d0 #86efac #4ade80 #22c55e #16a34a #15803d #166534 #14532d #052e16',
+		emerald: '#ecfdf5 #d1fae5 #a7f3d0 #6ee7b7 #34d399 #10b981 #059669 #047857 #065f46 #064e3b #022c22',
+		teal: '#f0fdfa #ccfbf1 #99f6e4 #5eead4 #2dd4bf #14b8a6 #0d9488 #0f766e #115e59 #134e4a #042f2e',
+		cyan: '#ecfeff #cffafe #a5f3fc #67e8f9 #22d3ee #06b6d4 #0891b2 #0e7490 #155e75 #164e63 #083344',
+		sky: '#f0f9ff #e0f2fe #bae6fd #7dd3fc #38bdf8 #0ea5e9 #0284c7 #0369a1 #075985 #0c4a6e #082f49',
+		blue: '#eff6ff #dbeafe #bfdbfe #93c5fd #60a5fa #3b82f6 #2563eb #1d4ed8 #1e40af #1e3a8a #172554',
+		indigo: '#eef2ff #e0e7ff #c7d2fe #a5b4fc #818cf8 #6366f1 #4f46e5 #4338ca #3730a3 #312e81 #1e1b4b',
+		violet: '#f5f3ff #ede9fe #ddd6fe #c4b5fd #a78bfa #8b5cf6 #7c3aed #6d28d9 #5b21b6 #4c1d95 #2e1065',
+		purple: '#faf5ff #f3e8ff #e9d5ff #d8b4fe #c084fc #a855f7 #9333ea #7e22ce #6b21a8 #581c87 #3b0764',
+		fuchsia: '#fdf4ff #fae8ff #f5d0fe #f0abfc #e879f9 #d946ef #c026d3 #a21caf #86198f #701a75 #4a044e',
+		pink: '#fdf2f8 #fce7f3 #fbcfe8 #f9a8d4 #f472b6 #ec4899 #db2777 #be185d #9d174d #831843 #500724',
+		rose: '#fff1f2 #ffe4e6 #fecdd3 #fda4af #fb7185 #f43f5e #e11d48 #be123c #9f1239 #881337 #4c0519'
+	};
+	private static readonly FONT_SIZES: Record<string, string> = {
+		xs: '0.75rem', sm: '0.875rem', base: '1rem', lg: '1.125rem', xl: '1.25rem', '2xl': '1.5rem', '3xl': '1.875rem',
+		'4xl': '2.25rem', '5xl': '3rem', '6xl': '3.75rem', '7xl': '4.5rem', '8xl': '6rem', '9xl': '8rem'
+	};
+	private static readonly SCREENS: Record<string, string> = { sm: '640px', md: '768px', lg: '1024px', xl: '1280px', '2xl': '1536px' };
+	// Nesting limit when following constants that refer to each other in a config file
+	private static readonly MAX_EVALUATION_DEPTH = 32;
+	// Configs by path, reread when the file changes
+	private static readonly configs = new Map<string, { modified: number; theme: TailwindTheme }>();
+	private static defaultTheme: TailwindTheme | null = null;
+
+	private constructor(
+		// Color names as used in class names, e.g. "gray-400" or "brand" for a DEFAULT shade
+		readonly colors: Map<string, string>,
+		readonly fontSizes: Map<string, string>,
+		// Minimum widths of the responsive variants
+		readonly screens: Map<string, string>,
+		readonly prefix: string,
+		// Selector that turns on dark: variants; null when they follow prefers-color-scheme
+		readonly darkSelector: string | null
+	) { }
+
+	/**
+	 * The default theme, used for projects that depend on Tailwind without a config file
+	 */
+	static getDefault(): TailwindTheme {
+		if (!this.defaultTheme) {
+			this.defaultTheme = this.fromConfig({});
+		}
+		return this.defaultTheme;
+	}
+
+	/**
+	 * Theme of the Tailwind project a file belongs to: from the nearest tailwind.config, or the
+	 * default theme when a package.json above the file depends on tailwindcss; null otherwise
+	 */
+	static forFile(fileName: string): TailwindTheme | null {
+		for (let directory = path.dirname(path.resolve(fileName)); ; directory = path.dirname(directory)) {
+			const config = this.CONFIG_FILES.map(name => path.join(directory, name)).find(candidate => fs.existsSync(candidate));
+			if (config) {
+				return this.loadConfig(config);
+			}
+			if (this.dependsOnTailwind(path.join(directory, 'package.json'))) {
+				return this.getDefault();
+			}
+			if (path.dirname(directory) === directory) {
+				return null;
+			}
+		}
+	}
+
+	/**
+	 * Read a config without running it: the exported object literal is evaluated as far as it
+	 * consists of literals, constants and the tailwindcss/colors palette
+	 */
+	private static loadConfig(fileName: string): TailwindTheme {
+		try {
+			const modified = fs.statSync(fileName).mtimeMs;
+			const cached = this.configs.get(fileName);
+			if (cached && cached.modified === modified) {
+				return cached.theme;
+			}
+			const source = ts.createSourceFile(fileName, fs.readFileSync(fileName, 'utf8'), ts.ScriptTarget.Latest, true);
+			const config = this.evaluateConfig(source);
+			const theme = this.fromConfig(this.isObject(config) ? config : {});
+			this.configs.set(fileName, { modified: modified, theme: theme });
+			return theme;
+		} catch (error) {
+			console.error(`Could not read Tailwind config ${fileName}: ${error instanceof Error ? error.message : error}`);
+			return this.getDefault();
+		}
+	}
+
+	private static dependsOnTailwind(fileName: string): boolean {
+		if (!fs.existsSync(fileName)) {
+			return false;
+		}
+		try {
+			const manifest = JSON.parse(fs.readFileSync(fileName, 'utf8'));
+			return ['dependencies', 'devDependencies', 'peerDependencies'].some(field => manifest[field]?.tailwindcss !== undefined);
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Merge a config's theme and theme.extend over the defaults
+	 */
+	private static fromConfig(config: Record<string, unknown>): TailwindTheme {
+		const theme = this.isObject(config.theme) ? config.theme : {};
+		const extend = this.isObject(theme.extend) ? theme.extend : {};
+		const section = (name: string, defaults: Record<string, unknown>) =>
+			this.merge(this.isObject(theme[name]) ? theme[name] as Record<string, unknown> : defaults, this.isObject(extend[name]) ? extend[name] as Record<string, unknown> : {});
+
+		const colors = new Map<string, string>();
+		this.flattenColors(section('colors', this.getDefaultColors()), '', colors);
+
+		const fontSizes = new Map<string, string>();
+		Object.entries(section('fontSize', this.FONT_SIZES)).forEach(([name, value]) => {
+			const size = Array.isArray(value) ? value[0] : value;
+			if (typeof size === 'string') {
+				fontSizes.set(name, size);
+			}
+		});
+
+		const screens = new Map<string, string>();
+		Object.entries(section('screens', this.SCREENS)).forEach(([name, value]) => {
+			const width = this.isObject(value) ? value.min : value;
+			if (typeof width === 'string') {
+				screens.set(name, width);
+			}
+		});
+
+		const darkMode = Array.isArray(config.darkMode) ? config.darkMode : [config.darkMode];
+		const darkSelector = ['class', 'selector'].includes(darkMode[0]) ? (typeof darkMode[1] === 'string' ? darkMode[1] : '.dark') : null;
+		return new TailwindTheme(colors, fontSizes, screens, typeof config.prefix === 'string' ? config.prefix : '', darkSelector);
+	}
+
+	/**
+	 * The tailwindcss/colors palette with the keywords Tailwind adds to it
+	 */
+	private static getDefaultColors(): Record<string, unknown> {
+		const colors: Record<string, unknown> = { inherit: 'inherit', current: 'currentColor', transparent: 'transparent', black: '#000', white: '#fff' };
+		Object.entries(this.PALETTE).forEach(([name, shades]) => {
+			const values = shades.split(' ');
+			colors[name] = Object.fromEntries(this.SHADES.map((shade, index) => [shade, values[index]]));
+		});
+		return colors;
+	}
+
+	/**
+	 * Turn nested color objects into class name parts, e.g. { brand: { DEFAULT, light } } into
+	 * "brand" and "brand-light"; opacity placeholders become fully opaque
+	 */
+	private static flattenColors(colors: Record<string, unknown>, prefix: string, result: Map<string, string>): void {
+		Object.entries(colors).forEach(([name, value]) => {
+			const key = name === 'DEFAULT' ? prefix.replace(/-$/, '') : prefix + name;
+			if (typeof value === 'string') {
+				result.set(key, value.replace(/<alpha-value>/g, '1'));
+			} else if (this.isObject(value)) {
+				this.flattenColors(value, `${key}-`, result);
+			}
+		});
+	}
+
+	/**
+	 * theme.extend values merged into a theme section, one level deep as Tailwind does for colors
+	 */
+	private static merge(base: Record<string, unknown>, extension: Record<string, unknown>): Record<string, unknown> {
+		const result = { ...base };
+		Object.entries(extension).forEach(([name, value]) => {
+			const existing = result[name];
+			result[name] = this.isObject(existing) && this.isObject(value) ? { ...existing, ...value } : value;
+		});
+		return result;
+	}
+
+	/**
+	 * Value of module.exports or the default export
+	 */
+	private static evaluateConfig(source: ts.SourceFile): unknown {
+		const constants = new Map<string, ts.Expression | 'palette'>();
+		let exported: ts.Expression | null = null;
+
+		source.statements.forEach(statement => {
+			if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier) &&
+				statement.moduleSpecifier.text === 'tailwindcss/colors' && statement.importClause) {
+				const { name, namedBindings } = statement.importClause;
+				if (name) {
+					constants.set(name.text, 'palette');
+				}
+				if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+					constants.set(namedBindings.name.text, 'palette');
+				}
+			} else if (ts.isVariableStatement(statement)) {
+				statement.declarationList.declarations.forEach(declaration => {
+					if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+						constants.set(declaration.name.text, declaration.initializer);
+					}
+				});
+			} else if (ts.isExportAssignment(statement)) {
+				exported = statement.expression;
+			} else if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression) &&
+				statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+				statement.expression.left.getText(source).replace(/\s/g, '') === 'module.exports') {
+				exported = statement.expression.right;
+			}
+		});
+
+		return exported ? this.evaluate(exported, constants, 0) : undefined;
+	}
+
+	/**
+	 * Value of an expression made of literals, object and array literals, constants and member
+	 * access; undefined for anything that would need the code to run
+	 */
+	private static evaluate(node: ts.Expression, constants: Map<string, ts.Expression | 'palette'>, depth: number): unknown {
+		if (depth > this.MAX_EVALUATION_DEPTH) {
+			return undefined;
+		}
+		const evaluate = (expression: ts.Expression) => this.evaluate(expression, constants, depth + 1);
+
+		if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+			return node.text;
+		}
+		if (ts.isNumericLiteral(node)) {
+			return Number(node.text);
+		}
+		if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isTypeAssertionExpression(node)) {
+			return evaluate(node.expression);
+		}
+		if (ts.isIdentifier(node)) {
+			const constant = constants.get(node.text);
+			return constant === 'palette' ? this.getDefaultColors() : constant ? evaluate(constant) : undefined;
+		}
+		if (ts.isArrayLiteralExpression(node)) {
+			return node.elements.map(element => evaluate(element));
+		}
+		if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+			const target = evaluate(node.expression);
+			const key = ts.isPropertyAccessExpression(node) ? node.name.text : evaluate(node.argumentExpression);
+			return this.isObject(target) && ['string', 'number'].includes(typeof key) ? target[String(key)] : undefined;
+		}
+		if (ts.isCallExpression(node)) {
+			// require('tailwindcss/colors'), or defineConfig({ ... }) and similar wrappers
+			const [argument] = node.arguments;
+			if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+				return argument && ts.isStringLiteral(argument) && argument.text === 'tailwindcss/colors' ? this.getDefaultColors() : undefined;
+			}
+			return argument && ts.isObjectLiteralExpression(argument) ? evaluate(argument) : undefined;
+		}
+		if (ts.isObjectLiteralExpression(node)) {
+			const result: Record<string, unknown> = {};
+			node.properties.forEach(property => {
+				if (ts.isSpreadAssignment(property)) {
+					const spread = evaluate(property.expression);
+					if (this.isObject(spread)) {
+						Object.assign(result, spread);
+					}
+				} else if (ts.isShorthandPropertyAssignment(property)) {
+					result[property.name.text] = evaluate(property.name);
+				} else if (ts.isPropertyAssignment(property) &&
+					(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) || ts.isNumericLiteral(property.name))) {
+					result[property.name.text] = evaluate(property.initializer);
+				}
+			});
+			return result;
+		}
+		return undefined;
+	}
+
+	private static isObject(value: unknown): value is Record<string, unknown> {
+		return typeof value === 'object' && value !== null && !Array.isArray(value);
+	}
+}
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { AccessibleName } from '../accessibleName';
+import { AriaLabelRoleChecker } from '../ariaLabelRoleChecker';
+import { HtmlParser } from '../htmlParser';
+import { JsxParser } from '../jsxParser';
+import { LabelNameConsistencyChecker } from '../labelNameConsistencyChecker';
+import { SemanticHtmlChecker } from '../semanticHtmlChecker';
+
+suite('AccessibleName Test Suite', () => {
+	const nameOf = (html: string, id = 'test') => {
+		const document = HtmlParser.parse(html);
+		return AccessibleName.compute(document.getElementById(id)!, document);
+	};
+
+	test('Should follow the precedence of aria-labelledby, aria-label, native labels and title', () => {
+		assert.deepStrictEqual(nameOf('<span id="a">Apply</span><button id="test" aria-labelledby="a" aria-label="Go">Save</button>'),
+			{ name: 'Apply', source: 'aria-labelledby', unknown: false });
+		assert.strictEqual(nameOf('<input id="test" type="button" value="Go" aria-label="Start">').name, 'Start');
+		assert.deepStrictEqual(nameOf('<label for="test">Email</label><input id="test" title="Address" placeholder="you@example.com">'),
+			{ name: 'Email', source: 'label', unknown: false });
+		assert.strictEqual(nameOf('<input id="test" title="Address" placeholder="you@example.com">').source, 'title');
+		assert.strictEqual(nameOf('<input id="test" placeholder="you@example.com">').source, 'placeholder');
+		assert.deepStrictEqual(nameOf('<input id="test" type="submit">'), { name: 'Submit', source: 'default', unknown: false });
+		assert.strictEqual(nameOf('<input id="test" type="image" src="go.png">').name, 'Submit Query');
+		assert.strictEqual(nameOf('<button id="test" aria-label="  ">Close</button>').name, 'Close');
+	});
+
+	test('Should compute the accname specification examples', () => {
+		// Self-reference and a missing id in aria-labelledby
+		assert.strictEqual(nameOf('<button id="test" aria-labelledby="test file missing">Delete</button><span id="file">file.txt</span>').name,
+			'Delete file.txt');
+		// Controls embedded in a label contribute their value
+		assert.strictEqual(nameOf(
+			'<label for="test">Flash the screen <select><option>1</option><option selected>2</option></select> times</label><input id="test" type="checkbox">'
+		).name, 'Flash the screen 2 times');
+		assert.strictEqual(nameOf('<label>Flash <input id="test" type="checkbox"> <input type="text" value="3"> times</label>').name, 'Flash 3 times');
+		// aria-labelledby is not followed from a referenced element
+		assert.strictEqual(nameOf('<span id="a" aria-labelledby="b">A</span><span id="b">B</span><div id="test" role="group" aria-labelledby="a"></div>').name, 'A');
+	});
+
+	test('Should leave out hidden content unless it is referenced directly', () => {
+		assert.strictEqual(nameOf('<button id="test">Save <span aria-hidden="true">★</span><span hidden>draft</span><span style="display: none">x</span></button>').name, 'Save');
+		assert.strictEqual(nameOf('<span id="tip" hidden>Close <b>dialog</b></span><button id="test" aria-labelledby="tip">×</button>').name, 'Close dialog');
+		assert.strictEqual(nameOf('<div hidden><span id="tip">Hidden tip</span></div><button id="test" aria-labelledby="tip"></button>').name, 'Hidden tip');
+	});
+
+	test('Should take names from content only for roles that allow it', () => {
+		assert.strictEqual(nameOf('<a id="test" href="/"><img src="home.png" alt="Home"> page</a>').name, 'Home page');
+		assert.strictEqual(nameOf('<a id="test" href="/"><div>Read</div><div>more</div></a>').name, 'Read more');
+		assert.strictEqual(nameOf('<button id="test">Sub<b>mit</b></button>').name, 'Submit');
+		assert.deepStrictEqual(nameOf('<nav id="test">Menu</nav>'), { name: '', source: null, unknown: false });
+		assert.strictEqual(nameOf('<div id="test" role="tab">Settings</div>').name, 'Settings');
+	});
+
+	test('Should name fieldsets, tables, figures and SVG from their captions', () => {
+		assert.strictEqual(nameOf('<fieldset id="test"><legend>Shipping <em>address</em></legend><input></fieldset>').source, 'legend');
+		assert.strictEqual(nameOf('<table id="test"><caption>Prices</caption><tr><td>1</td></tr></table>').name, 'Prices');
+		assert.strictEqual(nameOf('<figure id="test"><img src="a.png" alt=""><figcaption>Sales by month</figcaption></figure>').name, 'Sales by month');
+		assert.strictEqual(nameOf('<svg id="test"><title>Logo</title></svg>').name, 'Logo');
+		assert.deepStrictEqual(nameOf('<img id="test" src="spacer.gif" alt="">'), { name: '', source: 'alt', unknown: false });
+	});
+
+	test('Should compute descriptions', () => {
+		const document = HtmlParser.parse('<p id="hint">At least <b>8</b> characters</p><input id="password" type="password" aria-describedby="hint" title="Password"><button id="save" title="Save changes">Save</button>');
+		assert.strictEqual(AccessibleName.computeDescription(document.getElementById('password')!, document), 'At least 8 characters');
+		assert.strictEqual(AccessibleName.computeDescription(document.getElementById('save')!, document), 'Save changes');
+	});
+
+	test('Should share one name computation between the name rules', () => {
+		const document = HtmlParser.parse([
+			'<button aria-labelledby="missing"></button>',
+			'<button><span aria-hidden="true">×</span></button>',
+			'<a href="/"><img src="home.png" alt="Home"></a>',
+			'<label>Size <select><option>S</option></select></label>',
+			'<a name="top"></a>'
+		].join('\n'));
+		const missing = (check: (element: typeof document.elements[0]) => unknown) =>
+			document.elements.filter(element => check(element)).map(element => element.tagName);
+
+		assert.deepStrictEqual(missing(element => AriaLabelRoleChecker.checkMissingAriaLabel(element, document)), ['button', 'button']);
+		assert.deepStrictEqual(missing(element => LabelNameConsistencyChecker.checkMissingAccessibleNames(element, document)), ['button', 'button']);
+		assert.deepStrictEqual(missing(element => SemanticHtmlChecker.checkButtonUsage(element, document)), ['button', 'button']);
+		assert.deepStrictEqual(missing(element => LabelNameConsistencyChecker.checkFormElementAccessibleNames(element, document)), []);
+	});
+
+	test('Should treat names that props may supply as unknown', () => {
+		const document = JsxParser.parse('const Buttons = () => <><button {...props} /><button aria-labelledby={labelId} /><button>{label}</button></>;', 'Buttons.tsx');
+		const buttons = document.getElementsByTagName('button');
+
+		assert.deepStrictEqual(buttons.map(button => AccessibleName.compute(button, document).unknown), [true, true, false]);
+		assert.deepStrictEqual(buttons.map(button => AccessibleName.isMissing(button, document)), [false, false, false]);
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AltFixResult, AltTagAutoFixer } from '../altTagAutoFixer';
+import { MarkupParser } from '../markupParser';
+
+suite('AltTagAutoFixer Test Suite', () => {
+	const generateAltText = AltTagAutoFixer.generateAltText;
+
+	setup(() => {
+		AltTagAutoFixer.generateAltText = async (): Promise<AltFixResult> => ({ success: true, altText: 'Hero "Ada" at the coast' });
+	});
+
+	teardown(() => {
+		AltTagAutoFixer.generateAltText = generateAltText;
+	});
+
+	// Just enough of a text document for building the edit
+	const fix = async (text: string, fileName: string) => {
+		const parsed = MarkupParser.parse(text, fileName);
+		const document = {
+			uri: vscode.Uri.file(fileName),
+			fileName: fileName,
+			getText: () => text,
+			positionAt: (offset: number) => {
+				const position = parsed.positionAt(offset);
+				return new vscode.Position(position.line, position.character);
+			}
+		} as unknown as vscode.TextDocument;
+		const edit = await AltTagAutoFixer.fixSpecificImageTag(document, AltTagAutoFixer.findImagesMissingAlt(parsed)[0]);
+		return edit!.entries().flatMap(([, edits]) => edits.map(change => change.newText));
+	};
+
+	test('Should insert alt text with escaped quotes', async () => {
+		assert.deepStrictEqual(await fix('<img src="hero.png">', '/site/index.html'), [' alt="Hero &quot;Ada&quot; at the coast"']);
+	});
+
+	test('Should keep the string of a double-quoted inline template valid', async () => {
+		const text = [
+			'@Component({',
+			'  selector: \'app-hero\',',
+			'  template: "<img src=\'hero.png\'>"',
+			'})',
+			'export class HeroComponent {}'
+		].join('\n');
+
+		assert.deepStrictEqual(await fix(text, '/src/app/hero.component.ts'), [' alt=\'Hero &quot;Ada&quot; at the coast\'']);
+	});
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { AngularParser } from '../angularParser';
+
+suite('AngularParser Test Suite', () => {
+	const ruleIds = (fileName: string, text: string) => AccessibilityEngine.check(fileName, text).issues.map(issue => issue.ruleId);
+
+	test('Should treat attribute and property bindings as present', () => {
+		const unlabelled = ruleIds('toolbar.component.html', '<button class="close"><i class="icon-x"></i></button>');
+		const labelled = ruleIds('toolbar.component.html', '<button class="close" [attr.aria-label]="closeLabel"><i class="icon-x"></i></button>');
+
+		assert.ok(unlabelled.includes('aria-name-missing'));
+		assert.ok(!labelled.includes('aria-name-missing'));
+		assert.ok(!ruleIds('card.component.html', '<img src="card.png" [alt]="caption">').includes('image-alt'));
+	});
+
+	test('Should map bindings to the attributes they render', () => {
+		const document = AngularParser.parse(
+			'<label [htmlFor]="id" [ariaLabel]="label" [tabIndex]="-1" [attr.aria-hidden]="null" [class.active]="on" (keydown.enter)="open()">',
+			'menu.component.html'
+		);
+		const label = document.getElementsByTagName('label')[0];
+
+		assert.strictEqual(label.getAttribute('for'), 'id');
+		assert.ok(label.getAttributeNode('for')?.dynamic);
+		assert.strictEqual(label.getAttribute('aria-label'), 'label');
+		assert.strictEqual(label.getAttribute('tabindex'), '-1');
+		assert.ok(!label.hasAttribute('aria-hidden'));
+		assert.strictEqual(label.getAttribute('onkeydown'), 'open()');
+		assert.deepStrictEqual(label.attributes.map(attribute => attribute.name), ['for', 'aria-label', 'tabindex', 'onkeydown']);
+	});
+
+	test('Should treat (click) like onclick', () => {
+		const angularIds = ruleIds('menu.component.html', '<div (click)="open()">Open</div>');
+		const htmlIds = ruleIds('menu.html', '<div onclick="open()">Open</div>');
+
+		assert.ok(angularIds.length > 0);
+		assert.deepStrictEqual(angularIds, htmlIds);
+	});
+
+	test('Should render the children of containers and control flow blocks in their place', () => {
+		const text = [
+			'<ul>',
+			'  <ng-container *ngFor="let item of items"><li>{{ item }}</li></ng-container>',
+			'</ul>',
+			'<button type="button">@if (saving) { Saving } @else { Save }</button>'
+		].join('\n');
+		const document = AngularParser.parse(text, 'list.component.html');
+
+		assert.strictEqual(document.getElementsByTagName('li')[0].parent?.tagName, 'ul');
+		assert.strictEqual(document.getElementsByTagName('button')[0].textContent.replace(/\s+/g, ' ').trim(), 'Saving Save');
+		assert.ok(!ruleIds('list.component.html', text).includes('listitem-parent'));
+	});
+
+	test('Should check inline templates at their position in the component file', () => {
+		const text = [
+			'@Component({',
+			'  selector: \'app-hero\',',
+			'  template: `',
+			'    <img src="hero.png">',
+			'  `',
+			'})',
+			'export class HeroComponent {',
+			'  html = \'<img src="other.png">\';',
+			'}'
+		].join('\n');
+		const issues = AccessibilityEngine.check('hero.component.ts', text).issues.filter(issue => issue.ruleId === 'image-alt');
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 3);
+		assert.strictEqual(issues[0].range.start.character, 4);
+	});
+});
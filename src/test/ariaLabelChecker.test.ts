@@ -1,10 +1,12 @@
 import * as assert from 'assert';
 import { AriaLabelRoleChecker } from '../ariaLabelRoleChecker';
+import { HtmlParser } from '../htmlParser';
+import { JsxParser } from '../jsxParser';
 
 suite('AriaLabelChecker Test Suite', () => {
 	test('Should detect missing aria-label on button', () => {
 		const line = '<button onclick="doSomething()">Click me</button>';
-		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(line, 0, '');
+		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(HtmlParser.parse(line));
 		
 		// This should not trigger an issue since the button has visible text content
 		assert.strictEqual(issues.length, 0);
@@ -12,7 +14,7 @@ suite('AriaLabelChecker Test Suite', () => {
 
 	test('Should detect missing aria-label on button without text', () => {
 		const line = '<button onclick="doSomething()"></button>';
-		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(line, 0, '');
+		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].issue, 'Interactive element missing accessible name (aria-label, aria-labelledby, or visible text)');
@@ -21,7 +23,7 @@ suite('AriaLabelChecker Test Suite', () => {
 
 	test('Should detect empty aria-label', () => {
 		const line = '<button aria-label="">Click me</button>';
-		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(line, 0, '');
+		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].issue, 'aria-label attribute has empty or whitespace-only value');
@@ -30,7 +32,7 @@ suite('AriaLabelChecker Test Suite', () => {
 
 	test('Should detect generic aria-label', () => {
 		const line = '<button aria-label="button">Submit</button>';
-		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(line, 0, '');
+		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].issue, 'aria-label contains generic text - use more descriptive labels');
@@ -39,7 +41,7 @@ suite('AriaLabelChecker Test Suite', () => {
 
 	test('Should detect aria-label with placeholder anti-pattern', () => {
 		const line = '<input type="text" aria-label="Enter your name" placeholder="Name">';
-		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(line, 0, '');
+		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].issue, 'Avoid using both aria-label and placeholder - choose one for better UX');
@@ -48,7 +50,7 @@ suite('AriaLabelChecker Test Suite', () => {
 
 	test('Should detect aria-label on decorative element', () => {
 		const line = '<div role="presentation" aria-label="decoration">Decorative content</div>';
-		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(line, 0, '');
+		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].issue, 'aria-label on decorative element - consider using aria-hidden="true" instead');
@@ -58,7 +60,7 @@ suite('AriaLabelChecker Test Suite', () => {
 	test('Should detect very long aria-label', () => {
 		const longLabel = 'a'.repeat(101);
 		const line = `<button aria-label="${longLabel}">Click me</button>`;
-		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(line, 0, '');
+		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].issue, 'aria-label is very long - consider shortening for better user experience');
@@ -67,15 +69,100 @@ suite('AriaLabelChecker Test Suite', () => {
 
 	test('Should not flag valid aria-label', () => {
 		const line = '<button aria-label="Submit the form">Submit</button>';
-		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(line, 0, '');
+		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 0);
 	});
 
 	test('Should not flag aria-label on input with proper labeling', () => {
 		const line = '<input type="text" aria-label="Enter your email address">';
-		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(line, 0, '');
+		const issues = AriaLabelRoleChecker.checkAriaLabelAndRole(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 0);
 	});
+
+	test('Should validate roles and ARIA attributes against WAI-ARIA 1.2', () => {
+		const document = HtmlParser.parse([
+			'<input type="search" role="searchbox" aria-lable="Search">',
+			'<div role="widget" aria-pressed="true"></div>',
+			'<button aria-pressed="maybe" aria-grabbed="false" aria-level="2">Bold</button>',
+			'<div role="doc-chapter graphics-document" aria-busy="true" aria-invalid="true"></div>',
+			'<span role="slider" aria-valuenow="ten" aria-controls="a b"></span>'
+		].join('\n'));
+		const report = (check: (element: typeof document.elements[0]) => unknown) => document.elements
+			.flatMap(element => [check(element)].flat())
+			.filter(issue => issue !== null)
+			.map(issue => issue as { ruleId: string; line: number; issue: string })
+			.map(issue => `${issue.line} ${issue.ruleId}: ${issue.issue}`);
+
+		assert.deepStrictEqual(report(element => AriaLabelRoleChecker.checkInvalidRole(element, document)), []);
+		assert.deepStrictEqual(report(element => AriaLabelRoleChecker.checkAbstractRole(element, document)), [
+			'2 aria-role-abstract: Abstract ARIA role "widget" must not be used - choose a concrete role'
+		]);
+		assert.deepStrictEqual(report(element => AriaLabelRoleChecker.checkAriaAttributes(element, document)), [
+			'1 aria-attribute-valid: Unknown ARIA attribute "aria-lable" - not defined in WAI-ARIA',
+			'2 aria-attribute-allowed: aria-pressed is not supported on role "generic"',
+			'3 aria-attribute-value: Invalid aria-pressed value "maybe" - must be "true", "false", "mixed"',
+			'3 aria-attribute-deprecated: aria-grabbed is deprecated in WAI-ARIA 1.2',
+			'3 aria-attribute-allowed: aria-level is not supported on role "button"',
+			'4 aria-attribute-deprecated: aria-invalid is deprecated on role "doc-chapter" in WAI-ARIA 1.2',
+			'5 aria-attribute-value: Invalid aria-valuenow value "ten" - must be a number'
+		]);
+	});
+
+	test('Should require the states and properties of explicit roles', () => {
+		const document = HtmlParser.parse([
+			'<div role="checkbox" tabindex="0">Remember me</div>',
+			'<input type="checkbox" role="switch">',
+			'<div role="scrollbar" aria-valuenow="0"></div>',
+			'<div role="heading" aria-level="2">Title</div>',
+			'<h2 role="tab">Details</h2>'
+		].join('\n'));
+		const issues = document.elements
+			.map(element => AriaLabelRoleChecker.checkRequiredAriaAttributes(element, document))
+			.filter(issue => issue !== null);
+
+		assert.deepStrictEqual(issues.map(issue => `${issue!.line}: ${issue!.issue}`), [
+			'1: role="checkbox" requires aria-checked',
+			'3: role="scrollbar" requires aria-controls'
+		]);
+	});
+
+	test('Should require owned elements and context roles through the document tree', () => {
+		const document = HtmlParser.parse([
+			'<html><body>',
+			'<div role="tablist"><button>One</button></div>',
+			'<ul role="menu"><li><a role="menuitem" href="/">Open</a></li></ul>',
+			'<div role="listbox" aria-owns="first"><div role="group"><div role="option">B</div></div></div>',
+			'<div role="option" id="first">A</div>',
+			'<div role="menuitem">Orphan</div>',
+			'<div role="list" aria-busy="true"></div>',
+			'<div role="tree"><my-tree-items></my-tree-items></div>',
+			'</body></html>'
+		].join('\n'));
+		const report = (check: (element: typeof document.elements[0]) => { line: number; issue: string } | null) => document.elements
+			.map(check)
+			.filter(issue => issue !== null)
+			.map(issue => `${issue!.line}: ${issue!.issue}`);
+
+		assert.deepStrictEqual(report(element => AriaLabelRoleChecker.checkRequiredOwnedElements(element, document)), [
+			'2: role="tablist" must own elements with role "tab", not "button"'
+		]);
+		assert.deepStrictEqual(report(element => AriaLabelRoleChecker.checkRequiredContextRole(element, document)), [
+			'6: role="menuitem" must be owned by an element with role "group", "menu" or "menubar", not "document"'
+		]);
+	});
+
+	test('Should not require a context for roles at the top of a component', () => {
+		const document = JsxParser.parse([
+			'const Tab = ({ label }) => <div role="tab">{label}</div>;',
+			'const Tabs = ({ tabs }) => <div role="tablist">{tabs.map(tab => <Tab label={tab} />)}</div>;',
+			'const Menu = ({ children }) => <div role="menu">{children}</div>;'
+		].join('\n'), 'Tabs.tsx');
+
+		assert.deepStrictEqual(document.elements.flatMap(element => [
+			AriaLabelRoleChecker.checkRequiredOwnedElements(element, document),
+			AriaLabelRoleChecker.checkRequiredContextRole(element, document)
+		].filter(issue => issue !== null)), []);
+	});
 });
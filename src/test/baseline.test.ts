@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { Baseline } from '../baseline';
+
+suite('Baseline Test Suite', () => {
+	let root: string;
+
+	const createBaseline = (fileName: string, text: string) =>
+		Baseline.create(root, [{ fileName: fileName, text: text, issues: AccessibilityEngine.check(fileName, text).issues }]);
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'marsa11y-baseline-'));
+		Baseline.clearCache();
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('Should hide baselined issues after lines shift', () => {
+		const fileName = path.join(root, 'pages', 'index.html');
+		const baseline = createBaseline(fileName, '<img src="hero.png">');
+		const report = AccessibilityEngine.check(fileName, '<h1>Welcome</h1>\n\n    <img  src="hero.png">', undefined, baseline);
+
+		assert.ok(baseline.entries.every(entry => entry.file === 'pages/index.html'));
+		assert.ok(!report.issues.some(issue => issue.ruleId === 'image-alt'));
+		assert.ok(report.baselined.some(issue => issue.ruleId === 'image-alt' && issue.range.start.line === 2));
+	});
+
+	test('Should report new issues, including new copies of baselined ones', () => {
+		const fileName = path.join(root, 'index.html');
+		const baseline = createBaseline(fileName, '<img src="a.png">');
+		const report = AccessibilityEngine.check(fileName, '<img src="a.png">\n<img src="a.png">\n<img src="b.png">', undefined, baseline);
+
+		assert.deepStrictEqual(report.issues.filter(issue => issue.ruleId === 'image-alt').map(issue => issue.range.start.line), [1, 2]);
+		assert.strictEqual(report.baselined.filter(issue => issue.ruleId === 'image-alt').length, 1);
+	});
+
+	test('Should write and load the baseline file', () => {
+		const fileName = path.join(root, 'index.html');
+		createBaseline(fileName, '<img src="a.png">').write();
+		Baseline.clearCache();
+		const loaded = Baseline.load(root)!;
+
+		assert.ok(loaded.entries.some(entry => entry.ruleId === 'image-alt' && entry.line === 1));
+		assert.deepStrictEqual(loaded.getFiles(), [fileName]);
+		assert.strictEqual(Baseline.load(path.join(root, 'missing')), null);
+	});
+});
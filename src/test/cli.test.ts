@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Cli } from '../cli';
+import { RuleConfigLoader } from '../ruleConfig';
+
+suite('Cli Test Suite', () => {
+	let root: string;
+
+	const write = (relativePath: string, content: string) => {
+		fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+		fs.writeFileSync(path.join(root, relativePath), content);
+	};
+
+	const run = (...args: string[]) => {
+		let stdout = '';
+		let stderr = '';
+		const exitCode = Cli.run(args, root, { write: text => stdout += text }, { write: text => stderr += text });
+		return { exitCode, stdout, stderr };
+	};
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'marsa11y-cli-'));
+		RuleConfigLoader.clearCache();
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('Should print findings as file:line:column and fail on errors', () => {
+		write('site/index.html', '<p>Intro</p>\n  <img src="photo.jpg">');
+		const result = run('site');
+
+		assert.strictEqual(result.exitCode, 1);
+		assert.ok(result.stdout.includes('site/index.html:2:3: error '), result.stdout);
+		assert.ok(result.stdout.includes('[image-alt]'));
+	});
+
+	test('Should expand globs and skip gitignored files', () => {
+		write('.gitignore', 'build/\n');
+		write('pages/a.html', '<img src="a.png" alt="A chart">');
+		write('pages/nested/b.htm', '<img src="b.png" alt="A map">');
+		write('build/c.html', '<img src="c.png">');
+		write('pages/notes.txt', 'not html');
+
+		assert.deepStrictEqual(Cli.findFiles(['**/*.{html,htm}'], root), [
+			path.join(root, 'pages', 'a.html'),
+			path.join(root, 'pages', 'nested', 'b.htm')
+		]);
+		assert.strictEqual(Cli.findFiles(['**/*.html'], root, false).length, 2);
+	});
+
+	test('Should fail when warnings exceed --max-warnings', () => {
+		write('index.html', '<button tabindex="-1">Close</button>');
+		write('.marsa11yrc.json', JSON.stringify({ rules: { 'tabindex-negative': 'MEDIUM', 'tabindex-redundant': 'off' } }));
+
+		assert.strictEqual(run('index.html').exitCode, 0);
+		assert.strictEqual(run('--max-warnings', '0', 'index.html').exitCode, 1);
+		assert.strictEqual(run('--max-warnings=1', 'index.html').exitCode, 0);
+		assert.strictEqual(run('--quiet', '--max-warnings', '0', 'index.html').exitCode, 0);
+	});
+
+	test('Should write SARIF to an output file', () => {
+		write('index.html', '<img src="photo.jpg">');
+		const result = run('--format', 'sarif', '-o', 'report.sarif', 'index.html');
+		const log = JSON.parse(fs.readFileSync(path.join(root, 'report.sarif'), 'utf8'));
+
+		assert.strictEqual(result.exitCode, 1);
+		assert.strictEqual(result.stdout, '');
+		assert.strictEqual(log.version, '2.1.0');
+		assert.ok(log.runs[0].results.some((entry: { ruleId: string }) => entry.ruleId === 'image-alt'));
+	});
+
+	test('Should report usage errors with exit code 2', () => {
+		assert.strictEqual(run('--max-warnings', 'many').exitCode, 2);
+		assert.strictEqual(run('--unknown').exitCode, 2);
+		assert.strictEqual(run('--format', 'xml').exitCode, 2);
+		assert.strictEqual(run('missing/*.html').exitCode, 2);
+	});
+});
@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { CssColor } from '../cssColor';
+
+suite('ColorContrastChecker Test Suite', () => {
+	const contrastIssues = (fileName: string, text: string) => AccessibilityEngine.check(fileName, text).issues
+		.filter(issue => issue.ruleId === 'color-contrast' || issue.ruleId === 'color-contrast-inline');
+
+	test('Should parse hex, functional and named colors', () => {
+		assert.deepStrictEqual(CssColor.parse('#0f08'), { r: 0, g: 255, b: 0, a: 136 / 255 });
+		assert.deepStrictEqual(CssColor.parse('rgb(255 0 0 / 50%)'), { r: 255, g: 0, b: 0, a: 0.5 });
+		assert.deepStrictEqual(CssColor.parse('rgba(0, 0, 255, .25)'), { r: 0, g: 0, b: 255, a: 0.25 });
+		assert.strictEqual(CssColor.toHex(CssColor.parse('hsl(120deg 100% 25%)')!), '#008000');
+		assert.strictEqual(CssColor.toHex(CssColor.parse('RebeccaPurple')!), '#663399');
+		assert.strictEqual(CssColor.parse('var(--text)'), null);
+		assert.strictEqual(CssColor.parse('currentColor'), null);
+	});
+
+	test('Should compute WCAG contrast ratios with alpha compositing', () => {
+		assert.strictEqual(CssColor.getContrastRatio(CssColor.BLACK, CssColor.WHITE), 21);
+		assert.strictEqual(CssColor.getContrastRatio(CssColor.parse('#777')!, CssColor.WHITE).toFixed(2), '4.48');
+		// Half-transparent black on white is mid gray
+		const halfBlack = CssColor.parse('rgba(0, 0, 0, 0.5)')!;
+		assert.deepStrictEqual(CssColor.composite(halfBlack, CssColor.WHITE), { r: 127.5, g: 127.5, b: 127.5, a: 1 });
+		assert.strictEqual(CssColor.getContrastRatio(halfBlack, CssColor.WHITE).toFixed(2), '3.98');
+	});
+
+	test('Should report only failing color pairs with the measured and required ratio', () => {
+		const text = [
+			'.muted { color: #777; background: #fff; }',
+			'.body { color: #595959; background-color: white; }',
+			'.link { color: #777; }',
+			'.hero { color: #777; background: url(hero.jpg) #fff; }'
+		].join('\n');
+		const issues = contrastIssues('theme.css', text);
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 0);
+		assert.strictEqual(issues[0].issue, 'Insufficient color contrast 4.47:1 (#777777 on #ffffff) - normal text requires at least 4.5:1');
+	});
+
+	test('Should apply the large text threshold to large and bold text', () => {
+		const text = [
+			'<style>',
+			'  .title { color: #777; background: #fff; font-size: 1.5rem; }',
+			'  .strong { color: #777; background: #fff; font: bold 14pt sans-serif; }',
+			'  .small-bold { color: #777; background: #fff; font-size: 12px; font-weight: 700; }',
+			'</style>',
+			'<p class="title">Title</p>',
+			'<p class="strong">Strong</p>',
+			'<p class="small-bold">Small print</p>',
+			'<h2 style="color: #888; background-color: #fff">Title</h2>',
+			'<p style="color: #888; background-color: #fff">Body</p>'
+		].join('\n');
+		const issues = contrastIssues('index.html', text);
+
+		assert.deepStrictEqual(issues.map(issue => [issue.ruleId, issue.range.start.line]), [
+			['color-contrast', 7],
+			['color-contrast-inline', 9]
+		]);
+	});
+
+	test('Should check dark mode styles separately and name the failing scheme', () => {
+		const text = [
+			'<style>',
+			'  body { color: #222; background: #fff; }',
+			'  @media (prefers-color-scheme: dark) { body { color: #ddd; background: #111; } .muted { color: #555; } }',
+			'  [data-theme="dark"] .card { background: #333; color: #777; }',
+			'  .hint { color: light-dark(#767676, #8a8a8a); }',
+			'</style>',
+			'<body>',
+			'  <p class="muted">Muted</p>',
+			'  <div class="card"><p>Card</p></div>',
+			'  <p class="hint">Hint</p>',
+			'  <p class="plain">Plain</p>',
+			'</body>'
+		].join('\n');
+		const issues = contrastIssues('theme.html', text);
+
+		assert.deepStrictEqual(issues.map(issue => issue.range.start.line), [7, 8]);
+		assert.ok(issues[0].issue.startsWith('Insufficient color contrast 2.53:1 (#555555 on #111111) in dark mode - '), issues[0].issue);
+		assert.ok(issues[1].issue.startsWith('Insufficient color contrast 2.82:1 (#777777 on #333333) in dark mode - '), issues[1].issue);
+	});
+
+	test('Should check forced colors mode only where forced-color-adjust keeps author colors', () => {
+		const text = [
+			'<style>',
+			'  .badge { color: #fff; background: #0b57d0; }',
+			'  @media (forced-colors: active) { .badge { forced-color-adjust: none; color: GrayText; } .tag { color: GrayText; } }',
+			'</style>',
+			'<span class="badge">New</span>',
+			'<span class="tag">Tag</span>'
+		].join('\n');
+		const issues = contrastIssues('badge.html', text);
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 4);
+		assert.ok(issues[0].issue.includes('(#3ff23f on #0b57d0) in forced colors mode - '), issues[0].issue);
+		assert.ok(issues[0].issue.endsWith('text color from .badge (badge.html:3), background from .badge (badge.html:2)'), issues[0].issue);
+	});
+
+	test('Should name the scheme of stylesheet rules under preference media queries', () => {
+		const text = '@media (prefers-contrast: more) { .note { color: #777; background: #fff; } }';
+
+		assert.ok(contrastIssues('contrast.css', text)[0].issue.includes('(#777777 on #ffffff) with increased contrast - '));
+	});
+
+	test('Should name the dark mode of stylesheet rules under a dark theme selector', () => {
+		const text = [
+			'.card { color: #222; background: #fff; }',
+			'[data-theme="dark"] .card { color: #222; background: #111; }',
+			'.dark .note { color: #333; background: #000; }'
+		].join('\n');
+		const issues = contrastIssues('site.css', text);
+
+		assert.deepStrictEqual(issues.map(issue => issue.range.start.line), [1, 2]);
+		assert.ok(issues[0].issue.includes('(#222222 on #111111) in dark mode - '), issues[0].issue);
+		assert.ok(issues[1].issue.includes('(#333333 on #000000) in dark mode - '), issues[1].issue);
+	});
+
+	test('Should only check forced colors rules of stylesheets that keep author colors', () => {
+		const text = [
+			'@media (forced-colors: active) {',
+			'  .tag { color: #777; background: #fff; }',
+			'  .badge { forced-color-adjust: none; color: #777; background: #fff; }',
+			'}'
+		].join('\n');
+		const issues = contrastIssues('site.css', text);
+
+		assert.deepStrictEqual(issues.map(issue => issue.range.start.line), [2]);
+		assert.ok(issues[0].issue.includes('(#777777 on #ffffff) in forced colors mode - '), issues[0].issue);
+	});
+});
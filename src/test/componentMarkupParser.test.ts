@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { ComponentMarkupParser } from '../componentMarkupParser';
+
+suite('ComponentMarkupParser Test Suite', () => {
+	const ruleIds = (fileName: string, text: string) => AccessibilityEngine.check(fileName, text).issues.map(issue => issue.ruleId);
+
+	test('Should ignore Svelte scripts and styles and keep markup positions', () => {
+		const text = [
+			'<script>',
+			'  const html = \'<img src="inline.png">\';',
+			'</script>',
+			'',
+			'<div class="card">',
+			'  <img src="card.png" on:click={() => open(index > 0)}>',
+			'</div>'
+		].join('\n');
+		const issues = AccessibilityEngine.check('Card.svelte', text).issues.filter(issue => issue.ruleId === 'image-alt');
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 5);
+		assert.strictEqual(issues[0].range.start.character, 2);
+	});
+
+	test('Should understand Svelte directives and expression attributes', () => {
+		const document = ComponentMarkupParser.parse(
+			'<input bind:value={name} class:invalid={!name} on:keydown|preventDefault={submit} tabindex={-1} aria-label="Name of {kind}">\n<img {src} {...rest}>',
+			'Form.svelte'
+		);
+		const [input, image] = document.elements;
+
+		assert.deepStrictEqual(input.attributes.map(attribute => attribute.name), ['value', 'onkeydown', 'tabindex', 'aria-label']);
+		assert.strictEqual(input.getAttribute('onkeydown'), 'submit');
+		assert.strictEqual(input.getAttribute('tabindex'), '-1');
+		assert.ok(input.getAttributeNode('aria-label')?.dynamic);
+		assert.strictEqual(image.getAttribute('src'), 'src');
+		assert.ok(image.mayHaveAttribute('alt'));
+	});
+
+	test('Should treat expression alt text as present and drop block tags from content', () => {
+		const text = '<img src="logo.png" alt={caption}>\n<button>{#if saving}Saving{:else}Save{/if}</button>';
+		const button = ComponentMarkupParser.parse(text, 'Logo.svelte').getElementsByTagName('button')[0];
+
+		assert.ok(!ruleIds('Logo.svelte', text).includes('image-alt'));
+		assert.strictEqual(button.textContent, 'SavingSave');
+	});
+
+	test('Should ignore Astro frontmatter and read elements inside expressions', () => {
+		const text = [
+			'---',
+			'const items = await getItems();',
+			'const html = \'<img src="inline.png">\';',
+			'---',
+			'<ul>',
+			'  {items.map(item => <li><img src={item.image}></li>)}',
+			'</ul>'
+		].join('\n');
+		const document = ComponentMarkupParser.parse(text, 'List.astro');
+		const issues = AccessibilityEngine.check('List.astro', text).issues.filter(issue => issue.ruleId === 'image-alt');
+
+		assert.strictEqual(document.getElementsByTagName('li')[0].parent?.tagName, 'ul');
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 5);
+	});
+});
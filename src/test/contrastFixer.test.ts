@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { ContrastFixer } from '../contrastFixer';
+import { CssColor } from '../cssColor';
+import { MarkupParser } from '../markupParser';
+
+suite('ContrastFixer Test Suite', () => {
+	const fixesAt = (fileName: string, text: string) => {
+		const issue = AccessibilityEngine.check(fileName, text).issues.find(candidate => ContrastFixer.RULE_IDS.includes(candidate.ruleId));
+		assert.ok(issue);
+		const document = MarkupParser.parse(text, fileName);
+		const lines = text.split('\n');
+		const offset = lines.slice(0, issue.range.start.line).reduce((sum, line) => sum + line.length + 1, 0) + issue.range.start.character;
+		return { fixes: ContrastFixer.getFixes(document, fileName, offset), text: text };
+	};
+	const apply = (text: string, fix: { start: number; end: number; newText: string }) =>
+		text.substring(0, fix.start) + fix.newText + text.substring(fix.end);
+
+	test('Should find the nearest color with the same hue that reaches AA and AAA', () => {
+		const orange = CssColor.parse('#ff8800')!;
+		const aa = ContrastFixer.findNearestPassingColor(orange, CssColor.WHITE, 4.5, false)!;
+		const aaa = ContrastFixer.findNearestPassingColor(orange, CssColor.WHITE, 7, false)!;
+
+		assert.ok(CssColor.getContrastRatio(aa, CssColor.WHITE) >= 4.5);
+		assert.ok(CssColor.getContrastRatio(aa, CssColor.WHITE) < 4.7);
+		assert.ok(CssColor.getContrastRatio(aaa, CssColor.WHITE) >= 7);
+		assert.ok(Math.abs(CssColor.toOklch(aa).h - CssColor.toOklch(orange).h) < 3);
+		assert.ok(Math.abs(CssColor.toOklch(aaa).h - CssColor.toOklch(orange).h) < 3);
+	});
+
+	test('Should rewrite the text color or background in a stylesheet rule', () => {
+		const { fixes, text } = fixesAt('theme.css', '.muted { color: #999 !important; background: #fff padding-box; }');
+		const titles = fixes.map(fix => fix.title);
+
+		assert.ok(titles.some(title => /^Change text color to #[0-9a-f]{6} \(4\.\d\d:1, meets AA\)$/.test(title)));
+		assert.ok(titles.some(title => /meets AAA\)$/.test(title)));
+		assert.strictEqual(fixes[0].level, 'AA');
+
+		const textFix = apply(text, fixes.find(fix => fix.title.startsWith('Change text color'))!);
+		assert.match(textFix, /^\.muted \{ color: #[0-9a-f]{6} !important; background: #fff padding-box; \}$/);
+		const backgroundFix = fixes.find(fix => fix.title.startsWith('Change background'));
+		assert.ok(backgroundFix);
+		assert.match(apply(text, backgroundFix), /background: #[0-9a-f]{6} padding-box; \}$/);
+	});
+
+	test('Should rewrite the value inside an inline style attribute', () => {
+		const { fixes, text } = fixesAt('page.html', '<p style="color: #aaa; background-color: #fff">Faint</p>');
+		const fix = fixes.find(candidate => candidate.title.startsWith('Change text color') && candidate.level === 'AA');
+
+		assert.ok(fix);
+		assert.strictEqual(fix.fileName, null);
+		const fixed = apply(text, fix);
+		assert.match(fixed, /^<p style="color: #[0-9a-f]{6}; background-color: #fff">Faint<\/p>$/);
+		assert.deepStrictEqual(AccessibilityEngine.check('page.html', fixed).issues.filter(issue => ContrastFixer.RULE_IDS.includes(issue.ruleId)), []);
+	});
+
+	test('Should change the custom property a var() color comes from', () => {
+		const { fixes, text } = fixesAt('page.html', '<style>main { --muted: #999; } p { color: var(--muted); }</style>\n<main><p>Faint</p></main>');
+		const fix = fixes.find(candidate => candidate.title.startsWith('Change --muted to') && candidate.level === 'AA');
+
+		assert.ok(fix);
+		assert.match(apply(text, fix), /^<style>main \{ --muted: #[0-9a-f]{6}; \} p \{ color: var\(--muted\); \}<\/style>/);
+	});
+
+	test('Should only change the light-dark() color of the failing scheme', () => {
+		const { fixes, text } = fixesAt('page.html', '<style>:root { color-scheme: light dark; } p { color: light-dark(#999, #666); background: #fff; }</style>\n<p>Faint</p>');
+		const light = fixes.find(candidate => candidate.title.startsWith('Change text color') && !candidate.title.includes('dark mode'));
+
+		assert.ok(light);
+		assert.match(apply(text, light), /color: light-dark\(#[0-9a-f]{6}, #666\);/);
+		const dark = fixes.find(candidate => candidate.title.startsWith('Change text color') && candidate.title.includes('dark mode'));
+		assert.ok(dark);
+		assert.match(apply(text, dark), /color: light-dark\(#999, #[0-9a-f]{6}\);/);
+	});
+});
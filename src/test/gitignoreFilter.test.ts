@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitignoreFilter } from '../gitignoreFilter';
+
+suite('GitignoreFilter Test Suite', () => {
+	let root: string;
+
+	const write = (relativePath: string, content: string) => {
+		fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+		fs.writeFileSync(path.join(root, relativePath), content);
+	};
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'marsa11y-gitignore-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('Should ignore files and folders matched at any depth', () => {
+		write('.gitignore', '# build output\ndist/\n*.generated.html\n');
+		const filter = new GitignoreFilter(root);
+
+		assert.ok(filter.isIgnored(path.join(root, 'dist', 'index.html')));
+		assert.ok(filter.isIgnored(path.join(root, 'site', 'dist', 'page.html')));
+		assert.ok(filter.isIgnored(path.join(root, 'site', 'menu.generated.html')));
+		assert.ok(!filter.isIgnored(path.join(root, 'site', 'index.html')));
+	});
+
+	test('Should anchor patterns that contain a slash', () => {
+		write('.gitignore', '/vendor\ndocs/*.html\n');
+		const filter = new GitignoreFilter(root);
+
+		assert.ok(filter.isIgnored(path.join(root, 'vendor', 'widget.html')));
+		assert.ok(!filter.isIgnored(path.join(root, 'app', 'vendor', 'widget.html')));
+		assert.ok(filter.isIgnored(path.join(root, 'docs', 'intro.html')));
+		assert.ok(!filter.isIgnored(path.join(root, 'docs', 'guide', 'intro.html')));
+	});
+
+	test('Should apply negations and nested .gitignore files', () => {
+		write('.gitignore', '*.html\n!index.html\n');
+		write('legacy/.gitignore', '!*.html\nold.html\n');
+		const filter = new GitignoreFilter(root);
+
+		assert.ok(filter.isIgnored(path.join(root, 'about.html')));
+		assert.ok(!filter.isIgnored(path.join(root, 'index.html')));
+		assert.ok(!filter.isIgnored(path.join(root, 'legacy', 'page.html')));
+		assert.ok(filter.isIgnored(path.join(root, 'legacy', 'old.html')));
+	});
+});
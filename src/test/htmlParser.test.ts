@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { HtmlParser } from '../htmlParser';
+import { ImageChecker } from '../imageChecker';
+
+suite('HtmlParser Test Suite', () => {
+	test('Should parse attributes that span multiple lines', () => {
+		const text = '<img\n  src="logo.png"\n  alt="Company logo">';
+		const document = HtmlParser.parse(text);
+		const image = document.elements[0];
+
+		assert.strictEqual(image.tagName, 'img');
+		assert.strictEqual(image.getAttribute('alt'), 'Company logo');
+		assert.strictEqual(document.positionAt(image.getAttributeNode('alt')!.start).line, 2);
+	});
+
+	test('Should not report missing alt when alt is on the next line', () => {
+		const document = HtmlParser.parse('<img src="logo.png"\n     alt="Company logo">');
+		const issues = ImageChecker.checkImages(document);
+
+		assert.strictEqual(issues.length, 0);
+	});
+
+	test('Should collect text content across lines', () => {
+		const document = HtmlParser.parse('<button>\n  Save\n  changes\n</button>');
+		const button = document.getElementsByTagName('button')[0];
+
+		assert.strictEqual(button.textContent.replace(/\s+/g, ' ').trim(), 'Save changes');
+	});
+
+	test('Should build the element tree with implied end tags', () => {
+		const document = HtmlParser.parse('<ul><li>One<li>Two</ul><p>After');
+		const items = document.getElementsByTagName('li');
+
+		assert.strictEqual(items.length, 2);
+		assert.strictEqual(items[0].parent?.tagName, 'ul');
+		assert.strictEqual(items[1].parent?.tagName, 'ul');
+		assert.strictEqual(document.getElementsByTagName('p')[0].parent, null);
+	});
+
+	test('Should keep script and style content as raw text', () => {
+		const document = HtmlParser.parse('<script>if (a < b) { el.innerHTML = "<img>"; }</script>');
+
+		assert.strictEqual(document.getElementsByTagName('img').length, 0);
+		assert.strictEqual(document.getScripts().length, 1);
+	});
+
+	test('Should report the exact attribute range', () => {
+		const text = '<div>\n  <img src="a.png" alt="">\n</div>';
+		const document = HtmlParser.parse(text);
+		const issues = ImageChecker.checkImages(document);
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].line, 2);
+		assert.strictEqual(issues[0].range.start.character, text.split('\n')[1].indexOf('alt'));
+	});
+
+	test('Should parse style rules with declaration offsets', () => {
+		const text = '<style>\n@media print {\n  a:focus { outline: none; }\n}\n</style>';
+		const document = HtmlParser.parse(text);
+		const rules = document.getStyleRules();
+
+		assert.strictEqual(rules.length, 1);
+		assert.strictEqual(rules[0].selector, 'a:focus');
+		assert.deepStrictEqual(rules[0].conditions, ['@media print']);
+		assert.strictEqual(rules[0].declarations[0].property, 'outline');
+		assert.strictEqual(text.substring(rules[0].declarations[0].start, rules[0].declarations[0].end), 'outline: none');
+	});
+
+	test('Should keep the declarations of a rule around nested blocks', () => {
+		const text = '<style>\n.card {\n  color: #333;\n  &:hover { color: #000; }\n  @media (min-width: 40em) { padding: 2em; }\n  background: #fff;\n}\n</style>';
+		const rules = HtmlParser.parse(text).getStyleRules();
+		const card = rules.find(rule => rule.selector === '.card')!;
+
+		assert.deepStrictEqual(card.declarations.map(declaration => text.substring(declaration.start, declaration.end)), ['color: #333', 'background: #fff']);
+		assert.deepStrictEqual(rules.find(rule => rule.selector === '&:hover')!.declarations.map(declaration => declaration.value), ['#000']);
+	});
+});
@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { AriaLabelRoleChecker } from '../ariaLabelRoleChecker';
+import { HtmlParser } from '../htmlParser';
+import { IdReferenceChecker } from '../idReferenceChecker';
+import { JsxParser } from '../jsxParser';
+import { MarkupParser } from '../markupParser';
+
+suite('IdReferenceChecker Test Suite', () => {
+	test('Should report every missing id in every IDREF attribute', () => {
+		const html = [
+			'<span id="first">First</span>',
+			'<button aria-labelledby="first gone" aria-describedby="hint note">Save</button>',
+			'<button aria-controls="panel menu" aria-owns="first">Open</button>',
+			'<input list="sizes" form="checkout" aria-errormessage="error">',
+			'<table><tr><th id="name">Name</th><td headers="name price">1</td></tr></table>',
+			'<img src="map.png" alt="Map" usemap="#regions">',
+			'<label for="email">Email</label>'
+		].join('\n');
+		const document = HtmlParser.parse(html);
+		const issues = IdReferenceChecker.checkIdReferences(document);
+		const aria = AriaLabelRoleChecker.checkAriaLabelAndRole(document).filter(issue => issue.ruleId.endsWith('-reference'));
+
+		assert.deepStrictEqual(aria.map(issue => issue.issue), [
+			'aria-labelledby references non-existent element with id="gone"',
+			'aria-describedby references non-existent element with id="hint"',
+			'aria-describedby references non-existent element with id="note"'
+		]);
+		assert.deepStrictEqual(issues.map(issue => issue.issue), [
+			'aria-controls references non-existent element with id="panel"',
+			'aria-controls references non-existent element with id="menu"',
+			'list references non-existent element with id="sizes"',
+			'form references non-existent element with id="checkout"',
+			'aria-errormessage references non-existent element with id="error"',
+			'headers references non-existent element with id="price"',
+			'usemap references non-existent <map> named "regions"',
+			'for references non-existent element with id="email"'
+		]);
+		assert.ok(issues.every(issue => issue.ruleId === 'id-reference-missing'));
+		// Each id is located on its own, not the whole attribute
+		assert.deepStrictEqual(issues[1].range, { start: { line: 2, character: 29 }, end: { line: 2, character: 33 } });
+	});
+
+	test('Should only point out references a component leaves to the page', () => {
+		const text = '<><button aria-controls="site-menu">Menu</button><label htmlFor="search">Search</label></>';
+		const issues = AccessibilityEngine.check('Header.tsx', text).issues.filter(issue => issue.ruleId === 'id-reference-missing');
+
+		assert.deepStrictEqual(issues.map(issue => [issue.issue, issue.severity]), [
+			['aria-controls references id="site-menu", which this component does not define - make sure the page renders it', 'LOW'],
+			['for references id="search", which this component does not define - make sure the page renders it', 'LOW']
+		]);
+		assert.deepStrictEqual(AccessibilityEngine.check('header.html', text.replace(/<\/?>/g, '').replace('htmlFor', 'for')).issues
+			.filter(issue => issue.ruleId === 'id-reference-missing')
+			.map(issue => issue.severity), ['HIGH', 'HIGH']);
+	});
+
+	test('Should report duplicate ids with links to the other uses', () => {
+		const html = [
+			'<label for="email">Email</label>',
+			'<input id="email" type="email">',
+			'<input id="email" type="email">',
+			'<p id="note">A</p><p id="note">B</p><p id="note">C</p>'
+		].join('\n');
+		const document = HtmlParser.parse(html);
+		const issues = IdReferenceChecker.checkIdReferences(document).filter(issue => issue.ruleId === 'id-duplicate');
+
+		assert.deepStrictEqual(issues.map(issue => [issue.issue, issue.severity]), [
+			['Duplicate id="email" is also used on line 2 - references to it only reach the first element', 'HIGH'],
+			['Duplicate id="note" is also used on line 4', 'MEDIUM'],
+			['Duplicate id="note" is also used on line 4', 'MEDIUM']
+		]);
+		assert.deepStrictEqual(issues[0].related, [{
+			range: { start: { line: 1, character: 11 }, end: { line: 1, character: 16 } },
+			message: 'First use of id="email"'
+		}]);
+		assert.deepStrictEqual(issues[2].related!.map(related => related.message), ['First use of id="note"', 'Another use of id="note"']);
+	});
+
+	test('Should allow the same id in branches that never render together', () => {
+		const duplicates = (text: string, fileName: string) => IdReferenceChecker.checkIdReferences(MarkupParser.parse(text, fileName))
+			.filter(issue => issue.ruleId === 'id-duplicate')
+			.map(issue => issue.line);
+
+		assert.deepStrictEqual(duplicates([
+			'<template>',
+			'  <p v-if="error" id="status">Failed</p>',
+			'  <p v-else-if="saving" id="status">Saving</p>',
+			'  <template v-else><p id="status">Saved</p></template>',
+			'  <p id="status">Again</p>',
+			'</template>'
+		].join('\n'), 'Status.vue'), [5]);
+		assert.deepStrictEqual(duplicates([
+			'const Status = ({ error, open }) => <div>',
+			'  {error ? <p id="status">Failed</p> : <p id="status">Saved</p>}',
+			'  {open && <ul id="menu"></ul>}',
+			'  {!open && <ul id="menu"></ul>}',
+			'  <ul id="menu"></ul>',
+			'</div>;'
+		].join('\n'), 'Status.tsx'), [5]);
+		assert.deepStrictEqual(duplicates([
+			'@if (error) {',
+			'  <p id="status">Failed</p>',
+			'} @else {',
+			'  <p id="status">Saved</p>',
+			'}',
+			'<p *ngIf="open; else closed" id="panel">Open</p>',
+			'<ng-template #closed><p id="panel">Closed</p></ng-template>',
+			'<p id="panel">Again</p>'
+		].join('\n'), 'status.component.html'), [8]);
+	});
+
+	test('Should flag references to hidden or wrong-type elements', () => {
+		const html = [
+			'<label for="name">Name</label><div id="name" contenteditable="true"></div>',
+			'<input list="options"><select id="options"></select>',
+			'<div role="listbox" tabindex="0" aria-activedescendant="opt"><div role="option" id="opt" hidden>A</div></div>',
+			'<input aria-invalid="true" aria-errormessage="error"><span id="error" hidden>Required</span>',
+			'<img src="a.png" alt="Areas" usemap="#areas"><map name="areas"></map>',
+			'<label for="ok">OK</label><input id="ok">'
+		].join('\n');
+		const document = HtmlParser.parse(html);
+		const issues = IdReferenceChecker.checkIdReferences(document);
+
+		assert.deepStrictEqual(issues.map(issue => issue.issue), [
+			'for references id="name" on a <div>, which is not a labelable form control',
+			'list references id="options" on a <select>, which is not a <datalist>',
+			'aria-activedescendant references id="opt" on an element hidden from assistive technology'
+		]);
+		assert.ok(issues.every(issue => issue.ruleId === 'id-reference-target'));
+		assert.deepStrictEqual(issues[0].related, [{
+			range: { start: { line: 0, character: 35 }, end: { line: 0, character: 44 } },
+			message: 'Referenced <div>'
+		}]);
+	});
+
+	test('Should skip ids and references only known at runtime', () => {
+		const document = JsxParser.parse([
+			'const Field = ({ id }) => <>',
+			'  <label htmlFor={id}>Name</label>',
+			'  <input id={id} aria-describedby={`${id}-hint`} />',
+			'  <input id={id} />',
+			'  <Input id="name" /><label htmlFor="name">Name</label>',
+			'</>;'
+		].join('\n'), 'Field.tsx');
+
+		assert.deepStrictEqual(IdReferenceChecker.checkIdReferences(document), []);
+	});
+});
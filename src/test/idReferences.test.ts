@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { HtmlParser } from '../htmlParser';
+import { IdReferences } from '../idReferences';
+import { JsxParser } from '../jsxParser';
+
+suite('IdReferences Test Suite', () => {
+	const html = [
+		'<h2 id="title">Settings</h2>',
+		'<section aria-labelledby="title intro" aria-controls="title">',
+		'<label for="title">Name</label>',
+		'<img src="a.png" alt="Areas" usemap="#areas"><map name="areas"></map>',
+		'</section>'
+	].join('\n');
+
+	test('Should find the id or reference at a position', () => {
+		const document = HtmlParser.parse(html);
+		const offset = html.indexOf('title intro');
+
+		assert.deepStrictEqual(
+			[offset, offset + 5, offset + 6].map(position => IdReferences.findAt(document, position)?.id),
+			['title', 'title', 'intro']
+		);
+		assert.strictEqual(IdReferences.findAt(document, html.indexOf('"title"') + 1)!.isDefinition, true);
+		assert.strictEqual(IdReferences.findAt(document, html.indexOf('#areas') + 1)!.id, 'areas');
+		assert.strictEqual(IdReferences.findAt(document, html.indexOf('Settings')), null);
+	});
+
+	test('Should list every use of an id for navigation and rename', () => {
+		const document = HtmlParser.parse(html);
+		const occurrences = IdReferences.getOccurrences(document, 'title');
+
+		assert.deepStrictEqual(occurrences.map(occurrence => [occurrence.attribute.name, occurrence.isDefinition]), [
+			['id', true],
+			['aria-labelledby', false],
+			['aria-controls', false],
+			['for', false]
+		]);
+		occurrences.forEach(occurrence => assert.strictEqual(html.substring(occurrence.start, occurrence.end), 'title'));
+		assert.deepStrictEqual(IdReferences.getOccurrences(document, 'areas').map(occurrence => html.substring(occurrence.start - 1, occurrence.end + 1)), ['#areas"', '"areas"']);
+	});
+
+	test('Should tell ids resolved within a component from ones shared with other components', () => {
+		const document = JsxParser.parse([
+			'const Dialog = () => <div role="dialog" aria-labelledby="dialog-title" aria-describedby="dialog-body">',
+			'  <h2 id="dialog-title">Title</h2>',
+			'  <p id="footer-note">Note</p>',
+			'</div>;'
+		].join('\n'), 'Dialog.tsx');
+
+		assert.strictEqual(IdReferences.isSelfContained(document, 'dialog-title'), true);
+		assert.strictEqual(IdReferences.isSelfContained(document, 'dialog-body'), false);
+		assert.strictEqual(IdReferences.isSelfContained(document, 'footer-note'), false);
+		assert.deepStrictEqual(['name', 'first-name', 'two words', '', '#name'].map(id => IdReferences.isValidId(id)), [true, true, false, false, false]);
+	});
+});
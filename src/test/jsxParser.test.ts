@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { JsxParser } from '../jsxParser';
+
+suite('JsxParser Test Suite', () => {
+	const ruleIds = (fileName: string, text: string) => AccessibilityEngine.check(fileName, text).issues.map(issue => issue.ruleId);
+
+	test('Should map React prop names to HTML attributes', () => {
+		const document = JsxParser.parse('const Field = () => <label htmlFor="email" className="field">Email</label>;', 'Field.tsx');
+		const label = document.getElementsByTagName('label')[0];
+
+		assert.strictEqual(label.getAttribute('for'), 'email');
+		assert.strictEqual(label.getAttribute('class'), 'field');
+		assert.strictEqual(label.children.length, 1);
+	});
+
+	test('Should keep element offsets in the component source', () => {
+		const text = 'export function Hero() {\n\treturn <img src={hero} />;\n}';
+		const document = JsxParser.parse(text, 'Hero.jsx');
+		const image = document.getElementsByTagName('img')[0];
+
+		assert.strictEqual(text.substring(image.start, image.end), '<img src={hero} />');
+		assert.ok(image.selfClosing);
+		assert.ok(image.getAttributeNode('src')?.dynamic);
+	});
+
+	test('Should treat expression attributes as present', () => {
+		assert.ok(ruleIds('Card.tsx', 'const Card = ({ title }) => <img src="card.png" alt={title} />;').every(id => id !== 'image-alt'));
+		assert.ok(ruleIds('Card.tsx', 'const Card = () => <img src="card.png" />;').includes('image-alt'));
+	});
+
+	test('Should read literal expressions such as tabIndex={-1}', () => {
+		const document = JsxParser.parse('const Menu = () => <button tabIndex={-1} disabled={false}>Open</button>;', 'Menu.tsx');
+		const button = document.getElementsByTagName('button')[0];
+
+		assert.strictEqual(button.getAttribute('tabindex'), '-1');
+		assert.ok(!button.hasAttribute('disabled'));
+	});
+
+	test('Should not report missing attributes that spread props may provide', () => {
+		const text = 'const Avatar = (props) => <img src="avatar.png" {...props} />;';
+
+		assert.ok(!ruleIds('Avatar.tsx', text).includes('image-alt'));
+		assert.ok(!JsxParser.parse(text, 'Avatar.tsx').getElementsByTagName('img')[0].hasAttribute('alt'));
+	});
+
+	test('Should honour suppression comments written in JSX', () => {
+		const text = [
+			'const Gallery = () => (',
+			'\t<div>',
+			'\t\t{/* marsa11y-disable-next-line image-alt -- decorative thumbnails */}',
+			'\t\t<img src="thumb.png" />',
+			'\t</div>',
+			');'
+		].join('\n');
+		const report = AccessibilityEngine.check('Gallery.tsx', text);
+
+		assert.ok(!report.issues.some(issue => issue.ruleId === 'image-alt'));
+		assert.ok(report.suppressed.some(suppressed => suppressed.issue.ruleId === 'image-alt'));
+	});
+
+	test('Should tell JSX children apart from other code', () => {
+		const text = 'const List = () => (\n\t<ul>\n\t\t<li>One</li>\n\t</ul>\n);';
+
+		assert.ok(JsxParser.isInJsxChildren(text, 'List.tsx', text.indexOf('\t\t<li>')));
+		assert.ok(!JsxParser.isInJsxChildren(text, 'List.tsx', 0));
+	});
+});
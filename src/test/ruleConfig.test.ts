@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HtmlParser } from '../htmlParser';
+import { RuleConfigLoader } from '../ruleConfig';
+import { RuleRegistry } from '../ruleRegistry';
+
+suite('RuleConfig Test Suite', () => {
+	let workspace: string;
+
+	const writeConfig = (folder: string, config: object) => {
+		fs.mkdirSync(path.join(workspace, folder), { recursive: true });
+		fs.writeFileSync(path.join(workspace, folder, RuleConfigLoader.CONFIG_FILE_NAME), JSON.stringify(config));
+	};
+
+	setup(() => {
+		workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'marsa11y-config-'));
+		RuleConfigLoader.clearCache();
+	});
+
+	teardown(() => {
+		fs.rmSync(workspace, { recursive: true, force: true });
+	});
+
+	test('Should disable rules and override severity', () => {
+		writeConfig('.', { rules: { 'image-alt': 'LOW', 'image-alt-empty': 'off' } });
+
+		const configuration = RuleConfigLoader.load(path.join(workspace, 'index.html'), {}, workspace);
+		const document = HtmlParser.parse('<img src="a.png"><img src="b.png" alt="">');
+		const issues = RuleRegistry.runRules(document, 'index.html', configuration);
+
+		assert.strictEqual(issues.filter(issue => issue.ruleId === 'image-alt-empty').length, 0);
+		assert.strictEqual(issues.find(issue => issue.ruleId === 'image-alt')?.severity, 'LOW');
+	});
+
+	test('Should let nested config files override parent ones', () => {
+		writeConfig('.', { rules: { 'text-spacing': 'off', 'image-alt': 'MEDIUM' } });
+		writeConfig('legacy', { rules: { 'text-spacing': { enabled: true, severity: 'LOW' } } });
+
+		const configuration = RuleConfigLoader.load(path.join(workspace, 'legacy', 'page.html'), {}, workspace);
+
+		assert.ok(configuration.isEnabled('text-spacing'));
+		assert.strictEqual(configuration.getSeverity('text-spacing'), 'LOW');
+		assert.strictEqual(configuration.getSeverity('image-alt'), 'MEDIUM');
+	});
+
+	test('Should apply config files on top of settings and stop at root configs', () => {
+		writeConfig('.', { rules: { 'color-styling': 'off' } });
+		writeConfig('app', { root: true, rules: { 'skip-link': 'LOW' } });
+
+		const settings = { 'color-styling': 'off', 'skip-link': 'off' };
+		const configuration = RuleConfigLoader.load(path.join(workspace, 'app', 'index.html'), settings, workspace);
+
+		assert.ok(!configuration.isEnabled('color-styling'));
+		assert.ok(configuration.isEnabled('skip-link'));
+	});
+
+	test('Should pass rule options to checks', () => {
+		writeConfig('.', { rules: { 'link-purpose': { options: { phrases: ['learn more'] } } } });
+
+		const configuration = RuleConfigLoader.load(path.join(workspace, 'index.html'), {}, workspace);
+		const document = HtmlParser.parse('<a href="/a">Learn more</a><a href="/b">Read more</a>');
+		const issues = RuleRegistry.runRules(document, 'index.html', configuration)
+			.filter(issue => issue.ruleId === 'link-purpose');
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.character, 0);
+	});
+
+	test('Should report invalid config files and ignore them', () => {
+		fs.writeFileSync(path.join(workspace, RuleConfigLoader.CONFIG_FILE_NAME), '{ "rules": ');
+
+		const configuration = RuleConfigLoader.load(path.join(workspace, 'index.html'), {}, workspace);
+
+		assert.ok(configuration.isEnabled('image-alt'));
+		assert.ok(RuleConfigLoader.getConfigError(path.join(workspace, RuleConfigLoader.CONFIG_FILE_NAME)));
+	});
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { AriaLabelRoleChecker } from '../ariaLabelRoleChecker';
+import { HtmlParser } from '../htmlParser';
+import { RuleCatalog } from '../ruleCatalog';
+import { RuleDefinition, RuleRegistry } from '../ruleRegistry';
+
+suite('RuleRegistry Test Suite', () => {
+	const customRule: RuleDefinition = {
+		id: 'design-system-icon-button',
+		metadata: {
+			description: 'Icon buttons must use the design system label',
+			wcag: ['4.1.2'],
+			level: 'A',
+			helpUrl: 'https://example.com/rules/icon-button'
+		},
+		fileTypes: ['.html'],
+		check: context => context.document.getElementsByTagName('icon-button').map(element => {
+			const range = context.document.getElementRange(element);
+			return {
+				line: range.start.line + 1,
+				issue: 'Icon button missing label',
+				severity: 'HIGH',
+				range: range
+			};
+		})
+	};
+
+	teardown(() => {
+		RuleRegistry.unregister(customRule.id);
+	});
+
+	test('Should register a rule for every built-in rule ID', () => {
+		const registered = RuleRegistry.getRules().map(rule => rule.id);
+
+		RuleCatalog.getRuleIds().forEach(ruleId => {
+			assert.ok(registered.includes(ruleId), `Missing built-in rule ${ruleId}`);
+		});
+	});
+
+	test('Should link built-in rules to their own explanation', () => {
+		assert.strictEqual(RuleCatalog.getMetadata('image-alt').helpUrl, 'https://www.w3.org/WAI/WCAG22/Techniques/html/H37');
+		assert.strictEqual(RuleCatalog.getMetadata('image-alt-empty').helpUrl, 'https://www.w3.org/WAI/WCAG22/Techniques/html/H67');
+		// Rules without a matching technique fall back to their success criterion
+		assert.strictEqual(RuleCatalog.getMetadata('meta-viewport').helpUrl, 'https://www.w3.org/WAI/WCAG22/Understanding/reflow.html');
+		assert.strictEqual(RuleCatalog.getLevel([]), null);
+		assert.strictEqual(RuleCatalog.getLevel(['1.4.3', '1.4.10']), 'AA');
+		// The primary criterion decides the level, not the lowest one
+		assert.strictEqual(RuleCatalog.getMetadata('section-heading').level, 'AAA');
+	});
+
+	test('Should only run rules that apply to the file type', () => {
+		assert.ok(RuleRegistry.hasRulesForFile('/site/index.HTML'));
+		assert.ok(!RuleRegistry.hasRulesForFile('/site/readme.md'));
+	});
+
+	test('Should run a check that reports several rules once per element', () => {
+		const checkAriaAttributes = AriaLabelRoleChecker.checkAriaAttributes;
+		let calls = 0;
+		AriaLabelRoleChecker.checkAriaAttributes = (element, document) => {
+			calls++;
+			return checkAriaAttributes.call(AriaLabelRoleChecker, element, document);
+		};
+		try {
+			const document = HtmlParser.parse('<div role="button" aria-pressed="maybe" aria-grabbed="true">Toggle</div>');
+			const issues = RuleRegistry.runRules(document, 'index.html').filter(issue => issue.ruleId.startsWith('aria-attribute-'));
+
+			assert.deepStrictEqual(issues.map(issue => issue.ruleId).sort(), ['aria-attribute-deprecated', 'aria-attribute-value']);
+			assert.strictEqual(calls, document.elements.length);
+		} finally {
+			AriaLabelRoleChecker.checkAriaAttributes = checkAriaAttributes;
+		}
+	});
+
+	test('Should run contributed rules and fill in their metadata', () => {
+		RuleRegistry.register(customRule);
+
+		const document = HtmlParser.parse('<icon-button></icon-button>');
+		const issues = RuleRegistry.runRules(document, 'index.html')
+			.filter(issue => issue.ruleId === customRule.id);
+
+		assert.strictEqual(issues.length, 1);
+		assert.deepStrictEqual(issues[0].wcag, ['4.1.2']);
+		assert.strictEqual(issues[0].helpUrl, 'https://example.com/rules/icon-button');
+	});
+
+	test('Should reject duplicate rule IDs', () => {
+		RuleRegistry.register(customRule);
+
+		assert.throws(() => RuleRegistry.register(customRule), /already registered/);
+		assert.throws(() => RuleRegistry.register({ ...customRule, id: 'image-alt' }), /already registered/);
+	});
+
+	test('Should keep reporting when a rule throws', () => {
+		RuleRegistry.register({ ...customRule, check: () => { throw new Error('broken rule'); } });
+
+		const document = HtmlParser.parse('<img src="logo.png">');
+		const issues = RuleRegistry.runRules(document, 'index.html');
+
+		assert.ok(issues.some(issue => issue.ruleId === 'image-alt'));
+	});
+});
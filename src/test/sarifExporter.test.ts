@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { Baseline } from '../baseline';
+import { SarifExporter } from '../sarifExporter';
+
+suite('SarifExporter Test Suite', () => {
+	const root = path.resolve('site');
+
+	test('Should describe each reported rule once with WCAG tags', () => {
+		const text = '<img src="a.png">\n<img src="b.png">';
+		const log = SarifExporter.createLog([{ fileName: path.join(root, 'index.html'), report: AccessibilityEngine.check('index.html', text) }], root);
+		const run = log.runs[0];
+		const rule = run.tool.driver.rules.find(descriptor => descriptor.id === 'image-alt')!;
+
+		assert.strictEqual(log.version, '2.1.0');
+		assert.strictEqual(run.tool.driver.rules.filter(descriptor => descriptor.id === 'image-alt').length, 1);
+		assert.ok(rule.properties.tags.includes('WCAG 1.1.1'));
+		assert.ok(rule.help.text.includes('Non-text Content'));
+		assert.strictEqual(rule.helpUri, 'https://www.w3.org/WAI/WCAG22/Techniques/html/H37');
+		run.results.forEach(result => assert.strictEqual(run.tool.driver.rules[result.ruleIndex].id, result.ruleId));
+	});
+
+	test('Should locate results with one-based regions relative to the base folder', () => {
+		const text = '<p>Intro</p>\n  <img src="photo.jpg">';
+		const log = SarifExporter.createLog([{ fileName: path.join(root, 'pages', 'index.html'), report: AccessibilityEngine.check('index.html', text) }], root);
+		const result = log.runs[0].results.find(entry => entry.ruleId === 'image-alt')!;
+		const location = result.locations[0].physicalLocation;
+
+		assert.strictEqual(result.level, 'error');
+		assert.deepStrictEqual(location.artifactLocation, { uri: 'pages/index.html', uriBaseId: SarifExporter.SOURCE_ROOT });
+		assert.deepStrictEqual(location.region, { startLine: 2, startColumn: 3, endLine: 2, endColumn: 24 });
+	});
+
+	test('Should mark suppressed findings with their justification', () => {
+		const text = '<!-- marsa11y-disable-next-line image-alt-empty -- decorative spacer -->\n<img src="spacer.gif" alt="">';
+		const log = SarifExporter.createLog([{ fileName: 'index.html', report: AccessibilityEngine.check('index.html', text) }]);
+		const result = log.runs[0].results.find(entry => entry.ruleId === 'image-alt-empty')!;
+
+		assert.deepStrictEqual(result.suppressions, [{ kind: 'inSource', justification: 'decorative spacer' }]);
+		assert.strictEqual(result.locations[0].physicalLocation.artifactLocation.uri, 'index.html');
+	});
+
+	test('Should keep baselined findings as unchanged and suppressed', () => {
+		const fileName = path.join(root, 'index.html');
+		const baseline = Baseline.create(root, [{ fileName: fileName, text: '<img src="a.png">', issues: AccessibilityEngine.check(fileName, '<img src="a.png">').issues }]);
+		const report = AccessibilityEngine.check(fileName, '<img src="a.png">\n<img src="b.png">', undefined, baseline);
+		const results = SarifExporter.createLog([{ fileName: fileName, report: report }], root).runs[0].results.filter(entry => entry.ruleId === 'image-alt');
+
+		assert.deepStrictEqual(results.map(result => [result.locations[0].physicalLocation.region.startLine, result.baselineState, result.suppressions]), [
+			[2, 'new', undefined],
+			[1, 'unchanged', [{ kind: 'external', justification: `Recorded in ${Baseline.FILE_NAME}` }]]
+		]);
+	});
+
+	test('Should link results to related locations', () => {
+		const text = '<p id="intro">One</p>\n<p id="intro">Two</p>';
+		const log = SarifExporter.createLog([{ fileName: 'index.html', report: AccessibilityEngine.check('index.html', text) }]);
+		const result = log.runs[0].results.find(entry => entry.ruleId === 'id-duplicate')!;
+
+		assert.deepStrictEqual(result.relatedLocations, [{
+			id: 1,
+			message: { text: 'First use of id="intro"' },
+			physicalLocation: { artifactLocation: { uri: 'index.html' }, region: { startLine: 1, startColumn: 8, endLine: 1, endColumn: 13 } }
+		}]);
+	});
+});
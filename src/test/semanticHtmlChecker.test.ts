@@ -1,10 +1,12 @@
 import * as assert from 'assert';
 import { SemanticHtmlChecker } from '../semanticHtmlChecker';
+import { HtmlParser } from '../htmlParser';
 
 suite('SemanticHtmlChecker Test Suite', () => {
 	test('Should detect missing lang attribute on html tag', () => {
 		const line = '<html>';
-		const result = SemanticHtmlChecker.checkHtmlLangAttribute(line, 0);
+		const document = HtmlParser.parse(line);
+		const result = SemanticHtmlChecker.checkHtmlLangAttribute(document.elements[0], document);
 		
 		assert.notStrictEqual(result, null);
 		assert.strictEqual(result?.issue.includes('Missing lang attribute'), true);
@@ -13,14 +15,16 @@ suite('SemanticHtmlChecker Test Suite', () => {
 
 	test('Should not flag html with lang attribute', () => {
 		const line = '<html lang="en">';
-		const result = SemanticHtmlChecker.checkHtmlLangAttribute(line, 0);
+		const document = HtmlParser.parse(line);
+		const result = SemanticHtmlChecker.checkHtmlLangAttribute(document.elements[0], document);
 		
 		assert.strictEqual(result, null);
 	});
 
 	test('Should detect li without ul/ol', () => {
 		const line = '<li>Item</li>';
-		const result = SemanticHtmlChecker.checkListStructure(line, 0);
+		const document = HtmlParser.parse(line);
+		const result = SemanticHtmlChecker.checkListStructure(document.elements[0], document);
 		
 		assert.notStrictEqual(result, null);
 		assert.strictEqual(result?.issue.includes('List item (li) found without proper list container'), true);
@@ -28,14 +32,16 @@ suite('SemanticHtmlChecker Test Suite', () => {
 
 	test('Should not flag proper list structure', () => {
 		const line = '<ul><li>Item</li></ul>';
-		const result = SemanticHtmlChecker.checkListStructure(line, 0);
+		const document = HtmlParser.parse(line);
+		const result = SemanticHtmlChecker.checkListStructure(document.elements[0], document);
 		
 		assert.strictEqual(result, null);
 	});
 
 	test('Should detect td without table structure', () => {
 		const line = '<td>Cell</td>';
-		const result = SemanticHtmlChecker.checkTableStructure(line, 0);
+		const document = HtmlParser.parse(line);
+		const result = SemanticHtmlChecker.checkTableStructure(document.elements[0], document);
 		
 		assert.notStrictEqual(result, null);
 		assert.strictEqual(result?.issue.includes('Table cell (td) found without proper table structure'), true);
@@ -43,7 +49,8 @@ suite('SemanticHtmlChecker Test Suite', () => {
 
 	test('Should detect missing caption in table', () => {
 		const line = '<table>';
-		const result = SemanticHtmlChecker.checkTableStructure(line, 0);
+		const document = HtmlParser.parse(line);
+		const result = SemanticHtmlChecker.checkTableStructure(document.elements[0], document);
 		
 		assert.notStrictEqual(result, null);
 		assert.strictEqual(result?.issue.includes('Table missing caption or summary'), true);
@@ -51,7 +58,8 @@ suite('SemanticHtmlChecker Test Suite', () => {
 
 	test('Should detect input without label', () => {
 		const line = '<input type="text" />';
-		const result = SemanticHtmlChecker.checkFormStructure(line, 0);
+		const document = HtmlParser.parse(line);
+		const result = SemanticHtmlChecker.checkFormStructure(document.elements[0], document);
 		
 		assert.notStrictEqual(result, null);
 		assert.strictEqual(result?.issue.includes('Form control missing label'), true);
@@ -59,7 +67,8 @@ suite('SemanticHtmlChecker Test Suite', () => {
 
 	test('Should detect fieldset without legend', () => {
 		const line = '<fieldset>';
-		const result = SemanticHtmlChecker.checkFormStructure(line, 0);
+		const document = HtmlParser.parse(line);
+		const result = SemanticHtmlChecker.checkFormStructure(document.elements[0], document);
 		
 		assert.notStrictEqual(result, null);
 		assert.strictEqual(result?.issue.includes('Fieldset missing legend'), true);
@@ -67,7 +76,8 @@ suite('SemanticHtmlChecker Test Suite', () => {
 
 	test('Should detect div with onclick instead of button', () => {
 		const line = '<div onclick="doSomething()">Click me</div>';
-		const result = SemanticHtmlChecker.checkButtonUsage(line, 0);
+		const document = HtmlParser.parse(line);
+		const result = SemanticHtmlChecker.checkButtonUsage(document.elements[0], document);
 		
 		assert.notStrictEqual(result, null);
 		assert.strictEqual(result?.issue.includes('Use semantic button element instead of div/span with onclick'), true);
@@ -75,7 +85,8 @@ suite('SemanticHtmlChecker Test Suite', () => {
 
 	test('Should detect button without accessible text', () => {
 		const line = '<button></button>';
-		const result = SemanticHtmlChecker.checkButtonUsage(line, 0);
+		const document = HtmlParser.parse(line);
+		const result = SemanticHtmlChecker.checkButtonUsage(document.elements[0], document);
 		
 		assert.notStrictEqual(result, null);
 		assert.strictEqual(result?.issue.includes('Button missing accessible text'), true);
@@ -83,7 +94,8 @@ suite('SemanticHtmlChecker Test Suite', () => {
 
 	test('Should detect link without accessible text', () => {
 		const line = '<a href="#"></a>';
-		const result = SemanticHtmlChecker.checkLinkUsage(line, 0);
+		const document = HtmlParser.parse(line);
+		const result = SemanticHtmlChecker.checkLinkUsage(document.elements[0], document);
 		
 		assert.notStrictEqual(result, null);
 		assert.strictEqual(result?.issue.includes('Link missing accessible text'), true);
@@ -91,25 +103,25 @@ suite('SemanticHtmlChecker Test Suite', () => {
 
 	test('Should detect generic link text', () => {
 		const line = '<a href="#">click here</a>';
-		const result = SemanticHtmlChecker.checkLinkUsage(line, 0);
+		const document = HtmlParser.parse(line);
+		const result = SemanticHtmlChecker.checkLinkUsage(document.elements[0], document);
 		
 		assert.notStrictEqual(result, null);
 		assert.strictEqual(result?.issue.includes('Link text is not descriptive'), true);
 	});
 
 	test('Should run all semantic HTML checks', () => {
-		const line = '<html>';
 		const fullText = '<html><body></body></html>';
-		const results = SemanticHtmlChecker.checkSemanticHtml(line, 0, fullText);
+		const results = SemanticHtmlChecker.checkSemanticHtml(HtmlParser.parse(fullText));
 		
 		assert.strictEqual(results.length > 0, true);
 		assert.strictEqual(results.some(r => r.issue.includes('Missing lang attribute')), true);
 	});
 
 	test('Should detect skipped heading levels', () => {
-		const line = '<h3>Heading</h3>';
 		const fullText = '<h1>Main</h1><h3>Sub</h3>';
-		const result = SemanticHtmlChecker.checkHeadingHierarchy(line, 0, fullText);
+		const document = HtmlParser.parse(fullText);
+		const result = SemanticHtmlChecker.checkHeadingHierarchy(document.getElementsByTagName('h3')[0], document);
 		
 		assert.notStrictEqual(result, null);
 		assert.strictEqual(result?.issue.includes('Heading h3 detected'), true);
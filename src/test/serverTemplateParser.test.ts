@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { ServerTemplateParser } from '../serverTemplateParser';
+
+suite('ServerTemplateParser Test Suite', () => {
+	const ruleIds = (fileName: string, text: string) => AccessibilityEngine.check(fileName, text).issues.map(issue => issue.ruleId);
+
+	test('Should treat template output in attributes as present but unknown', () => {
+		const samples: [string, string][] = [
+			['card.hbs', '<img src="{{image}}" alt="{{caption}}">'],
+			['card.njk', '<img src="{{ image }}" alt="{{ caption | e }}">'],
+			['card.html.erb', '<img src="<%= image %>" alt="<%= caption %>">'],
+			['card.php', '<img src="<?= $image ?>" alt="<?php echo $caption; ?>">'],
+			['Card.cshtml', '<img src="@Model.Image" alt="@Model.Caption">']
+		];
+
+		samples.forEach(([fileName, text]) => {
+			const image = ServerTemplateParser.parse(text, fileName).getElementsByTagName('img')[0];
+			assert.ok(image.getAttributeNode('alt')?.dynamic, fileName);
+			assert.ok(!ruleIds(fileName, text).includes('image-alt'), fileName);
+		});
+	});
+
+	test('Should mask statements without moving elements', () => {
+		const text = [
+			'{% for item in items %}',
+			'  {% if item.image %}<img src="{{ item.image }}">{% endif %}',
+			'{% endfor %}'
+		].join('\n');
+		const issues = AccessibilityEngine.check('list.j2', text).issues.filter(issue => issue.ruleId === 'image-alt');
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 1);
+		assert.strictEqual(issues[0].range.start.character, 21);
+	});
+
+	test('Should count template output as content and statements as nothing', () => {
+		const document = ServerTemplateParser.parse('<button>{{#if saving}}{{label}}{{/if}}</button>\n<a href="/">{{!-- logo --}}</a>', 'nav.handlebars');
+		const [button, link] = document.elements;
+
+		assert.strictEqual(button.textContent.trim(), '{{label}}');
+		assert.strictEqual(link.textContent.trim(), '');
+	});
+
+	test('Should treat template output in place of attributes as any attribute', () => {
+		const image = ServerTemplateParser.parse('<img src="a.png" <%= image_attributes %>>', 'hero.erb').getElementsByTagName('img')[0];
+
+		assert.ok(image.mayHaveAttribute('alt'));
+		assert.deepStrictEqual(image.attributes.map(attribute => attribute.name), ['src']);
+	});
+
+	test('Should find Razor code blocks, control flow and implicit expressions', () => {
+		const text = [
+			'@model ProductViewModel',
+			'@{ var title = "<h1>"; }',
+			'@if (Model.Images.Any()) {',
+			'  <img src="@Url.Content(Model.Images[0])">',
+			'} else {',
+			'  <p>Contact us at sales@example.com</p>',
+			'}'
+		].join('\n');
+		const kinds = ServerTemplateParser.findFragments(text, 'Product.cshtml').map(fragment => `${fragment.kind}:${text.substring(fragment.start, fragment.end)}`);
+
+		assert.deepStrictEqual(kinds, [
+			'statement:@model ProductViewModel',
+			'statement:@{ var title = "<h1>"; }',
+			'statement:@if (Model.Images.Any()) {',
+			'output:@Url.Content(Model.Images[0])',
+			'statement:} else {',
+			'statement:}'
+		]);
+		assert.deepStrictEqual(ServerTemplateParser.parse(text, 'Product.cshtml').elements.map(element => element.tagName), ['img', 'p']);
+	});
+
+	test('Should not count elements in if and else branches as duplicates', () => {
+		const uniqueRules = ['id-duplicate', 'landmark-main-unique', 'heading-h1-unique', 'single-h1'];
+		const samples: [string, string][] = [
+			['page.hbs', '{{#if user}}<main id="content"><h1>Hi {{user}}</h1></main>{{else if guest}}<main id="content"><h1>Welcome</h1></main>{{else}}<main id="content"><h1>Sign in</h1></main>{{/if}}'],
+			['page.j2', '{% if user %}<main id="content"><h1>Hi {{ user }}</h1></main>{% elif guest %}<main id="content"><h1>Welcome</h1></main>{% else %}<main id="content"><h1>Sign in</h1></main>{% endif %}'],
+			['Page.cshtml', '@if (Model.User != null) {\n<main id="content"><h1>Hi @Model.User</h1></main>\n} else if (Model.Guest) {\n<main id="content"><h1>Welcome</h1></main>\n} else {\n<main id="content"><h1>Sign in</h1></main>\n}']
+		];
+
+		samples.forEach(([fileName, text]) => {
+			assert.deepStrictEqual(ruleIds(fileName, text).filter(ruleId => uniqueRules.includes(ruleId)), [], fileName);
+			// Markup after the block renders with every branch
+			const duplicated = ruleIds(fileName, `${text}\n<main id="content"><h1>Footer</h1></main>`);
+			uniqueRules.forEach(ruleId => assert.ok(duplicated.includes(ruleId), `${fileName} ${ruleId}`));
+		});
+	});
+});
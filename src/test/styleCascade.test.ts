@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { HtmlParser } from '../htmlParser';
+import { SelectorMatcher } from '../selectorMatcher';
+import { StyleCascade } from '../styleCascade';
+
+suite('StyleCascade Test Suite', () => {
+	let workspace: string;
+
+	const writeFile = (name: string, text: string) => {
+		fs.mkdirSync(path.dirname(path.join(workspace, name)), { recursive: true });
+		fs.writeFileSync(path.join(workspace, name), text);
+		return path.join(workspace, name);
+	};
+	const check = (name: string, text: string) => AccessibilityEngine.check(writeFile(name, text), text).issues;
+
+	setup(() => {
+		workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'marsa11y-cascade-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(workspace, { recursive: true, force: true });
+	});
+
+	test('Should match selectors and compute their specificity', () => {
+		const document = HtmlParser.parse('<nav id="main"><ul><li class="item active"><a href="/" data-kind="Home">Home</a></li><li><a>Blog</a></li></ul></nav>');
+		const [home, blog] = document.getElementsByTagName('a');
+
+		assert.deepStrictEqual(SelectorMatcher.match(home, '#main > ul li.active a[href]'), [1, 2, 3]);
+		assert.deepStrictEqual(SelectorMatcher.match(home, 'a, :where(nav) .item > a, :is(#main) a'), [1, 0, 1]);
+		assert.ok(SelectorMatcher.match(home, 'a[data-kind="home" i]'));
+		assert.ok(SelectorMatcher.match(blog, 'li:last-child a:not([href])'));
+		assert.ok(SelectorMatcher.match(blog, 'li + li > a'));
+		assert.strictEqual(SelectorMatcher.match(home, 'a:hover'), null);
+		assert.ok(SelectorMatcher.match(home, 'a:hover', ['hover']));
+		assert.strictEqual(SelectorMatcher.match(home, 'a::before'), null);
+	});
+
+	test('Should resolve colors from linked stylesheets, specificity and custom properties', () => {
+		writeFile('css/theme.css', [
+			':root { --muted: #999; --surface: var(--paper, white); }',
+			'body { background: var(--surface); }',
+			'.note { color: var(--muted); }',
+			'p.note.strong { color: #333; }'
+		].join('\n'));
+		const issues = check('index.html', [
+			'<html><head><link rel="stylesheet" href="css/theme.css"><link rel="stylesheet" href="https://cdn.example.com/x.css"></head>',
+			'<body>',
+			'  <p class="note">Muted</p>',
+			'  <p class="note strong">Readable</p>',
+			'</body></html>'
+		].join('\n')).filter(issue => issue.ruleId === 'color-contrast');
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 2);
+		assert.strictEqual(issues[0].issue,
+			'Insufficient color contrast 2.84:1 (#999999 on #ffffff) - normal text requires at least 4.5:1; ' +
+			'text color from .note (theme.css:3), background from body (theme.css:2)');
+	});
+
+	test('Should inherit text color, composite translucent backgrounds and ignore print styles', () => {
+		const issues = check('page.html', [
+			'<style>',
+			'  .panel { color: #fff; background: #1a4d8f; }',
+			'  .overlay { background-color: rgba(255, 255, 255, 0.6); }',
+			'  @media print { .panel { background: #000; } }',
+			'</style>',
+			'<div class="panel"><p>Readable</p><div class="overlay"><span>Washed out</span></div></div>'
+		].join('\n')).filter(issue => issue.ruleId === 'color-contrast');
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.character, 55);
+		assert.ok(issues[0].issue.endsWith('text color from .panel (page.html:2), background from .overlay (page.html:3)'));
+	});
+
+	test('Should report unknown contrast over background images instead of guessing', () => {
+		const issues = check('hero.html', [
+			'<style>.hero { color: #fff; background: #000 url(hero.jpg) center; }</style>',
+			'<section class="hero"><h1>Welcome</h1></section>'
+		].join('\n'));
+
+		assert.deepStrictEqual(issues.filter(issue => issue.ruleId.startsWith('color-contrast')).map(issue => issue.ruleId), ['color-contrast-unknown']);
+	});
+
+	test('Should accept focus indicators from other rules and linked stylesheets', () => {
+		writeFile('focus.css', 'a:focus-visible { box-shadow: 0 0 0 3px #005fcc; }');
+		const withReplacement = check('linked.html', '<link rel="stylesheet" href="/focus.css"><style>a:focus { outline: none; }</style><a href="/">Home</a>');
+		const withoutReplacement = check('plain.html', '<style>a { border: 1px solid; } a:focus { outline: none; }</style><a href="/">Home</a>');
+
+		assert.ok(!withReplacement.some(issue => issue.ruleId === 'focus-outline-removed'));
+		assert.ok(withoutReplacement.some(issue => issue.ruleId === 'focus-outline-removed'));
+		assert.deepStrictEqual(StyleCascade.appliesToScreen(['@media print']), false);
+		assert.deepStrictEqual(StyleCascade.appliesToScreen(['@media screen and (min-width: 40em)']), true);
+		assert.deepStrictEqual(StyleCascade.appliesToScreen(['@media (prefers-color-scheme: dark)']), false);
+		assert.deepStrictEqual(StyleCascade.appliesToScreen(['@media (prefers-color-scheme: dark)'], 'dark'), true);
+		assert.deepStrictEqual(StyleCascade.appliesToScreen(['@media (forced-colors: none)'], 'forced-colors'), false);
+	});
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { StylesheetParser } from '../stylesheetParser';
+
+suite('StylesheetParser Test Suite', () => {
+	const ruleIds = (fileName: string, text: string) => AccessibilityEngine.check(fileName, text).issues.map(issue => issue.ruleId);
+
+	test('Should resolve nested selectors and report focus outline removal on its declaration', () => {
+		const text = [
+			'.nav {',
+			'  a {',
+			'    color: $link;',
+			'    &:focus { outline: 0; }',
+			'  }',
+			'}'
+		].join('\n');
+		const rules = StylesheetParser.parse(text, 'nav.scss').getStyleRules();
+		const issues = AccessibilityEngine.check('nav.scss', text).issues.filter(issue => issue.ruleId === 'focus-outline-removed');
+
+		assert.deepStrictEqual(rules.map(rule => rule.selector), ['.nav', '.nav a', '.nav a:focus']);
+		assert.deepStrictEqual(rules[1].declarations.map(declaration => declaration.property), ['color']);
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 3);
+		assert.strictEqual(issues[0].range.start.character, 14);
+		assert.strictEqual(issues[0].range.end.character, 24);
+	});
+
+	test('Should not report outline removal replaced by another focus style', () => {
+		const text = [
+			'button:focus { outline: none; box-shadow: 0 0 0 3px #005fcc; }',
+			'input:focus-visible { outline-style: none; border-color: #005fcc; }'
+		].join('\n');
+
+		assert.ok(!ruleIds('buttons.css', text).includes('focus-outline-removed'));
+	});
+
+	test('Should cover multi-line declarations and !important text spacing', () => {
+		const text = [
+			'.article {',
+			'  line-height: 1.2',
+			'    !important;',
+			'  font: 14px/1.5 Georgia,',
+			'    serif;',
+			'}'
+		].join('\n');
+		const issues = AccessibilityEngine.check('article.less', text).issues;
+		const spacing = issues.find(issue => issue.ruleId === 'text-spacing-important');
+		const fontSize = issues.find(issue => issue.ruleId === 'font-size-fixed');
+
+		assert.ok(spacing);
+		assert.strictEqual(spacing.range.start.line, 1);
+		assert.strictEqual(spacing.range.end.line, 2);
+		assert.strictEqual(spacing.range.end.character, 14);
+		assert.ok(fontSize);
+		assert.strictEqual(fontSize.range.start.line, 3);
+		assert.strictEqual(fontSize.range.end.line, 4);
+	});
+
+	test('Should leave relative font sizes and mixin bodies alone', () => {
+		const text = [
+			'@mixin small { font-size: 12px; }',
+			'body { font-size: 1rem; }',
+			'h1 { font-size: 2em; margin: 0; }'
+		].join('\n');
+
+		assert.ok(!ruleIds('base.scss', text).includes('font-size-fixed'));
+	});
+
+	test('Should honour suppression comments in stylesheets', () => {
+		const text = [
+			'/* marsa11y-disable-next-line font-size-fixed */',
+			'small { font-size: 11px; }',
+			'.legal { font-size: 10pt; }'
+		].join('\n');
+		const result = AccessibilityEngine.check('legal.css', text);
+		const issues = result.issues.filter(issue => issue.ruleId === 'font-size-fixed');
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 2);
+		assert.strictEqual(result.suppressed.length, 1);
+	});
+
+	test('Should report nothing for a stylesheet that does not parse', () => {
+		assert.deepStrictEqual(ruleIds('broken.css', 'a:focus { outline: none'), []);
+	});
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { HtmlParser } from '../htmlParser';
+import { Suppressions } from '../suppressions';
+
+suite('Suppressions Test Suite', () => {
+	const ruleIds = (text: string) =>
+		AccessibilityEngine.check('index.html', text).issues.map(issue => issue.ruleId);
+
+	test('Should parse rule IDs and reason from directives', () => {
+		const document = HtmlParser.parse('<!-- marsa11y-disable-next-line image-alt-empty, tabindex-negative -- spacer image -->');
+		const directives = Suppressions.getDirectives(document);
+
+		assert.strictEqual(directives.length, 1);
+		assert.strictEqual(directives[0].kind, 'disable-next-line');
+		assert.deepStrictEqual(directives[0].ruleIds, ['image-alt-empty', 'tabindex-negative']);
+		assert.strictEqual(directives[0].reason, 'spacer image');
+	});
+
+	test('Should suppress issues on the next line only', () => {
+		const text = [
+			'<!-- marsa11y-disable-next-line image-alt-empty -- decorative spacer -->',
+			'<img src="spacer.gif" alt="">',
+			'<img src="photo.jpg" alt="">'
+		].join('\n');
+		const report = AccessibilityEngine.check('index.html', text);
+
+		assert.strictEqual(report.issues.filter(issue => issue.ruleId === 'image-alt-empty').length, 1);
+		assert.strictEqual(report.suppressed.length, 1);
+		assert.strictEqual(report.suppressed[0].issue.range.start.line, 1);
+		assert.strictEqual(report.suppressed[0].directive.reason, 'decorative spacer');
+	});
+
+	test('Should suppress issues in a multi-line start tag from above the tag', () => {
+		const text = [
+			'<!-- marsa11y-disable-next-line aria-role-valid -- legacy widget -->',
+			'<div class="widget"',
+			'     role="fancy">Widget</div>',
+			'<div class="widget"',
+			'     role="fancy">Other</div>'
+		].join('\n');
+		const report = AccessibilityEngine.check('index.html', text);
+		const document = HtmlParser.parse(text);
+
+		assert.deepStrictEqual(report.suppressed.map(suppressed => suppressed.issue.range.start.line), [2]);
+		assert.deepStrictEqual(report.issues.filter(issue => issue.ruleId === 'aria-role-valid').map(issue => issue.range.start.line), [4]);
+		assert.strictEqual(Suppressions.getAnchorLine(document, { line: 4, character: 5 }), 3);
+		assert.strictEqual(Suppressions.getAnchorLine(document, { line: 2, character: 20 }), 2);
+	});
+
+	test('Should suppress issues between disable and enable comments', () => {
+		const text = [
+			'<!-- marsa11y-disable tabindex-negative -->',
+			'<button tabindex="-1">One</button>',
+			'<button tabindex="-1">Two</button>',
+			'<!-- marsa11y-enable tabindex-negative -->',
+			'<button tabindex="-1">Three</button>'
+		].join('\n');
+		const issues = AccessibilityEngine.check('index.html', text).issues
+			.filter(issue => issue.ruleId === 'tabindex-negative');
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 4);
+	});
+
+	test('Should suppress rules for the whole file', () => {
+		const text = '<img src="a.png" alt="">\n<!-- marsa11y-disable-file image-alt-empty -->\n<img src="b.png" alt="">';
+
+		assert.ok(!ruleIds(text).includes('image-alt-empty'));
+	});
+
+	test('Should report unused suppressions', () => {
+		const text = '<!-- marsa11y-disable-next-line image-alt -- not needed -->\n<img src="a.png" alt="A photo">';
+		const issues = AccessibilityEngine.check('index.html', text).issues
+			.filter(issue => issue.ruleId === Suppressions.UNUSED_SUPPRESSION.ruleId);
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 0);
+		assert.ok(issues[0].issue.includes('"image-alt"'));
+	});
+});
@@ -1,10 +1,11 @@
 import * as assert from 'assert';
 import { TabIndexChecker } from '../tabIndexChecker';
+import { HtmlParser } from '../htmlParser';
 
 suite('TabIndexChecker Tests', () => {
 	test('Should detect negative tabindex values', () => {
 		const line = '<button tabindex="-1">Click me</button>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'HIGH');
@@ -13,7 +14,7 @@ suite('TabIndexChecker Tests', () => {
 
 	test('Should detect missing tabindex on custom interactive elements', () => {
 		const line = '<div role="button" onclick="handleClick()">Custom Button</div>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'HIGH');
@@ -22,7 +23,7 @@ suite('TabIndexChecker Tests', () => {
 
 	test('Should detect tabindex on non-interactive elements', () => {
 		const line = '<div tabindex="0">Non-interactive div</div>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'HIGH');
@@ -31,7 +32,7 @@ suite('TabIndexChecker Tests', () => {
 
 	test('Should detect positive tabindex values', () => {
 		const line = '<button tabindex="5">Button</button>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'MEDIUM');
@@ -40,7 +41,7 @@ suite('TabIndexChecker Tests', () => {
 
 	test('Should detect missing tabindex on clickable elements', () => {
 		const line = '<div onclick="handleClick()">Clickable div</div>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'MEDIUM');
@@ -49,7 +50,7 @@ suite('TabIndexChecker Tests', () => {
 
 	test('Should detect tabindex on disabled elements', () => {
 		const line = '<button disabled tabindex="0">Disabled button</button>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'MEDIUM');
@@ -58,7 +59,7 @@ suite('TabIndexChecker Tests', () => {
 
 	test('Should detect tabindex on hidden elements', () => {
 		const line = '<div hidden tabindex="0">Hidden div</div>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'MEDIUM');
@@ -67,7 +68,7 @@ suite('TabIndexChecker Tests', () => {
 
 	test('Should detect tabindex on elements with aria-hidden', () => {
 		const line = '<div aria-hidden="true" tabindex="0">Hidden div</div>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'HIGH');
@@ -76,7 +77,7 @@ suite('TabIndexChecker Tests', () => {
 
 	test('Should detect tabindex on elements with role="presentation"', () => {
 		const line = '<div role="presentation" tabindex="0">Presentation div</div>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'HIGH');
@@ -85,7 +86,7 @@ suite('TabIndexChecker Tests', () => {
 
 	test('Should detect tabindex on elements with role="none"', () => {
 		const line = '<div role="none" tabindex="0">None role div</div>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'HIGH');
@@ -94,7 +95,7 @@ suite('TabIndexChecker Tests', () => {
 
 	test('Should detect missing tabindex on custom form controls', () => {
 		const line = '<div role="combobox">Custom combobox</div>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'MEDIUM');
@@ -103,7 +104,7 @@ suite('TabIndexChecker Tests', () => {
 
 	test('Should detect tabindex on decorative elements', () => {
 		const line = '<img src="decorative.png" alt="" tabindex="0">';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'LOW');
@@ -112,30 +113,42 @@ suite('TabIndexChecker Tests', () => {
 
 	test('Should detect redundant tabindex on naturally focusable elements', () => {
 		const line = '<button tabindex="0">Natural button</button>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 1);
 		assert.strictEqual(issues[0].severity, 'MEDIUM');
 		assert.ok(issues[0].issue.includes('Redundant tabindex on naturally focusable element'));
 	});
 
+	test('Should report rule ID and WCAG metadata', () => {
+		const line = '<button tabindex="5">Button</button>';
+		const document = HtmlParser.parse(line);
+		const issue = TabIndexChecker.checkPositiveTabIndex(document.elements[0], document);
+		
+		assert.ok(issue);
+		assert.strictEqual(issue.ruleId, 'tabindex-positive');
+		assert.deepStrictEqual(issue.wcag, ['2.4.3']);
+		assert.strictEqual(issue.level, 'A');
+		assert.strictEqual(issue.helpUrl, 'https://www.w3.org/WAI/WCAG22/Techniques/failures/F44');
+	});
+
 	test('Should not flag valid tabindex usage', () => {
 		const line = '<div role="button" tabindex="0">Valid custom button</div>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 0);
 	});
 
 	test('Should not flag naturally focusable elements without tabindex', () => {
 		const line = '<button>Natural button</button>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		assert.strictEqual(issues.length, 0);
 	});
 
 	test('Should detect multiple issues in one line', () => {
 		const line = '<div role="button" onclick="handleClick()" tabindex="5">Multiple issues</div>';
-		const issues = TabIndexChecker.checkTabIndex(line, 0);
+		const issues = TabIndexChecker.checkTabIndex(HtmlParser.parse(line));
 		
 		// Should detect missing tabindex on custom interactive (HIGH) and positive tabindex (MEDIUM)
 		assert.ok(issues.length >= 2);
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { ContrastFixer } from '../contrastFixer';
+import { MarkupParser } from '../markupParser';
+import { TailwindTheme } from '../tailwindTheme';
+
+suite('Tailwind Test Suite', () => {
+	let workspace: string;
+
+	const writeFile = (name: string, text: string) => {
+		fs.mkdirSync(path.dirname(path.join(workspace, name)), { recursive: true });
+		fs.writeFileSync(path.join(workspace, name), text);
+		return path.join(workspace, name);
+	};
+	const check = (name: string, text: string, ruleId: string) =>
+		AccessibilityEngine.check(writeFile(name, text), text).issues.filter(issue => issue.ruleId === ruleId);
+
+	setup(() => {
+		workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'marsa11y-tailwind-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(workspace, { recursive: true, force: true });
+	});
+
+	test('Should resolve default palette classes on the element and its ancestors', () => {
+		writeFile('package.json', JSON.stringify({ devDependencies: { tailwindcss: '^3.4.0' } }));
+		const issues = check('src/Card.tsx', [
+			'export const Card = () => (',
+			'  <div className="bg-white p-4">',
+			'    <p className="text-gray-400">Muted</p>',
+			'    <p className="text-gray-600">Readable</p>',
+			'    <h2 className="text-2xl font-bold text-gray-500">Large</h2>',
+			'  </div>',
+			');'
+		].join('\n'), 'color-contrast');
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 2);
+		assert.strictEqual(issues[0].issue,
+			'Insufficient color contrast 2.53:1 (#9ca3af on #ffffff) - normal text requires at least 4.5:1; ' +
+			'text color from class text-gray-400 (Card.tsx:3), background from class bg-white (Card.tsx:2)');
+	});
+
+	test('Should read colors, prefix and dark mode from the config without running it', () => {
+		writeFile('tailwind.config.js', [
+			"const colors = require('tailwindcss/colors');",
+			'const brand = { DEFAULT: \'#7dd3fc\', dark: \'#075985\' };',
+			'module.exports = {',
+			"  prefix: 'tw-',",
+			"  darkMode: 'class',",
+			'  plugins: [require(\'@tailwindcss/forms\')],',
+			'  theme: { extend: { colors: { brand, surface: colors.slate[50] } } }',
+			'};'
+		].join('\n'));
+		const theme = TailwindTheme.forFile(path.join(workspace, 'index.html'))!;
+		assert.strictEqual(theme.colors.get('brand'), '#7dd3fc');
+		assert.strictEqual(theme.colors.get('surface'), '#f8fafc');
+		assert.strictEqual(theme.colors.get('red-500'), '#ef4444');
+
+		const issues = check('index.html', [
+			'<body class="tw-bg-surface">',
+			'  <p class="tw-text-brand dark:tw-text-brand-dark">Light</p>',
+			'  <p class="tw-text-brand-dark hover:tw-text-brand">Dark</p>',
+			'  <p class="text-brand">Unprefixed</p>',
+			'</body>'
+		].join('\n'), 'color-contrast');
+
+		assert.deepStrictEqual(issues.map(issue => issue.range.start.line), [1]);
+	});
+
+	test('Should report outline-none without a focus-visible ring', () => {
+		writeFile('package.json', JSON.stringify({ dependencies: { tailwindcss: '^3.4.0' } }));
+		const issues = check('form.html', [
+			'<button class="focus:outline-none">Save</button>',
+			'<button class="focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600">Send</button>',
+			'<a href="/" class="outline-none">Home</a>',
+			'<a href="/" class="outline-none focus:border-blue-600 border-2">About</a>',
+			'<div class="outline-none">Panel</div>',
+			'<input class="focus:outline-none ring-2">'
+		].join('\n'), 'focus-outline-removed');
+
+		assert.deepStrictEqual(issues.map(issue => [issue.range.start.line, issue.range.start.character]), [[0, 15], [2, 19], [5, 14]]);
+	});
+
+	test('Should fix a failing class with an arbitrary color, keeping its variants', () => {
+		writeFile('package.json', JSON.stringify({ devDependencies: { tailwindcss: '^3.4.0' } }));
+		const text = '<p class="bg-white md:text-gray-400">Muted</p>';
+		const fileName = writeFile('page.html', text);
+		const fixes = ContrastFixer.getFixes(MarkupParser.parse(text, fileName), fileName, 0);
+		const fix = fixes.find(candidate => candidate.title.startsWith('Change text color') && candidate.level === 'AA');
+
+		assert.ok(fix);
+		const fixed = text.substring(0, fix.start) + fix.newText + text.substring(fix.end);
+		assert.match(fixed, /^<p class="bg-white md:text-\[#[0-9a-f]{6}\]">Muted<\/p>$/);
+		assert.deepStrictEqual(AccessibilityEngine.check(writeFile('page.html', fixed), fixed).issues.filter(issue => issue.ruleId === 'color-contrast'), []);
+	});
+});
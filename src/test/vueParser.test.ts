@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { AccessibilityEngine } from '../accessibilityEngine';
+import { VueParser } from '../vueParser';
+
+suite('VueParser Test Suite', () => {
+	const component = (template: string) => [
+		'<template>',
+		template,
+		'</template>',
+		'',
+		'<script setup>',
+		'const html = \'<img src="inline.png">\';',
+		'</script>',
+		'',
+		'<style scoped>',
+		'.card { color: #777; }',
+		'</style>'
+	].join('\n');
+	const ruleIds = (text: string) => AccessibilityEngine.check('Card.vue', text).issues.map(issue => issue.ruleId);
+
+	test('Should only check the template block, at its position in the file', () => {
+		const issues = AccessibilityEngine.check('Card.vue', component('  <div>\n    <img src="card.png">\n  </div>')).issues
+			.filter(issue => issue.ruleId === 'image-alt');
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].range.start.line, 2);
+		assert.strictEqual(issues[0].range.start.character, 4);
+	});
+
+	test('Should treat bound attributes as present', () => {
+		const document = VueParser.parse(component('<img v-bind:src="url" :alt="caption" :tabindex="-1">'));
+		const image = document.getElementsByTagName('img')[0];
+
+		assert.strictEqual(image.getAttribute('alt'), 'caption');
+		assert.ok(image.getAttributeNode('alt')?.dynamic);
+		assert.strictEqual(image.getAttribute('tabindex'), '-1');
+		assert.ok(!ruleIds(component('<img src="card.png" :alt="caption">')).includes('image-alt'));
+	});
+
+	test('Should treat @click like onclick', () => {
+		const vueIds = ruleIds(component('<div @click.prevent="open">Open</div>'));
+		const htmlIds = AccessibilityEngine.check('card.html', '<div onclick="open()">Open</div>').issues.map(issue => issue.ruleId);
+
+		assert.ok(vueIds.length > 0);
+		assert.deepStrictEqual(vueIds, htmlIds);
+		assert.strictEqual(VueParser.parse(component('<div v-on:keydown.enter="open"></div>')).elements[0].getAttribute('onkeydown'), 'open');
+	});
+
+	test('Should render the children of v-for and v-if templates in their place', () => {
+		const text = component('<ul>\n  <template v-for="item in items" :key="item.id">\n    <li>{{ item.name }}</li>\n  </template>\n</ul>');
+		const item = VueParser.parse(text).getElementsByTagName('li')[0];
+
+		assert.strictEqual(item.parent?.tagName, 'ul');
+		assert.ok(!ruleIds(text).includes('listitem-parent'));
+	});
+
+	test('Should not mistake components for HTML elements', () => {
+		const document = VueParser.parse(component('<Button v-bind="buttonProps" />\n<img src="a.png" v-bind="imageProps">'));
+
+		assert.strictEqual(document.getElementsByTagName('button').length, 0);
+		assert.ok(document.getElementsByTagName('img')[0].mayHaveAttribute('alt'));
+	});
+});
@@ -0,0 +1,154 @@
+import { ConditionalBranch, HtmlAttribute, HtmlDocument, HtmlElement, HtmlNode, HtmlParser } from './htmlParser';
+
+/**
+ * Builds an element tree from the <template> block of Vue single-file components
+ */
+export class VueParser {
+	static readonly FILE_TYPES = ['.vue'];
+
+	// v-bind:alt, :alt and .alt (bound as a DOM property), with optional modifiers
+	private static readonly BIND_PATTERN = /^(?:v-bind:|:|\.)([^.]+)/;
+	// v-on:click and @click, with optional modifiers such as .prevent
+	private static readonly ON_PATTERN = /^(?:v-on:|@)([^.]+)/;
+
+	/**
+	 * Parse a .vue file; everything but the template block and top-level comments is blanked out
+	 * before parsing, so offsets still point into the component file
+	 */
+	static parse(text: string): HtmlDocument {
+		const blocks = HtmlParser.parse(text).children.filter(node =>
+			node.type === 'comment' || (node.type === 'element' && node.tagName === 'template' && this.isHtmlTemplate(node))
+		);
+		let masked = text.replace(/[^\n]/g, ' ');
+		blocks.forEach(block => {
+			masked = masked.substring(0, block.start) + text.substring(block.start, block.end) + masked.substring(block.end);
+		});
+
+		const parsed = HtmlParser.parse(masked);
+		const document = new HtmlDocument(text);
+		parsed.elements.forEach(element => {
+			// Components keep their name so <Button> never matches an HTML tag
+			if (/[A-Z]/.test(text[element.start + 1])) {
+				element.tagName = text.substring(element.start + 1, element.start + 1 + element.tagName.length);
+			}
+			this.convertAttributes(element);
+		});
+
+		this.markConditionals(parsed.children);
+
+		// <template> only groups nodes for v-if, v-for and slots; its children render in its place
+		document.children.push(...this.unwrapTemplates(parsed.children, null));
+		document.elements.push(...parsed.elements.filter(element => element.tagName !== 'template'));
+		document.comments.push(...parsed.comments);
+
+		return document;
+	}
+
+	/**
+	 * Check whether a template block is written in HTML rather than e.g. Pug
+	 */
+	private static isHtmlTemplate(element: HtmlElement): boolean {
+		const lang = element.getAttribute('lang');
+		return lang === null || lang.toLowerCase() === 'html';
+	}
+
+	/**
+	 * Put the elements of each v-if, v-else-if and v-else chain of siblings into branches of one
+	 * conditional
+	 */
+	private static markConditionals(nodes: HtmlNode[]): void {
+		let previous: ConditionalBranch | null = null;
+		nodes.forEach(node => {
+			if (node.type !== 'element') {
+				// Whitespace and comments may separate the elements of a chain
+				if (node.type === 'text' && node.text.trim()) {
+					previous = null;
+				}
+				return;
+			}
+
+			if (node.hasAttribute('v-if')) {
+				node.branch = { group: {}, index: 0, parent: null };
+			} else if (previous && (node.hasAttribute('v-else-if') || node.hasAttribute('v-else'))) {
+				node.branch = { group: previous.group, index: previous.index + 1, parent: null };
+			}
+			previous = node.branch && !node.hasAttribute('v-else') ? node.branch : null;
+			this.markConditionals(node.children);
+		});
+	}
+
+	/**
+	 * Replace <template> elements by their children, which take over its v-if branch
+	 */
+	private static unwrapTemplates(nodes: HtmlNode[], parent: HtmlElement | null): HtmlNode[] {
+		return nodes.flatMap(node => {
+			if (node.type === 'element' && node.tagName === 'template') {
+				const children = this.unwrapTemplates(node.children, parent);
+				children.forEach(child => {
+					if (child.type === 'element') {
+						child.addOuterBranch(node.branch);
+					}
+				});
+				return children;
+			}
+			node.parent = parent;
+			if (node.type === 'element') {
+				node.children = this.unwrapTemplates(node.children, node);
+			}
+			return [node];
+		});
+	}
+
+	/**
+	 * Turn directives into the attributes they render: bound attributes carry their expression
+	 * and are marked dynamic, event listeners become on* handlers, and v-bind="object" may hold
+	 * any attribute
+	 */
+	private static convertAttributes(element: HtmlElement): void {
+		element.attributes = element.attributes.flatMap((attribute): HtmlAttribute[] => {
+			if (attribute.name === 'v-bind') {
+				element.hasSpreadAttributes = true;
+				return [];
+			}
+			if (attribute.name === 'v-text' || attribute.name === 'v-html') {
+				// The content is only known at runtime
+				element.children.push({ type: 'text', text: attribute.value ?? '', start: attribute.valueStart, end: attribute.valueEnd, parent: element });
+				return [attribute];
+			}
+
+			const bind = this.BIND_PATTERN.exec(attribute.rawName);
+			if (bind) {
+				if (bind[1].startsWith('[')) {
+					element.hasSpreadAttributes = true;
+					return [];
+				}
+
+				// Vue leaves out attributes bound to false, null or undefined
+				const expression = (attribute.value ?? '').trim();
+				if (['false', 'null', 'undefined'].includes(expression)) {
+					return [];
+				}
+				const literal = this.getLiteralValue(expression);
+				return [{ ...attribute, name: bind[1].toLowerCase(), value: literal ?? expression, dynamic: literal === null }];
+			}
+
+			const on = this.ON_PATTERN.exec(attribute.rawName);
+			if (on && !on[1].startsWith('[')) {
+				return [{ ...attribute, name: `on${on[1].toLowerCase()}`, value: attribute.value ?? '', dynamic: true }];
+			}
+
+			return [attribute];
+		});
+	}
+
+	/**
+	 * Value of a number, true or string literal expression such as "-1" or "'Logo'", or null for anything else
+	 */
+	private static getLiteralValue(expression: string): string | null {
+		if (/^(-?\d+(\.\d+)?|true)$/.test(expression)) {
+			return expression;
+		}
+		const quoted = /^(['"`])([^'"`$]*)\1$/.exec(expression);
+		return quoted ? quoted[2] : null;
+	}
+}
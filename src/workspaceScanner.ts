@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import { AccessibilityChecker } from './accessibilityChecker';
+import { GitignoreFilter } from './gitignoreFilter';
+import { RuleRegistry } from './ruleRegistry';
+
+export class WorkspaceScanner {
+	/**
+	 * Check every matching file in the workspace, with progress and cancellation
+	 */
+	static async scanWorkspace(diagnosticCollection: vscode.DiagnosticCollection): Promise<void> {
+		if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+			vscode.window.showErrorMessage('Open a folder to scan it for accessibility issues');
+			return;
+		}
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Scanning workspace for accessibility issues',
+			cancellable: true
+		}, async (progress, token) => {
+			const files = await this.findFiles(token);
+			let scannedFiles = 0;
+			let filesWithIssues = 0;
+			let issueCount = 0;
+
+			for (const uri of files) {
+				if (token.isCancellationRequested) {
+					break;
+				}
+
+				progress.report({
+					message: `${scannedFiles + 1}/${files.length} ${vscode.workspace.asRelativePath(uri)}`,
+					increment: 100 / files.length
+				});
+
+				const count = await this.checkFile(uri, diagnosticCollection);
+				issueCount += count;
+				filesWithIssues += count > 0 ? 1 : 0;
+				scannedFiles++;
+			}
+
+			const summary = `Found ${issueCount} accessibility issue(s) in ${filesWithIssues} of ${scannedFiles} file(s)`;
+			if (token.isCancellationRequested) {
+				vscode.window.showWarningMessage(`Scan cancelled after ${scannedFiles} of ${files.length} file(s). ${summary}`);
+			} else {
+				vscode.window.showInformationMessage(summary);
+			}
+		});
+	}
+
+	/**
+	 * Find workspace files matching the include/exclude settings, skipping ignored files
+	 */
+	static async findFiles(token?: vscode.CancellationToken): Promise<vscode.Uri[]> {
+		const files: vscode.Uri[] = [];
+
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			const configuration = vscode.workspace.getConfiguration('marsa11yfix.scan', folder.uri);
+			const include = configuration.get<string>('include', '**/*.{html,htm,jsx,tsx,vue,svelte,astro,component.ts,hbs,handlebars,mustache,njk,nunjucks,jinja,jinja2,j2,erb,cshtml,razor,php,css,scss,less}');
+			const exclude = configuration.get<string>('exclude', '**/node_modules/**');
+			const gitignore = configuration.get<boolean>('respectGitignore', true) ? new GitignoreFilter(folder.uri.fsPath) : null;
+
+			const uris = await vscode.workspace.findFiles(
+				new vscode.RelativePattern(folder, include),
+				exclude ? new vscode.RelativePattern(folder, exclude) : undefined,
+				undefined,
+				token
+			);
+			files.push(...uris.filter(uri => RuleRegistry.hasRulesForFile(uri.fsPath) && !gitignore?.isIgnored(uri.fsPath)));
+		}
+
+		return files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+	}
+
+	/**
+	 * Check whether a file is excluded by .gitignore, when the scan respects it
+	 */
+	static isIgnored(uri: vscode.Uri): boolean {
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		if (!folder || uri.scheme !== 'file' ||
+			!vscode.workspace.getConfiguration('marsa11yfix.scan', folder.uri).get<boolean>('respectGitignore', true)) {
+			return false;
+		}
+		return new GitignoreFilter(folder.uri.fsPath).isIgnored(uri.fsPath);
+	}
+
+	/**
+	 * Check a file, using the open document's text when it has unsaved changes
+	 */
+	static async checkFile(uri: vscode.Uri, diagnosticCollection: vscode.DiagnosticCollection): Promise<number> {
+		const text = await this.readFile(uri);
+		return text === null ? 0 : AccessibilityChecker.checkFile(uri, text, diagnosticCollection);
+	}
+
+	/**
+	 * Read a file's current text, preferring the open document, or null if it cannot be read
+	 */
+	static async readFile(uri: vscode.Uri): Promise<string | null> {
+		const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+		if (openDocument) {
+			return openDocument.getText();
+		}
+
+		try {
+			const content = await vscode.workspace.fs.readFile(uri);
+			return Buffer.from(content).toString('utf8');
+		} catch (error) {
+			console.error(`Could not read ${uri.fsPath} for accessibility scan:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Drop diagnostics for a deleted file, or for every file inside a deleted folder, and
+	 * return the files whose diagnostics were removed
+	 */
+	static removeDiagnostics(uri: vscode.Uri, diagnosticCollection: vscode.DiagnosticCollection): vscode.Uri[] {
+		const folderPrefix = uri.toString().replace(/\/?$/, '/');
+		const removed: vscode.Uri[] = [];
+
+		diagnosticCollection.forEach(fileUri => {
+			if (fileUri.toString() === uri.toString() || fileUri.toString().startsWith(folderPrefix)) {
+				removed.push(fileUri);
+			}
+		});
+		removed.forEach(fileUri => diagnosticCollection.delete(fileUri));
+		return removed;
+	}
+
+	/**
+	 * Move diagnostics along with renamed files and folders by re-checking the files at their new location
+	 */
+	static async handleRename(oldUri: vscode.Uri, newUri: vscode.Uri, diagnosticCollection: vscode.DiagnosticCollection): Promise<void> {
+		const moved = this.removeDiagnostics(oldUri, diagnosticCollection).map(fileUri =>
+			vscode.Uri.parse(newUri.toString() + fileUri.toString().substring(oldUri.toString().length))
+		);
+		if (RuleRegistry.hasRulesForFile(newUri.fsPath) && !moved.some(fileUri => fileUri.toString() === newUri.toString())) {
+			moved.push(newUri);
+		}
+
+		for (const fileUri of moved) {
+			if (!this.isIgnored(fileUri)) {
+				await this.checkFile(fileUri, diagnosticCollection);
+			}
+		}
+	}
+}
@@ -3,6 +3,7 @@
 'use strict';
 
 const path = require('path');
+const webpack = require('webpack');
 
 //@ts-check
 /** @typedef {import('webpack').Configuration} WebpackConfig **/
@@ -45,4 +46,19 @@ const extensionConfig = {
     level: "log", // enables logging required for problem matchers
   },
 };
-module.exports = [ extensionConfig ];
\ No newline at end of file
+
+/** @type WebpackConfig */
+const cliConfig = {
+  ...extensionConfig,
+  entry: './src/cliMain.ts', // the marsa11y command-line runner, which must not depend on vscode
+  output: {
+    path: path.resolve(__dirname, 'dist'),
+    filename: 'cli.js',
+    libraryTarget: 'commonjs2'
+  },
+  externals: {},
+  plugins: [
+    new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true, entryOnly: true })
+  ]
+};
+module.exports = [ extensionConfig, cliConfig ];
\ No newline at end of file